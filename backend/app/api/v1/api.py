@@ -1,8 +1,9 @@
 from fastapi import APIRouter
-from app.api.v1.endpoints import status, trading
+from app.api.v1.endpoints import risk, status, trading
 
 api_router = APIRouter()
 
 # Include routers
 api_router.include_router(status.router, prefix="/status", tags=["status"])
-api_router.include_router(trading.router, prefix="/trading", tags=["trading"])
\ No newline at end of file
+api_router.include_router(trading.router, prefix="/trading", tags=["trading"])
+api_router.include_router(risk.router, prefix="/risk", tags=["risk"])
@@ -0,0 +1,40 @@
+from fastapi import APIRouter
+from typing import Dict, Literal, Optional
+from pydantic import BaseModel, Field
+
+router = APIRouter()
+
+RiskLevel = Literal["AGGRESSIVE", "MODERATE", "CONSERVATIVE"]
+
+class PositionLimits(BaseModel):
+    symbol: str
+    stop_loss: Optional[float] = Field(default=None, gt=0)
+    take_profit: Optional[float] = Field(default=None, gt=0)
+    max_position_size: Optional[float] = Field(default=None, gt=0)  # in units of the asset
+
+class RiskProfile(BaseModel):
+    risk_level: RiskLevel = "MODERATE"
+    limits: Dict[str, PositionLimits] = {}  # keyed by asset id
+
+# The frontend owns the profile and pushes all of it here; the paper broker
+# reads it when orders come in and prices move. Resets with the server.
+profile = RiskProfile()
+
+def get_limits(symbol: str) -> Optional[PositionLimits]:
+    return next((limits for limits in profile.limits.values() if limits.symbol == symbol), None)
+
+@router.get("")
+async def get_risk_profile():
+    """
+    Get the risk level and per-position limits
+    """
+    return profile.model_dump()
+
+@router.put("")
+async def update_risk_profile(update: RiskProfile):
+    """
+    Replace the risk level and per-position limits
+    """
+    global profile
+    profile = update
+    return profile.model_dump()
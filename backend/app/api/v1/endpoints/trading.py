@@ -1,46 +1,292 @@
 from fastapi import APIRouter, Depends, HTTPException
-from typing import List, Dict
+from typing import List, Dict, Literal, Optional
+from pydantic import BaseModel, Field, model_validator
 from app.core.config import get_settings
-from datetime import datetime
+from app.api.v1.endpoints import risk
+from datetime import datetime, timezone
+from uuid import uuid4
 
 router = APIRouter()
 
+OrderType = Literal["market", "limit", "stop", "stop_limit"]
+OrderSide = Literal["buy", "sell"]
+
+class OrderRequest(BaseModel):
+    asset_id: str
+    symbol: str
+    side: OrderSide
+    type: OrderType = "market"
+    quantity: float = Field(gt=0)
+    price: Optional[float] = Field(default=None, gt=0)  # limit price
+    stop_price: Optional[float] = Field(default=None, gt=0)
+    # Last price the client saw. The paper broker has no market feed of its
+    # own, so market orders fill at this price.
+    reference_price: Optional[float] = Field(default=None, gt=0)
+
+    @model_validator(mode="after")
+    def check_prices(self):
+        if self.type in ("limit", "stop_limit") and self.price is None:
+            raise ValueError(f"{self.type} orders need a price")
+        if self.type in ("stop", "stop_limit") and self.stop_price is None:
+            raise ValueError(f"{self.type} orders need a stop_price")
+        if self.type == "market" and self.reference_price is None:
+            raise ValueError("market orders need a reference_price")
+        return self
+
+class OrderAmendment(BaseModel):
+    quantity: Optional[float] = Field(default=None, gt=0)
+    price: Optional[float] = Field(default=None, gt=0)
+    stop_price: Optional[float] = Field(default=None, gt=0)
+
+class MarketPrice(BaseModel):
+    symbol: str
+    price: float = Field(gt=0)
+
+def now_iso():
+    return datetime.now(timezone.utc).isoformat().replace("+00:00", "Z")
+
+# In-memory paper broker. Orders rest until a price reported to /prices
+# crosses them; everything resets when the server restarts.
+orders: Dict[str, dict] = {
+    "ord_123": {
+        "id": "ord_123",
+        "asset_id": "bitcoin",
+        "symbol": "BTCUSDT",
+        "side": "buy",
+        "type": "market",
+        "quantity": 0.1,
+        "filled_quantity": 0.1,
+        "price": 45000.0,
+        "stop_price": None,
+        "status": "filled",
+        "timestamp": "2025-04-14T01:43:00Z",
+        "updated_at": "2025-04-14T01:43:00Z",
+    }
+}
+fills: List[dict] = [
+    {
+        "id": "fill_123",
+        "order_id": "ord_123",
+        "asset_id": "bitcoin",
+        "symbol": "BTCUSDT",
+        "side": "buy",
+        "quantity": 0.1,
+        "price": 45000.0,
+        "timestamp": "2025-04-14T01:43:00Z",
+    }
+]
+positions: Dict[str, dict] = {
+    "BTCUSDT": {
+        "asset_id": "bitcoin",
+        "symbol": "BTCUSDT",
+        "quantity": 0.1,
+        "entry_price": 45000.0,
+        "current_price": 45500.0,
+        "pnl": 500.0,
+        "status": "active",
+    }
+}
+
+def revalue(position: dict):
+    position["pnl"] = (position["current_price"] - position["entry_price"]) * position["quantity"]
+    position["status"] = "active" if position["quantity"] != 0 else "closed"
+
+def apply_fill(order: dict, price: float):
+    quantity = order["quantity"] - order["filled_quantity"]
+    order["filled_quantity"] = order["quantity"]
+    order["price"] = price
+    order["status"] = "filled"
+    order["updated_at"] = now_iso()
+    fills.append({
+        "id": f"fill_{uuid4().hex[:8]}",
+        "order_id": order["id"],
+        "asset_id": order["asset_id"],
+        "symbol": order["symbol"],
+        "side": order["side"],
+        "quantity": quantity,
+        "price": price,
+        "timestamp": order["updated_at"],
+    })
+
+    signed = quantity if order["side"] == "buy" else -quantity
+    position = positions.setdefault(order["symbol"], {
+        "asset_id": order["asset_id"],
+        "symbol": order["symbol"],
+        "quantity": 0.0,
+        "entry_price": price,
+        "current_price": price,
+        "pnl": 0.0,
+        "status": "active",
+    })
+    held = position["quantity"]
+    if held == 0 or (held > 0) == (signed > 0):
+        # Opening or adding: average the entry price
+        position["entry_price"] = (position["entry_price"] * abs(held) + price * quantity) / (abs(held) + quantity)
+    elif abs(signed) > abs(held):
+        # Flipped sides: the remainder opens at this price
+        position["entry_price"] = price
+    position["quantity"] = held + signed
+    position["current_price"] = price
+    revalue(position)
+
+def match(order: dict, price: float):
+    side = order["side"]
+    if order["type"] in ("stop", "stop_limit"):
+        triggered = price >= order["stop_price"] if side == "buy" else price <= order["stop_price"]
+        if not triggered:
+            return
+        if order["type"] == "stop":
+            apply_fill(order, price)
+            return
+        # A triggered stop-limit rests as a plain limit order
+        order["type"] = "limit"
+        order["updated_at"] = now_iso()
+    if order["type"] == "limit":
+        crosses = price <= order["price"] if side == "buy" else price >= order["price"]
+        if crosses:
+            apply_fill(order, order["price"])
+
+def check_position_size(request: OrderRequest):
+    limits = risk.get_limits(request.symbol)
+    if limits is None or limits.max_position_size is None:
+        return
+    held = positions[request.symbol]["quantity"] if request.symbol in positions else 0.0
+    signed = request.quantity if request.side == "buy" else -request.quantity
+    if abs(held + signed) > limits.max_position_size:
+        raise HTTPException(
+            status_code=422,
+            detail=f"{request.symbol} position would exceed its limit of {limits.max_position_size}",
+        )
+
+def enforce_limits(position: dict):
+    """Close a position at its current price once it reaches its stop-loss or take-profit"""
+    limits = risk.get_limits(position["symbol"])
+    quantity = position["quantity"]
+    if limits is None or quantity == 0:
+        return
+    price = position["current_price"]
+    # Prices are for a long position; a short one is protected the other way round
+    stopped = limits.stop_loss is not None and (price <= limits.stop_loss if quantity > 0 else price >= limits.stop_loss)
+    took_profit = limits.take_profit is not None and (price >= limits.take_profit if quantity > 0 else price <= limits.take_profit)
+    if not (stopped or took_profit):
+        return
+    timestamp = now_iso()
+    order = {
+        "id": f"ord_{uuid4().hex[:8]}",
+        "asset_id": position["asset_id"],
+        "symbol": position["symbol"],
+        "side": "sell" if quantity > 0 else "buy",
+        "type": "market",
+        "quantity": abs(quantity),
+        "filled_quantity": 0.0,
+        "price": None,
+        "stop_price": None,
+        "status": "open",
+        "timestamp": timestamp,
+        "updated_at": timestamp,
+    }
+    orders[order["id"]] = order
+    apply_fill(order, price)
+
+def get_open_order(order_id: str) -> dict:
+    order = orders.get(order_id)
+    if order is None:
+        raise HTTPException(status_code=404, detail=f"Order {order_id} not found")
+    if order["status"] != "open":
+        raise HTTPException(status_code=409, detail=f"Order {order_id} is {order['status']}")
+    return order
+
 @router.get("/positions")
 async def get_positions():
     """
     Get current trading positions
     """
-    return {
-        "positions": [
-            {
-                "symbol": "BTCUSDT",
-                "quantity": 0.1,
-                "entry_price": 45000.0,
-                "current_price": 45500.0,
-                "pnl": 500.0,
-                "status": "active"
-            }
-        ]
-    }
+    return {"positions": list(positions.values())}
 
 @router.get("/orders")
 async def get_orders():
     """
     Get trading orders history
     """
-    return {
-        "orders": [
-            {
-                "id": "ord_123",
-                "symbol": "BTCUSDT",
-                "side": "buy",
-                "quantity": 0.1,
-                "price": 45000.0,
-                "status": "filled",
-                "timestamp": "2025-04-14T01:43:00Z"
-            }
-        ]
+    return {"orders": sorted(orders.values(), key=lambda order: order["timestamp"], reverse=True)}
+
+@router.post("/orders")
+async def place_order(request: OrderRequest):
+    """
+    Place a paper order. Market orders fill at once at the reference price;
+    the others rest until a reported price reaches them.
+    """
+    check_position_size(request)
+    timestamp = now_iso()
+    order = {
+        "id": f"ord_{uuid4().hex[:8]}",
+        "asset_id": request.asset_id,
+        "symbol": request.symbol,
+        "side": request.side,
+        "type": request.type,
+        "quantity": request.quantity,
+        "filled_quantity": 0.0,
+        "price": request.price,
+        "stop_price": request.stop_price,
+        "status": "open",
+        "timestamp": timestamp,
+        "updated_at": timestamp,
     }
+    orders[order["id"]] = order
+    if request.type == "market":
+        apply_fill(order, request.reference_price)
+    elif request.reference_price is not None:
+        match(order, request.reference_price)
+    return order
+
+@router.patch("/orders/{order_id}")
+async def amend_order(order_id: str, amendment: OrderAmendment):
+    """
+    Change the quantity or prices of an open order
+    """
+    order = get_open_order(order_id)
+    if amendment.price is not None and order["type"] not in ("limit", "stop_limit"):
+        raise HTTPException(status_code=422, detail=f"{order['type']} orders have no limit price")
+    if amendment.stop_price is not None and order["type"] not in ("stop", "stop_limit"):
+        raise HTTPException(status_code=422, detail=f"{order['type']} orders have no stop price")
+    for field, value in amendment.model_dump(exclude_none=True).items():
+        order[field] = value
+    order["updated_at"] = now_iso()
+    return order
+
+@router.delete("/orders/{order_id}")
+async def cancel_order(order_id: str):
+    """
+    Cancel an open order
+    """
+    order = get_open_order(order_id)
+    order["status"] = "cancelled"
+    order["updated_at"] = now_iso()
+    return order
+
+@router.get("/fills")
+async def get_fills():
+    """
+    Get executions, newest first
+    """
+    return {"fills": list(reversed(fills))}
+
+@router.post("/prices")
+async def report_prices(prices: List[MarketPrice]):
+    """
+    Report market prices: revalues positions, closes any that hit their risk
+    limits and fills resting orders the prices cross
+    """
+    for market_price in prices:
+        position = positions.get(market_price.symbol)
+        if position is not None:
+            position["current_price"] = market_price.price
+            revalue(position)
+            enforce_limits(position)
+        for order in list(orders.values()):
+            if order["status"] == "open" and order["symbol"] == market_price.symbol:
+                match(order, market_price.price)
+    return {"positions": list(positions.values())}
 
 @router.get("/performance")
 async def get_performance():
@@ -0,0 +1,184 @@
+// Local WebSocket server speaking the JSON stream protocol (see
+// src/services/streaming.ts). Run it with `npm run mock:stream` and start the
+// app with REACT_APP_MARKET_STREAM_URL=ws://localhost:8765 and
+// REACT_APP_MARKET_STREAM_PROTOCOL=json, or require it from a test and push
+// ticks and order book diffs yourself with `sendTick` / `sendOrderBookDiff`.
+const http = require('http');
+const { WebSocketServer } = require('ws');
+
+const DEFAULT_PORT = 8765;
+const BOOK_LEVELS = 50;
+
+const START_PRICES = {
+  bitcoin: 67000,
+  ethereum: 3800,
+  ripple: 0.52,
+  litecoin: 84,
+  cardano: 0.45,
+};
+
+const round = (value, decimals) => Number(value.toFixed(decimals));
+
+const createBook = (assetId, mid) => {
+  const step = mid * 0.0001;
+  const decimals = Math.max(2, -Math.floor(Math.log10(step)) + 1);
+  const level = (k, side) => ({
+    price: round(mid + side * step * (k + 1), decimals),
+    amount: round(0.1 + Math.random() * 2, 4),
+  });
+  return {
+    assetId,
+    bids: Array.from({ length: BOOK_LEVELS }, (_, k) => level(k, -1)),
+    asks: Array.from({ length: BOOK_LEVELS }, (_, k) => level(k, 1)),
+    sequence: 1,
+    timestamp: Date.now(),
+  };
+};
+
+// Change a few existing levels; an amount of 0 removes the level
+const randomLevelChanges = (levels) =>
+  levels
+    .filter(() => Math.random() < 0.1)
+    .map(({ price }) => ({ price, amount: Math.random() < 0.1 ? 0 : round(0.1 + Math.random() * 2, 4) }));
+
+const applyChanges = (levels, changes, descending) => {
+  const byPrice = new Map(levels.map(({ price, amount }) => [price, amount]));
+  changes.forEach(({ price, amount }) => (amount > 0 ? byPrice.set(price, amount) : byPrice.delete(price)));
+  return Array.from(byPrice, ([price, amount]) => ({ price, amount }))
+    .sort((a, b) => (descending ? b.price - a.price : a.price - b.price));
+};
+
+const startMockMarketStream = ({ port = DEFAULT_PORT, tickIntervalMs = 1000, autoTick = true } = {}) => {
+  const subscriptions = new Map(); // socket -> { ticker: Set, orderBook: Set } of asset ids
+  const prices = { ...START_PRICES };
+  const volumes = {};
+  const books = {};
+
+  const getBook = (assetId) => {
+    if (!books[assetId]) {
+      books[assetId] = createBook(assetId, prices[assetId] || 100);
+    }
+    return books[assetId];
+  };
+
+  // Order book snapshots: GET /orderbook/:assetId?depth=N
+  const httpServer = http.createServer((request, response) => {
+    const url = new URL(request.url, `http://localhost:${port}`);
+    const match = url.pathname.match(/^\/orderbook\/([\w-]+)$/);
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    if (!match) {
+      response.writeHead(404).end();
+      return;
+    }
+    const depth = Number(url.searchParams.get('depth')) || BOOK_LEVELS;
+    const book = getBook(match[1]);
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ ...book, bids: book.bids.slice(0, depth), asks: book.asks.slice(0, depth) }));
+  });
+  const server = new WebSocketServer({ server: httpServer });
+  httpServer.listen(port);
+
+  const broadcast = (channel, assetId, message) => {
+    const data = JSON.stringify(message);
+    subscriptions.forEach((channels, socket) => {
+      if (channels[channel].has(assetId)) {
+        socket.send(data);
+      }
+    });
+  };
+
+  const sendTick = (tick) =>
+    broadcast('ticker', tick.assetId, { type: 'tick', timestamp: Date.now(), ...tick });
+
+  // Applies the diff to the served book too, so snapshots stay consistent with
+  // the diffs. `dropSequences` skips sequence numbers as if diffs were lost.
+  const sendOrderBookDiff = ({ assetId, bids = [], asks = [], dropSequences = 0 }) => {
+    const book = getBook(assetId);
+    const firstSequence = book.sequence + 1 + dropSequences;
+    book.sequence = firstSequence;
+    book.bids = applyChanges(book.bids, bids, true);
+    book.asks = applyChanges(book.asks, asks, false);
+    book.timestamp = Date.now();
+    broadcast('orderBook', assetId, {
+      type: 'orderBookDiff',
+      assetId,
+      firstSequence,
+      sequence: book.sequence,
+      bids,
+      asks,
+      timestamp: book.timestamp,
+    });
+  };
+
+  server.on('connection', (socket) => {
+    subscriptions.set(socket, { ticker: new Set(), orderBook: new Set() });
+
+    socket.on('message', (raw) => {
+      let message;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch (error) {
+        return;
+      }
+      const channels = subscriptions.get(socket);
+      const assets = channels[message.channel || 'ticker'];
+      if (message.type === 'subscribe' && assets) {
+        message.assets.forEach((assetId) => assets.add(assetId));
+      } else if (message.type === 'unsubscribe' && assets) {
+        message.assets.forEach((assetId) => assets.delete(assetId));
+      } else if (message.type === 'ping') {
+        socket.send(JSON.stringify({ type: 'pong' }));
+      }
+    });
+
+    socket.on('close', () => subscriptions.delete(socket));
+  });
+
+  const subscribedOn = (channel) => {
+    const subscribed = new Set();
+    subscriptions.forEach((channels) => channels[channel].forEach((assetId) => subscribed.add(assetId)));
+    return subscribed;
+  };
+
+  // Random walk for every subscribed asset
+  const timer = autoTick
+    ? setInterval(() => {
+        subscribedOn('ticker').forEach((assetId) => {
+          const price = (prices[assetId] || 100) * (1 + (Math.random() - 0.5) * 0.002);
+          prices[assetId] = price;
+          volumes[assetId] = (volumes[assetId] || price * 1e6) * (1 + (Math.random() - 0.5) * 0.01);
+          sendTick({ assetId, price, volume24h: volumes[assetId] });
+        });
+        subscribedOn('orderBook').forEach((assetId) => {
+          const book = getBook(assetId);
+          sendOrderBookDiff({
+            assetId,
+            bids: randomLevelChanges(book.bids),
+            asks: randomLevelChanges(book.asks),
+          });
+        });
+      }, tickIntervalMs)
+    : null;
+
+  return {
+    server,
+    sendTick,
+    sendOrderBookDiff,
+    // Drop every connection without a close handshake, to exercise reconnects
+    dropConnections: () => server.clients.forEach((socket) => socket.terminate()),
+    close: () =>
+      new Promise((resolve) => {
+        if (timer) clearInterval(timer);
+        server.clients.forEach((socket) => socket.terminate());
+        server.close(() => httpServer.close(() => resolve()));
+      }),
+  };
+};
+
+module.exports = { startMockMarketStream };
+
+if (require.main === module) {
+  const port = Number(process.env.PORT) || DEFAULT_PORT;
+  startMockMarketStream({ port });
+  console.log(`Mock market stream listening on ws://localhost:${port}`);
+}
@@ -1,10 +1,14 @@
 
+import React, { useMemo } from 'react';
 import { Routes, Route } from 'react-router-dom';
-import { ThemeProvider, createTheme } from '@mui/material/styles';
+import { ThemeProvider } from '@mui/material/styles';
 import CssBaseline from '@mui/material/CssBaseline';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Provider } from 'react-redux';
 import { store } from './app/store';
+import { useAppSelector } from './app/hooks';
+import { createAppTheme } from './app/theme';
+import { selectThemeSettings } from './features/settings/settingsSlice';
 
 // Components
 import Layout from './components/Layout';
@@ -15,24 +19,24 @@ import Settings from './pages/Settings';
 
 const queryClient = new QueryClient();
 
-const theme = createTheme({
-  palette: {
-    mode: 'dark',
-    primary: {
-      main: '#2196f3',
-    },
-    secondary: {
-      main: '#f50057',
-    },
-  },
-});
+// Rebuilds the theme whenever it changes in Settings
+const AppTheme: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const themeSettings = useAppSelector(selectThemeSettings);
+  const theme = useMemo(() => createAppTheme(themeSettings), [themeSettings]);
+
+  return (
+    <ThemeProvider theme={theme}>
+      <CssBaseline />
+      {children}
+    </ThemeProvider>
+  );
+};
 
 function App() {
   return (
     <Provider store={store}>
       <QueryClientProvider client={queryClient}>
-        <ThemeProvider theme={theme}>
-          <CssBaseline />
+        <AppTheme>
           <Layout>
             <Routes>
               <Route path="/" element={<Dashboard />} />
@@ -41,7 +45,7 @@ function App() {
               <Route path="/settings" element={<Settings />} />
             </Routes>
           </Layout>
-        </ThemeProvider>
+        </AppTheme>
       </QueryClientProvider>
     </Provider>
   );
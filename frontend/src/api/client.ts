@@ -0,0 +1,142 @@
+import axios from 'axios';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import {
+  FillsResponse,
+  MarketPrice,
+  Order,
+  OrderAmendment,
+  OrderRequest,
+  OrdersResponse,
+  PerformanceResponse,
+  PositionsResponse,
+  RiskProfile,
+  RootResponse,
+  ServiceName,
+  StatusResponse,
+  TradingStatus,
+  fillsResponseSchema,
+  orderSchema,
+  ordersResponseSchema,
+  performanceResponseSchema,
+  positionsResponseSchema,
+  riskProfileSchema,
+  rootResponseSchema,
+  statusResponseSchema,
+  tradingStatusSchema,
+} from './schemas';
+
+// REACT_APP_API_BASE_URL sets the default; the Settings page can override it
+// for this browser
+export const DEFAULT_API_BASE_URL = process.env.REACT_APP_API_BASE_URL || 'http://localhost:5001';
+
+export const API_PREFIX = '/api/v1';
+
+// Thrown when a response doesn't match its schema, so a backend change shows
+// up as one clear error instead of undefined fields deep in a component
+export class ApiValidationError extends Error {
+  constructor(public endpoint: string, public errors: ErrorObject[]) {
+    super(`Unexpected response from ${endpoint}: ${errors
+      .map((error) => `${error.instancePath || '/'} ${error.message}`)
+      .join(', ')}`);
+    this.name = 'ApiValidationError';
+  }
+}
+
+// FastAPI puts the reason in `detail`: a string from HTTPException, or a
+// list of field errors when the request body fails validation
+export const getApiErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const detail = error.response?.data?.detail;
+    if (typeof detail === 'string') return detail;
+    if (Array.isArray(detail)) {
+      return detail.map((item: { msg?: string }) => item.msg).filter(Boolean).join(', ');
+    }
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+const ajv = new Ajv({ allErrors: true });
+
+const validator = <T>(schema: object): ValidateFunction<T> => ajv.compile<T>(schema);
+
+const validators = {
+  status: validator<StatusResponse>(statusResponseSchema),
+  tradingStatus: validator<TradingStatus>(tradingStatusSchema),
+  positions: validator<PositionsResponse>(positionsResponseSchema),
+  order: validator<Order>(orderSchema),
+  orders: validator<OrdersResponse>(ordersResponseSchema),
+  fills: validator<FillsResponse>(fillsResponseSchema),
+  performance: validator<PerformanceResponse>(performanceResponseSchema),
+  riskProfile: validator<RiskProfile>(riskProfileSchema),
+  root: validator<RootResponse>(rootResponseSchema),
+};
+
+export const createApiClient = (initialBaseUrl: string = DEFAULT_API_BASE_URL) => {
+  let baseUrl = initialBaseUrl.replace(/\/$/, '');
+
+  const request = async <T>(
+    method: 'get' | 'post' | 'put' | 'patch' | 'delete',
+    path: string,
+    validate: ValidateFunction<T>,
+    data?: unknown
+  ): Promise<T> => {
+    try {
+      const response = await axios.request({ method, url: `${baseUrl}${path}`, data });
+      if (!validate(response.data)) {
+        throw new ApiValidationError(path, validate.errors || []);
+      }
+      return response.data;
+    } catch (error) {
+      console.error(`Error requesting ${method.toUpperCase()} ${path}:`, error);
+      throw error;
+    }
+  };
+
+  const get = <T>(path: string, validate: ValidateFunction<T>) => request('get', path, validate);
+
+  return {
+    getBaseUrl: () => baseUrl,
+
+    setBaseUrl(url: string) {
+      baseUrl = (url.trim() || DEFAULT_API_BASE_URL).replace(/\/$/, '');
+    },
+
+    getRoot: () => get('/', validators.root),
+
+    getServiceStatus: (service: ServiceName) =>
+      get(`${API_PREFIX}/status/${service}`, validators.status),
+
+    getTradingStatus: () => get(`${API_PREFIX}/trading/status`, validators.tradingStatus),
+
+    getPositions: () => get(`${API_PREFIX}/trading/positions`, validators.positions),
+
+    getOrders: () => get(`${API_PREFIX}/trading/orders`, validators.orders),
+
+    getPerformance: () => get(`${API_PREFIX}/trading/performance`, validators.performance),
+
+    getFills: () => get(`${API_PREFIX}/trading/fills`, validators.fills),
+
+    placeOrder: (order: OrderRequest) =>
+      request('post', `${API_PREFIX}/trading/orders`, validators.order, order),
+
+    amendOrder: (orderId: string, amendment: OrderAmendment) =>
+      request('patch', `${API_PREFIX}/trading/orders/${orderId}`, validators.order, amendment),
+
+    cancelOrder: (orderId: string) =>
+      request('delete', `${API_PREFIX}/trading/orders/${orderId}`, validators.order),
+
+    // The paper broker fills resting orders against prices reported here
+    reportPrices: (prices: MarketPrice[]) =>
+      request('post', `${API_PREFIX}/trading/prices`, validators.positions, prices),
+
+    getRiskProfile: () => get(`${API_PREFIX}/risk`, validators.riskProfile),
+
+    updateRiskProfile: (profile: RiskProfile) =>
+      request('put', `${API_PREFIX}/risk`, validators.riskProfile, profile),
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+// Shared client. The store points it at the base URL from Settings.
+export const apiClient = createApiClient();
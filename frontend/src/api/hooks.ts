@@ -0,0 +1,131 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from './client';
+import { MarketPrice, OrderAmendment, OrderRequest, RiskProfile, ServiceName } from './schemas';
+
+// Every key starts with 'api', so invalidating ['api'] refetches everything,
+// e.g. after the base URL changes
+export const apiQueryKeys = {
+  all: ['api'] as const,
+  root: () => [...apiQueryKeys.all, 'root'] as const,
+  serviceStatus: (service: ServiceName) => [...apiQueryKeys.all, 'status', service] as const,
+  tradingStatus: () => [...apiQueryKeys.all, 'trading', 'status'] as const,
+  positions: () => [...apiQueryKeys.all, 'trading', 'positions'] as const,
+  orders: () => [...apiQueryKeys.all, 'trading', 'orders'] as const,
+  performance: () => [...apiQueryKeys.all, 'trading', 'performance'] as const,
+  fills: () => [...apiQueryKeys.all, 'trading', 'fills'] as const,
+  riskProfile: () => [...apiQueryKeys.all, 'risk'] as const,
+};
+
+interface ApiQueryOptions {
+  refetchInterval?: number | false;
+  enabled?: boolean;
+}
+
+export const useApiRoot = (options: ApiQueryOptions = {}) =>
+  useQuery({
+    queryKey: apiQueryKeys.root(),
+    queryFn: () => apiClient.getRoot(),
+    ...options,
+  });
+
+export const useServiceStatus = (service: ServiceName, options: ApiQueryOptions = {}) =>
+  useQuery({
+    queryKey: apiQueryKeys.serviceStatus(service),
+    queryFn: () => apiClient.getServiceStatus(service),
+    ...options,
+  });
+
+export const useTradingStatus = (options: ApiQueryOptions = {}) =>
+  useQuery({
+    queryKey: apiQueryKeys.tradingStatus(),
+    queryFn: () => apiClient.getTradingStatus(),
+    ...options,
+  });
+
+export const usePositions = (options: ApiQueryOptions = {}) =>
+  useQuery({
+    queryKey: apiQueryKeys.positions(),
+    queryFn: () => apiClient.getPositions(),
+    ...options,
+  });
+
+export const useOrders = (options: ApiQueryOptions = {}) =>
+  useQuery({
+    queryKey: apiQueryKeys.orders(),
+    queryFn: () => apiClient.getOrders(),
+    ...options,
+  });
+
+export const usePerformance = (options: ApiQueryOptions = {}) =>
+  useQuery({
+    queryKey: apiQueryKeys.performance(),
+    queryFn: () => apiClient.getPerformance(),
+    ...options,
+  });
+
+export const useFills = (options: ApiQueryOptions = {}) =>
+  useQuery({
+    queryKey: apiQueryKeys.fills(),
+    queryFn: () => apiClient.getFills(),
+    ...options,
+  });
+
+// Orders, fills and positions all move together, so every order mutation
+// refetches the three of them
+const useInvalidateTrading = () => {
+  const queryClient = useQueryClient();
+  return () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: apiQueryKeys.orders() }),
+    queryClient.invalidateQueries({ queryKey: apiQueryKeys.fills() }),
+    queryClient.invalidateQueries({ queryKey: apiQueryKeys.positions() }),
+  ]);
+};
+
+export const usePlaceOrder = () => {
+  const invalidate = useInvalidateTrading();
+  return useMutation({
+    mutationFn: (order: OrderRequest) => apiClient.placeOrder(order),
+    onSettled: invalidate,
+  });
+};
+
+export const useAmendOrder = () => {
+  const invalidate = useInvalidateTrading();
+  return useMutation({
+    mutationFn: ({ orderId, amendment }: { orderId: string; amendment: OrderAmendment }) =>
+      apiClient.amendOrder(orderId, amendment),
+    onSettled: invalidate,
+  });
+};
+
+export const useCancelOrder = () => {
+  const invalidate = useInvalidateTrading();
+  return useMutation({
+    mutationFn: (orderId: string) => apiClient.cancelOrder(orderId),
+    onSettled: invalidate,
+  });
+};
+
+export const useReportPrices = () => {
+  const invalidate = useInvalidateTrading();
+  return useMutation({
+    mutationFn: (prices: MarketPrice[]) => apiClient.reportPrices(prices),
+    onSuccess: invalidate,
+  });
+};
+
+export const useRiskProfile = (options: ApiQueryOptions = {}) =>
+  useQuery({
+    queryKey: apiQueryKeys.riskProfile(),
+    queryFn: () => apiClient.getRiskProfile(),
+    ...options,
+  });
+
+export const useUpdateRiskProfile = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationKey: apiQueryKeys.riskProfile(),
+    mutationFn: (profile: RiskProfile) => apiClient.updateRiskProfile(profile),
+    onSuccess: (profile) => queryClient.setQueryData(apiQueryKeys.riskProfile(), profile),
+  });
+};
@@ -0,0 +1,240 @@
+// Response shapes of the FastAPI backend (backend/app/api/v1/endpoints), with
+// JSON schemas to validate them at runtime. Keep both in step with the routes.
+// Schemas allow extra properties so the backend can add fields without
+// breaking older frontends.
+
+export type ServiceName = 'backend' | 'signals' | 'paper_trading' | 'database';
+
+export const SERVICE_NAMES: ServiceName[] = ['backend', 'signals', 'paper_trading', 'database'];
+
+// GET /status/{service}
+export interface StatusResponse {
+  is_running: boolean;
+  status: string;
+  mode: string;
+  last_updated: string;
+  details: Record<string, unknown>;
+}
+
+// GET /trading/status
+export interface TradingStatus {
+  is_trading: boolean;
+  mode: string;
+  strategy: string;
+  last_trade: string;
+  next_signal: string;
+}
+
+export interface Position {
+  asset_id: string;
+  symbol: string;
+  quantity: number;
+  entry_price: number;
+  current_price: number;
+  pnl: number;
+  status: string;
+}
+
+// GET /trading/positions
+export interface PositionsResponse {
+  positions: Position[];
+}
+
+export type OrderSide = 'buy' | 'sell';
+
+export type OrderType = 'market' | 'limit' | 'stop' | 'stop_limit';
+
+export type OrderStatus = 'open' | 'filled' | 'cancelled';
+
+export interface Order {
+  id: string;
+  asset_id: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  filled_quantity: number;
+  price: number | null; // limit price while open, fill price once filled
+  stop_price: number | null;
+  status: OrderStatus;
+  timestamp: string;
+  updated_at: string;
+}
+
+// GET /trading/orders
+export interface OrdersResponse {
+  orders: Order[];
+}
+
+// POST /trading/orders
+export interface OrderRequest {
+  asset_id: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  price?: number;
+  stop_price?: number;
+  reference_price?: number; // market orders fill at this price
+}
+
+// PATCH /trading/orders/{id}
+export interface OrderAmendment {
+  quantity?: number;
+  price?: number;
+  stop_price?: number;
+}
+
+export interface Fill {
+  id: string;
+  order_id: string;
+  asset_id: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  timestamp: string;
+}
+
+// GET /trading/fills
+export interface FillsResponse {
+  fills: Fill[];
+}
+
+// POST /trading/prices
+export interface MarketPrice {
+  symbol: string;
+  price: number;
+}
+
+export interface RiskLimits {
+  symbol: string;
+  stop_loss: number | null;
+  take_profit: number | null;
+  max_position_size: number | null;
+}
+
+// GET and PUT /risk
+export interface RiskProfile {
+  risk_level: 'AGGRESSIVE' | 'MODERATE' | 'CONSERVATIVE';
+  limits: Record<string, RiskLimits>; // by asset id
+}
+
+// GET /trading/performance
+export interface PerformanceResponse {
+  total_pnl: number;
+  win_rate: number;
+  average_trade_duration: string;
+  largest_win: number;
+  largest_loss: number;
+  current_balance: number;
+  initial_balance: number;
+}
+
+// GET / (outside /api/v1)
+export interface RootResponse {
+  message: string;
+}
+
+const string = { type: 'string' } as const;
+const number = { type: 'number' } as const;
+const boolean = { type: 'boolean' } as const;
+const nullableNumber = { type: ['number', 'null'] } as const;
+const side = { type: 'string', enum: ['buy', 'sell'] } as const;
+
+const object = (properties: Record<string, object>) => ({
+  type: 'object',
+  properties,
+  required: Object.keys(properties),
+  additionalProperties: true,
+});
+
+export const statusResponseSchema = object({
+  is_running: boolean,
+  status: string,
+  mode: string,
+  last_updated: string,
+  details: { type: 'object' },
+});
+
+export const tradingStatusSchema = object({
+  is_trading: boolean,
+  mode: string,
+  strategy: string,
+  last_trade: string,
+  next_signal: string,
+});
+
+export const positionSchema = object({
+  asset_id: string,
+  symbol: string,
+  quantity: number,
+  entry_price: number,
+  current_price: number,
+  pnl: number,
+  status: string,
+});
+
+export const positionsResponseSchema = object({
+  positions: { type: 'array', items: positionSchema },
+});
+
+export const orderSchema = object({
+  id: string,
+  asset_id: string,
+  symbol: string,
+  side,
+  type: { type: 'string', enum: ['market', 'limit', 'stop', 'stop_limit'] },
+  quantity: number,
+  filled_quantity: number,
+  price: nullableNumber,
+  stop_price: nullableNumber,
+  status: { type: 'string', enum: ['open', 'filled', 'cancelled'] },
+  timestamp: string,
+  updated_at: string,
+});
+
+export const ordersResponseSchema = object({
+  orders: { type: 'array', items: orderSchema },
+});
+
+export const fillSchema = object({
+  id: string,
+  order_id: string,
+  asset_id: string,
+  symbol: string,
+  side,
+  quantity: number,
+  price: number,
+  timestamp: string,
+});
+
+export const fillsResponseSchema = object({
+  fills: { type: 'array', items: fillSchema },
+});
+
+export const riskLimitsSchema = object({
+  symbol: string,
+  stop_loss: nullableNumber,
+  take_profit: nullableNumber,
+  max_position_size: nullableNumber,
+});
+
+export const riskProfileSchema = object({
+  risk_level: { type: 'string', enum: ['AGGRESSIVE', 'MODERATE', 'CONSERVATIVE'] },
+  limits: { type: 'object', additionalProperties: riskLimitsSchema },
+});
+
+export const performanceResponseSchema = object({
+  total_pnl: number,
+  win_rate: number,
+  average_trade_duration: string,
+  largest_win: number,
+  largest_loss: number,
+  current_balance: number,
+  initial_balance: number,
+});
+
+export const rootResponseSchema = object({
+  message: string,
+});
@@ -1,6 +1,661 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useInterval } from 'usehooks-ts';
+import { useQueries, useQuery } from '@tanstack/react-query';
 import { TypedUseSelectorHook, useDispatch, useSelector } from 'react-redux';
 import type { RootState, AppDispatch } from './store';
+import {
+  exchangeRatesLoaded,
+  orderBookDiffReceived,
+  orderBookLoaded,
+  selectExchangeRates,
+  selectMarketDataProviderId,
+  selectOrderBookGaps,
+  selectOrderBooks,
+  selectQuoteCurrency,
+  selectTickers,
+  streamStatusChanged,
+  tickReceived,
+} from '../features/marketData/marketDataSlice';
+import { getMarketDataProvider } from '../services/marketData';
+import { MarketAsset, MarketStream } from '../types/marketData';
+import { convertFromUsd, formatMoney, formatPrice } from '../utils/formatters';
+import { apiClient, getApiErrorMessage } from '../api/client';
+import {
+  apiQueryKeys,
+  useCancelOrder,
+  usePerformance,
+  usePlaceOrder,
+  usePositions,
+  useUpdateRiskProfile,
+} from '../api/hooks';
+import { OrderRequest, RiskProfile, ServiceName } from '../api/schemas';
+import { healthCheckRecorded, selectIncidents } from '../features/health/healthSlice';
+import { NotificationSettings, selectNotificationSettings } from '../features/settings/settingsSlice';
+import { showNotification } from '../utils/notifications';
+import { getServiceHealth } from '../utils/health';
+import { selectRisk } from '../features/risk/riskSlice';
+import { ChartData, IndicatorInstance, IndicatorParams, IndicatorType } from '../types/chart';
+import { createIndicatorInstancesStream, followingStep } from '../utils/streamingIndicators';
+import { IndicatorSeries } from '../utils/indicators';
+import { indicatorSeriesKey } from '../utils/technicalIndicators';
+import {
+  ComputeJobOf,
+  ComputeKind,
+  ComputeOptions,
+  ComputeResults,
+  packCandles,
+  unpackSeries,
+} from '../workers/protocol';
+import { getComputePool, isJobCancelled } from '../workers/pool';
+import {
+  BacktestConfig,
+  BacktestResult,
+  Strategy,
+  StrategySignals,
+  WalkForwardResult,
+  WalkForwardSettings,
+} from '../types/backtest';
+import { createStrategy, resolveStrategy, STRATEGIES } from '../utils/strategies';
+import { parameterGrid } from '../utils/optimization';
+import { DEFAULT_EXECUTION, paperFillPrice } from '../utils/execution';
+import { applyTickToSeries, candleWidth, resampleCandles } from '../utils/candles';
+import { toOpenPosition, toPaperOrders } from '../utils/paperTrading';
+import { toBinanceSymbol } from '../services/binance';
+import { selectCustomStrategies } from '../features/strategies/strategiesSlice';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 // Use throughout your app instead of plain `useDispatch` and `useSelector`
 export const useAppDispatch: () => AppDispatch = useDispatch;
 export const useAppSelector: TypedUseSelectorHook<RootState> = useSelector;
+
+// The market-data provider currently selected in the store
+export const useMarketDataProvider = () => getMarketDataProvider(useAppSelector(selectMarketDataProviderId));
+
+// Every asset the current provider knows about. The provider's request layer
+// already caches the list, so this only needs to load it once per session.
+export const useSupportedAssets = () => {
+  const provider = useMarketDataProvider();
+  return useQuery({
+    queryKey: ['supportedAssets', provider.id],
+    queryFn: () => provider.getAssets(),
+    staleTime: Infinity,
+  });
+};
+
+// The dates, as yyyy-mm-dd, the current provider has candles for the asset
+// between; undefined until they're known
+export const useHistoryRange = (assetId: string) => {
+  const provider = useMarketDataProvider();
+  const { data } = useQuery({
+    queryKey: ['historyRange', provider.id, assetId],
+    queryFn: () => provider.getHistoryRange(assetId),
+    enabled: assetId !== '',
+  });
+  return useMemo(() => data && {
+    startDate: new Date(data.start).toISOString().split('T')[0],
+    endDate: new Date(data.end).toISOString().split('T')[0],
+  }, [data]);
+};
+
+// Streams already forwarding into the store. Every subscriber shares one
+// bridge so a tick is dispatched once however many components watch it.
+const bridgedStreams = new WeakSet<MarketStream>();
+
+const bridgeStream = (stream: MarketStream, dispatch: AppDispatch) => {
+  if (bridgedStreams.has(stream)) return;
+  bridgedStreams.add(stream);
+  stream.onTick((tick) => dispatch(tickReceived(tick)));
+  stream.onOrderBookDiff((diff) => dispatch(orderBookDiffReceived(diff)));
+  stream.onStatus((status) => dispatch(streamStatusChanged(status)));
+};
+
+const getAssetKey = (assets: MarketAsset[]) => assets.map((asset) => asset.id).sort().join(',');
+
+// `assets` as it was when the set of ids last changed, so effects that depend
+// on it don't resubscribe for a new array of the same assets
+const useStableAssets = (assets: MarketAsset[]) => {
+  const stable = useRef(assets);
+  if (getAssetKey(stable.current) !== getAssetKey(assets)) {
+    stable.current = assets;
+  }
+  return stable.current;
+};
+
+// Keep live ticks for `assets` flowing into the marketData slice while mounted
+export const useMarketStream = (assets: MarketAsset[]) => {
+  const dispatch = useAppDispatch();
+  const { stream } = useMarketDataProvider();
+  const subscribed = useStableAssets(assets);
+
+  useEffect(() => {
+    if (!stream || subscribed.length === 0) return undefined;
+
+    bridgeStream(stream, dispatch);
+    dispatch(streamStatusChanged(stream.getStatus()));
+
+    return stream.subscribe(subscribed);
+  }, [stream, subscribed, dispatch]);
+};
+
+// Run jobs on the compute workers, one at a time, with the running job's
+// progress (0 to 1, null when idle). Starting a job cancels the one before it,
+// and so do cancel() and unmounting; a cancelled job rejects with
+// JobCancelledError.
+export const useComputeJob = () => {
+  const [progress, setProgress] = useState<number | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => controller.current?.abort(), []);
+  useEffect(() => cancel, [cancel]);
+
+  const run = useCallback(async <K extends ComputeKind>(job: ComputeJobOf<K>): Promise<ComputeResults[K]> => {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+    setProgress(0);
+    try {
+      return await getComputePool().run(job, { signal: current.signal, onProgress: setProgress });
+    } finally {
+      if (controller.current === current) {
+        controller.current = null;
+        setProgress(null);
+      }
+    }
+  }, []);
+
+  return { run, cancel, progress, running: progress !== null };
+};
+
+// A batch's series attached to the candles it was calculated for
+const withSeries = (data: ChartData[], series: ComputeResults['indicators']['series']): ChartData[] => {
+  const columns = Object.entries(series).map(([key, values]) => [key, unpackSeries(values)] as const);
+  return data.map((candle, i) => ({
+    ...candle,
+    indicators: Object.fromEntries(columns.map(([key, values]) => [key, values[i]])),
+  }));
+};
+
+// Candles with each instance's outputs attached, as calculateIndicatorInstances
+// gives them. The whole series is calculated on the compute workers, and the
+// candles come without indicators until that's done; from there on, a live
+// tick, a new candle or the window sliding on only calculates the last candle,
+// here. A new list of instances, or candles that don't follow on from the
+// last ones, go back to the workers.
+export const useIndicatorInstances = (data: ChartData[], instances: IndicatorInstance[]) => {
+  const stream = useMemo(() => createIndicatorInstancesStream(instances), [instances]);
+  // The candles the workers start the stream from. Candles that follow on
+  // from them while they're being calculated wait for them.
+  const start = useRef<{ stream: typeof stream; instances: IndicatorInstance[]; data: ChartData[] } | null>(null);
+  if (
+    !stream.follows(data)
+    && !(start.current?.stream === stream && followingStep(start.current.data, data))
+  ) {
+    start.current = { stream, instances, data };
+  }
+  const target = start.current;
+  const [seeded, setSeeded] = useState<typeof target>(null);
+
+  useEffect(() => {
+    if (!target || target.stream.follows(target.data)) return undefined;
+    const controller = new AbortController();
+    getComputePool()
+      .run({ kind: 'indicators', candles: packCandles(target.data), instances: target.instances }, { signal: controller.signal })
+      .then(({ series, states }) => {
+        target.stream.seed(target.data, withSeries(target.data, series), states);
+        setSeeded(target);
+      })
+      .catch((error) => {
+        if (!isJobCancelled(error)) console.error('Error calculating indicators:', error);
+      });
+    return () => controller.abort();
+  }, [target]);
+
+  return useMemo(
+    () => (seeded?.stream === stream && stream.follows(data) ? stream.update(data) : data),
+    [seeded, stream, data]
+  );
+};
+
+// One indicator's output series for `data`, by output name, calculated on the
+// compute workers. Null without candles and until the indicator's first batch
+// is done; after that, newer candles show the last batch until theirs is done.
+export const useIndicatorSeries = (data: ChartData[], type: IndicatorType, params: IndicatorParams[IndicatorType]) => {
+  const [batch, setBatch] = useState<{
+    type: IndicatorType;
+    params: IndicatorParams[IndicatorType];
+    series: Record<string, IndicatorSeries>;
+  } | null>(null);
+
+  useEffect(() => {
+    if (data.length === 0) return undefined;
+    const controller = new AbortController();
+    const prefix = indicatorSeriesKey(type, '');
+    getComputePool()
+      .run({ kind: 'indicators', candles: packCandles(data), instances: [{ id: type, type, params } as IndicatorInstance] }, { signal: controller.signal })
+      .then(({ series }) => setBatch({
+        type,
+        params,
+        series: Object.fromEntries(
+          Object.entries(series).map(([key, values]) => [key.slice(prefix.length), unpackSeries(values)])
+        ),
+      }))
+      .catch((error) => {
+        if (!isJobCancelled(error)) console.error('Error calculating indicators:', error);
+      });
+    return () => controller.abort();
+  }, [data, type, params]);
+
+  return data.length > 0 && batch?.type === type && batch.params === params ? batch.series : null;
+};
+
+// The asset's candles between a backtest's dates, from the selected market
+// data provider (the local replay needs no network), with the strategy and
+// details to run them through. They're fetched as fine as the provider has
+// them over those dates and merged up to the width asked for; when the
+// provider only has coarser history, that's what the backtest runs on.
+const useBacktestInputs = () => {
+  const provider = useMarketDataProvider();
+  const custom = useAppSelector(selectCustomStrategies);
+  return useCallback(async (config: BacktestConfig) => {
+    const { strategy, asset, startDate, endDate, candleMs, initialCapital, quote, execution } = config;
+    const start = Date.parse(startDate);
+    const end = Date.parse(endDate) + DAY_MS; // the end date is included
+    const days = Math.max(1, Math.ceil((Date.now() - start) / DAY_MS));
+    const fetched = await provider.getHistoricalCandles(asset, days, '1h', quote);
+    const candles = resampleCandles(fetched, candleMs)
+      .filter((candle) => candle.timestamp >= start && candle.timestamp < end);
+    if (candles.length === 0) {
+      throw new Error(`No ${provider.name} candles for ${asset} between ${startDate} and ${endDate}`);
+    }
+    const { spec, name } = resolveStrategy(strategy, custom);
+    return {
+      candles: packCandles(candles),
+      strategy: spec,
+      details: { strategy: name, asset, initialCapital, execution },
+    };
+  }, [provider, custom]);
+};
+
+// Backtester's onBacktest: the configured candles replayed through the
+// strategy on the compute workers
+export const useBacktest = () => {
+  const inputs = useBacktestInputs();
+  return useCallback(async (config: BacktestConfig, options: ComputeOptions): Promise<BacktestResult> =>
+    getComputePool().run({ kind: 'backtest', ...(await inputs(config)) }, options), [inputs]);
+};
+
+// Backtester's onWalkForward: a walk-forward analysis of the configured
+// candles on the compute workers, searching around the strategy's default
+// params in each in-sample window
+export const useWalkForward = () => {
+  const inputs = useBacktestInputs();
+  return useCallback(async (
+    config: BacktestConfig,
+    settings: WalkForwardSettings,
+    options: ComputeOptions
+  ): Promise<WalkForwardResult> => {
+    const definition = STRATEGIES[config.strategy];
+    return getComputePool().run({
+      kind: 'walkForward',
+      ...(await inputs(config)),
+      grid: definition ? parameterGrid(definition.params) : {},
+      settings,
+    }, options);
+  }, [inputs]);
+};
+
+// Each of `strategies` (built-in or custom ids) backtested on `candles`, with
+// the default execution costs, on the compute workers, by id; undefined until
+// its backtest is done. Results are kept for as long as the candles and the
+// strategy don't change.
+export const useStrategyBacktests = (strategies: string[], asset: string, candles: ChartData[]) => {
+  const custom = useAppSelector(selectCustomStrategies);
+  return useQueries({
+    queries: strategies.map((id) => resolveStrategy(id, custom)).map(({ spec, name }) => ({
+      queryKey: [
+        'strategyBacktest', spec, asset, candles.length, candles[0]?.timestamp, candles[candles.length - 1]?.timestamp,
+      ],
+      queryFn: ({ signal }: { signal: AbortSignal }) => getComputePool().run({
+        kind: 'backtest',
+        candles: packCandles(candles),
+        strategy: spec,
+        details: { strategy: name, asset, initialCapital: 10000, execution: DEFAULT_EXECUTION },
+      }, { signal }),
+      enabled: candles.length > 0,
+      staleTime: Infinity,
+    })),
+    combine: (results) =>
+      Object.fromEntries(strategies.map((id, i) => [id, results[i].data])) as Record<string, BacktestResult | undefined>,
+  });
+};
+
+// Keep order books for `assets` in the marketData slice while mounted: load a
+// snapshot, apply live diffs on top, and reload the snapshot after a gap
+export const useOrderBooks = (assets: MarketAsset[], depth: number = 100) => {
+  const dispatch = useAppDispatch();
+  const provider = useMarketDataProvider();
+  const gaps = useAppSelector(selectOrderBookGaps);
+  const subscribed = useStableAssets(assets);
+  const gapped = useStableAssets(subscribed.filter((asset) => gaps[asset.id]));
+
+  const loadSnapshots = useCallback((toLoad: MarketAsset[]) =>
+    Promise.all(toLoad.map(async (asset) => {
+      try {
+        dispatch(orderBookLoaded(await provider.getOrderBook(asset, depth)));
+      } catch (error) {
+        console.error('Error loading order book:', error);
+      }
+    })), [dispatch, provider, depth]);
+
+  useEffect(() => {
+    if (subscribed.length === 0) return undefined;
+
+    // Subscribe before fetching the snapshot so no diff after it is missed
+    let unsubscribe: (() => void) | undefined;
+    if (provider.stream) {
+      bridgeStream(provider.stream, dispatch);
+      unsubscribe = provider.stream.subscribe(subscribed, 'orderBook');
+    }
+    loadSnapshots(subscribed);
+
+    return unsubscribe;
+  }, [provider, subscribed, dispatch, loadSnapshots]);
+
+  useEffect(() => {
+    if (gapped.length > 0) {
+      loadSnapshots(gapped);
+    }
+  }, [gapped, loadSnapshots]);
+};
+
+// The paper fill model for orders on their way to the paper broker, which
+// fills market orders at their reference price: a market order's price is
+// moved to what walking the asset's order book in the store gives (see
+// useOrderBooks), or to the default spread and slippage without one
+export const usePaperFill = () => {
+  const orderBooks = useAppSelector(selectOrderBooks);
+  return useCallback((order: OrderRequest): OrderRequest => (
+    order.type === 'market' && order.reference_price
+      ? {
+        ...order,
+        reference_price: paperFillPrice(
+          order.side === 'buy' ? 'BUY' : 'SELL',
+          order.quantity,
+          order.reference_price,
+          orderBooks[order.asset_id]
+        ),
+      }
+      : order
+  ), [orderBooks]);
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const PAPER_STRATEGY_WARMUP_DAYS = 30;
+
+// A strategy running against the paper broker, with the candles it has seen
+// and the ids of the stop and target orders it has resting
+interface PaperRunner {
+  strategy: Strategy;
+  history: ChartData[]; // closed candles, oldest first
+  candles: ChartData[]; // the live window, its last candle still open
+  widthMs: number;
+  resting: string[];
+}
+
+// Run `strategyId` (built in or custom) on `asset` against the paper broker
+// while it's set. The strategy warms up on the provider's hourly history, then
+// sees each live candle as it closes, built from the stream's ticks or the
+// polled ticker, and its orders go to the broker the way runBacktest fills
+// them (see toPaperOrders). Its stop and target orders are cancelled once the
+// position they protect is gone or being replaced. Stopping leaves positions
+// and resting orders as they are.
+export const usePaperStrategy = (asset: MarketAsset, strategyId: string | null) => {
+  const provider = useMarketDataProvider();
+  const custom = useAppSelector(selectCustomStrategies);
+  const tick = useAppSelector(selectTickers)[asset.id];
+  const { data: positionsData } = usePositions();
+  const { data: performance } = usePerformance();
+  const { mutateAsync: placeOrder } = usePlaceOrder();
+  const { mutateAsync: cancelOrder } = useCancelOrder();
+  const paperFill = usePaperFill();
+  const [signals, setSignals] = useState<StrategySignals | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const runner = useRef<PaperRunner | null>(null);
+
+  // Read when a candle closes, not worth restarting the runner over
+  const latest = useRef({ positionsData, performance, placeOrder, cancelOrder, paperFill });
+  latest.current = { positionsData, performance, placeOrder, cancelOrder, paperFill };
+
+  const { data: history, isLoading } = useQuery({
+    queryKey: ['paperStrategyHistory', provider.id, asset.id],
+    queryFn: () => provider.getHistoricalCandles(asset.id, PAPER_STRATEGY_WARMUP_DAYS, '1h', 'usd'),
+    enabled: strategyId !== null,
+    staleTime: Infinity,
+  });
+
+  // Providers without a stream (or before the first tick) still need a price
+  const { data: polledTicker } = useQuery({
+    queryKey: ['ticker', provider.id, asset.id],
+    queryFn: () => provider.getTicker(asset.id, 'usd'),
+    refetchInterval: 30000,
+    enabled: strategyId !== null,
+  });
+  const sample = useMemo(
+    () => (polledTicker && (!tick || polledTicker.timestamp > tick.timestamp) ? polledTicker : tick),
+    [tick, polledTicker]
+  );
+
+  const spec = useMemo(() => strategyId && resolveStrategy(strategyId, custom).spec, [strategyId, custom]);
+
+  useEffect(() => {
+    runner.current = null;
+    setSignals(null);
+    setError(null);
+    if (!spec || !history || history.length === 0) return;
+    try {
+      const strategy = createStrategy(spec);
+      const closed: ChartData[] = [];
+      strategy.init();
+      history.slice(0, -1).forEach((candle, index) => {
+        closed.push(candle);
+        strategy.onCandle({ candle, index, history: closed, position: null, cash: 0, equity: 0 });
+      });
+      runner.current = {
+        strategy,
+        history: closed,
+        candles: history,
+        widthMs: candleWidth(history, HOUR_MS),
+        resting: [],
+      };
+      setSignals(strategy.signals());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [spec, history]);
+
+  useEffect(() => {
+    const run = runner.current;
+    if (!run || !sample) return;
+    const previous = run.candles[run.candles.length - 1];
+    run.candles = applyTickToSeries(run.candles, sample.timestamp, sample.price, sample.volume24h, run.widthMs);
+    if (run.candles[run.candles.length - 1].timestamp === previous.timestamp) return;
+
+    // The tick opened a new candle, so the one before it has closed
+    const { positionsData: positions, performance: account, ...broker } = latest.current;
+    const position = toOpenPosition(positions?.positions.find((p) => p.asset_id === asset.id));
+    const cash = account?.current_balance ?? 0;
+    run.history.push(previous);
+    const orders = run.strategy.onCandle({
+      candle: previous,
+      index: run.history.length - 1,
+      history: run.history,
+      position,
+      cash,
+      equity: cash + (position ? (position.side === 'BUY' ? 1 : -1) * position.quantity * previous.close : 0),
+    });
+    setSignals(run.strategy.signals());
+
+    const requests = toPaperOrders(orders, {
+      assetId: asset.id,
+      symbol: toBinanceSymbol(asset),
+      position,
+      cash,
+      price: previous.close,
+      takerFee: DEFAULT_EXECUTION.fees.taker,
+    });
+    const stale = !position || requests.length > 0 ? run.resting.splice(0) : [];
+
+    (async () => {
+      try {
+        await Promise.all(stale.map((orderId) => broker.cancelOrder(orderId)));
+        // One at a time, so a close reaches the broker before the entry after it
+        for (const request of requests) {
+          const order = await broker.placeOrder(broker.paperFill(request));
+          if (request.type !== 'market') run.resting.push(order.id);
+        }
+        setError(null);
+      } catch (err) {
+        setError(getApiErrorMessage(err));
+      }
+    })();
+  }, [sample, asset]);
+
+  return { signals, error, loading: strategyId !== null && isLoading };
+};
+
+const EXCHANGE_RATE_REFRESH_MS = 10 * 60 * 1000;
+
+// Keep the provider's exchange rates in the store. Mount once, near the root.
+export const useExchangeRates = () => {
+  const dispatch = useAppDispatch();
+  const provider = useMarketDataProvider();
+
+  const loadRates = useCallback(async () => {
+    try {
+      dispatch(exchangeRatesLoaded(await provider.getExchangeRates()));
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+    }
+  }, [dispatch, provider]);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  useInterval(loadRates, EXCHANGE_RATE_REFRESH_MS);
+};
+
+// Formatters for the selected quote currency. `fromUsd` converts US dollar
+// amounts first, and falls back to showing dollars until the rates arrive.
+export const useQuoteFormatter = () => {
+  const quote = useAppSelector(selectQuoteCurrency);
+  const rates = useAppSelector(selectExchangeRates);
+
+  const toQuote = useCallback((usd: number) => {
+    const converted = convertFromUsd(usd, quote, rates);
+    return converted === undefined
+      ? { value: usd, currency: 'usd' as const }
+      : { value: converted, currency: quote };
+  }, [quote, rates]);
+
+  return {
+    quote,
+    price: useCallback((value: number) => formatPrice(value, quote), [quote]),
+    money: useCallback(
+      (value: number, compact?: boolean) => formatMoney(value, quote, { compact }),
+      [quote]
+    ),
+    priceFromUsd: useCallback((usd: number) => {
+      const { value, currency } = toQuote(usd);
+      return formatPrice(value, currency);
+    }, [toQuote]),
+    moneyFromUsd: useCallback((usd: number, compact?: boolean) => {
+      const { value, currency } = toQuote(usd);
+      return formatMoney(value, currency, { compact });
+    }, [toQuote]),
+  };
+};
+
+// Poll a backend status endpoint, timing each request and recording the
+// outcome in the health slice for the session timeline
+export const useServiceHealthCheck = (service: ServiceName, intervalMs: number) => {
+  const dispatch = useAppDispatch();
+
+  return useQuery({
+    queryKey: [...apiQueryKeys.serviceStatus(service), 'health'],
+    queryFn: async () => {
+      const startedAt = performance.now();
+      try {
+        const status = await apiClient.getServiceStatus(service);
+        const latencyMs = performance.now() - startedAt;
+        const checkedAt = Date.now();
+        dispatch(healthCheckRecorded({
+          service,
+          check: { timestamp: checkedAt, latencyMs, ...getServiceHealth(status, checkedAt) },
+        }));
+        return { status, latencyMs, checkedAt };
+      } catch (error) {
+        dispatch(healthCheckRecorded({
+          service,
+          check: { timestamp: Date.now(), state: 'down', reason: (error as Error).message },
+        }));
+        throw error;
+      }
+    },
+    refetchInterval: intervalMs,
+    refetchIntervalInBackground: true,
+    retry: false,
+  });
+};
+
+const toRiskProfile = ({ riskLevel, limits }: ReturnType<typeof selectRisk>): RiskProfile => ({
+  risk_level: riskLevel,
+  limits: Object.fromEntries(Object.entries(limits).map(([assetId, positionLimits]) => [assetId, {
+    symbol: positionLimits.symbol,
+    stop_loss: positionLimits.stopLoss ?? null,
+    take_profit: positionLimits.takeProfit ?? null,
+    max_position_size: positionLimits.positionSize ?? null,
+  }])),
+});
+
+// Push the risk profile to the paper broker whenever it changes, and once on
+// startup because the broker forgets it on restart. Mount once, near the root.
+export const useRiskProfileSync = () => {
+  const risk = useAppSelector(selectRisk);
+  const { mutate } = useUpdateRiskProfile();
+
+  useEffect(() => {
+    mutate(toRiskProfile(risk));
+  }, [risk, mutate]);
+};
+
+export type NotificationKind = Exclude<keyof NotificationSettings, 'enabled'>;
+
+// Show a desktop notification if the user turned that kind on in Settings
+export const useNotify = () => {
+  const preferences = useAppSelector(selectNotificationSettings);
+
+  return useCallback((kind: NotificationKind, title: string, body: string) => {
+    if (preferences.enabled && preferences[kind]) {
+      showNotification(title, body);
+    }
+  }, [preferences]);
+};
+
+// Notify when a health incident opens. Mount once, near the root.
+export const useIncidentNotifications = () => {
+  const incidents = useAppSelector(selectIncidents);
+  const notify = useNotify();
+  const seen = useRef(new Set(incidents.map((incident) => incident.id)));
+
+  useEffect(() => {
+    incidents.forEach((incident) => {
+      if (seen.current.has(incident.id)) return;
+      seen.current.add(incident.id);
+      if (!incident.endedAt) {
+        notify('healthIncidents', `${incident.service} is ${incident.state}`, incident.reason);
+      }
+    });
+  }, [incidents, notify]);
+};
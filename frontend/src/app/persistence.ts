@@ -0,0 +1,143 @@
+import { createAction, nanoid, Reducer, Store } from '@reduxjs/toolkit';
+
+export type Migration = (state: unknown) => unknown;
+
+export interface PersistedSlice {
+  key: string; // the slice's key in the root state
+  version: number; // bump when the slice's shape changes, with a migration
+  migrations?: Record<number, Migration>; // migrations[n] turns version n state into version n + 1
+  // Checks migrated state and turns it into the slice's state, with defaults
+  // in place of anything unusable; undefined when none of it can be used
+  parse?: (state: unknown) => unknown;
+}
+
+// What goes to localStorage and over the channel
+interface PersistedEnvelope {
+  version: number;
+  state: unknown;
+}
+
+interface SyncMessage extends PersistedEnvelope {
+  tabId: string;
+  key: string;
+}
+
+const STORAGE_PREFIX = 'persist:';
+const CHANNEL_NAME = 'trading-bot-state';
+const WRITE_DEBOUNCE_MS = 500;
+
+// Replaces one slice with state read from storage or sent by another tab
+export const persistedStateReceived = createAction<{ key: string; state: unknown }>('persistence/stateReceived');
+
+// Wrap the root reducer so persistedStateReceived can swap out any slice
+export const withPersistedState = <S>(reducer: Reducer<S>): Reducer<S> => (state, action) => {
+  if (persistedStateReceived.match(action) && state) {
+    return { ...state, [action.payload.key]: action.payload.state };
+  }
+  return reducer(state, action);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Bring persisted state up to the slice's version. Undefined when it can't be
+// used: unreadable, from a newer build, missing a migration, or rejected by
+// the slice's parse.
+const migrate = ({ version, migrations = {}, parse }: PersistedSlice, envelope: unknown): unknown => {
+  if (!isObject(envelope) || typeof envelope.version !== 'number' || envelope.version > version) {
+    return undefined;
+  }
+  let state = envelope.state;
+  for (let from = envelope.version; from < version; from++) {
+    if (!migrations[from]) return undefined;
+    state = migrations[from](state);
+  }
+  return parse ? parse(state) : state;
+};
+
+// A slice's saved state, for initial state that's needed before persistSlices
+// runs; undefined when nothing usable is saved
+export const loadPersisted = (slice: PersistedSlice): unknown => {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + slice.key);
+    return stored ? migrate(slice, JSON.parse(stored)) : undefined;
+  } catch (error) {
+    console.error(`Error loading persisted ${slice.key} state:`, error);
+    return undefined;
+  }
+};
+
+const save = (slice: PersistedSlice, state: unknown) => {
+  try {
+    const envelope: PersistedEnvelope = { version: slice.version, state };
+    localStorage.setItem(STORAGE_PREFIX + slice.key, JSON.stringify(envelope));
+  } catch (error) {
+    console.error(`Error saving persisted ${slice.key} state:`, error);
+  }
+};
+
+// Hydrate `slices` from localStorage, write their changes back (debounced),
+// and keep them in step across tabs through a BroadcastChannel. Slices pick
+// up fields added since they were saved from their initial state.
+export const persistSlices = (store: Store, slices: PersistedSlice[]) => {
+  const tabId = nanoid();
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  const getSlice = (key: string) => (store.getState() as Record<string, unknown>)[key];
+
+  // The last state of each slice this tab saved or received, so changes that
+  // came from another tab aren't saved and echoed back again
+  const known: Record<string, unknown> = {};
+  const pending = new Set<PersistedSlice>();
+  let writeTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const receive = (key: string, state: unknown) => {
+    const current = getSlice(key);
+    const merged = isObject(current) && isObject(state) ? { ...current, ...state } : state;
+    known[key] = merged;
+    store.dispatch(persistedStateReceived({ key, state: merged }));
+  };
+
+  slices.forEach((slice) => {
+    const stored = loadPersisted(slice);
+    if (stored !== undefined) {
+      receive(slice.key, stored);
+    }
+    known[slice.key] = getSlice(slice.key);
+  });
+
+  const flush = () => {
+    clearTimeout(writeTimer);
+    writeTimer = undefined;
+    pending.forEach((slice) => save(slice, getSlice(slice.key)));
+    pending.clear();
+  };
+
+  store.subscribe(() => {
+    slices.forEach((slice) => {
+      const state = getSlice(slice.key);
+      if (state === known[slice.key]) return;
+      known[slice.key] = state;
+      pending.add(slice);
+      const message: SyncMessage = { tabId, key: slice.key, version: slice.version, state };
+      channel?.postMessage(message);
+    });
+    if (pending.size > 0 && !writeTimer) {
+      writeTimer = setTimeout(flush, WRITE_DEBOUNCE_MS);
+    }
+  });
+
+  if (channel) {
+    channel.onmessage = ({ data }: MessageEvent<SyncMessage>) => {
+      const slice = slices.find(({ key }) => key === data?.key);
+      if (!slice || data.tabId === tabId) return;
+      // A tab running another build may send another version; migrate it like stored state
+      const state = migrate(slice, data);
+      if (state !== undefined) {
+        receive(slice.key, state);
+      }
+    };
+  }
+
+  // Don't lose the last change to the debounce when the tab closes
+  window.addEventListener('pagehide', flush);
+};
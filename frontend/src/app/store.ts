@@ -1,14 +1,51 @@
-import { configureStore } from '@reduxjs/toolkit';
-import timeIntervalReducer from '../features/timeInterval/timeIntervalSlice';
-import chartReducer from '../features/chart/chartSlice';
-import walletReducer from '../features/wallet/walletSlice';
+import { combineReducers, configureStore } from '@reduxjs/toolkit';
+import timeIntervalReducer, { parseTimeInterval } from '../features/timeInterval/timeIntervalSlice';
+import chartReducer, { chartMigrations, parseChart } from '../features/chart/chartSlice';
+import walletReducer, { parseWallet } from '../features/wallet/walletSlice';
+import marketDataReducer from '../features/marketData/marketDataSlice';
+import healthReducer from '../features/health/healthSlice';
+import watchlistsReducer, { parseWatchlists } from '../features/watchlists/watchlistsSlice';
+import riskReducer, { parseRisk } from '../features/risk/riskSlice';
+import settingsReducer, { persistedSettings } from '../features/settings/settingsSlice';
+import strategiesReducer from '../features/strategies/strategiesSlice';
+import { apiClient } from '../api/client';
+import { persistSlices, withPersistedState } from './persistence';
 
 export const store = configureStore({
-  reducer: {
+  reducer: withPersistedState(combineReducers({
     timeInterval: timeIntervalReducer,
     chart: chartReducer,
     wallet: walletReducer,
-  },
+    marketData: marketDataReducer,
+    watchlists: watchlistsReducer,
+    health: healthReducer,
+    risk: riskReducer,
+    settings: settingsReducer,
+    strategies: strategiesReducer,
+  })),
+});
+
+// Restore the chart, wallet, interval, watchlists, risk profile, settings and
+// custom strategies across reloads, and share them between open tabs
+persistSlices(store, [
+  { key: 'chart', version: 3, migrations: chartMigrations, parse: parseChart },
+  { key: 'wallet', version: 1, parse: parseWallet },
+  { key: 'timeInterval', version: 1, parse: parseTimeInterval },
+  { key: 'strategies', version: 1 },
+  { key: 'watchlists', version: 1, parse: parseWatchlists },
+  { key: 'risk', version: 1, parse: parseRisk },
+  persistedSettings,
+]);
+
+// Keep the API client on the configured base URL
+let appliedBaseUrl = store.getState().settings.apiBaseUrl;
+apiClient.setBaseUrl(appliedBaseUrl);
+store.subscribe(() => {
+  const { apiBaseUrl } = store.getState().settings;
+  if (apiBaseUrl !== appliedBaseUrl) {
+    appliedBaseUrl = apiBaseUrl;
+    apiClient.setBaseUrl(apiBaseUrl);
+  }
 });
 
 export type RootState = ReturnType<typeof store.getState>;
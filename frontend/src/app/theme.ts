@@ -1,4 +1,5 @@
 import { createTheme } from '@mui/material/styles';
+import { ThemeSettings } from '../features/settings/settingsSlice';
 
 export const theme = createTheme({
   palette: {
@@ -14,3 +15,17 @@ export const theme = createTheme({
     fontFamily: '"Roboto", "Helvetica", "Arial", sans-serif',
   },
 });
+
+// The app's theme as configured on the Settings page
+export const createAppTheme = ({ mode, primaryColor, secondaryColor }: ThemeSettings) =>
+  createTheme({
+    palette: {
+      mode,
+      primary: {
+        main: primaryColor,
+      },
+      secondary: {
+        main: secondaryColor,
+      },
+    },
+  });
@@ -63,130 +63,57 @@ import {
 import { useInterval } from 'usehooks-ts';
 import { ApexOptions } from 'apexcharts';
 import Chart from 'react-apexcharts';
+import { useAppDispatch, useAppSelector, useComputeJob, useIndicatorSeries } from '../app/hooks';
+import { OptimizationMetric, OptimizationRun, packCandles } from '../workers/protocol';
+import { isJobCancelled } from '../workers/pool';
+import { STRATEGIES } from '../utils/strategies';
+import { DEFAULT_EXECUTION } from '../utils/execution';
+import { tradeReturn } from '../utils/backtest';
+import { WalkForwardResult, WalkForwardSettings } from '../types/backtest';
+import { getApiErrorMessage } from '../api/client';
+import { IndicatorInstance, IndicatorParams, IndicatorType } from '../types/chart';
+import { DEFAULT_INDICATOR_PARAMS } from '../utils/technicalIndicators';
+import { DEFAULT_INDICATOR_PANES, createIndicatorInstance } from '../utils/indicatorInstances';
+import { setIndicators } from '../features/chart/chartSlice';
+import { IndicatorParamsFields } from './IndicatorParamsFields';
+import WalkForwardResults from './WalkForwardResults';
 
-// Advanced Technical Indicators
-const ADVANCED_INDICATORS = {
+// Advanced Technical Indicators, calculated by the shared indicator library
+const ADVANCED_INDICATORS: Record<string, {
+  name: string;
+  description: string;
+  category: string;
+  type: IndicatorType;
+}> = {
   'DONCHIAN': {
     name: 'Donchian Channels',
     description: 'Shows volatility and potential breakout points.',
     category: 'Volatility',
-    parameters: { 
-      period: 20,
-      multiplier: 2 
-    },
-    calculate: (data: any[], params: any) => {
-      const upper = data.map((_, i) => {
-        if (i < params.period - 1) return null;
-        return Math.max(...data.slice(i - params.period + 1, i + 1).map(d => d.high));
-      });
-      const lower = data.map((_, i) => {
-        if (i < params.period - 1) return null;
-        return Math.min(...data.slice(i - params.period + 1, i + 1).map(d => d.low));
-      });
-      return { upper, lower };
-    },
+    type: 'donchianChannels',
   },
   'KST': {
     name: 'Know Sure Thing',
     description: 'Multi-period momentum oscillator.',
     category: 'Momentum',
-    parameters: { 
-      rsi1: 10,
-      rsi2: 15,
-      rsi3: 20,
-      rsi4: 30,
-      sma1: 10,
-      sma2: 10,
-      sma3: 10,
-      sma4: 15,
-      signal: 9 
-    },
-    calculate: (data: any[], params: any) => {
-      const rsi1 = calculateRSI(data, params.rsi1);
-      const rsi2 = calculateRSI(data, params.rsi2);
-      const rsi3 = calculateRSI(data, params.rsi3);
-      const rsi4 = calculateRSI(data, params.rsi4);
-      
-      const sma1 = calculateSMA(rsi1, params.sma1);
-      const sma2 = calculateSMA(rsi2, params.sma2);
-      const sma3 = calculateSMA(rsi3, params.sma3);
-      const sma4 = calculateSMA(rsi4, params.sma4);
-      
-      const kst = sma1.map((val, i) => 
-        val + (2 * sma2[i]) + (3 * sma3[i]) + (4 * sma4[i])
-      );
-      const signal = calculateSMA(kst, params.signal);
-      
-      return { kst, signal };
-    },
+    type: 'kst',
   },
   'CHAIKIN': {
     name: 'Chaikin Money Flow',
     description: 'Combines volume and price to identify accumulation/distribution.',
     category: 'Volume',
-    parameters: { period: 21 },
-    calculate: (data: any[], params: any) => {
-      const period = params.period;
-      const moneyFlow = data.map(d => {
-        const highLow = d.high - d.low;
-        const closeLow = d.close - d.low;
-        const highClose = d.high - d.close;
-        return ((closeLow - highClose) / highLow) * d.volume;
-      });
-      
-      const moneyFlowVolume = moneyFlow.map((val, i) => {
-        if (i < period - 1) return null;
-        return moneyFlow.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0);
-      });
-      
-      const volumeSum = data.map((_, i) => {
-        if (i < period - 1) return null;
-        return data.slice(i - period + 1, i + 1).reduce((a, b) => a + b.volume, 0);
-      });
-      
-      return moneyFlowVolume.map((val, i) => val / volumeSum[i]);
-    },
+    type: 'chaikinMoneyFlow',
   },
   'VWAPM': {
     name: 'Volume Weighted Average Price Momentum',
     description: 'Measures momentum based on volume-weighted price.',
     category: 'Momentum',
-    parameters: { period: 14 },
-    calculate: (data: any[], params: any) => {
-      const period = params.period;
-      const typicalPrice = data.map(d => (d.high + d.low + d.close) / 3);
-      const volume = data.map(d => d.volume);
-      
-      const vwap = typicalPrice.map((tp, i) => {
-        if (i < period - 1) return null;
-        const totalVolume = volume.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0);
-        const totalPriceVolume = typicalPrice.slice(i - period + 1, i + 1)
-          .map((tp, j) => tp * volume[i - period + 1 + j])
-          .reduce((a, b) => a + b, 0);
-        return totalPriceVolume / totalVolume;
-      });
-      
-      return vwap.map((val, i) => {
-        if (i === 0) return 0;
-        return ((val - vwap[i - 1]) / vwap[i - 1]) * 100;
-      });
-    },
+    type: 'vwapMomentum',
   },
   'HMA': {
     name: 'Hull Moving Average',
     description: 'Smoothed moving average with reduced lag.',
     category: 'Trend',
-    parameters: { period: 16 },
-    calculate: (data: any[], params: any) => {
-      const period = params.period;
-      const wma = calculateWMA(data, period);
-      const wma2 = calculateWMA(data, Math.floor(period / 2));
-      
-      const doubledWma = wma2.map((val, i) => 2 * val - wma[i]);
-      const sqrtPeriod = Math.floor(Math.sqrt(period));
-      
-      return calculateWMA(doubledWma, sqrtPeriod);
-    },
+    type: 'hma',
   },
 };
 
@@ -255,34 +182,14 @@ const RISK_MANAGEMENT = {
 const BACKTESTING_FEATURES = {
   'WALK_FORWARD': {
     name: 'Walk Forward Analysis',
-    description: 'Tests strategy on out-of-sample data.',
+    description: 'Optimizes on each in-sample window and tests the best parameters on the window after it.',
+    // In candles; the grid searched is the optimization's
     parameters: {
-      trainingPeriod: 60,
-      testingPeriod: 20,
-      step: 10,
-    },
-    calculate: (data: any[], params: any) => {
-      const results = [];
-      let i = 0;
-      
-      while (i + params.trainingPeriod + params.testingPeriod <= data.length) {
-        const trainingData = data.slice(i, i + params.trainingPeriod);
-        const testingData = data.slice(i + params.trainingPeriod, 
-          i + params.trainingPeriod + params.testingPeriod);
-        
-        // Train strategy on training data
-        // Test on testing data
-        results.push({
-          trainingPeriod: trainingData,
-          testingPeriod: testingData,
-          performance: calculatePerformance(testingData),
-        });
-        
-        i += params.step;
-      }
-      
-      return results;
-    },
+      mode: 'rolling',
+      inSample: 240,
+      outOfSample: 60,
+      metric: 'sharpeRatio',
+    } as WalkForwardSettings,
   },
   'OPTIMIZATION': {
     name: 'Parameter Optimization',
@@ -293,22 +200,7 @@ const BACKTESTING_FEATURES = {
         multiplier: [1.5, 2, 2.5],
       },
       objective: 'maximize',
-      metric: 'sharpeRatio',
-    },
-    calculate: (data: any[], params: any) => {
-      const results = [];
-      
-      for (const period of params.parameterRanges.period) {
-        for (const multiplier of params.parameterRanges.multiplier) {
-          const performance = calculatePerformance(data, { period, multiplier });
-          results.push({
-            parameters: { period, multiplier },
-            performance,
-          });
-        }
-      }
-      
-      return results;
+      metric: 'sharpeRatio' as OptimizationMetric,
     },
   },
   'BOOTSTRAP': {
@@ -318,19 +210,6 @@ const BACKTESTING_FEATURES = {
       samples: 100,
       sampleSize: 0.8,
     },
-    calculate: (data: any[], params: any) => {
-      const results = [];
-      
-      for (let i = 0; i < params.samples; i++) {
-        const sample = data
-          .sort(() => Math.random() - 0.5)
-          .slice(0, Math.floor(data.length * params.sampleSize));
-        
-        results.push(calculatePerformance(sample));
-      }
-      
-      return results;
-    },
   },
 };
 
@@ -440,6 +319,9 @@ const ADVANCED_STRATEGIES = {
   },
 };
 
+// The strategy the optimization and bootstrap cards test
+const BACKTEST_STRATEGY = 'BOLLINGER_REVERSION';
+
 interface AdvancedTradingFeaturesProps {
   asset: any;
   onIndicatorChange: (indicator: string, params: any) => void;
@@ -456,10 +338,21 @@ const AdvancedTradingFeatures: React.FC<AdvancedTradingFeaturesProps> = ({
   const [activeTab, setActiveTab] = useState(0);
   const [selectedIndicator, setSelectedIndicator] = useState('DONCHIAN');
   const [selectedStrategy, setSelectedStrategy] = useState('MACHINE_LEARNING');
-  const [indicatorParams, setIndicatorParams] = useState({ period: 20 });
+  const [indicatorParams, setIndicatorParams] = useState<IndicatorParams[IndicatorType]>(
+    DEFAULT_INDICATOR_PARAMS.donchianChannels
+  );
   const [loading, setLoading] = useState(true);
   const [showExplanation, setShowExplanation] = useState(false);
   const [showChart, setShowChart] = useState(false);
+  const dispatch = useAppDispatch();
+  const chartIndicators = useAppSelector((state) => state.chart.config.indicators);
+  const optimization = useComputeJob();
+  const bootstrap = useComputeJob();
+  const walkForward = useComputeJob();
+  const [optimizationRuns, setOptimizationRuns] = useState<OptimizationRun[] | null>(null);
+  const [bootstrapReturns, setBootstrapReturns] = useState<Float64Array | null>(null);
+  const [walkForwardResult, setWalkForwardResult] = useState<WalkForwardResult | null>(null);
+  const [jobError, setJobError] = useState<string | null>(null);
 
   // Format number with commas
   const formatNumber = (num: number) => {
@@ -481,8 +374,9 @@ const AdvancedTradingFeatures: React.FC<AdvancedTradingFeaturesProps> = ({
   // Handle indicator change
   const handleIndicatorChange = (indicator: string) => {
     setSelectedIndicator(indicator);
-    setIndicatorParams(ADVANCED_INDICATORS[indicator].parameters);
-    onIndicatorChange(indicator, ADVANCED_INDICATORS[indicator].parameters);
+    const params = DEFAULT_INDICATOR_PARAMS[ADVANCED_INDICATORS[indicator].type];
+    setIndicatorParams(params);
+    onIndicatorChange(indicator, params);
   };
 
   // Handle strategy change
@@ -524,14 +418,95 @@ const AdvancedTradingFeatures: React.FC<AdvancedTradingFeaturesProps> = ({
     },
   };
 
-  // Calculate indicator data
-  const calculateIndicatorData = () => {
-    if (!asset.priceData) return null;
-    
-    const indicator = ADVANCED_INDICATORS[selectedIndicator];
-    const result = indicator.calculate(asset.priceData, indicatorParams);
-    
-    return result;
+  // The optimization and bootstrap both test the band strategy on the asset's
+  // candles, on the compute workers
+  const backtestDetails = () => ({
+    strategy: STRATEGIES[BACKTEST_STRATEGY].name,
+    asset: asset.symbol,
+    initialCapital: 10000,
+    execution: DEFAULT_EXECUTION,
+  });
+
+  const reportJobError = (error: unknown) => {
+    if (!isJobCancelled(error)) setJobError(getApiErrorMessage(error));
+  };
+
+  const runOptimization = async () => {
+    const { parameterRanges, metric } = BACKTESTING_FEATURES.OPTIMIZATION.parameters;
+    setJobError(null);
+    try {
+      setOptimizationRuns(await optimization.run({
+        kind: 'optimize',
+        candles: packCandles(asset.priceData),
+        strategy: BACKTEST_STRATEGY,
+        grid: parameterRanges,
+        metric,
+        details: backtestDetails(),
+      }));
+    } catch (error) {
+      reportJobError(error);
+    }
+  };
+
+  // Resample the returns of the strategy's trades to see how much of its result
+  // is down to the order they came in
+  const runBootstrap = async () => {
+    const { samples, sampleSize } = BACKTESTING_FEATURES.BOOTSTRAP.parameters;
+    setJobError(null);
+    try {
+      const { trades } = await bootstrap.run({
+        kind: 'backtest',
+        candles: packCandles(asset.priceData),
+        strategy: { id: BACKTEST_STRATEGY },
+        details: backtestDetails(),
+      });
+      const returns = Float64Array.from(trades, tradeReturn);
+      setBootstrapReturns(await bootstrap.run({ kind: 'bootstrap', returns, samples, sampleSize, seed: 1 }));
+    } catch (error) {
+      reportJobError(error);
+    }
+  };
+
+  const runWalkForward = async () => {
+    setJobError(null);
+    try {
+      setWalkForwardResult(await walkForward.run({
+        kind: 'walkForward',
+        candles: packCandles(asset.priceData),
+        strategy: { id: BACKTEST_STRATEGY },
+        grid: BACKTESTING_FEATURES.OPTIMIZATION.parameters.parameterRanges,
+        settings: BACKTESTING_FEATURES.WALK_FORWARD.parameters,
+        details: backtestDetails(),
+      }));
+    } catch (error) {
+      reportJobError(error);
+    }
+  };
+
+  const percentile = (sorted: Float64Array, p: number) =>
+    sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+  // Each output of the selected indicator, a value per candle
+  const indicatorSeries = useIndicatorSeries(
+    asset.priceData ?? [],
+    ADVANCED_INDICATORS[selectedIndicator].type,
+    indicatorParams
+  );
+
+  // Overlays are drawn with the close they share a scale with
+  const indicatorChartSeries = () => {
+    const { name, type } = ADVANCED_INDICATORS[selectedIndicator];
+    const points = (values: (number | undefined)[]) =>
+      asset.priceData.map((d: any, i: number) => ({ x: d.timestamp, y: values[i] ?? null }));
+    return [
+      ...(DEFAULT_INDICATOR_PANES[type] === 'price'
+        ? [{ name: 'Close', data: points(asset.priceData.map((d: any) => d.close ?? d.price)) }]
+        : []),
+      ...Object.entries(indicatorSeries ?? {}).map(([output, values]) => ({
+        name: output === 'value' ? name : `${name} (${output})`,
+        data: points(values),
+      })),
+    ];
   };
 
   return (
@@ -580,6 +555,37 @@ const AdvancedTradingFeatures: React.FC<AdvancedTradingFeaturesProps> = ({
                 </Stack>
               </Button>
             ))}
+
+            {/* Selected indicator on the asset's candles */}
+            <Stack direction="row" spacing={2} alignItems="center">
+              <IndicatorParamsFields
+                type={ADVANCED_INDICATORS[selectedIndicator].type}
+                params={indicatorParams}
+                onChange={(params) => {
+                  setIndicatorParams(params);
+                  onIndicatorChange(selectedIndicator, params);
+                }}
+              />
+              <Button
+                onClick={() => dispatch(setIndicators([
+                  ...chartIndicators,
+                  {
+                    ...createIndicatorInstance(ADVANCED_INDICATORS[selectedIndicator].type),
+                    params: indicatorParams,
+                  } as IndicatorInstance,
+                ]))}
+              >
+                Add to price chart
+              </Button>
+            </Stack>
+            {indicatorSeries && (
+              <Chart
+                options={chartOptions}
+                series={indicatorChartSeries()}
+                type="line"
+                height={350}
+              />
+            )}
           </Stack>
         </CardContent>
       </Card>
@@ -661,25 +667,78 @@ const AdvancedTradingFeatures: React.FC<AdvancedTradingFeaturesProps> = ({
         />
         <CardContent>
           <Stack spacing={2}>
-            {Object.entries(BACKTESTING_FEATURES).map(([feature, config]) => (
-              <Card key={feature} sx={{ mb: 2 }}>
-                <CardHeader
-                  title={config.name}
-                  subheader={config.description}
-                />
-                <CardContent>
-                  <FormGroup>
-                    {Object.entries(config.parameters).map(([param, value]) => (
-                      <FormControlLabel
-                        key={param}
-                        control={<Switch />}
-                        label={param}
-                      />
-                    ))}
-                  </FormGroup>
-                </CardContent>
-              </Card>
-            ))}
+            {jobError && <Alert severity="error" onClose={() => setJobError(null)}>{jobError}</Alert>}
+            {Object.entries(BACKTESTING_FEATURES).map(([feature, config]) => {
+              const job = { WALK_FORWARD: walkForward, OPTIMIZATION: optimization, BOOTSTRAP: bootstrap }[feature];
+              const runJob = { WALK_FORWARD: runWalkForward, OPTIMIZATION: runOptimization, BOOTSTRAP: runBootstrap }[feature];
+              return (
+                <Card key={feature} sx={{ mb: 2 }}>
+                  <CardHeader
+                    title={config.name}
+                    subheader={config.description}
+                    action={job && runJob && (
+                      job.running ? (
+                        <Button onClick={job.cancel}>Cancel</Button>
+                      ) : (
+                        <Button onClick={runJob} disabled={!asset.priceData?.length}>Run</Button>
+                      )
+                    )}
+                  />
+                  <CardContent>
+                    {job?.running && (
+                      <LinearProgress variant="determinate" value={(job.progress ?? 0) * 100} sx={{ mb: 2 }} />
+                    )}
+                    <FormGroup>
+                      {Object.entries(config.parameters).map(([param, value]) => (
+                        <FormControlLabel
+                          key={param}
+                          control={<Switch />}
+                          label={param}
+                        />
+                      ))}
+                    </FormGroup>
+                    {feature === 'WALK_FORWARD' && walkForwardResult && (
+                      <Box sx={{ mt: 2 }}>
+                        <WalkForwardResults result={walkForwardResult} />
+                      </Box>
+                    )}
+                    {feature === 'OPTIMIZATION' && optimizationRuns && (
+                      <TableContainer component={Paper} sx={{ mt: 2 }}>
+                        <Table size="small">
+                          <TableHead>
+                            <TableRow>
+                              <TableCell>Period</TableCell>
+                              <TableCell>Multiplier</TableCell>
+                              <TableCell align="right">Sharpe Ratio</TableCell>
+                              <TableCell align="right">Return</TableCell>
+                              <TableCell align="right">Win Rate</TableCell>
+                            </TableRow>
+                          </TableHead>
+                          <TableBody>
+                            {optimizationRuns.map(({ params, result }) => (
+                              <TableRow key={`${params.period}-${params.multiplier}`}>
+                                <TableCell>{params.period}</TableCell>
+                                <TableCell>{params.multiplier}</TableCell>
+                                <TableCell align="right">{result.sharpeRatio.toFixed(2)}</TableCell>
+                                <TableCell align="right">{formatPercentage(result.totalReturn)}</TableCell>
+                                <TableCell align="right">{formatPercentage(result.winRate)}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </TableContainer>
+                    )}
+                    {feature === 'BOOTSTRAP' && bootstrapReturns && bootstrapReturns.length > 0 && (
+                      <Stack direction="row" spacing={1} sx={{ mt: 2 }}>
+                        <Chip size="small" label={`5th percentile: ${formatPercentage(percentile(bootstrapReturns, 0.05))}`} />
+                        <Chip size="small" label={`Median: ${formatPercentage(percentile(bootstrapReturns, 0.5))}`} />
+                        <Chip size="small" label={`95th percentile: ${formatPercentage(percentile(bootstrapReturns, 0.95))}`} />
+                      </Stack>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
           </Stack>
         </CardContent>
       </Card>
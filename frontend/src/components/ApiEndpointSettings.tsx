@@ -0,0 +1,69 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Button, Card, CardContent, CardHeader, Stack, TextField } from '@mui/material';
+import { useQueryClient } from '@tanstack/react-query';
+import { DEFAULT_API_BASE_URL, apiClient } from '../api/client';
+import { apiQueryKeys, useApiRoot } from '../api/hooks';
+import { useAppDispatch, useAppSelector } from '../app/hooks';
+import { apiBaseUrlChanged, selectSettings } from '../features/settings/settingsSlice';
+
+// Where the trading backend lives, with a connection check against its root route
+export const ApiEndpointSettings: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const queryClient = useQueryClient();
+  const { apiBaseUrl } = useAppSelector(selectSettings);
+  const [baseUrl, setBaseUrl] = useState(apiClient.getBaseUrl());
+  const { data: root, error, isFetching, refetch } = useApiRoot();
+  const appliedBaseUrl = useRef(apiBaseUrl);
+
+  // The store repoints apiClient whenever the setting changes, whether from
+  // here, an import or a reset; refetch everything from the new backend
+  useEffect(() => {
+    setBaseUrl(apiClient.getBaseUrl());
+    if (apiBaseUrl !== appliedBaseUrl.current) {
+      appliedBaseUrl.current = apiBaseUrl;
+      queryClient.invalidateQueries({ queryKey: apiQueryKeys.all });
+    }
+  }, [apiBaseUrl, queryClient]);
+
+  const applyBaseUrl = (url: string) => {
+    dispatch(apiBaseUrlChanged(url));
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardHeader title="Backend API" />
+      <CardContent>
+        <Stack spacing={2}>
+          <TextField
+            label="Base URL"
+            value={baseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+            helperText={`Default: ${DEFAULT_API_BASE_URL}`}
+            size="small"
+            fullWidth
+          />
+          <Stack direction="row" spacing={1}>
+            <Button
+              variant="contained"
+              onClick={() => applyBaseUrl(baseUrl)}
+              disabled={baseUrl === apiClient.getBaseUrl()}
+            >
+              Save
+            </Button>
+            <Button onClick={() => applyBaseUrl('')}>Reset to default</Button>
+            <Button onClick={() => refetch()} disabled={isFetching}>
+              Test connection
+            </Button>
+          </Stack>
+          {error ? (
+            <Alert severity="error">{(error as Error).message}</Alert>
+          ) : root ? (
+            <Alert severity="success">Connected: {root.message}</Alert>
+          ) : null}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ApiEndpointSettings;
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Autocomplete, Box, TextField, Typography } from '@mui/material';
+import { useSupportedAssets } from '../app/hooks';
+import { MarketAsset } from '../types/marketData';
+import { searchAssets } from '../utils/fuzzySearch';
+
+interface AssetPickerProps {
+  onSelect: (asset: MarketAsset) => void;
+  label?: string;
+  exclude?: string[]; // ids already picked
+  size?: 'small' | 'medium';
+}
+
+const MAX_OPTIONS = 50;
+
+// Search box over every asset the provider supports, fuzzy matched on id,
+// symbol and name. Clears itself after each pick.
+export const AssetPicker: React.FC<AssetPickerProps> = ({
+  onSelect,
+  label = 'Search assets',
+  exclude = [],
+  size = 'small',
+}) => {
+  const { data: assets = [], isLoading, isError } = useSupportedAssets();
+  const [inputValue, setInputValue] = useState('');
+
+  return (
+    <Autocomplete<MarketAsset>
+      size={size}
+      sx={{ minWidth: 260 }}
+      options={assets}
+      value={null}
+      inputValue={inputValue}
+      onInputChange={(_, value, reason) => {
+        if (reason !== 'reset') setInputValue(value);
+      }}
+      onChange={(_, asset) => {
+        if (asset) {
+          onSelect(asset);
+          setInputValue('');
+        }
+      }}
+      filterOptions={(options, { inputValue: query }) =>
+        searchAssets(options.filter((asset) => !exclude.includes(asset.id)), query, MAX_OPTIONS)
+      }
+      getOptionLabel={(asset) => `${asset.name} (${asset.symbol.toUpperCase()})`}
+      isOptionEqualToValue={(option, value) => option.id === value.id}
+      loading={isLoading}
+      noOptionsText={isError ? 'Could not load the asset list' : 'No matching assets'}
+      renderOption={(props, asset) => (
+        <Box component="li" {...props} key={asset.id}>
+          <Typography sx={{ mr: 1 }}>{asset.name}</Typography>
+          <Typography variant="caption" color="text.secondary">
+            {asset.symbol.toUpperCase()} · {asset.id}
+          </Typography>
+        </Box>
+      )}
+      renderInput={(params) => <TextField {...params} label={label} />}
+    />
+  );
+};
+
+export default AssetPicker;
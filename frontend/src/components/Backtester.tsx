@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   Box,
   Typography,
@@ -31,6 +31,8 @@ import {
   LinearProgress,
   Select,
   MenuItem,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
 import {
   TrendingUp,
@@ -58,51 +60,98 @@ import {
   TrendingFlat as TrendingFlatIcon,
 } from '@mui/icons-material';
 import { useInterval } from 'usehooks-ts';
+import { useAppSelector, useHistoryRange, useOrderBooks, useQuoteFormatter } from '../app/hooks';
+import { selectOrderBooks } from '../features/marketData/marketDataSlice';
+import { QUOTE_CURRENCIES } from '../utils/formatters';
+import {
+  BacktestConfig,
+  BacktestResult,
+  ExecutionSettings,
+  OptimizationMetric,
+  WalkForwardResult,
+  WalkForwardSettings,
+} from '../types/backtest';
+import { resolveStrategy } from '../utils/strategies';
+import { selectCustomStrategies } from '../features/strategies/strategiesSlice';
+import { DEFAULT_EXECUTION, totalCost } from '../utils/execution';
+import ExecutionSettingsFields from './ExecutionSettingsFields';
+import WalkForwardResults from './WalkForwardResults';
+import { getApiErrorMessage } from '../api/client';
+import { ComputeOptions } from '../workers/protocol';
+import { isJobCancelled } from '../workers/pool';
 import { ApexOptions } from 'apexcharts';
 import Chart from 'react-apexcharts';
 
-interface BacktestResult {
-  strategy: string;
-  asset: string;
-  startDate: string;
-  endDate: string;
-  initialCapital: number;
-  finalCapital: number;
-  totalReturn: number;
-  maxDrawdown: number;
-  sharpeRatio: number;
-  winRate: number;
-  averageWin: number;
-  averageLoss: number;
-  trades: {
-    entryTime: string;
-    exitTime: string;
-    entryPrice: number;
-    exitPrice: number;
-    quantity: number;
-    profit: number;
-    type: 'BUY' | 'SELL';
-  }[];
-}
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Candle widths a backtest can ask for
+const BACKTEST_WIDTHS_MS = [HOUR_MS, 4 * HOUR_MS, DAY_MS, 7 * DAY_MS];
+
+const formatWidth = (ms: number) => {
+  if (ms < HOUR_MS) return `${Math.round(ms / 60000)}m`;
+  if (ms % (7 * DAY_MS) === 0) return `${ms / (7 * DAY_MS)}w`;
+  if (ms % DAY_MS === 0) return `${ms / DAY_MS}d`;
+  return `${Math.round(ms / HOUR_MS)}h`;
+};
 
 interface BacktesterProps {
   assets: any[];
-  strategies: string[];
-  onBacktest: (config: any) => Promise<BacktestResult>;
+  strategies: string[]; // ids in STRATEGIES or of custom strategies
+  // Runs the backtest, e.g. on the compute workers, reporting progress and
+  // stopping when the signal aborts; useBacktest gives one
+  onBacktest: (config: BacktestConfig, options: ComputeOptions) => Promise<BacktestResult>;
+  // Walks forward through the same candles: useWalkForward gives one
+  onWalkForward: (
+    config: BacktestConfig,
+    settings: WalkForwardSettings,
+    options: ComputeOptions
+  ) => Promise<WalkForwardResult>;
 }
 
-const Backtester: React.FC<BacktesterProps> = ({ assets, strategies, onBacktest }) => {
+const Backtester: React.FC<BacktesterProps> = ({ assets, strategies, onBacktest, onWalkForward }) => {
   const [activeTab, setActiveTab] = useState(0);
-  const [selectedStrategy, setSelectedStrategy] = useState('TREND_FOLLOWING');
+  const customStrategies = useAppSelector(selectCustomStrategies);
+  const [selectedStrategy, setSelectedStrategy] = useState(strategies[0] ?? '');
   const [selectedAsset, setSelectedAsset] = useState('');
-  const [startDate, setStartDate] = useState('2023-01-01');
-  const [endDate, setEndDate] = useState('2023-12-31');
+  // The dates follow the asset's history on the provider until they're changed
+  const history = useHistoryRange(selectedAsset);
+  const [chosenStartDate, setStartDate] = useState<string | null>(null);
+  const [chosenEndDate, setEndDate] = useState<string | null>(null);
+  const startDate = chosenStartDate ?? history?.startDate ?? '';
+  const endDate = chosenEndDate ?? history?.endDate ?? '';
+  const [candleMs, setCandleMs] = useState(HOUR_MS);
   const [initialCapital, setInitialCapital] = useState(10000);
+  const [execution, setExecution] = useState<ExecutionSettings>(DEFAULT_EXECUTION);
+  // Market orders can walk the asset's live order book instead of taking a
+  // share of each candle's volume
+  const [fillFromBook, setFillFromBook] = useState(false);
+  const bookAssets = useMemo(
+    () => (fillFromBook ? assets.filter((asset) => asset.id === selectedAsset) : []),
+    [fillFromBook, assets, selectedAsset]
+  );
+  useOrderBooks(bookAssets);
+  const orderBook = useAppSelector(selectOrderBooks)[selectedAsset];
   const [backtestResults, setBacktestResults] = useState<BacktestResult[]>([]);
   const [loading, setLoading] = useState(false);
+  const [backtestError, setBacktestError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const backtestController = useRef<AbortController | null>(null);
   const [showResults, setShowResults] = useState(false);
   const [selectedResult, setSelectedResult] = useState<BacktestResult | null>(null);
   const [showAnalysis, setShowAnalysis] = useState(false);
+  const [walkForward, setWalkForward] = useState<WalkForwardSettings>({
+    mode: 'rolling',
+    inSample: 240,
+    outOfSample: 60,
+    metric: 'sharpeRatio',
+  });
+  const [walkForwardResult, setWalkForwardResult] = useState<WalkForwardResult | null>(null);
+  const [walkForwardProgress, setWalkForwardProgress] = useState<number | null>(null);
+  const [walkForwardError, setWalkForwardError] = useState<string | null>(null);
+  const walkForwardController = useRef<AbortController | null>(null);
+  // Capital and P&L are in the selected quote currency
+  const { quote, money } = useQuoteFormatter();
 
   // Calculate date range for slider
   const dateRange = useMemo(() => {
@@ -126,12 +175,9 @@ const Backtester: React.FC<BacktesterProps> = ({ assets, strategies, onBacktest
     };
   };
 
-  // Format number with commas
+  // Format an amount of money in the quote currency
   const formatNumber = (num: number) => {
-    return new Intl.NumberFormat('en-US', {
-      notation: 'compact',
-      maximumFractionDigits: 2,
-    }).format(num);
+    return money(num, true);
   };
 
   // Format percentage
@@ -143,34 +189,69 @@ const Backtester: React.FC<BacktesterProps> = ({ assets, strategies, onBacktest
     }).format(num);
   };
 
+  const backtestConfig = (): BacktestConfig => ({
+    strategy: selectedStrategy,
+    asset: selectedAsset,
+    startDate,
+    endDate,
+    candleMs,
+    initialCapital,
+    quote,
+    execution: fillFromBook && orderBook ? { ...execution, book: orderBook } : execution,
+  });
+
   // Handle backtest
   const handleBacktest = async () => {
     if (!selectedAsset) return;
     
+    const controller = new AbortController();
+    backtestController.current = controller;
     setLoading(true);
+    setProgress(0);
+    setBacktestError(null);
     try {
-      const result = await onBacktest({
-        strategy: selectedStrategy,
-        asset: selectedAsset,
-        startDate,
-        endDate,
-        initialCapital,
-      });
+      const result = await onBacktest(backtestConfig(), { onProgress: setProgress, signal: controller.signal });
       
       setBacktestResults(prev => [...prev, result]);
       setSelectedResult(result);
       setShowResults(true);
     } catch (error) {
+      if (isJobCancelled(error)) return;
       console.error('Backtest error:', error);
-      Alert({
-        severity: 'error',
-        children: 'Backtest failed. Please check your parameters.',
-      });
+      setBacktestError(`Backtest failed: ${getApiErrorMessage(error)}`);
     } finally {
+      backtestController.current = null;
       setLoading(false);
     }
   };
 
+  const handleWalkForward = async () => {
+    if (!selectedAsset) return;
+
+    const controller = new AbortController();
+    walkForwardController.current = controller;
+    setWalkForwardProgress(0);
+    setWalkForwardError(null);
+    try {
+      setWalkForwardResult(await onWalkForward(backtestConfig(), walkForward, {
+        onProgress: setWalkForwardProgress,
+        signal: controller.signal,
+      }));
+    } catch (error) {
+      if (isJobCancelled(error)) return;
+      setWalkForwardError(`Walk-forward analysis failed: ${getApiErrorMessage(error)}`);
+    } finally {
+      walkForwardController.current = null;
+      setWalkForwardProgress(null);
+    }
+  };
+
+  // A backtest still running when the page closes is of no use
+  useEffect(() => () => {
+    backtestController.current?.abort();
+    walkForwardController.current?.abort();
+  }, []);
+
   // Handle analysis
   const handleAnalysis = () => {
     if (!selectedResult) return;
@@ -213,22 +294,6 @@ const Backtester: React.FC<BacktesterProps> = ({ assets, strategies, onBacktest
     },
   };
 
-  // Calculate equity curve data
-  const getEquityCurve = (result: BacktestResult) => {
-    const data = [result.initialCapital];
-    let currentCapital = result.initialCapital;
-    
-    result.trades.forEach(trade => {
-      currentCapital += trade.profit;
-      data.push(currentCapital);
-    });
-    
-    return {
-      x: result.trades.map(t => t.entryTime),
-      y: data,
-    };
-  };
-
   return (
     <Box sx={{ p: 2 }}>
       {/* Backtest Configuration */}
@@ -251,7 +316,7 @@ const Backtester: React.FC<BacktesterProps> = ({ assets, strategies, onBacktest
               >
                 {strategies.map((strategy, index) => (
                   <MenuItem key={index} value={strategy}>
-                    {strategy}
+                    {resolveStrategy(strategy, customStrategies).name}
                   </MenuItem>
                 ))}
               </Select>
@@ -268,7 +333,7 @@ const Backtester: React.FC<BacktesterProps> = ({ assets, strategies, onBacktest
                 size="small"
               >
                 {assets.map((asset, index) => (
-                  <MenuItem key={index} value={asset.symbol}>
+                  <MenuItem key={index} value={asset.id}>
                     {asset.name} ({asset.symbol})
                   </MenuItem>
                 ))}
@@ -283,6 +348,8 @@ const Backtester: React.FC<BacktesterProps> = ({ assets, strategies, onBacktest
                 value={startDate}
                 onChange={(e) => setStartDate(e.target.value)}
                 size="small"
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ min: history?.startDate, max: history?.endDate }}
                 sx={{ width: 200 }}
               />
               <TextField
@@ -291,14 +358,27 @@ const Backtester: React.FC<BacktesterProps> = ({ assets, strategies, onBacktest
                 value={endDate}
                 onChange={(e) => setEndDate(e.target.value)}
                 size="small"
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ min: history?.startDate, max: history?.endDate }}
                 sx={{ width: 200 }}
               />
+              <Select
+                value={candleMs}
+                onChange={(e) => setCandleMs(Number(e.target.value))}
+                size="small"
+              >
+                {BACKTEST_WIDTHS_MS.map((option) => (
+                  <MenuItem key={option} value={option}>
+                    {formatWidth(option)} candles
+                  </MenuItem>
+                ))}
+              </Select>
             </Stack>
 
             {/* Initial Capital */}
             <Stack direction="row" spacing={2}>
               <Typography variant="body2">
-                Initial Capital:
+                Initial Capital ({QUOTE_CURRENCIES[quote].label}):
               </Typography>
               <TextField
                 value={initialCapital}
@@ -309,16 +389,115 @@ const Backtester: React.FC<BacktesterProps> = ({ assets, strategies, onBacktest
               />
             </Stack>
 
+            {/* Execution */}
+            <Stack spacing={1}>
+              <Typography variant="body2">
+                Execution:
+              </Typography>
+              <ExecutionSettingsFields execution={execution} onChange={setExecution} />
+              <FormControlLabel
+                control={<Switch checked={fillFromBook} onChange={(e) => setFillFromBook(e.target.checked)} />}
+                label="Fill market orders against the live order book"
+              />
+              {fillFromBook && !orderBook && selectedAsset && (
+                <Typography variant="caption" color="text.secondary">
+                  No order book for this asset from the market data provider, so fills take a share of the
+                  volume in each candle.
+                </Typography>
+              )}
+            </Stack>
+
             {/* Backtest Button */}
-            <Button
-              variant="contained"
-              color="primary"
-              onClick={handleBacktest}
-              disabled={loading || !selectedAsset}
-              startIcon={loading ? <CircularProgress size={20} /> : undefined}
-            >
-              Run Backtest
-            </Button>
+            <Stack direction="row" spacing={2}>
+              <Button
+                variant="contained"
+                color="primary"
+                onClick={handleBacktest}
+                disabled={loading || !selectedAsset || !startDate || !endDate}
+                startIcon={loading ? <CircularProgress size={20} /> : undefined}
+              >
+                Run Backtest
+              </Button>
+              {loading && (
+                <Button onClick={() => backtestController.current?.abort()}>
+                  Cancel
+                </Button>
+              )}
+            </Stack>
+            {loading && <LinearProgress variant="determinate" value={progress * 100} />}
+            {backtestError && (
+              <Alert severity="error" onClose={() => setBacktestError(null)}>
+                {backtestError}
+              </Alert>
+            )}
+          </Stack>
+        </CardContent>
+      </Card>
+
+      {/* Walk-Forward Analysis */}
+      <Card sx={{ mb: 3 }}>
+        <CardHeader
+          title="Walk-Forward Analysis"
+          subheader="Optimize on each in-sample window and trade the best params on the window after it"
+        />
+        <CardContent>
+          <Stack spacing={3}>
+            <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap>
+              <Select
+                value={walkForward.mode}
+                onChange={(e) => setWalkForward({ ...walkForward, mode: e.target.value as WalkForwardSettings['mode'] })}
+                size="small"
+              >
+                <MenuItem value="rolling">Rolling windows</MenuItem>
+                <MenuItem value="anchored">Anchored windows</MenuItem>
+              </Select>
+              <TextField
+                label="In-sample candles"
+                type="number"
+                value={walkForward.inSample}
+                onChange={(e) => setWalkForward({ ...walkForward, inSample: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                size="small"
+                sx={{ width: 160 }}
+              />
+              <TextField
+                label="Out-of-sample candles"
+                type="number"
+                value={walkForward.outOfSample}
+                onChange={(e) => setWalkForward({ ...walkForward, outOfSample: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                size="small"
+                sx={{ width: 160 }}
+              />
+              <Select
+                value={walkForward.metric}
+                onChange={(e) => setWalkForward({ ...walkForward, metric: e.target.value as OptimizationMetric })}
+                size="small"
+              >
+                <MenuItem value="sharpeRatio">Maximize Sharpe ratio</MenuItem>
+                <MenuItem value="totalReturn">Maximize return</MenuItem>
+              </Select>
+            </Stack>
+            <Stack direction="row" spacing={2}>
+              <Button
+                variant="contained"
+                onClick={handleWalkForward}
+                disabled={walkForwardProgress !== null || !selectedAsset || !startDate || !endDate}
+                startIcon={walkForwardProgress !== null ? <CircularProgress size={20} /> : undefined}
+              >
+                Run Walk-Forward
+              </Button>
+              {walkForwardProgress !== null && (
+                <Button onClick={() => walkForwardController.current?.abort()}>
+                  Cancel
+                </Button>
+              )}
+            </Stack>
+            {walkForwardProgress !== null && <LinearProgress variant="determinate" value={walkForwardProgress * 100} />}
+            {walkForwardError && (
+              <Alert severity="error" onClose={() => setWalkForwardError(null)}>
+                {walkForwardError}
+              </Alert>
+            )}
+            {walkForwardResult && <WalkForwardResults result={walkForwardResult} />}
           </Stack>
         </CardContent>
       </Card>
@@ -328,7 +507,10 @@ const Backtester: React.FC<BacktesterProps> = ({ assets, strategies, onBacktest
         <Card>
           <CardHeader
             title="Backtest Results"
-            subheader={`Strategy: ${selectedStrategy} • Asset: ${selectedAsset}`}
+            subheader={
+              `Strategy: ${selectedResult.strategy} • Asset: ${selectedResult.asset}`
+              + ` • ${formatWidth(selectedResult.candleMs)} candles`
+            }
             action={
               <IconButton onClick={handleAnalysis}>
                 <Info />
@@ -362,13 +544,50 @@ const Backtester: React.FC<BacktesterProps> = ({ assets, strategies, onBacktest
                 series={[
                   {
                     name: 'Equity',
-                    data: getEquityCurve(selectedResult),
+                    data: selectedResult.equityCurve,
                   },
                 ]}
                 type="line"
                 height={350}
               />
 
+              {/* Cost Breakdown */}
+              <TableContainer component={Paper}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Cost</TableCell>
+                      <TableCell align="right">Amount</TableCell>
+                      <TableCell align="right">Of Initial Capital</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {([
+                      ['Fees', selectedResult.costs.fees],
+                      ['Spread', selectedResult.costs.spread],
+                      ['Slippage', selectedResult.costs.slippage],
+                      ['Funding', selectedResult.costs.funding],
+                      ['Total', totalCost(selectedResult.costs)],
+                    ] as [string, number][]).map(([label, amount]) => (
+                      <TableRow key={label}>
+                        <TableCell>{label}</TableCell>
+                        <TableCell align="right">{formatNumber(amount)}</TableCell>
+                        <TableCell align="right">{formatPercentage(amount / selectedResult.initialCapital)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell>Return Before Costs</TableCell>
+                      <TableCell align="right" />
+                      <TableCell align="right">
+                        {formatPercentage(
+                          selectedResult.totalReturn + totalCost(selectedResult.costs) / selectedResult.initialCapital
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </TableContainer>
+
               {/* Trade Statistics */}
               <TableContainer component={Paper}>
                 <Table>
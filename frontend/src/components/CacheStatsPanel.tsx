@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+} from '@mui/material';
+import { useInterval } from 'usehooks-ts';
+import { RequestLayer, RequestLayerStats } from '../services/requestLayer';
+
+interface CacheStatsPanelProps {
+  requestLayer: RequestLayer;
+  title?: string;
+}
+
+const formatPercent = (value: number, total: number) =>
+  total > 0 ? `${((value / total) * 100).toFixed(1)}%` : '–';
+
+export const CacheStatsPanel: React.FC<CacheStatsPanelProps> = ({ requestLayer, title }) => {
+  const [stats, setStats] = useState<RequestLayerStats>(() => requestLayer.getStats());
+  const [clearing, setClearing] = useState(false);
+
+  useInterval(() => {
+    setStats(requestLayer.getStats());
+  }, 1000);
+
+  const handleClear = async () => {
+    setClearing(true);
+    try {
+      await requestLayer.clear();
+    } finally {
+      setStats(requestLayer.getStats());
+      setClearing(false);
+    }
+  };
+
+  const cacheHits = stats.memoryHits + stats.persistentHits;
+  const pausedFor = Math.max(0, stats.pausedUntil - Date.now());
+
+  const rows: [string, React.ReactNode][] = [
+    ['Requests', stats.requests],
+    ['Cache hit rate', formatPercent(cacheHits, stats.requests)],
+    ['Memory hits', stats.memoryHits],
+    ['IndexedDB hits', stats.persistentHits],
+    ['De-duplicated', stats.deduplicated],
+    ['Network requests', stats.networkRequests],
+    ['Retries', stats.retries],
+    ['Rate limited (429)', stats.rateLimited],
+    ['Served stale after errors', stats.staleServed],
+    ['Failed', stats.errors],
+    ['Entries in memory', stats.memoryEntries],
+    ['Entries in IndexedDB', stats.persistedEntries],
+    ['Request tokens available', stats.tokens.toFixed(1)],
+  ];
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardHeader
+        title={title || `${stats.name} request cache`}
+        subheader="Response caching and rate limiting for market-data requests"
+        action={
+          pausedFor > 0 && (
+            <Chip color="warning" label={`Backing off for ${Math.ceil(pausedFor / 1000)}s`} />
+          )
+        }
+      />
+      <CardContent>
+        <Table size="small">
+          <TableBody>
+            {rows.map(([label, value]) => (
+              <TableRow key={label}>
+                <TableCell>{label}</TableCell>
+                <TableCell align="right">{value}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <Box sx={{ mt: 2 }}>
+          <Button variant="outlined" onClick={handleClear} disabled={clearing}>
+            Clear cache
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CacheStatsPanel;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Box,
   Typography,
@@ -15,7 +15,6 @@ import {
   DialogContent,
   DialogActions,
   TextField,
-  Slider,
   Alert,
 } from '@mui/material';
 import {
@@ -34,18 +33,43 @@ import {
 import PriceChart from './PriceChart';
 import MarketCapChart from './MarketCapChart';
 import TradingAnalysis from './TradingAnalysis';
-import { useInterval } from 'usehooks-ts';
+import WatchlistManager from './WatchlistManager';
+import { useAppSelector, useMarketDataProvider } from '../app/hooks';
+import { selectStreamStatus } from '../features/marketData/marketDataSlice';
+import { selectActiveWatchlist } from '../features/watchlists/watchlistsSlice';
+import { StreamStatus } from '../types/marketData';
+
+const STREAM_STATUS_LABELS: Record<StreamStatus, string> = {
+  idle: 'Not streaming',
+  connecting: 'Connecting…',
+  open: 'Live',
+  reconnecting: 'Reconnecting…',
+  closed: 'Disconnected',
+};
 
 interface ChartCarouselProps {
-  assets: any[];
+  assets?: any[]; // defaults to the active watchlist, with a switcher above the charts
   onAssetChange: (asset: any) => void;
 }
 
-const ChartCarousel: React.FC<ChartCarouselProps> = ({ assets, onAssetChange }) => {
+const ChartCarousel: React.FC<ChartCarouselProps> = ({ assets: assetsProp, onAssetChange }) => {
+  const watchlist = useAppSelector(selectActiveWatchlist);
+  const assets = useMemo(
+    () => assetsProp || watchlist.assets.map((asset) => ({
+      ...asset,
+      balance: 0,
+      price: 0,
+      marketCap: 0,
+      volume: 0,
+      change24h: 0,
+      priceData: [],
+    })),
+    [assetsProp, watchlist]
+  );
   const [activeTab, setActiveTab] = useState(0);
   const [selectedAsset, setSelectedAsset] = useState(assets[0]);
-  const [loading, setLoading] = useState(false);
-  const [updateInterval, setUpdateInterval] = useState(5000); // 5 seconds default
+  const { stream } = useMarketDataProvider();
+  const streamStatus = useAppSelector(selectStreamStatus);
   const [showSettings, setShowSettings] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
   const [showAnalysis, setShowAnalysis] = useState(false);
@@ -53,22 +77,15 @@ const ChartCarousel: React.FC<ChartCarouselProps> = ({ assets, onAssetChange })
   const [marketCondition, setMarketCondition] = useState<string>('NEUTRAL');
   const [riskLevel, setRiskLevel] = useState<string>('MODERATE');
 
-  // Update selected asset when it changes from parent
+  // Keep the selected asset while the parent's list still has it
   useEffect(() => {
-    if (assets.length > 0 && selectedAsset !== assets[0]) {
-      setSelectedAsset(assets[0]);
+    if (assets.length > 0) {
+      setSelectedAsset((current: (typeof assets)[number] | undefined) =>
+        (current && assets.some((asset) => asset.id === current.id) ? current : assets[0])
+      );
     }
   }, [assets]);
 
-  // Real-time updates
-  useInterval(() => {
-    setLoading(true);
-    // Simulate data fetch
-    setTimeout(() => {
-      setLoading(false);
-    }, 1000);
-  }, updateInterval);
-
   const handleTabChange = (_: React.SyntheticEvent, newValue: number) => {
     setActiveTab(newValue);
   };
@@ -79,6 +96,13 @@ const ChartCarousel: React.FC<ChartCarouselProps> = ({ assets, onAssetChange })
   };
 
   const renderChart = () => {
+    if (!selectedAsset) {
+      return (
+        <Alert severity="info">
+          This watchlist is empty. Add assets to it from the Dashboard.
+        </Alert>
+      );
+    }
     switch (activeTab) {
       case 0:
         return (
@@ -90,7 +114,6 @@ const ChartCarousel: React.FC<ChartCarouselProps> = ({ assets, onAssetChange })
             <TradingAnalysis
               asset={selectedAsset}
               priceData={selectedAsset.priceData}
-              orderBook={selectedAsset.orderBook}
             />
           </Box>
         );
@@ -103,7 +126,6 @@ const ChartCarousel: React.FC<ChartCarouselProps> = ({ assets, onAssetChange })
             <TradingAnalysis
               asset={selectedAsset}
               priceData={selectedAsset.priceData}
-              orderBook={selectedAsset.orderBook}
             />
           </Box>
         );
@@ -156,7 +178,13 @@ const ChartCarousel: React.FC<ChartCarouselProps> = ({ assets, onAssetChange })
 
       {/* Chart Content */}
       <Box sx={{ p: 2 }}>
-        {loading && (
+        {!assetsProp && (
+          <WatchlistManager
+            editable={false}
+            onAssetClick={(asset) => handleAssetChange(assets.find((a) => a.id === asset.id) || asset)}
+          />
+        )}
+        {(streamStatus === 'connecting' || streamStatus === 'reconnecting') && (
           <Box sx={{ display: 'flex', justifyContent: 'center', mb: 2 }}>
             <CircularProgress />
           </Box>
@@ -186,13 +214,10 @@ const ChartCarousel: React.FC<ChartCarouselProps> = ({ assets, onAssetChange })
         </Stack>
 
         <Stack direction="row" spacing={2}>
-          <MuiTooltip title="Refresh Data">
+          <MuiTooltip title="Reconnect live data">
             <IconButton
-              onClick={() => {
-                setLoading(true);
-                // Simulate data refresh
-                setTimeout(() => setLoading(false), 1000);
-              }}
+              onClick={() => stream?.reconnect()}
+              disabled={!stream}
               size="small"
             >
               <Refresh />
@@ -231,27 +256,16 @@ const ChartCarousel: React.FC<ChartCarouselProps> = ({ assets, onAssetChange })
         <DialogContent>
           <Stack spacing={3}>
             <Typography variant="subtitle1">
-              Update Interval
+              Live Data
             </Typography>
             <Stack direction="row" alignItems="center" spacing={2}>
-              <Typography>
-                {Math.round(updateInterval / 1000)} seconds
-              </Typography>
-              <Slider
-                value={updateInterval}
-                min={1000}
-                max={60000}
-                step={1000}
-                onChange={(_, value) => setUpdateInterval(value as number)}
-                marks={[
-                  { value: 1000, label: '1s' },
-                  { value: 5000, label: '5s' },
-                  { value: 10000, label: '10s' },
-                  { value: 30000, label: '30s' },
-                  { value: 60000, label: '1m' },
-                ]}
-                valueLabelDisplay="auto"
+              <Chip
+                label={stream ? STREAM_STATUS_LABELS[streamStatus] : 'Not available for this data source'}
+                color={streamStatus === 'open' ? 'success' : 'default'}
               />
+              <Button onClick={() => stream?.reconnect()} disabled={!stream}>
+                Reconnect
+              </Button>
             </Stack>
           </Stack>
         </DialogContent>
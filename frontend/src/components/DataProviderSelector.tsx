@@ -0,0 +1,46 @@
+import React from 'react';
+import { Box, ButtonGroup, Button, Typography } from '@mui/material';
+import { useAppDispatch, useAppSelector } from '../app/hooks';
+import {
+  selectMarketDataProviderId,
+  setMarketDataProvider,
+} from '../features/marketData/marketDataSlice';
+import { MARKET_DATA_PROVIDERS } from '../services/marketData';
+import { MarketDataProviderId } from '../types/marketData';
+
+interface DataProviderSelectorProps {
+  onChange?: (providerId: MarketDataProviderId) => void;
+}
+
+export const DataProviderSelector: React.FC<DataProviderSelectorProps> = ({ onChange }) => {
+  const dispatch = useAppDispatch();
+  const currentProvider = useAppSelector(selectMarketDataProviderId);
+
+  const handleProviderChange = (providerId: MarketDataProviderId) => {
+    dispatch(setMarketDataProvider(providerId));
+    if (onChange) {
+      onChange(providerId);
+    }
+  };
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Market Data
+      </Typography>
+      <ButtonGroup variant="outlined" size="small">
+        {MARKET_DATA_PROVIDERS.map(({ id, name }) => (
+          <Button
+            key={id}
+            onClick={() => handleProviderChange(id)}
+            variant={currentProvider === id ? 'contained' : 'outlined'}
+          >
+            {name}
+          </Button>
+        ))}
+      </ButtonGroup>
+    </Box>
+  );
+};
+
+export default DataProviderSelector;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { FormControl, InputLabel, MenuItem, Select, Stack, TextField } from '@mui/material';
+import { ExecutionSettings, SlippageModel } from '../types/backtest';
+import { EXCHANGE_FEES } from '../utils/execution';
+
+const CUSTOM_FEES = 'custom';
+
+// A number field for a setting kept as a fraction and shown as a percentage
+const PercentField: React.FC<{
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+  min?: number;
+}> = ({ label, value, onChange, step = 0.01, min = 0 }) => (
+  <TextField
+    label={`${label} (%)`}
+    type="number"
+    size="small"
+    // Rounded, so 0.1 × 100 doesn't show as 0.10000000000000002
+    value={Number((value * 100).toPrecision(10))}
+    onChange={(e) => {
+      const percent = parseFloat(e.target.value);
+      if (percent >= min) onChange(percent / 100);
+    }}
+    inputProps={{ min, step }}
+    sx={{ width: 150 }}
+  />
+);
+
+// The fee schedule, slippage model, spread, latency, volume limit and funding
+// a backtest fills its orders with
+export const ExecutionSettingsFields: React.FC<{
+  execution: ExecutionSettings;
+  onChange: (execution: ExecutionSettings) => void;
+}> = ({ execution, onChange }) => {
+  const update = (changes: Partial<ExecutionSettings>) => onChange({ ...execution, ...changes });
+  const setFees = (changes: Partial<ExecutionSettings['fees']>) =>
+    update({ exchange: undefined, fees: { ...execution.fees, ...changes } });
+  const { slippage } = execution;
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap>
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Fees</InputLabel>
+          <Select
+            value={execution.exchange ?? CUSTOM_FEES}
+            label="Fees"
+            onChange={(e) => {
+              const exchange = EXCHANGE_FEES[e.target.value];
+              if (exchange) {
+                update({ exchange: e.target.value, fees: { maker: exchange.maker, taker: exchange.taker } });
+              }
+            }}
+          >
+            {Object.entries(EXCHANGE_FEES).map(([id, { name }]) => (
+              <MenuItem key={id} value={id}>{name}</MenuItem>
+            ))}
+            <MenuItem value={CUSTOM_FEES} disabled>Custom</MenuItem>
+          </Select>
+        </FormControl>
+        <PercentField label="Maker fee" value={execution.fees.maker} onChange={(maker) => setFees({ maker })} />
+        <PercentField label="Taker fee" value={execution.fees.taker} onChange={(taker) => setFees({ taker })} />
+      </Stack>
+
+      <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap>
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Slippage</InputLabel>
+          <Select
+            value={slippage.type}
+            label="Slippage"
+            onChange={(e) => update({
+              slippage: e.target.value === 'volume'
+                ? { type: 'volume', rate: slippage.rate, impact: 0.1 }
+                : { type: 'fixed', rate: slippage.rate },
+            })}
+          >
+            <MenuItem value="fixed">Fixed</MenuItem>
+            <MenuItem value="volume">Volume-based</MenuItem>
+          </Select>
+        </FormControl>
+        <PercentField
+          label="Slippage"
+          value={slippage.rate}
+          onChange={(rate) => update({ slippage: { ...slippage, rate } as SlippageModel })}
+        />
+        {slippage.type === 'volume' && (
+          <PercentField
+            label="Impact per volume"
+            value={slippage.impact}
+            step={1}
+            onChange={(impact) => update({ slippage: { ...slippage, impact } })}
+          />
+        )}
+        <PercentField label="Spread" value={execution.spread} onChange={(spread) => update({ spread })} />
+      </Stack>
+
+      <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap>
+        <TextField
+          label="Latency (ms)"
+          type="number"
+          size="small"
+          value={execution.latencyMs}
+          onChange={(e) => {
+            const latencyMs = parseFloat(e.target.value);
+            if (latencyMs >= 0) update({ latencyMs });
+          }}
+          inputProps={{ min: 0, step: 50 }}
+          sx={{ width: 150 }}
+        />
+        <PercentField
+          label="Max volume share"
+          value={execution.participation ?? 1}
+          step={1}
+          onChange={(participation) => update({ participation: participation > 0 ? participation : undefined })}
+        />
+        <PercentField
+          label={`Funding per ${execution.fundingIntervalMs / 3600000}h`}
+          value={execution.fundingRate}
+          step={0.001}
+          min={-100}
+          onChange={(fundingRate) => update({ fundingRate })}
+        />
+      </Stack>
+    </Stack>
+  );
+};
+
+export default ExecutionSettingsFields;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableRow, Typography } from '@mui/material';
+import { useQuoteFormatter } from '../app/hooks';
+import { Fill } from '../api/schemas';
+
+interface FillsBlotterProps {
+  fills: Fill[];
+}
+
+export const FillsBlotter: React.FC<FillsBlotterProps> = ({ fills }) => {
+  const { priceFromUsd, moneyFromUsd } = useQuoteFormatter();
+
+  if (fills.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No fills yet
+      </Typography>
+    );
+  }
+
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Time</TableCell>
+          <TableCell>Symbol</TableCell>
+          <TableCell>Side</TableCell>
+          <TableCell align="right">Quantity</TableCell>
+          <TableCell align="right">Price</TableCell>
+          <TableCell align="right">Value</TableCell>
+          <TableCell>Order</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {fills.map((fill) => (
+          <TableRow key={fill.id}>
+            <TableCell>{new Date(fill.timestamp).toLocaleString()}</TableCell>
+            <TableCell>{fill.symbol}</TableCell>
+            <TableCell sx={{ color: fill.side === 'buy' ? 'success.main' : 'error.main' }}>
+              {fill.side.toUpperCase()}
+            </TableCell>
+            <TableCell align="right">{fill.quantity}</TableCell>
+            <TableCell align="right">{priceFromUsd(fill.price)}</TableCell>
+            <TableCell align="right">{moneyFromUsd(fill.quantity * fill.price)}</TableCell>
+            <TableCell>{fill.order_id}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default FillsBlotter;
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { useAppDispatch, useAppSelector } from '../app/hooks';
+import { setMarketDataProvider } from '../features/marketData/marketDataSlice';
+import {
+  MIN_REFRESH_MS,
+  RefreshIntervals,
+  ThemeMode,
+  dataProviderChanged,
+  defaultIntervalChanged,
+  refreshIntervalChanged,
+  selectSettings,
+  themeChanged,
+} from '../features/settings/settingsSlice';
+import { TimeInterval } from '../features/timeInterval/timeIntervalSlice';
+import { MARKET_DATA_PROVIDERS } from '../services/marketData';
+import { MarketDataProviderId } from '../types/marketData';
+import { timeIntervals } from './TimeIntervalSelector';
+
+const REFRESH_LABELS: Record<keyof RefreshIntervals, string> = {
+  trading: 'Positions, orders and fills',
+  health: 'Backend health checks',
+  marketData: 'Prices when not streaming',
+};
+
+const MIN_REFRESH_SECONDS = MIN_REFRESH_MS / 1000;
+
+// Seconds field that only stores valid values, and follows the stored value
+// when it changes elsewhere (an import or a reset)
+const RefreshIntervalField: React.FC<{ label: string; ms: number; onChange: (ms: number) => void }> = ({
+  label,
+  ms,
+  onChange,
+}) => {
+  const [seconds, setSeconds] = useState(String(ms / 1000));
+
+  useEffect(() => {
+    setSeconds(String(ms / 1000));
+  }, [ms]);
+
+  const handleChange = (value: string) => {
+    setSeconds(value);
+    const parsed = parseFloat(value);
+    if (parsed >= MIN_REFRESH_SECONDS) {
+      onChange(parsed * 1000);
+    }
+  };
+
+  return (
+    <TextField
+      label={label}
+      type="number"
+      size="small"
+      value={seconds}
+      onChange={(e) => handleChange(e.target.value)}
+      inputProps={{ min: MIN_REFRESH_SECONDS }}
+      error={!(parseFloat(seconds) >= MIN_REFRESH_SECONDS)}
+      helperText="Seconds"
+    />
+  );
+};
+
+export const GeneralSettings: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const settings = useAppSelector(selectSettings);
+
+  // Switch now as well as on the next start
+  const handleProviderChange = (providerId: MarketDataProviderId) => {
+    dispatch(dataProviderChanged(providerId));
+    dispatch(setMarketDataProvider(providerId));
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardHeader title="General" />
+      <CardContent>
+        <Stack spacing={3}>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <FormControl size="small" sx={{ minWidth: 200 }}>
+              <InputLabel>Market data provider</InputLabel>
+              <Select
+                value={settings.dataProvider}
+                label="Market data provider"
+                onChange={(e) => handleProviderChange(e.target.value as MarketDataProviderId)}
+              >
+                {MARKET_DATA_PROVIDERS.map(({ id, name }) => (
+                  <MenuItem key={id} value={id}>{name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ minWidth: 200 }}>
+              <InputLabel>Default time interval</InputLabel>
+              <Select
+                value={settings.defaultInterval}
+                label="Default time interval"
+                onChange={(e) => dispatch(defaultIntervalChanged(e.target.value as TimeInterval))}
+              >
+                {Object.values(timeIntervals).map(({ label, value }) => (
+                  <MenuItem key={value} value={value}>{label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+
+          <Stack spacing={1}>
+            <Typography variant="subtitle2">Theme</Typography>
+            <Stack direction="row" spacing={2} alignItems="center">
+              <ToggleButtonGroup
+                exclusive
+                size="small"
+                value={settings.theme.mode}
+                onChange={(_, mode: ThemeMode | null) => mode && dispatch(themeChanged({ mode }))}
+              >
+                <ToggleButton value="dark">Dark</ToggleButton>
+                <ToggleButton value="light">Light</ToggleButton>
+              </ToggleButtonGroup>
+              <TextField
+                label="Primary"
+                type="color"
+                size="small"
+                value={settings.theme.primaryColor}
+                onChange={(e) => dispatch(themeChanged({ primaryColor: e.target.value }))}
+                sx={{ width: 100 }}
+              />
+              <TextField
+                label="Secondary"
+                type="color"
+                size="small"
+                value={settings.theme.secondaryColor}
+                onChange={(e) => dispatch(themeChanged({ secondaryColor: e.target.value }))}
+                sx={{ width: 100 }}
+              />
+            </Stack>
+          </Stack>
+
+          <Stack spacing={1}>
+            <Typography variant="subtitle2">Refresh intervals</Typography>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              {(Object.keys(REFRESH_LABELS) as (keyof RefreshIntervals)[]).map((key) => (
+                <RefreshIntervalField
+                  key={key}
+                  label={REFRESH_LABELS[key]}
+                  ms={settings.refreshIntervals[key]}
+                  onChange={(ms) => dispatch(refreshIntervalChanged({ key, ms }))}
+                />
+              ))}
+            </Stack>
+          </Stack>
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GeneralSettings;
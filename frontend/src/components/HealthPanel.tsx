@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  Collapse,
+  IconButton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { KeyboardArrowDown, KeyboardArrowUp, Warning } from '@mui/icons-material';
+import { useInterval } from 'usehooks-ts';
+import { useAppSelector, useServiceHealthCheck } from '../app/hooks';
+import { SERVICE_NAMES, ServiceName } from '../api/schemas';
+import {
+  HealthCheck,
+  ServiceHealth,
+  selectHealthChecks,
+  selectIncidents,
+  selectSessionStartedAt,
+} from '../features/health/healthSlice';
+import { selectRefreshIntervals } from '../features/settings/settingsSlice';
+import { STALE_AFTER_MS, formatDuration, getLastUpdatedAge, getServiceHealth } from '../utils/health';
+
+const SERVICE_LABELS: Record<ServiceName, string> = {
+  backend: 'Backend',
+  signals: 'Signals',
+  paper_trading: 'Paper trading',
+  database: 'Database',
+};
+
+const HEALTH_COLORS: Record<ServiceHealth, 'success' | 'warning' | 'error'> = {
+  up: 'success',
+  degraded: 'warning',
+  down: 'error',
+};
+
+const HEALTH_LABELS: Record<ServiceHealth, string> = {
+  up: 'Up',
+  degraded: 'Degraded',
+  down: 'Down',
+};
+
+// Checks shown in each row's timeline strip
+const TIMELINE_LENGTH = 60;
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+const getUptime = (checks: HealthCheck[]) =>
+  checks.length > 0 ? checks.filter((check) => check.state === 'up').length / checks.length : undefined;
+
+const HealthTimeline: React.FC<{ checks: HealthCheck[] }> = ({ checks }) => (
+  <Stack direction="row" spacing="2px" sx={{ height: 16 }}>
+    {checks.slice(-TIMELINE_LENGTH).map((check) => (
+      <Tooltip
+        key={check.timestamp}
+        title={`${formatTime(check.timestamp)} · ${HEALTH_LABELS[check.state]}${
+          check.latencyMs !== undefined ? ` · ${Math.round(check.latencyMs)} ms` : ''
+        }${check.reason ? ` · ${check.reason}` : ''}`}
+      >
+        <Box sx={{ width: 4, height: '100%', borderRadius: 0.5, bgcolor: `${HEALTH_COLORS[check.state]}.main` }} />
+      </Tooltip>
+    ))}
+  </Stack>
+);
+
+// Detail values can be anything the service chose to report
+const DetailsTable: React.FC<{ details: Record<string, unknown> }> = ({ details }) => (
+  <Table size="small">
+    <TableBody>
+      {Object.entries(details).map(([key, value]) => (
+        <TableRow key={key}>
+          <TableCell sx={{ width: 200 }}>{key}</TableCell>
+          <TableCell>
+            {typeof value === 'object' && value !== null ? (
+              <Box component="pre" sx={{ m: 0, fontSize: '0.75rem' }}>
+                {JSON.stringify(value, null, 2)}
+              </Box>
+            ) : (
+              String(value)
+            )}
+          </TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+interface ServiceHealthRowProps {
+  service: ServiceName;
+  pollIntervalMs: number;
+  now: number;
+}
+
+const ServiceHealthRow: React.FC<ServiceHealthRowProps> = ({ service, pollIntervalMs, now }) => {
+  const [open, setOpen] = useState(false);
+  const { data, error, isLoading } = useServiceHealthCheck(service, pollIntervalMs);
+  const checks = useAppSelector(selectHealthChecks)[service] || [];
+  const health = data && !error ? getServiceHealth(data.status, now) : undefined;
+  const state: ServiceHealth | undefined = error ? 'down' : health?.state;
+  const age = data && getLastUpdatedAge(data.status, now);
+  const uptime = getUptime(checks);
+
+  return (
+    <>
+      <TableRow>
+        <TableCell padding="checkbox">
+          <IconButton size="small" onClick={() => setOpen(!open)} disabled={!data}>
+            {open ? <KeyboardArrowUp /> : <KeyboardArrowDown />}
+          </IconButton>
+        </TableCell>
+        <TableCell>{SERVICE_LABELS[service]}</TableCell>
+        <TableCell>
+          {state ? (
+            <Tooltip title={error ? (error as Error).message : health?.reason || ''}>
+              <Chip size="small" label={HEALTH_LABELS[state]} color={HEALTH_COLORS[state]} />
+            </Tooltip>
+          ) : (
+            <Chip size="small" label={isLoading ? 'Checking…' : 'Unknown'} />
+          )}
+        </TableCell>
+        <TableCell>{data?.status.mode ?? '–'}</TableCell>
+        <TableCell align="right">{data ? `${Math.round(data.latencyMs)} ms` : '–'}</TableCell>
+        <TableCell align="right">
+          {age !== undefined ? (
+            <Stack direction="row" spacing={0.5} alignItems="center" justifyContent="flex-end">
+              {age > STALE_AFTER_MS && (
+                <Tooltip title={`No update for more than ${formatDuration(STALE_AFTER_MS)}`}>
+                  <Warning color="warning" fontSize="small" />
+                </Tooltip>
+              )}
+              <span>{formatDuration(age)} ago</span>
+            </Stack>
+          ) : '–'}
+        </TableCell>
+        <TableCell align="right">
+          {uptime !== undefined ? `${(uptime * 100).toFixed(1)}%` : '–'}
+        </TableCell>
+        <TableCell>
+          <HealthTimeline checks={checks} />
+        </TableCell>
+      </TableRow>
+      <TableRow>
+        <TableCell colSpan={8} sx={{ py: 0, borderBottom: open ? undefined : 'none' }}>
+          <Collapse in={open} unmountOnExit>
+            <Box sx={{ py: 1 }}>
+              {data && <DetailsTable details={data.status.details} />}
+            </Box>
+          </Collapse>
+        </TableCell>
+      </TableRow>
+    </>
+  );
+};
+
+interface HealthPanelProps {
+  pollIntervalMs?: number; // defaults to the health refresh interval from Settings
+}
+
+export const HealthPanel: React.FC<HealthPanelProps> = (props) => {
+  const refreshIntervals = useAppSelector(selectRefreshIntervals);
+  const pollIntervalMs = props.pollIntervalMs ?? refreshIntervals.health;
+  const [now, setNow] = useState(Date.now());
+  const sessionStartedAt = useAppSelector(selectSessionStartedAt);
+  const incidents = useAppSelector(selectIncidents);
+
+  // Ages and durations tick between polls
+  useInterval(() => {
+    setNow(Date.now());
+  }, 1000);
+
+  const openIncidents = incidents.filter((incident) => !incident.endedAt);
+
+  return (
+    <Card>
+      <CardHeader
+        title="Backend Health"
+        subheader={`Session started ${formatDuration(now - sessionStartedAt)} ago · checking every ${formatDuration(pollIntervalMs)}`}
+      />
+      <CardContent>
+        {openIncidents.length > 0 && (
+          <Alert severity={openIncidents.some((incident) => incident.state === 'down') ? 'error' : 'warning'} sx={{ mb: 2 }}>
+            {openIncidents
+              .map((incident) => `${SERVICE_LABELS[incident.service]}: ${incident.reason}`)
+              .join(' · ')}
+          </Alert>
+        )}
+
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell />
+              <TableCell>Service</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Mode</TableCell>
+              <TableCell align="right">Latency</TableCell>
+              <TableCell align="right">Last updated</TableCell>
+              <TableCell align="right">Uptime</TableCell>
+              <TableCell>Recent checks</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {SERVICE_NAMES.map((service) => (
+              <ServiceHealthRow key={service} service={service} pollIntervalMs={pollIntervalMs} now={now} />
+            ))}
+          </TableBody>
+        </Table>
+
+        <Typography variant="subtitle1" sx={{ mt: 3, mb: 1 }}>
+          Incidents this session
+        </Typography>
+        {incidents.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No incidents so far
+          </Typography>
+        ) : (
+          <Stack spacing={1}>
+            {[...incidents].reverse().map((incident) => (
+              <Stack key={incident.id} direction="row" spacing={1} alignItems="center">
+                <Chip size="small" label={HEALTH_LABELS[incident.state]} color={HEALTH_COLORS[incident.state]} />
+                <Typography variant="body2">
+                  {formatTime(incident.startedAt)} · {SERVICE_LABELS[incident.service]} · {incident.reason} ·{' '}
+                  {incident.endedAt
+                    ? `lasted ${formatDuration(incident.endedAt - incident.startedAt)}`
+                    : `ongoing for ${formatDuration(now - incident.startedAt)}`}
+                </Typography>
+              </Stack>
+            ))}
+          </Stack>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HealthPanel;
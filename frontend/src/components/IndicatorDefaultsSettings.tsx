@@ -0,0 +1,45 @@
+import React from 'react';
+import { Button, Card, CardContent, CardHeader, FormControlLabel, Stack, Switch } from '@mui/material';
+import { useAppDispatch, useAppSelector } from '../app/hooks';
+import { setChartConfig } from '../features/chart/chartSlice';
+import { indicatorDefaultsChanged, selectSettings } from '../features/settings/settingsSlice';
+import { IndicatorListEditor } from './IndicatorListEditor';
+
+// How indicators start out when the app loads
+export const IndicatorDefaultsSettings: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { indicators } = useAppSelector(selectSettings);
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardHeader
+        title="Indicator defaults"
+        subheader="Used when the app starts"
+        action={
+          <Button onClick={() => dispatch(setChartConfig(indicators))}>
+            Apply to chart now
+          </Button>
+        }
+      />
+      <CardContent>
+        <Stack spacing={2}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={indicators.candlestick}
+                onChange={(e) => dispatch(indicatorDefaultsChanged({ ...indicators, candlestick: e.target.checked }))}
+              />
+            }
+            label="Candlesticks"
+          />
+          <IndicatorListEditor
+            indicators={indicators.indicators}
+            onChange={(list) => dispatch(indicatorDefaultsChanged({ ...indicators, indicators: list }))}
+          />
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IndicatorDefaultsSettings;
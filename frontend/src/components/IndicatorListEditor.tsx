@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add, ContentCopy, Delete } from '@mui/icons-material';
+import { IndicatorInstance, IndicatorPane, IndicatorParams, IndicatorType } from '../types/chart';
+import {
+  INDICATOR_LABELS,
+  INDICATOR_TYPES,
+  createIndicatorInstance,
+  describeIndicator,
+  duplicateIndicatorInstance,
+} from '../utils/indicatorInstances';
+import { IndicatorParamsFields } from './IndicatorParamsFields';
+
+const PANE_LABELS: Record<IndicatorPane, string> = {
+  price: 'On price',
+  lower: 'Lower pane',
+};
+
+// Add, remove, duplicate and restyle indicator instances. Each change hands
+// the whole new list to onChange.
+export const IndicatorListEditor: React.FC<{
+  indicators: IndicatorInstance[];
+  onChange: (indicators: IndicatorInstance[]) => void;
+}> = ({ indicators, onChange }) => {
+  const [typeToAdd, setTypeToAdd] = useState<IndicatorType>('ema');
+
+  const update = (
+    id: string,
+    changes: Partial<Pick<IndicatorInstance, 'enabled' | 'color' | 'lineWidth' | 'pane'>> & {
+      params?: IndicatorParams[IndicatorType];
+    }
+  ) =>
+    onChange(indicators.map((instance) =>
+      instance.id === id ? { ...instance, ...changes } as IndicatorInstance : instance
+    ));
+
+  const duplicate = (instance: IndicatorInstance) => {
+    const index = indicators.indexOf(instance);
+    onChange([
+      ...indicators.slice(0, index + 1),
+      duplicateIndicatorInstance(instance),
+      ...indicators.slice(index + 1),
+    ]);
+  };
+
+  return (
+    <Stack spacing={2}>
+      {indicators.length === 0 && (
+        <Typography color="text.secondary">No indicators yet. Add one below.</Typography>
+      )}
+
+      {indicators.map((instance) => (
+        <Box key={instance.id} sx={{ borderBottom: 1, borderColor: 'divider', pb: 2 }}>
+          <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+            <Checkbox
+              size="small"
+              checked={instance.enabled}
+              onChange={(e) => update(instance.id, { enabled: e.target.checked })}
+            />
+            <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+              {describeIndicator(instance)}
+            </Typography>
+            <Tooltip title="Duplicate">
+              <IconButton size="small" onClick={() => duplicate(instance)}>
+                <ContentCopy fontSize="small" />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title="Remove">
+              <IconButton size="small" onClick={() => onChange(indicators.filter(({ id }) => id !== instance.id))}>
+                <Delete fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Stack>
+          <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+            <IndicatorParamsFields
+              type={instance.type}
+              params={instance.params}
+              onChange={(params) => update(instance.id, { params })}
+            />
+            <TextField
+              label="Color"
+              type="color"
+              size="small"
+              value={instance.color}
+              onChange={(e) => update(instance.id, { color: e.target.value })}
+              sx={{ width: 80 }}
+            />
+            <TextField
+              label="Width"
+              type="number"
+              size="small"
+              value={instance.lineWidth}
+              onChange={(e) => {
+                const lineWidth = parseFloat(e.target.value);
+                if (lineWidth > 0) {
+                  update(instance.id, { lineWidth });
+                }
+              }}
+              inputProps={{ min: 0.5, max: 5, step: 0.5 }}
+              sx={{ width: 80 }}
+            />
+            <FormControl size="small" sx={{ minWidth: 120 }}>
+              <InputLabel>Pane</InputLabel>
+              <Select
+                value={instance.pane}
+                label="Pane"
+                onChange={(e) => update(instance.id, { pane: e.target.value as IndicatorPane })}
+              >
+                {(Object.keys(PANE_LABELS) as IndicatorPane[]).map((pane) => (
+                  <MenuItem key={pane} value={pane}>{PANE_LABELS[pane]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+        </Box>
+      ))}
+
+      <Stack direction="row" spacing={1} alignItems="center">
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel>Add indicator</InputLabel>
+          <Select
+            value={typeToAdd}
+            label="Add indicator"
+            onChange={(e) => setTypeToAdd(e.target.value as IndicatorType)}
+          >
+            {INDICATOR_TYPES.map((type) => (
+              <MenuItem key={type} value={type}>{INDICATOR_LABELS[type]}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Button
+          startIcon={<Add />}
+          onClick={() => onChange([...indicators, createIndicatorInstance(typeToAdd)])}
+        >
+          Add
+        </Button>
+      </Stack>
+    </Stack>
+  );
+};
+
+export default IndicatorListEditor;
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { Stack, TextField, Typography } from '@mui/material';
+import { IndicatorParams, IndicatorType } from '../types/chart';
+import {
+  INDICATOR_PARAM_FIELDS,
+  IndicatorParamField,
+  isValidParamOrder,
+  isValidParamValue,
+} from '../utils/indicatorInstances';
+
+// Number fields for one indicator's params. Only valid params are passed to
+// onChange; the fields follow the params when they change elsewhere.
+export const IndicatorParamsFields: React.FC<{
+  type: IndicatorType;
+  params: IndicatorParams[IndicatorType];
+  onChange: (params: IndicatorParams[IndicatorType]) => void;
+}> = ({ type, params, onChange }) => {
+  const values = params as Record<string, number>;
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setDrafts({});
+  }, [params]);
+
+  const handleChange = (field: IndicatorParamField, draft: string) => {
+    setDrafts((current) => ({ ...current, [field.key]: draft }));
+    const value = parseFloat(draft);
+    const next = { ...values, [field.key]: value };
+    if (isValidParamValue(field, value) && isValidParamOrder(type, next)) {
+      onChange(next as IndicatorParams[IndicatorType]);
+    }
+  };
+
+  const fields = INDICATOR_PARAM_FIELDS[type];
+  if (fields.length === 0) {
+    return <Typography variant="body2" color="text.secondary">No parameters</Typography>;
+  }
+
+  return (
+    <Stack direction="row" spacing={1}>
+      {fields.map((field) => {
+        const draft = drafts[field.key] ?? String(values[field.key]);
+        const invalid = !isValidParamValue(field, parseFloat(draft)) ||
+          !isValidParamOrder(type, { ...values, [field.key]: parseFloat(draft) });
+        return (
+          <TextField
+            key={field.key}
+            label={field.label}
+            type="number"
+            size="small"
+            value={draft}
+            onChange={(e) => handleChange(field, e.target.value)}
+            inputProps={{ min: field.min, max: field.max, step: field.step ?? 1 }}
+            error={invalid}
+            sx={{ width: 100 }}
+          />
+        );
+      })}
+    </Stack>
+  );
+};
+
+export default IndicatorParamsFields;
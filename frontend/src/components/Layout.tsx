@@ -2,6 +2,7 @@ import React from 'react';
 import { Box, AppBar, Toolbar, Typography, Drawer, List, ListItem, ListItemIcon, ListItemText, IconButton } from '@mui/material';
 import { Menu as MenuIcon, Dashboard as DashboardIcon, TrendingUp as TradingIcon, Shield as RiskIcon, Settings as SettingsIcon } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { useExchangeRates, useIncidentNotifications, useRiskProfileSync } from '../app/hooks';
 
 const drawerWidth = 240;
 
@@ -16,6 +17,9 @@ const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [mobileOpen, setMobileOpen] = React.useState(false);
   const navigate = useNavigate();
   const location = useLocation();
+  useExchangeRates();
+  useRiskProfileSync();
+  useIncidentNotifications();
 
   const handleDrawerToggle = () => {
     setMobileOpen(!mobileOpen);
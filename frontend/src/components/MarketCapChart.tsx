@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   BarChart,
   Bar,
@@ -11,6 +11,7 @@ import {
   ReferenceLine,
   Line,
   Area,
+  AreaChart,
 } from 'recharts';
 import {
   Box,
@@ -49,31 +50,46 @@ import {
   Info,
 } from '@mui/icons-material';
 import { useInterval } from 'usehooks-ts';
+import {
+  useAppSelector,
+  useMarketDataProvider,
+  useMarketStream,
+  useOrderBooks,
+  useQuoteFormatter,
+} from '../app/hooks';
+import {
+  selectOrderBooks,
+  selectStreamStatus,
+  selectTickers,
+} from '../features/marketData/marketDataSlice';
+import { selectRefreshIntervals } from '../features/settings/settingsSlice';
+import { aggregateOrderBook, getDefaultTickSize, getOrderBookMetrics } from '../utils/orderBook';
 
-// Helper function to explain market cap
-const explainMarketCap = (marketCap: number): string => {
+// Helper function to explain market cap. Amounts are in US dollars and
+// `formatMoney` shows them in the quote currency.
+const explainMarketCap = (marketCap: number, formatMoney: (usd: number) => string): string => {
   if (marketCap >= 100000000000) {
-    return `This is a mega-cap asset (${formatNumber(marketCap)}). These assets are highly stable but have lower growth potential.`;
+    return `This is a mega-cap asset (${formatMoney(marketCap)}). These assets are highly stable but have lower growth potential.`;
   } else if (marketCap >= 10000000000) {
-    return `This is a large-cap asset (${formatNumber(marketCap)}). These assets offer a good balance of stability and growth potential.`;
+    return `This is a large-cap asset (${formatMoney(marketCap)}). These assets offer a good balance of stability and growth potential.`;
   } else if (marketCap >= 1000000000) {
-    return `This is a mid-cap asset (${formatNumber(marketCap)}). These assets can offer good growth opportunities with moderate risk.`;
+    return `This is a mid-cap asset (${formatMoney(marketCap)}). These assets can offer good growth opportunities with moderate risk.`;
   } else if (marketCap >= 100000000) {
-    return `This is a small-cap asset (${formatNumber(marketCap)}). These assets can offer high growth potential but come with higher risk.`;
+    return `This is a small-cap asset (${formatMoney(marketCap)}). These assets can offer high growth potential but come with higher risk.`;
   } else {
-    return `This is a micro-cap asset (${formatNumber(marketCap)}). These assets are highly volatile and speculative.`;
+    return `This is a micro-cap asset (${formatMoney(marketCap)}). These assets are highly volatile and speculative.`;
   }
 };
 
 // Helper function to explain volume
-const explainVolume = (volume: number, marketCap: number): string => {
+const explainVolume = (volume: number, marketCap: number, formatMoney: (usd: number) => string): string => {
   const volumeRatio = volume / marketCap;
   if (volumeRatio > 0.01) {
-    return `High trading volume (${formatNumber(volume)}). This indicates high liquidity and active trading.`;
+    return `High trading volume (${formatMoney(volume)}). This indicates high liquidity and active trading.`;
   } else if (volumeRatio > 0.001) {
-    return `Moderate trading volume (${formatNumber(volume)}). This indicates reasonable liquidity.`;
+    return `Moderate trading volume (${formatMoney(volume)}). This indicates reasonable liquidity.`;
   } else {
-    return `Low trading volume (${formatNumber(volume)}). This indicates lower liquidity and potential price manipulation risks.`;
+    return `Low trading volume (${formatMoney(volume)}). This indicates lower liquidity and potential price manipulation risks.`;
   }
 };
 
@@ -122,10 +138,6 @@ interface MarketCapData {
   sellOrders: number;
   buyVolume: number;
   sellVolume: number;
-  orderBook: {
-    buy: Array<{ price: number; amount: number }>;
-    sell: Array<{ price: number; amount: number }>;
-  };
 }
 
 interface MarketCapChartProps {
@@ -141,6 +153,20 @@ const MarketCapChart: React.FC<MarketCapChartProps> = ({ assets }) => {
   const [investmentThreshold, setInvestmentThreshold] = useState(1000);
   const [orderBookDialogOpen, setOrderBookDialogOpen] = useState(false);
   const [hoveredAsset, setHoveredAsset] = useState<MarketCapData | null>(null);
+  const marketDataProvider = useMarketDataProvider();
+  const streamStatus = useAppSelector(selectStreamStatus);
+  const refreshIntervals = useAppSelector(selectRefreshIntervals);
+  const tickers = useAppSelector(selectTickers);
+  const { priceFromUsd, moneyFromUsd } = useQuoteFormatter();
+  const formatMoney = (usd: number) => moneyFromUsd(usd, true);
+
+  const streamAssets = useMemo(
+    () => assets.map(({ id, symbol, name }) => ({ id, symbol, name })),
+    [assets]
+  );
+  useMarketStream(streamAssets);
+  useOrderBooks(streamAssets);
+  const orderBooks = useAppSelector(selectOrderBooks);
 
   // Sort data based on selected field
   useEffect(() => {
@@ -156,7 +182,7 @@ const MarketCapChart: React.FC<MarketCapChartProps> = ({ assets }) => {
     setSortedData(sorted);
   }, [assets, sortField, sortDirection]);
 
-  // Format numbers with commas
+  // Format order book amounts, which are in the base asset
   const formatNumber = (num: number) => {
     return new Intl.NumberFormat('en-US', {
       notation: 'compact',
@@ -170,76 +196,131 @@ const MarketCapChart: React.FC<MarketCapChartProps> = ({ assets }) => {
       return {
         min: 100000,
         max: 500000,
-        label: '≥ $100,000',
+        label: `≥ ${moneyFromUsd(100000)}`,
         color: '#1976d2',
-        explanation: 'For maximum gains, invest at least $100,000 in mega-cap assets. These assets are highly stable but have lower growth potential.',
+        explanation: `For maximum gains, invest at least ${moneyFromUsd(100000)} in mega-cap assets. These assets are highly stable but have lower growth potential.`,
       };
     } else if (marketCap >= 10000000000) { // $10B - $100B
       return {
         min: 50000,
         max: 250000,
-        label: '≥ $50,000',
+        label: `≥ ${moneyFromUsd(50000)}`,
         color: '#4caf50',
-        explanation: 'For maximum gains, invest at least $50,000 in large-cap assets. These assets offer a good balance of stability and growth potential.',
+        explanation: `For maximum gains, invest at least ${moneyFromUsd(50000)} in large-cap assets. These assets offer a good balance of stability and growth potential.`,
       };
     } else if (marketCap >= 1000000000) { // $1B - $10B
       return {
         min: 10000,
         max: 50000,
-        label: '≥ $10,000',
+        label: `≥ ${moneyFromUsd(10000)}`,
         color: '#ff9800',
-        explanation: 'For maximum gains, invest at least $10,000 in mid-cap assets. These assets can offer good growth opportunities with moderate risk.',
+        explanation: `For maximum gains, invest at least ${moneyFromUsd(10000)} in mid-cap assets. These assets can offer good growth opportunities with moderate risk.`,
       };
     } else if (marketCap >= 100000000) { // $100M - $1B
       return {
         min: 5000,
         max: 25000,
-        label: '≥ $5,000',
+        label: `≥ ${moneyFromUsd(5000)}`,
         color: '#f44336',
-        explanation: 'For maximum gains, invest at least $5,000 in small-cap assets. These assets can offer high growth potential but come with higher risk.',
+        explanation: `For maximum gains, invest at least ${moneyFromUsd(5000)} in small-cap assets. These assets can offer high growth potential but come with higher risk.`,
       };
     } else if (marketCap >= 10000000) { // $10M - $100M
       return {
         min: 1000,
         max: 5000,
-        label: '≥ $1,000',
+        label: `≥ ${moneyFromUsd(1000)}`,
         color: '#9c27b0',
-        explanation: 'For maximum gains, invest at least $1,000 in micro-cap assets. These assets are highly volatile and speculative.',
+        explanation: `For maximum gains, invest at least ${moneyFromUsd(1000)} in micro-cap assets. These assets are highly volatile and speculative.`,
       };
     } else {
       return {
         min: 500,
         max: 2500,
-        label: '≥ $500',
+        label: `≥ ${moneyFromUsd(500)}`,
         color: '#607d8b',
-        explanation: 'For maximum gains, invest at least $500 in nano-cap assets. These assets are extremely volatile and speculative.',
+        explanation: `For maximum gains, invest at least ${moneyFromUsd(500)} in nano-cap assets. These assets are extremely volatile and speculative.`,
       };
     }
   };
 
   // Calculate order book depth
   const getOrderBookDepth = (asset: MarketCapData) => {
-    const buyDepth = asset.orderBook.buy.reduce((sum, order) => sum + order.amount, 0);
-    const sellDepth = asset.orderBook.sell.reduce((sum, order) => sum + order.amount, 0);
-    const spread = asset.orderBook.sell[0].price - asset.orderBook.buy[0].price;
+    const book = orderBooks[asset.id];
+    if (!book) {
+      return {
+        buy: 0,
+        sell: 0,
+        buyOrders: 0,
+        sellOrders: 0,
+        spread: 0,
+        explanation: 'No order book data for this asset.',
+      };
+    }
+    const metrics = getOrderBookMetrics(book);
+    const spread = metrics.spread ?? 0;
     return {
-      buy: buyDepth,
-      sell: sellDepth,
+      buy: metrics.bidDepth,
+      sell: metrics.askDepth,
+      buyOrders: metrics.bidLevels,
+      sellOrders: metrics.askLevels,
       spread,
-      explanation: explainOrderBook(buyDepth, sellDepth, spread),
+      explanation: explainOrderBook(metrics.bidDepth, metrics.askDepth, spread),
     };
   };
 
-  // Real-time updates
+  // Order book of the asset in the dialog, grouped into readable price steps
+  const selectedOrderBook = useMemo(() => {
+    const book = selectedAsset && orderBooks[selectedAsset.id];
+    if (!book) return null;
+    const { mid } = getOrderBookMetrics(book);
+    const aggregated = aggregateOrderBook(book, getDefaultTickSize(mid ?? 0));
+    return {
+      buy: [...aggregated.bids].reverse(), // ascending prices for the x-axis
+      sell: aggregated.asks,
+    };
+  }, [selectedAsset, orderBooks]);
+
+  // Refresh prices from the selected market-data provider
+  const refreshTickers = async () => {
+    if (sortedData.length === 0) return;
+    try {
+      // Kept in US dollars to match the stream and the market cap tiers
+      const tickers = await marketDataProvider.getTickers(sortedData.map(asset => asset.id), 'usd');
+      const tickerById = new Map(tickers.map(ticker => [ticker.assetId, ticker]));
+      setSortedData(prev => prev.map(asset => {
+        const ticker = tickerById.get(asset.id);
+        if (!ticker) return asset;
+        return {
+          ...asset,
+          price: ticker.price,
+          change24h: ticker.change24h,
+          volume: ticker.volume24h,
+          marketCap: ticker.marketCap ?? asset.marketCap,
+        };
+      }));
+    } catch (error) {
+      console.error('Error refreshing market data:', error);
+    }
+  };
+
+  // Apply live prices as they stream in
+  useEffect(() => {
+    setSortedData(prev => prev.map(asset => {
+      const tick = tickers[asset.id];
+      if (!tick) return asset;
+      return {
+        ...asset,
+        price: tick.price,
+        volume: tick.volume24h ?? asset.volume,
+      };
+    }));
+  }, [tickers]);
+
+  // Market cap and 24h change only come from polling, so keep polling while
+  // streaming, just less often
   useInterval(() => {
-    // Simulate real-time updates
-    setSortedData(prev => prev.map(asset => ({
-      ...asset,
-      price: asset.price * (1 + Math.random() * 0.005 - 0.0025), // ±0.5% random change
-      change24h: Math.random() * 10 - 5, // -5% to +5% random change
-      volume: asset.volume * (1 + Math.random() * 0.01 - 0.005), // ±1% random change
-    })));
-  }, 5000); // Update every 5 seconds
+    refreshTickers();
+  }, streamStatus === 'open' ? 60000 : refreshIntervals.marketData);
 
   // Custom tooltip with explanations
   const CustomTooltip = ({ active, payload }: any) => {
@@ -256,17 +337,17 @@ const MarketCapChart: React.FC<MarketCapChartProps> = ({ assets }) => {
             {/* Market Cap Explanation */}
             <Stack spacing={1}>
               <Typography variant="body2">
-                <strong>Market Cap:</strong> ${formatNumber(marketCap)}
+                <strong>Market Cap:</strong> {formatMoney(marketCap)}
               </Typography>
               <Typography variant="caption" color="text.secondary">
-                {explainMarketCap(marketCap)}
+                {explainMarketCap(marketCap, formatMoney)}
               </Typography>
             </Stack>
 
             {/* Price Explanation */}
             <Stack spacing={1}>
               <Typography variant="body2">
-                <strong>Price:</strong> ${price.toFixed(2)}
+                <strong>Price:</strong> {priceFromUsd(price)}
               </Typography>
               <Typography variant="caption" color="text.secondary">
                 {explainPriceChange(change24h)}
@@ -276,10 +357,10 @@ const MarketCapChart: React.FC<MarketCapChartProps> = ({ assets }) => {
             {/* Volume Explanation */}
             <Stack spacing={1}>
               <Typography variant="body2">
-                <strong>24h Volume:</strong> ${formatNumber(volume)}
+                <strong>24h Volume:</strong> {formatMoney(volume)}
               </Typography>
               <Typography variant="caption" color="text.secondary">
-                {explainVolume(volume, marketCap)}
+                {explainVolume(volume, marketCap, formatMoney)}
               </Typography>
             </Stack>
           </Stack>
@@ -400,7 +481,7 @@ const MarketCapChart: React.FC<MarketCapChartProps> = ({ assets }) => {
             <TableBody>
               {sortedData.map((asset, index) => {
                 const threshold = getInvestmentThreshold(asset.marketCap);
-                const { buy, sell, spread, explanation: orderBookExplanation } = getOrderBookDepth(asset);
+                const { buy, sell, buyOrders, sellOrders, explanation: orderBookExplanation } = getOrderBookDepth(asset);
 
                 return (
                   <TableRow
@@ -413,14 +494,14 @@ const MarketCapChart: React.FC<MarketCapChartProps> = ({ assets }) => {
                         <Typography>{asset.name}</Typography>
                         {hoveredAsset?.id === asset.id && (
                           <Alert severity="info" sx={{ fontSize: '0.75rem' }}>
-                            {explainMarketCap(asset.marketCap)}
+                            {explainMarketCap(asset.marketCap, formatMoney)}
                           </Alert>
                         )}
                       </Stack>
                     </TableCell>
                     <TableCell align="right">
                       <Stack direction="column" spacing={1}>
-                        <Typography>${formatNumber(asset.marketCap)}</Typography>
+                        <Typography>{formatMoney(asset.marketCap)}</Typography>
                         {hoveredAsset?.id === asset.id && (
                           <Alert severity="info" sx={{ fontSize: '0.75rem' }}>
                             {threshold.explanation}
@@ -430,7 +511,7 @@ const MarketCapChart: React.FC<MarketCapChartProps> = ({ assets }) => {
                     </TableCell>
                     <TableCell align="right">
                       <Stack direction="column" spacing={1}>
-                        <Typography>${asset.price.toFixed(2)}</Typography>
+                        <Typography>{priceFromUsd(asset.price)}</Typography>
                         {hoveredAsset?.id === asset.id && (
                           <Alert severity="info" sx={{ fontSize: '0.75rem' }}>
                             {explainPriceChange(asset.change24h)}
@@ -461,10 +542,10 @@ const MarketCapChart: React.FC<MarketCapChartProps> = ({ assets }) => {
                     </TableCell>
                     <TableCell align="right">
                       <Stack direction="column" spacing={1}>
-                        <Typography>${formatNumber(asset.volume)}</Typography>
+                        <Typography>{formatMoney(asset.volume)}</Typography>
                         {hoveredAsset?.id === asset.id && (
                           <Alert severity="info" sx={{ fontSize: '0.75rem' }}>
-                            {explainVolume(asset.volume, asset.marketCap)}
+                            {explainVolume(asset.volume, asset.marketCap, formatMoney)}
                           </Alert>
                         )}
                       </Stack>
@@ -472,24 +553,24 @@ const MarketCapChart: React.FC<MarketCapChartProps> = ({ assets }) => {
                     <TableCell align="right">
                       <Stack direction="row" alignItems="center" spacing={1}>
                         <Chip
-                          label={asset.buyOrders.toLocaleString()}
+                          label={buyOrders.toLocaleString()}
                           color="success"
                           size="small"
                         />
                         <Typography variant="caption" color="success.main">
-                          Depth: {formatNumber(buy)} BTC
+                          Depth: {formatNumber(buy)} {asset.symbol.toUpperCase()}
                         </Typography>
                       </Stack>
                     </TableCell>
                     <TableCell align="right">
                       <Stack direction="row" alignItems="center" spacing={1}>
                         <Chip
-                          label={asset.sellOrders.toLocaleString()}
+                          label={sellOrders.toLocaleString()}
                           color="error"
                           size="small"
                         />
                         <Typography variant="caption" color="error.main">
-                          Depth: {formatNumber(sell)} BTC
+                          Depth: {formatNumber(sell)} {asset.symbol.toUpperCase()}
                         </Typography>
                       </Stack>
                     </TableCell>
@@ -552,47 +633,52 @@ const MarketCapChart: React.FC<MarketCapChartProps> = ({ assets }) => {
             </Stack>
           </DialogTitle>
           <DialogContent>
-            <Stack spacing={3}>
-              {/* Buy Orders */}
-              <Box>
-                <Typography variant="subtitle1" color="success.main">
-                  Buy Orders (Depth: {formatNumber(getOrderBookDepth(selectedAsset).buy)} BTC)
-                </Typography>
-                <ResponsiveContainer width="100%" height={200}>
-                  <AreaChart data={selectedAsset.orderBook.buy}>
-                    <XAxis dataKey="price" />
-                    <YAxis />
-                    <Area
-                      type="monotone"
-                      dataKey="amount"
-                      fill="#4caf50"
-                      stroke="#4caf50"
-                      name="Buy Orders"
-                    />
-                  </AreaChart>
-                </ResponsiveContainer>
-              </Box>
+            {!selectedOrderBook && (
+              <Alert severity="info">The order book for this asset is not available.</Alert>
+            )}
+            {selectedOrderBook && (
+              <Stack spacing={3}>
+                {/* Buy Orders */}
+                <Box>
+                  <Typography variant="subtitle1" color="success.main">
+                    Buy Orders (Depth: {formatNumber(getOrderBookDepth(selectedAsset).buy)} {selectedAsset.symbol.toUpperCase()})
+                  </Typography>
+                  <ResponsiveContainer width="100%" height={200}>
+                    <AreaChart data={selectedOrderBook.buy}>
+                      <XAxis dataKey="price" />
+                      <YAxis />
+                      <Area
+                        type="monotone"
+                        dataKey="amount"
+                        fill="#4caf50"
+                        stroke="#4caf50"
+                        name="Buy Orders"
+                      />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </Box>
 
-              {/* Sell Orders */}
-              <Box>
-                <Typography variant="subtitle1" color="error.main">
-                  Sell Orders (Depth: {formatNumber(getOrderBookDepth(selectedAsset).sell)} BTC)
-                </Typography>
-                <ResponsiveContainer width="100%" height={200}>
-                  <AreaChart data={selectedAsset.orderBook.sell}>
-                    <XAxis dataKey="price" />
-                    <YAxis />
-                    <Area
-                      type="monotone"
-                      dataKey="amount"
-                      fill="#f44336"
-                      stroke="#f44336"
-                      name="Sell Orders"
-                    />
-                  </AreaChart>
-                </ResponsiveContainer>
-              </Box>
-            </Stack>
+                {/* Sell Orders */}
+                <Box>
+                  <Typography variant="subtitle1" color="error.main">
+                    Sell Orders (Depth: {formatNumber(getOrderBookDepth(selectedAsset).sell)} {selectedAsset.symbol.toUpperCase()})
+                  </Typography>
+                  <ResponsiveContainer width="100%" height={200}>
+                    <AreaChart data={selectedOrderBook.sell}>
+                      <XAxis dataKey="price" />
+                      <YAxis />
+                      <Area
+                        type="monotone"
+                        dataKey="amount"
+                        fill="#f44336"
+                        stroke="#f44336"
+                        name="Sell Orders"
+                      />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </Box>
+              </Stack>
+            )}
           </DialogContent>
           <DialogActions>
             <Button onClick={() => setOrderBookDialogOpen(false)}>Close</Button>
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Alert, Card, CardContent, CardHeader, FormControlLabel, Stack, Switch } from '@mui/material';
+import { NotificationKind, useAppDispatch, useAppSelector } from '../app/hooks';
+import { notificationSettingsChanged, selectNotificationSettings } from '../features/settings/settingsSlice';
+import { getNotificationPermission, requestNotificationPermission } from '../utils/notifications';
+
+const KIND_LABELS: Record<NotificationKind, string> = {
+  orderFills: 'Order fills',
+  healthIncidents: 'Backend health incidents',
+};
+
+export const NotificationPreferences: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const preferences = useAppSelector(selectNotificationSettings);
+  const [permission, setPermission] = useState(getNotificationPermission);
+
+  // Turning notifications on is the moment to ask the browser for permission
+  const handleEnabledChange = async (enabled: boolean) => {
+    if (enabled && permission === 'default') {
+      setPermission(await requestNotificationPermission());
+    }
+    dispatch(notificationSettingsChanged({ enabled }));
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardHeader title="Notifications" subheader="Desktop notifications while the app is open" />
+      <CardContent>
+        <Stack spacing={1}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={preferences.enabled}
+                onChange={(e) => handleEnabledChange(e.target.checked)}
+                disabled={permission === 'unsupported'}
+              />
+            }
+            label="Enable notifications"
+          />
+          {(Object.keys(KIND_LABELS) as NotificationKind[]).map((kind) => (
+            <FormControlLabel
+              key={kind}
+              sx={{ pl: 4 }}
+              control={
+                <Switch
+                  size="small"
+                  checked={preferences[kind]}
+                  onChange={(e) => dispatch(notificationSettingsChanged({ [kind]: e.target.checked }))}
+                  disabled={!preferences.enabled}
+                />
+              }
+              label={KIND_LABELS[kind]}
+            />
+          ))}
+          {permission === 'unsupported' && (
+            <Alert severity="info">This browser doesn't support desktop notifications here.</Alert>
+          )}
+          {permission === 'denied' && preferences.enabled && (
+            <Alert severity="warning">
+              Notifications are blocked for this site. Allow them in the browser's site settings.
+            </Alert>
+          )}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationPreferences;
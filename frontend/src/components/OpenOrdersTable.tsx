@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Close, Edit } from '@mui/icons-material';
+import { useQuoteFormatter } from '../app/hooks';
+import { Order, OrderAmendment } from '../api/schemas';
+import { ORDER_TYPE_LABELS } from './OrderTicket';
+
+interface OpenOrdersTableProps {
+  orders: Order[];
+  onCancel: (orderId: string) => void;
+  onAmend: (orderId: string, amendment: OrderAmendment) => Promise<unknown>;
+}
+
+export const OpenOrdersTable: React.FC<OpenOrdersTableProps> = ({ orders, onCancel, onAmend }) => {
+  const { priceFromUsd } = useQuoteFormatter();
+  const [amending, setAmending] = useState<Order | null>(null);
+  const [quantity, setQuantity] = useState('');
+  const [price, setPrice] = useState('');
+  const [stopPrice, setStopPrice] = useState('');
+
+  const openAmendDialog = (order: Order) => {
+    setQuantity(String(order.quantity));
+    setPrice(order.price !== null ? String(order.price) : '');
+    setStopPrice(order.stop_price !== null ? String(order.stop_price) : '');
+    setAmending(order);
+  };
+
+  const handleAmend = async () => {
+    if (!amending) return;
+    // Only send what changed
+    const amendment: OrderAmendment = {};
+    const parsed = { quantity: parseFloat(quantity), price: parseFloat(price), stop_price: parseFloat(stopPrice) };
+    if (parsed.quantity > 0 && parsed.quantity !== amending.quantity) amendment.quantity = parsed.quantity;
+    if (parsed.price > 0 && parsed.price !== amending.price) amendment.price = parsed.price;
+    if (parsed.stop_price > 0 && parsed.stop_price !== amending.stop_price) amendment.stop_price = parsed.stop_price;
+    try {
+      if (Object.keys(amendment).length > 0) {
+        await onAmend(amending.id, amendment);
+      }
+      setAmending(null);
+    } catch {
+      // The page shows the error; leave the dialog open to retry
+    }
+  };
+
+  if (orders.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No open orders
+      </Typography>
+    );
+  }
+
+  return (
+    <>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Placed</TableCell>
+            <TableCell>Symbol</TableCell>
+            <TableCell>Side</TableCell>
+            <TableCell>Type</TableCell>
+            <TableCell align="right">Quantity</TableCell>
+            <TableCell align="right">Limit</TableCell>
+            <TableCell align="right">Stop</TableCell>
+            <TableCell align="right" />
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {orders.map((order) => (
+            <TableRow key={order.id}>
+              <TableCell>{new Date(order.timestamp).toLocaleString()}</TableCell>
+              <TableCell>{order.symbol}</TableCell>
+              <TableCell sx={{ color: order.side === 'buy' ? 'success.main' : 'error.main' }}>
+                {order.side.toUpperCase()}
+              </TableCell>
+              <TableCell>{ORDER_TYPE_LABELS[order.type]}</TableCell>
+              <TableCell align="right">{order.quantity}</TableCell>
+              <TableCell align="right">{order.price !== null ? priceFromUsd(order.price) : '–'}</TableCell>
+              <TableCell align="right">{order.stop_price !== null ? priceFromUsd(order.stop_price) : '–'}</TableCell>
+              <TableCell align="right">
+                <Tooltip title="Amend">
+                  <IconButton size="small" onClick={() => openAmendDialog(order)}>
+                    <Edit fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Cancel">
+                  <IconButton size="small" onClick={() => onCancel(order.id)}>
+                    <Close fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={amending !== null} onClose={() => setAmending(null)}>
+        <DialogTitle>Amend {amending?.symbol} {amending && ORDER_TYPE_LABELS[amending.type].toLowerCase()} order</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ pt: 1 }}>
+            <TextField
+              label="Quantity"
+              type="number"
+              size="small"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+            />
+            {amending?.price !== null && (
+              <TextField
+                label="Limit price (USD)"
+                type="number"
+                size="small"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+              />
+            )}
+            {amending?.stop_price !== null && (
+              <TextField
+                label="Stop price (USD)"
+                type="number"
+                size="small"
+                value={stopPrice}
+                onChange={(e) => setStopPrice(e.target.value)}
+              />
+            )}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAmending(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleAmend}>
+            Amend
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default OpenOrdersTable;
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { useQuoteFormatter } from '../app/hooks';
+import { OrderRequest, OrderSide, OrderType } from '../api/schemas';
+import { toBinanceSymbol } from '../services/binance';
+import { MarketAsset } from '../types/marketData';
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  market: 'Market',
+  limit: 'Limit',
+  stop: 'Stop',
+  stop_limit: 'Stop-limit',
+};
+
+const needsLimitPrice = (type: OrderType) => type === 'limit' || type === 'stop_limit';
+const needsStopPrice = (type: OrderType) => type === 'stop' || type === 'stop_limit';
+
+interface OrderTicketProps {
+  asset: MarketAsset;
+  lastPrice?: number; // US dollars
+  onSubmit: (order: OrderRequest) => Promise<unknown>;
+  submitting?: boolean;
+  error?: string | null;
+}
+
+const parsePrice = (value: string) => {
+  const price = parseFloat(value);
+  return price > 0 ? price : undefined;
+};
+
+export const OrderTicket: React.FC<OrderTicketProps> = ({ asset, lastPrice, onSubmit, submitting, error }) => {
+  const [side, setSide] = useState<OrderSide>('buy');
+  const [type, setType] = useState<OrderType>('market');
+  const [quantity, setQuantity] = useState('');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [stopPrice, setStopPrice] = useState('');
+  const { priceFromUsd, moneyFromUsd } = useQuoteFormatter();
+
+  const parsedQuantity = parseFloat(quantity) > 0 ? parseFloat(quantity) : undefined;
+  const price = needsLimitPrice(type) ? parsePrice(limitPrice) : undefined;
+  const stop = needsStopPrice(type) ? parsePrice(stopPrice) : undefined;
+
+  // What's missing before the order can go out, in the order a user fills the ticket
+  const problem = !parsedQuantity
+    ? 'Enter a quantity'
+    : needsLimitPrice(type) && !price
+      ? 'Enter a limit price'
+      : needsStopPrice(type) && !stop
+        ? 'Enter a stop price'
+        : type === 'market' && !lastPrice
+          ? 'No market price yet'
+          : null;
+
+  const estimatePrice = price ?? stop ?? lastPrice;
+
+  const handleSubmit = async () => {
+    if (problem || !parsedQuantity) return;
+    try {
+      await onSubmit({
+        asset_id: asset.id,
+        symbol: toBinanceSymbol(asset),
+        side,
+        type,
+        quantity: parsedQuantity,
+        price,
+        stop_price: stop,
+        reference_price: lastPrice,
+      });
+      setQuantity('');
+    } catch {
+      // Shown through `error`; keep the ticket filled in so it can be fixed and resent
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title={`Order ticket · ${asset.symbol.toUpperCase()}`}
+        subheader={lastPrice ? `Last ${priceFromUsd(lastPrice)}` : 'Waiting for a price…'}
+      />
+      <CardContent>
+        <Stack spacing={2}>
+          <ToggleButtonGroup
+            exclusive
+            fullWidth
+            size="small"
+            value={side}
+            onChange={(_, value: OrderSide | null) => value && setSide(value)}
+          >
+            <ToggleButton value="buy" color="success">Buy</ToggleButton>
+            <ToggleButton value="sell" color="error">Sell</ToggleButton>
+          </ToggleButtonGroup>
+
+          <FormControl size="small" fullWidth>
+            <InputLabel>Type</InputLabel>
+            <Select value={type} label="Type" onChange={(e) => setType(e.target.value as OrderType)}>
+              {(Object.keys(ORDER_TYPE_LABELS) as OrderType[]).map((orderType) => (
+                <MenuItem key={orderType} value={orderType}>
+                  {ORDER_TYPE_LABELS[orderType]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            label={`Quantity (${asset.symbol.toUpperCase()})`}
+            type="number"
+            size="small"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+          />
+          {needsStopPrice(type) && (
+            <TextField
+              label="Stop price (USD)"
+              type="number"
+              size="small"
+              value={stopPrice}
+              onChange={(e) => setStopPrice(e.target.value)}
+              helperText={side === 'buy' ? 'Triggers when the price rises to this level' : 'Triggers when the price falls to this level'}
+            />
+          )}
+          {needsLimitPrice(type) && (
+            <TextField
+              label="Limit price (USD)"
+              type="number"
+              size="small"
+              value={limitPrice}
+              onChange={(e) => setLimitPrice(e.target.value)}
+            />
+          )}
+
+          <Typography variant="body2" color="text.secondary">
+            Estimated value: {parsedQuantity && estimatePrice ? moneyFromUsd(parsedQuantity * estimatePrice) : '–'}
+          </Typography>
+
+          {error && <Alert severity="error">{error}</Alert>}
+
+          <Button
+            variant="contained"
+            color={side === 'buy' ? 'success' : 'error'}
+            disabled={!!problem || submitting}
+            onClick={handleSubmit}
+          >
+            {problem || `${side === 'buy' ? 'Buy' : 'Sell'} ${ORDER_TYPE_LABELS[type].toLowerCase()}`}
+          </Button>
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderTicket;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { useAppSelector, usePaperStrategy } from '../app/hooks';
+import { selectCustomStrategies } from '../features/strategies/strategiesSlice';
+import { MarketAsset } from '../types/marketData';
+import { resolveStrategy, STRATEGIES } from '../utils/strategies';
+
+interface PaperStrategyRunnerProps {
+  asset: MarketAsset;
+}
+
+// Pick a strategy and let it trade the asset on the paper broker, one live
+// candle at a time (see usePaperStrategy)
+export const PaperStrategyRunner: React.FC<PaperStrategyRunnerProps> = ({ asset }) => {
+  const customStrategies = useAppSelector(selectCustomStrategies);
+  const [strategy, setStrategy] = useState(Object.keys(STRATEGIES)[0]);
+  const [running, setRunning] = useState(false);
+  const { signals, error, loading } = usePaperStrategy(asset, running ? strategy : null);
+
+  const strategies = [...Object.keys(STRATEGIES), ...customStrategies.map(({ id }) => id)];
+  const signal = signals?.signal ?? 'NEUTRAL';
+
+  return (
+    <Card sx={{ mt: 3 }}>
+      <CardHeader
+        title={`Strategy · ${asset.symbol.toUpperCase()}`}
+        subheader={running ? 'Trading each hourly candle as it closes' : 'Stopped'}
+      />
+      <CardContent>
+        <Stack spacing={2}>
+          <FormControl size="small" fullWidth disabled={running}>
+            <InputLabel>Strategy</InputLabel>
+            <Select value={strategy} label="Strategy" onChange={(e) => setStrategy(e.target.value)}>
+              {strategies.map((id) => (
+                <MenuItem key={id} value={id}>
+                  {resolveStrategy(id, customStrategies).name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {running && (
+            <Stack direction="row" spacing={1} alignItems="center">
+              <Typography variant="body2" color="text.secondary">
+                {loading ? 'Loading history…' : 'Signal'}
+              </Typography>
+              {signals && (
+                <Chip
+                  label={signal}
+                  color={signal === 'BUY' ? 'success' : signal === 'SELL' ? 'error' : 'warning'}
+                  size="small"
+                />
+              )}
+            </Stack>
+          )}
+
+          {error && <Alert severity="error">{error}</Alert>}
+
+          <Button variant="contained" color={running ? 'error' : 'primary'} onClick={() => setRunning(!running)}>
+            {running ? 'Stop' : 'Start'}
+          </Button>
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaperStrategyRunner;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Box,
   Typography,
@@ -37,6 +37,9 @@ import {
   CheckCircle,
 } from '@mui/icons-material';
 import { useInterval } from 'usehooks-ts';
+import { useAppSelector, useMarketDataProvider, useMarketStream, useQuoteFormatter } from '../app/hooks';
+import { selectStreamStatus, selectTickers } from '../features/marketData/marketDataSlice';
+import { selectRefreshIntervals } from '../features/settings/settingsSlice';
 
 interface PortfolioAsset {
   id: string;
@@ -52,6 +55,25 @@ interface PortfolioAsset {
   targetAllocation: number;
 }
 
+// Revalue positions at new prices and recompute their allocation
+const revaluePortfolio = (portfolio: PortfolioAsset[], priceById: Map<string, number>): PortfolioAsset[] => {
+  const revalued = portfolio.map(asset => {
+    const currentPrice = priceById.get(asset.id) ?? asset.currentPrice;
+    return {
+      ...asset,
+      currentPrice,
+      totalValue: asset.quantity * currentPrice,
+      unrealizedPnl: (currentPrice - asset.averagePrice) * asset.quantity,
+      unrealizedPnlPercent: ((currentPrice - asset.averagePrice) / asset.averagePrice) * 100,
+    };
+  });
+  const totalValue = revalued.reduce((sum, asset) => sum + asset.totalValue, 0);
+  return revalued.map(asset => ({
+    ...asset,
+    allocation: totalValue > 0 ? (asset.totalValue / totalValue) * 100 : 0,
+  }));
+};
+
 interface PortfolioManagerProps {
   assets: any[];
   onTrade: (asset: any, quantity: number, isBuy: boolean) => void;
@@ -66,6 +88,17 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({ assets, onTrade, on
   const [tradeQuantity, setTradeQuantity] = useState(0);
   const [isBuy, setIsBuy] = useState(true);
   const [showRebalanceDialog, setShowRebalanceDialog] = useState(false);
+  const marketDataProvider = useMarketDataProvider();
+  const streamStatus = useAppSelector(selectStreamStatus);
+  const refreshIntervals = useAppSelector(selectRefreshIntervals);
+  const tickers = useAppSelector(selectTickers);
+  const { priceFromUsd, moneyFromUsd } = useQuoteFormatter();
+
+  const streamAssets = useMemo(
+    () => assets.map(({ id, symbol, name }) => ({ id, symbol, name })),
+    [assets]
+  );
+  useMarketStream(streamAssets);
 
   // Calculate portfolio metrics
   const calculatePortfolioMetrics = () => {
@@ -102,30 +135,38 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({ assets, onTrade, on
     return trades;
   };
 
-  // Real-time updates
-  useInterval(() => {
-    setLoading(true);
-    // Simulate portfolio update
-    setTimeout(() => {
-      setPortfolio(prev => prev.map(asset => ({
-        ...asset,
-        currentPrice: asset.currentPrice * (1 + Math.random() * 0.005 - 0.0025), // ±0.5% random change
-        totalValue: asset.quantity * asset.currentPrice,
-        unrealizedPnl: (asset.currentPrice - asset.averagePrice) * asset.quantity,
-        unrealizedPnlPercent: ((asset.currentPrice - asset.averagePrice) / asset.averagePrice) * 100,
-      })));
+  // Revalue the portfolio at the provider's latest prices
+  const refreshPrices = async () => {
+    if (portfolio.length === 0) {
       setLoading(false);
-    }, 5000);
-  }, 5000);
-
-  // Format number with commas
-  const formatNumber = (num: number) => {
-    return new Intl.NumberFormat('en-US', {
-      notation: 'compact',
-      maximumFractionDigits: 2,
-    }).format(num);
+      return;
+    }
+    try {
+      // Positions are kept in US dollars, like the stream, and converted for display
+      const tickers = await marketDataProvider.getTickers(portfolio.map(asset => asset.id), 'usd');
+      const priceById = new Map(tickers.map(ticker => [ticker.assetId, ticker.price]));
+      setPortfolio(prev => revaluePortfolio(prev, priceById));
+    } catch (error) {
+      console.error('Error refreshing portfolio prices:', error);
+    } finally {
+      setLoading(false);
+    }
   };
 
+  // Revalue on every live tick
+  useEffect(() => {
+    const priceById = new Map(Object.values(tickers).map(tick => [tick.assetId, tick.price]));
+    if (priceById.size > 0) {
+      setPortfolio(prev => revaluePortfolio(prev, priceById));
+      setLoading(false);
+    }
+  }, [tickers]);
+
+  // Fall back to polling while there is no live stream
+  useInterval(() => {
+    refreshPrices();
+  }, streamStatus === 'open' ? null : refreshIntervals.marketData);
+
   // Format percentage
   const formatPercentage = (num: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -161,7 +202,7 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({ assets, onTrade, on
         <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
           {portfolio.length > 0 && (
             <Chip
-              label={`Total Value: $${formatNumber(calculatePortfolioMetrics().totalValue)}`}
+              label={`Total Value: ${moneyFromUsd(calculatePortfolioMetrics().totalValue, true)}`}
               color="primary"
               variant="outlined"
             />
@@ -236,18 +277,18 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({ assets, onTrade, on
                       {asset.quantity.toFixed(4)}
                     </TableCell>
                     <TableCell align="right">
-                      ${asset.averagePrice.toFixed(2)}
+                      {priceFromUsd(asset.averagePrice)}
                     </TableCell>
                     <TableCell align="right">
-                      ${asset.currentPrice.toFixed(2)}
+                      {priceFromUsd(asset.currentPrice)}
                     </TableCell>
                     <TableCell align="right">
-                      ${formatNumber(asset.totalValue)}
+                      {moneyFromUsd(asset.totalValue, true)}
                     </TableCell>
                     <TableCell align="right">
                       <Stack direction="row" alignItems="center" spacing={0.5}>
                         <Chip
-                          label={formatNumber(Math.abs(asset.unrealizedPnl))}
+                          label={moneyFromUsd(Math.abs(asset.unrealizedPnl), true)}
                           color={pnlColor}
                           size="small"
                         />
@@ -343,7 +384,7 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({ assets, onTrade, on
         <DialogContent>
           <Stack spacing={2}>
             <Typography>
-              Current Price: ${selectedAsset?.currentPrice?.toFixed(2)}
+              Current Price: {priceFromUsd(selectedAsset?.currentPrice || 0)}
             </Typography>
             <TextField
               label="Quantity"
@@ -353,7 +394,7 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({ assets, onTrade, on
               fullWidth
             />
             <Typography>
-              Estimated Value: ${formatNumber(tradeQuantity * (selectedAsset?.currentPrice || 0))}
+              Estimated Value: {moneyFromUsd(tradeQuantity * (selectedAsset?.currentPrice || 0), true)}
             </Typography>
             <Alert severity={isBuy ? "info" : "warning"}>
               {isBuy ? "This will increase your position in this asset." : "This will decrease your position in this asset."}
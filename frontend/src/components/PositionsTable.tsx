@@ -0,0 +1,65 @@
+import React from 'react';
+import { Button, Table, TableBody, TableCell, TableHead, TableRow, Typography } from '@mui/material';
+import { useQuoteFormatter } from '../app/hooks';
+import { Position } from '../api/schemas';
+import { MarketAsset } from '../types/marketData';
+
+interface PositionsTableProps {
+  positions: Position[];
+  getAsset: (position: Position) => MarketAsset;
+  // Same shape as PortfolioManager's onTrade
+  onTrade: (asset: MarketAsset, quantity: number, isBuy: boolean) => void;
+}
+
+export const PositionsTable: React.FC<PositionsTableProps> = ({ positions, getAsset, onTrade }) => {
+  const { priceFromUsd, moneyFromUsd } = useQuoteFormatter();
+  const open = positions.filter((position) => position.quantity !== 0);
+
+  if (open.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No open positions
+      </Typography>
+    );
+  }
+
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Symbol</TableCell>
+          <TableCell align="right">Quantity</TableCell>
+          <TableCell align="right">Entry</TableCell>
+          <TableCell align="right">Current</TableCell>
+          <TableCell align="right">Value</TableCell>
+          <TableCell align="right">P&amp;L</TableCell>
+          <TableCell align="right" />
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {open.map((position) => (
+          <TableRow key={position.symbol}>
+            <TableCell>{position.symbol}</TableCell>
+            <TableCell align="right">{position.quantity}</TableCell>
+            <TableCell align="right">{priceFromUsd(position.entry_price)}</TableCell>
+            <TableCell align="right">{priceFromUsd(position.current_price)}</TableCell>
+            <TableCell align="right">{moneyFromUsd(position.quantity * position.current_price)}</TableCell>
+            <TableCell align="right" sx={{ color: position.pnl >= 0 ? 'success.main' : 'error.main' }}>
+              {moneyFromUsd(position.pnl)}
+            </TableCell>
+            <TableCell align="right">
+              <Button
+                size="small"
+                onClick={() => onTrade(getAsset(position), Math.abs(position.quantity), position.quantity < 0)}
+              >
+                Close
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default PositionsTable;
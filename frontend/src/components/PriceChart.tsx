@@ -1,6 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
-  LineChart,
   ComposedChart,
   Line,
   XAxis,
@@ -25,21 +24,37 @@ import {
   FormControl,
   InputLabel,
   MenuItem,
-  FormControlLabel,
   Checkbox,
   Select,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
 } from '@mui/material';
-import { ChartData, ChartConfig, CryptoAsset } from '../types/chart';
-import { useAppSelector, useAppDispatch } from '../app/hooks';
-import { coingeckoApi } from '../services/coingecko';
-import { calculateAllIndicators } from '../utils/technicalIndicators';
-import { setSelectedAsset, toggleIndicator } from '../features/chart/chartSlice';
+import { ChartData, CryptoAsset, IndicatorInstance, IndicatorType } from '../types/chart';
+import { useAppSelector, useAppDispatch, useMarketDataProvider, useMarketStream, useIndicatorInstances } from '../app/hooks';
+import { indicatorSeriesKey } from '../utils/technicalIndicators';
+import { describeIndicator } from '../utils/indicatorInstances';
+import {
+  setIndicators,
+  setSelectedAsset,
+  toggleCandlestick,
+  toggleIndicator,
+} from '../features/chart/chartSlice';
 import { setTimeInterval } from '../features/timeInterval/timeIntervalSlice';
+import { candlesLoaded, selectCandles, selectQuoteCurrency } from '../features/marketData/marketDataSlice';
+import { selectActiveWatchlist } from '../features/watchlists/watchlistsSlice';
+import { QuoteCurrency } from '../types/marketData';
+import { formatMoney, formatPrice } from '../utils/formatters';
+import AssetPicker from './AssetPicker';
+import { IndicatorListEditor } from './IndicatorListEditor';
 import {
   ZoomIn,
   ZoomOut,
   Fullscreen,
   FullscreenExit,
+  Tune,
 } from '@mui/icons-material';
 
 interface PriceChartProps {
@@ -47,10 +62,77 @@ interface PriceChartProps {
   onAssetChange: (asset: CryptoAsset) => void;
 }
 
-const CustomTooltip: React.FC<TooltipProps<number, string>> = ({ active, payload, label }) => {
+interface SeriesStyle {
+  output: string; // key from calculateIndicatorSeries
+  label?: string; // after the instance's description, e.g. "MACD 12/26/9 Signal"
+  dash?: string;
+  area?: boolean; // filled, like a histogram
+}
+
+// How each output of an indicator type is drawn
+const SERIES_STYLES: Record<IndicatorType, SeriesStyle[]> = {
+  rsi: [{ output: 'value', dash: '5 5' }],
+  macd: [
+    { output: 'macd', dash: '5 2' },
+    { output: 'signal', label: 'Signal', dash: '2 2' },
+    { output: 'histogram', label: 'Histogram', area: true },
+  ],
+  bollingerBands: [
+    { output: 'upper', label: 'Upper', dash: '3 3' },
+    { output: 'middle', label: 'Middle', dash: '1 3' },
+    { output: 'lower', label: 'Lower', dash: '3 3' },
+  ],
+  movingAverages: [
+    { output: 'short', label: 'Short' },
+    { output: 'long', label: 'Long', dash: '8 4' },
+  ],
+  sma: [{ output: 'value' }],
+  ema: [{ output: 'value' }],
+  adx: [{ output: 'value', dash: '4 2' }],
+  obv: [{ output: 'value', dash: '2 4' }],
+  vwap: [{ output: 'value', dash: '6 3' }],
+  atr: [{ output: 'value', dash: '1 3' }],
+  cci: [{ output: 'value', dash: '4 4' }],
+  stoch: [{ output: 'value', dash: '3 1 1 1' }],
+  roc: [{ output: 'value', dash: '5 1' }],
+  mfi: [{ output: 'value', dash: '2 2 6 2' }],
+  williamsR: [{ output: 'value', dash: '6 2' }],
+  ichimoku: [
+    { output: 'conversion', label: 'Conversion' },
+    { output: 'base', label: 'Base', dash: '6 3' },
+    { output: 'spanA', label: 'Span A', dash: '2 2' },
+    { output: 'spanB', label: 'Span B', dash: '4 2' },
+  ],
+  keltnerChannels: [
+    { output: 'upper', label: 'Upper', dash: '4 4' },
+    { output: 'middle', label: 'Middle', dash: '1 3' },
+    { output: 'lower', label: 'Lower', dash: '4 4' },
+  ],
+  parabolicSar: [{ output: 'value', dash: '1 4' }],
+  supertrend: [{ output: 'value' }],
+  donchianChannels: [
+    { output: 'upper', label: 'Upper', dash: '6 2' },
+    { output: 'middle', label: 'Middle', dash: '1 3' },
+    { output: 'lower', label: 'Lower', dash: '6 2' },
+  ],
+  kst: [
+    { output: 'kst' },
+    { output: 'signal', label: 'Signal', dash: '2 2' },
+  ],
+  chaikinMoneyFlow: [{ output: 'value', dash: '3 3' }],
+  vwapMomentum: [{ output: 'value', dash: '5 3' }],
+  hma: [{ output: 'value' }],
+};
+
+const CustomTooltip: React.FC<TooltipProps<number, string> & { quote?: QuoteCurrency }> = ({
+  active,
+  payload,
+  label,
+  quote = 'usd',
+}) => {
   if (active && payload && payload.length > 0 && payload[0].payload) {
     const data = payload[0].payload;
-    const { name, price, volume } = data;
+    const { name, price, volume, open, high, low, close } = data;
 
     return (
       <Paper elevation={3} sx={{ p: 2, maxWidth: 400 }}>
@@ -61,13 +143,16 @@ const CustomTooltip: React.FC<TooltipProps<number, string>> = ({ active, payload
 
           <Stack spacing={1}>
             <Typography variant="body2">
-              <strong>Price:</strong> ${price.toFixed(2)}
+              <strong>Price:</strong> {formatPrice(price, quote)}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              O {formatPrice(open, quote)} · H {formatPrice(high, quote)} · L {formatPrice(low, quote)} · C {formatPrice(close, quote)}
             </Typography>
           </Stack>
 
           <Stack spacing={1}>
             <Typography variant="body2">
-              <strong>24h Volume:</strong> ${new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(volume)}
+              <strong>Volume:</strong> {formatMoney(volume, quote, { compact: true })}
             </Typography>
           </Stack>
         </Stack>
@@ -83,41 +168,68 @@ export const PriceChart: React.FC<PriceChartProps> = ({ assets, onAssetChange })
   // State to track which indicator line is highlighted
   const [highlightedLineKey, setHighlightedLineKey] = useState<string | null>(null);
 
-  // Enable default indicators on mount if not already enabled
-  useEffect(() => {
-    const defaultIndicators = ['rsi', 'macd', 'bollingerBands', 'vwap'];
-    defaultIndicators.forEach((indicator) => {
-      if (!chartConfig[indicator as keyof typeof chartConfig]?.enabled) {
-        dispatch(toggleIndicator(indicator as keyof typeof chartConfig));
-      }
-    });
-  }, []); // Run once on mount
-
-  // Mock data for assets if none provided
-  const mockAssets: CryptoAsset[] = [
-    { id: 'bitcoin', name: 'Bitcoin', symbol: 'BTC', balance: 0, price: 0 },
-    { id: 'ethereum', name: 'Ethereum', symbol: 'ETH', balance: 0, price: 0 },
-    { id: 'ripple', name: 'Ripple', symbol: 'XRP', balance: 0, price: 0 },
-    { id: 'litecoin', name: 'Litecoin', symbol: 'LTC', balance: 0, price: 0 },
-    { id: 'cardano', name: 'Cardano', symbol: 'ADA', balance: 0, price: 0 },
-  ];
-
-  const assetsToUse = assets && assets.length > 0 ? assets : mockAssets;
-
+  // Fall back to the active watchlist if no assets are provided
+  const watchlist = useAppSelector(selectActiveWatchlist);
   const selectedAsset = useAppSelector((state) => state.chart.selectedAsset);
+  const assetsToUse = useMemo(() => {
+    const listed: CryptoAsset[] = assets && assets.length > 0
+      ? assets
+      : watchlist.assets.map((asset) => ({ ...asset, balance: 0, price: 0 }));
+    // Keep an asset picked from search selectable even if it isn't listed
+    return listed.some((asset) => asset.symbol === selectedAsset.symbol)
+      ? listed
+      : [...listed, selectedAsset];
+  }, [assets, watchlist, selectedAsset]);
+
+  const handleAssetSelect = (asset: CryptoAsset) => {
+    onAssetChange(asset);
+    dispatch(setSelectedAsset(asset));
+  };
+
   const timeInterval = useAppSelector((state) => state.timeInterval.interval);
   const chartConfig = useAppSelector((state) => state.chart.config);
-  const [chartData, setChartData] = useState<ChartData[]>([]);
+  const marketDataProvider = useMarketDataProvider();
+  const candles = useAppSelector(selectCandles);
+  const quote = useAppSelector(selectQuoteCurrency);
   const [isLoading, setIsLoading] = useState(false);
   const [zoomLevel, setZoomLevel] = useState(1);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [brushDomain, setBrushDomain] = useState<number[]>([]);
+  const [indicatorsOpen, setIndicatorsOpen] = useState(false);
 
   const chartRef = useRef<any>(null);
 
+  // Live ticks update the last candle in the store; indicators follow it
+  const streamAssets = useMemo(
+    () => (selectedAsset.id ? [{ id: selectedAsset.id, symbol: selectedAsset.symbol, name: selectedAsset.name }] : []),
+    [selectedAsset]
+  );
+  useMarketStream(streamAssets);
+
+  const shownIndicators = useMemo(
+    () => chartConfig.indicators.filter(({ enabled }) => enabled),
+    [chartConfig.indicators]
+  );
+
+  const shownCandles = useMemo<ChartData[]>(() => {
+    if (
+      !candles ||
+      candles.assetId !== selectedAsset.id ||
+      candles.interval !== timeInterval ||
+      candles.quote !== quote
+    ) {
+      return [];
+    }
+    return candles.data;
+  }, [candles, selectedAsset.id, timeInterval, quote]);
+  const chartData = useIndicatorInstances(shownCandles, shownIndicators);
+
+  const priceIndicators = shownIndicators.filter(({ pane }) => pane === 'price');
+  const lowerIndicators = shownIndicators.filter(({ pane }) => pane === 'lower');
+
   // Custom dot component for indicator lines with click handler
   const CustomDot: React.FC<any> = (props) => {
-    const { cx, cy, stroke, dataKey } = props;
+    const { cx, cy, stroke, seriesKey: dataKey } = props;
     if (cx === undefined || cy === undefined) return null;
 
     const handleClick = (e: React.MouseEvent<SVGCircleElement, MouseEvent>) => {
@@ -143,6 +255,40 @@ export const PriceChart: React.FC<PriceChartProps> = ({ assets, onAssetChange })
     );
   };
 
+  // One instance's lines, named after it ("EMA 21", "MACD 12/26/9 Signal")
+  const renderIndicator = (instance: IndicatorInstance, yAxisId?: string) =>
+    SERIES_STYLES[instance.type].map(({ output, label, dash, area }) => {
+      const key = indicatorSeriesKey(instance.id, output);
+      const name = label ? `${describeIndicator(instance)} ${label}` : describeIndicator(instance);
+      const dataKey = (d: ChartData) => d.indicators?.[key];
+      return area ? (
+        <Area
+          key={key}
+          yAxisId={yAxisId}
+          type="monotone"
+          dataKey={dataKey}
+          name={name}
+          fill={instance.color}
+          fillOpacity={0.3}
+          stroke="none"
+        />
+      ) : (
+        <Line
+          key={key}
+          yAxisId={yAxisId}
+          type="monotone"
+          dataKey={dataKey}
+          name={name}
+          stroke={instance.color}
+          strokeWidth={highlightedLineKey === key ? 3 : instance.lineWidth}
+          strokeDasharray={dash}
+          dot={<CustomDot seriesKey={key} />}
+          animationDuration={500}
+          animationEasing="ease-out"
+        />
+      );
+    });
+
   const handleBrushDomainChange = (newIndex: any) => {
     if (newIndex.startIndex !== undefined && newIndex.endIndex !== undefined) {
       setBrushDomain([newIndex.startIndex, newIndex.endIndex]);
@@ -202,19 +348,20 @@ export const PriceChart: React.FC<PriceChartProps> = ({ assets, onAssetChange })
 
       const days = intervalToDaysMap[timeInterval] || 30;
 
-      const data = await coingeckoApi.getHistoricalData(
+      const data = await marketDataProvider.getHistoricalCandles(
         selectedAsset.id,
         days,
-        timeInterval
+        timeInterval,
+        quote
       );
 
       // Filter out data points with zero or invalid price
       const filteredData = data.filter((point: any) => point.price && point.price > 0);
 
-      const { data: dataWithIndicators } = calculateAllIndicators(filteredData);
-      setChartData(dataWithIndicators);
+      dispatch(candlesLoaded({ assetId: selectedAsset.id, interval: timeInterval, quote, data: filteredData }));
     } catch (error) {
       console.error('Error fetching chart data:', error);
+      dispatch(candlesLoaded({ assetId: selectedAsset.id, interval: timeInterval, quote, data: [] }));
     } finally {
       setIsLoading(false);
     }
@@ -222,7 +369,7 @@ export const PriceChart: React.FC<PriceChartProps> = ({ assets, onAssetChange })
 
   useEffect(() => {
     fetchChartData();
-  }, [selectedAsset.id, timeInterval]);
+  }, [selectedAsset.id, timeInterval, quote, marketDataProvider]);
 
   const formatTimestamp = (timestamp: number) => {
     // For intervals longer than 1 day, show date instead of time
@@ -256,9 +403,7 @@ export const PriceChart: React.FC<PriceChartProps> = ({ assets, onAssetChange })
           <Select
             value={selectedAsset.symbol}
             onChange={(e) => {
-              const newAsset = assetsToUse.find((a) => a.symbol === e.target.value) || assetsToUse[0];
-              onAssetChange(newAsset);
-              dispatch(setSelectedAsset(newAsset));
+              handleAssetSelect(assetsToUse.find((a) => a.symbol === e.target.value) || assetsToUse[0]);
             }}
             label="Asset"
           >
@@ -270,48 +415,44 @@ export const PriceChart: React.FC<PriceChartProps> = ({ assets, onAssetChange })
           </Select>
         </FormControl>
 
+        <AssetPicker
+          label="Search all assets"
+          onSelect={(asset) =>
+            handleAssetSelect({ ...asset, symbol: asset.symbol.toUpperCase(), balance: 0, price: 0 })
+          }
+        />
+
         <FormControl size="small" sx={{ minWidth: 200 }}>
           <InputLabel>Indicators</InputLabel>
           <Select
             multiple
-            value={Object.entries(chartConfig)
-              .filter(([key, value]) => value.enabled)
-              .map(([key]) => key)}
-            onChange={(e) => {
-              const selected = e.target.value as string[];
-              Object.keys(chartConfig).forEach((key) => {
-                const k = key as keyof typeof chartConfig;
-                const shouldBeEnabled = selected.includes(k);
-                if (chartConfig[k].enabled !== shouldBeEnabled) {
-                  dispatch(toggleIndicator(k));
-                }
-              });
-            }}
+            value={[
+              ...(chartConfig.candlestick ? ['candlestick'] : []),
+              ...shownIndicators.map(({ id }) => id),
+            ]}
             label="Indicators"
-            renderValue={(selected) => (selected as string[]).join(', ')}
+            renderValue={() =>
+              [
+                ...(chartConfig.candlestick ? ['Candlesticks'] : []),
+                ...shownIndicators.map(describeIndicator),
+              ].join(', ')
+            }
           >
-              {[
-                { key: 'rsi', label: 'RSI', tooltip: 'RSI measures price momentum. Values above 70 indicate overbought conditions, while values below 30 indicate oversold conditions.' },
-                { key: 'macd', label: 'MACD', tooltip: 'MACD shows the relationship between two moving averages of prices. A positive histogram indicates upward momentum, while a negative histogram indicates downward momentum.' },
-                { key: 'bollingerBands', label: 'Bollinger Bands', tooltip: 'Bollinger Bands consist of a moving average and two standard deviations. Prices tend to stay within the bands, with breakouts indicating potential trend changes.' },
-                { key: 'obv', label: 'On-Balance Volume uses volume to predict price changes.' },
-                { key: 'vwap', label: 'Volume Weighted Average Price calculates the average price weighted by volume.' },
-                { key: 'candlestick', label: 'Candlestick chart showing open, high, low, and close prices.' },
-              ].map(({ key, label, tooltip }) => {
-                const k = key as keyof typeof chartConfig;
-                return (
-                  <MenuItem key={key} value={key}>
-                    <Checkbox
-                      checked={chartConfig[k]?.enabled || false}
-                      onChange={() => dispatch(toggleIndicator(k))}
-                      onClick={(e) => e.stopPropagation()}
-                    />
-                    <MuiTooltip title={tooltip}>
-                      <span>{label}</span>
-                    </MuiTooltip>
-                  </MenuItem>
-                );
-              })}
+            <MenuItem value="candlestick" onClick={() => dispatch(toggleCandlestick())}>
+              <Checkbox checked={chartConfig.candlestick} />
+              <MuiTooltip title="Candlestick chart showing open, high, low, and close prices.">
+                <span>Candlesticks</span>
+              </MuiTooltip>
+            </MenuItem>
+            {chartConfig.indicators.map((instance) => (
+              <MenuItem key={instance.id} value={instance.id} onClick={() => dispatch(toggleIndicator(instance.id))}>
+                <Checkbox checked={instance.enabled} />
+                <span>{describeIndicator(instance)}</span>
+              </MenuItem>
+            ))}
+            <MenuItem onClick={() => setIndicatorsOpen(true)}>
+              <em>Add or edit indicators...</em>
+            </MenuItem>
           </Select>
         </FormControl>
 
@@ -325,12 +466,30 @@ export const PriceChart: React.FC<PriceChartProps> = ({ assets, onAssetChange })
           <IconButton onClick={() => setIsFullscreen(!isFullscreen)} title="Fullscreen">
             {isFullscreen ? <FullscreenExit /> : <Fullscreen />}
           </IconButton>
+          <IconButton onClick={() => setIndicatorsOpen(true)} title="Indicators">
+            <Tune />
+          </IconButton>
         </Stack>
       </Box>
 
+      <Dialog open={indicatorsOpen} onClose={() => setIndicatorsOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>Indicators</DialogTitle>
+        <DialogContent>
+          <Box sx={{ pt: 1 }}>
+            <IndicatorListEditor
+              indicators={chartConfig.indicators}
+              onChange={(indicators) => dispatch(setIndicators(indicators))}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setIndicatorsOpen(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
       <Box
         sx={{
-          height: isFullscreen ? '90vh' : 400,
+          height: isFullscreen ? (lowerIndicators.length > 0 ? '65vh' : '90vh') : 400,
           width: '100%',
           position: 'relative',
           overflow: 'hidden',
@@ -338,101 +497,71 @@ export const PriceChart: React.FC<PriceChartProps> = ({ assets, onAssetChange })
         }}
       >
         <ResponsiveContainer width="100%" height="100%">
-          {chartConfig.candlestick.enabled ? (
-            <ComposedChart
-              ref={chartRef}
-              data={chartData}
-              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-              onMouseMove={(e) => {
-                const point = e.activePayload?.[0];
-                if (point) {
-                  // No action needed
-                }
-              }}
-              onMouseLeave={() => {
-                // No action needed
-              }}
-            >
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis
-                dataKey="timestamp"
-                tickFormatter={formatTimestamp}
-                angle={-45}
-                textAnchor="end"
-                type="number"
-                domain={xAxisDomain}
-              />
-              <YAxis />
-              <Tooltip content={<CustomTooltip />} />
-              <Legend />
-              <Brush
-                dataKey="timestamp"
-                height={30}
-                stroke="#8884d8"
-                onChange={handleBrushDomainChange}
-                onEnded={handleBrushDomainChange}
-              />
-              {/* Candlestick bars */}
+          <ComposedChart
+            ref={chartRef}
+            data={chartData}
+            syncId="price-chart"
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="timestamp"
+              tickFormatter={formatTimestamp}
+              angle={-45}
+              textAnchor="end"
+              type="number"
+              domain={xAxisDomain}
+            />
+            <YAxis domain={['auto', 'auto']} />
+            <Tooltip content={<CustomTooltip quote={quote} />} />
+            <Legend />
+            <Brush
+              dataKey="timestamp"
+              height={30}
+              stroke="#8884d8"
+              onChange={handleBrushDomainChange}
+              onEnded={handleBrushDomainChange}
+            />
+            {chartConfig.candlestick ? (
+              // Candlestick bars: the bar spans low..high, the body is drawn from open/close
               <Bar
-                dataKey="close"
+                dataKey={(d: ChartData) => [d.low, d.high]}
                 name="Candlestick"
-                // Removed fill="#2196f3" to avoid blue color
                 shape={(props: any) => {
                   const { x, y, width, height, payload } = props;
-                  const open = payload.open;
-                  const close = payload.close;
-                  const high = payload.high;
-                  const low = payload.low;
-                  const barX = x;
-                  const barWidth = width;
-                  const barY = y;
-                  const barHeight = height;
-
-                  const candleColor = close > open ? '#4caf50' : '#f44336';
-                  const candleHeight = Math.abs(y - barY);
+                  const { open, close, high, low } = payload as ChartData;
+                  const range = high - low || 1;
+                  const toY = (value: number) => y + ((high - value) / range) * height;
+                  const bodyTop = toY(Math.max(open, close));
+                  const bodyHeight = Math.max(toY(Math.min(open, close)) - bodyTop, 1);
+
+                  const candleColor = close >= open ? '#4caf50' : '#f44336';
 
                   // Draw candlestick body and wick using SVG elements
                   return (
                     <g>
                       {/* Wick */}
                       <line
-                        x1={barX + barWidth / 2}
+                        x1={x + width / 2}
                         y1={y}
-                        x2={barX + barWidth / 2}
-                        y2={y + barHeight}
+                        x2={x + width / 2}
+                        y2={y + height}
                         stroke={candleColor}
                         strokeWidth={1}
                       />
                       {/* Body */}
                       <rect
-                        x={barX}
-                        y={close > open ? y : y + candleHeight}
-                        width={barWidth}
-                        height={candleHeight}
+                        x={x}
+                        y={bodyTop}
+                        width={width}
+                        height={bodyHeight}
                         fill={candleColor}
                       />
                     </g>
                   );
                 }}
               />
-            </ComposedChart>
-          ) : (
-            <LineChart
-              ref={chartRef}
-              data={chartData}
-              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-              onMouseMove={(e) => {
-                const point = e.activePayload?.[0];
-                if (point) {
-                  // No action needed
-                }
-              }}
-              onMouseLeave={() => {
-                // No action needed
-              }}
-            >
-              <CartesianGrid strokeDasharray="3 3" />
-
+            ) : (
               <Line
                 type="monotone"
                 dataKey="price"
@@ -442,217 +571,33 @@ export const PriceChart: React.FC<PriceChartProps> = ({ assets, onAssetChange })
                 animationDuration={500}
                 animationEasing="ease-out"
               />
-
-              {chartConfig.rsi.enabled && (
-                <Line
-                  type="monotone"
-                  dataKey="rsi"
-                  name="RSI"
-                  stroke="#f44336"
-                  strokeWidth={highlightedLineKey === 'rsi' ? 3 : 1}
-                  strokeDasharray="5 5"
-                  dot={<CustomDot dataKey="rsi" />}
-                  animationDuration={500}
-                  animationEasing="ease-out"
-                />
-              )}
-
-              {chartConfig.macd.enabled && (
-                <>
-                  <Line
-                    type="monotone"
-                    dataKey="macd"
-                    name="MACD"
-                    stroke="#8B4513" // changed to brown
-                    strokeWidth={highlightedLineKey === 'macd' ? 3 : 1}
-                    strokeDasharray="5 2"
-                    dot={<CustomDot dataKey="macd" />}
-                    animationDuration={500}
-                    animationEasing="ease-out"
-                  />
-                  <Line
-                    type="monotone"
-                    dataKey="macdSignal"
-                    name="MACD Signal"
-                    stroke="#9c27b0" // purple
-                    strokeWidth={highlightedLineKey === 'macdSignal' ? 3 : 1}
-                    strokeDasharray="2 2"
-                    dot={<CustomDot dataKey="macdSignal" />}
-                    animationDuration={500}
-                    animationEasing="ease-out"
-                  />
-                  <Area
-                    type="monotone"
-                    dataKey="macdHistogram"
-                    name="MACD Histogram"
-                    fill="#ff9800"
-                    fillOpacity={0.3}
-                    stroke="none"
-                  />
-                </>
-              )}
-
-              {chartConfig.bollingerBands.enabled && (
-                <>
-                  <Line
-                    type="monotone"
-                    dataKey="upperBand"
-                    name="Upper Band"
-                    stroke="#ff9800"
-                    strokeWidth={highlightedLineKey === 'upperBand' ? 3 : 1}
-                    strokeDasharray="3 3"
-                    dot={<CustomDot dataKey="upperBand" />}
-                    animationDuration={500}
-                    animationEasing="ease-out"
-                  />
-                  <Line
-                    type="monotone"
-                    dataKey="lowerBand"
-                    name="Lower Band"
-                    stroke="#ff9800"
-                    strokeWidth={highlightedLineKey === 'lowerBand' ? 3 : 1}
-                    strokeDasharray="3 3"
-                    dot={<CustomDot dataKey="lowerBand" />}
-                    animationDuration={500}
-                    animationEasing="ease-out"
-                  />
-                </>
-              )}
-
-              {chartConfig.adx.enabled && (
-                <Line
-                  type="monotone"
-                  dataKey="adx"
-                  name="ADX"
-                  stroke={chartConfig.adx.color}
-                  strokeWidth={highlightedLineKey === 'adx' ? 3 : chartConfig.adx.lineWidth}
-                  strokeDasharray="4 2"
-                  dot={<CustomDot dataKey="adx" />}
-                  animationDuration={500}
-                  animationEasing="ease-out"
-                />
-              )}
-
-              {chartConfig.obv.enabled && (
-                <Line
-                  type="monotone"
-                  dataKey="obv"
-                  name="OBV"
-                  stroke={chartConfig.obv.color}
-                  strokeWidth={highlightedLineKey === 'obv' ? 3 : chartConfig.obv.lineWidth}
-                  strokeDasharray="2 4"
-                  dot={<CustomDot dataKey="obv" />}
-                  animationDuration={500}
-                  animationEasing="ease-out"
-                />
-              )}
-
-              {chartConfig.vwap.enabled && (
-                <Line
-                  type="monotone"
-                  dataKey="vwap"
-                  name="VWAP"
-                  stroke={chartConfig.vwap.color}
-                  strokeWidth={highlightedLineKey === 'vwap' ? 3 : chartConfig.vwap.lineWidth}
-                  strokeDasharray="6 3"
-                  dot={<CustomDot dataKey="vwap" />}
-                  animationDuration={500}
-                  animationEasing="ease-out"
-                />
-              )}
-
-              {chartConfig.atr.enabled && (
-                <Line
-                  type="monotone"
-                  dataKey="atr"
-                  name="ATR"
-                  stroke={chartConfig.atr.color}
-                  strokeWidth={highlightedLineKey === 'atr' ? 3 : chartConfig.atr.lineWidth}
-                  strokeDasharray="1 3"
-                  dot={<CustomDot dataKey="atr" />}
-                  animationDuration={500}
-                  animationEasing="ease-out"
-                />
-              )}
-
-              {chartConfig.cci.enabled && (
-                <Line
-                  type="monotone"
-                  dataKey="cci"
-                  name="CCI"
-                  stroke={chartConfig.cci.color}
-                  strokeWidth={highlightedLineKey === 'cci' ? 3 : chartConfig.cci.lineWidth}
-                  strokeDasharray="4 4"
-                  dot={<CustomDot dataKey="cci" />}
-                  animationDuration={500}
-                  animationEasing="ease-out"
-                />
-              )}
-
-              {chartConfig.stoch.enabled && (
-                <Line
-                  type="monotone"
-                  dataKey="stoch"
-                  name="Stochastic Oscillator"
-                  stroke={chartConfig.stoch.color}
-                  strokeWidth={highlightedLineKey === 'stoch' ? 3 : chartConfig.stoch.lineWidth}
-                  strokeDasharray="3 1 1 1"
-                  dot={<CustomDot dataKey="stoch" />}
-                  animationDuration={500}
-                  animationEasing="ease-out"
-                />
-              )}
-
-              {chartConfig.roc.enabled && (
-                <Line
-                  type="monotone"
-                  dataKey="roc"
-                  name="ROC"
-                  stroke={chartConfig.roc.color}
-                  strokeWidth={highlightedLineKey === 'roc' ? 3 : chartConfig.roc.lineWidth}
-                  strokeDasharray="5 1"
-                  dot={<CustomDot dataKey="roc" />}
-                  animationDuration={500}
-                  animationEasing="ease-out"
-                />
-              )}
-
-              {chartConfig.mfi.enabled && (
-                <Line
-                  type="monotone"
-                  dataKey="mfi"
-                  name="MFI"
-                  stroke={chartConfig.mfi.color}
-                  strokeWidth={highlightedLineKey === 'mfi' ? 3 : chartConfig.mfi.lineWidth}
-                  strokeDasharray="2 2 6 2"
-                  dot={<CustomDot dataKey="mfi" />}
-                  animationDuration={500}
-                  animationEasing="ease-out"
-                />
-              )}
-
-              <XAxis
-                dataKey="timestamp"
-                tickFormatter={formatTimestamp}
-                angle={-45}
-                textAnchor="end"
-                type="number"
-                domain={xAxisDomain}
-              />
-              <YAxis />
-              <Tooltip content={<CustomTooltip />} />
-              <Legend />
-              <Brush
-                dataKey="timestamp"
-                height={30}
-                stroke="#8884d8"
-                onChange={handleBrushDomainChange}
-                onEnded={handleBrushDomainChange}
-              />
-            </LineChart>
-          )}
+            )}
+            {priceIndicators.map((instance) => renderIndicator(instance))}
+          </ComposedChart>
         </ResponsiveContainer>
       </Box>
+
+      {lowerIndicators.length > 0 && (
+        <Box sx={{ height: isFullscreen ? '25vh' : 160, width: '100%', mt: 1 }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart
+              data={chartData}
+              syncId="price-chart"
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="timestamp" type="number" domain={xAxisDomain} hide />
+              {/* Each oscillator gets its own scale, so OBV doesn't flatten RSI */}
+              {lowerIndicators.map(({ id }) => (
+                <YAxis key={id} yAxisId={id} hide domain={['auto', 'auto']} />
+              ))}
+              <Tooltip labelFormatter={(timestamp) => formatTimestamp(Number(timestamp))} />
+              <Legend />
+              {lowerIndicators.map((instance) => renderIndicator(instance, instance.id))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </Box>
+      )}
     </Box>
   );
 };
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Box, ButtonGroup, Button, Typography } from '@mui/material';
+import { useAppDispatch, useAppSelector } from '../app/hooks';
+import { selectQuoteCurrency, setQuoteCurrency } from '../features/marketData/marketDataSlice';
+import { QuoteCurrency } from '../types/marketData';
+import { QUOTE_CURRENCIES } from '../utils/formatters';
+
+export const QuoteCurrencySelector: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const currentQuote = useAppSelector(selectQuoteCurrency);
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Quote Currency
+      </Typography>
+      <ButtonGroup variant="outlined" size="small">
+        {(Object.keys(QUOTE_CURRENCIES) as QuoteCurrency[]).map((quote) => (
+          <Button
+            key={quote}
+            onClick={() => dispatch(setQuoteCurrency(quote))}
+            variant={currentQuote === quote ? 'contained' : 'outlined'}
+          >
+            {QUOTE_CURRENCIES[quote].label}
+          </Button>
+        ))}
+      </ButtonGroup>
+    </Box>
+  );
+};
+
+export default QuoteCurrencySelector;
@@ -1,11 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   Box,
   Typography,
   Card,
   CardContent,
   CardHeader,
-  Divider,
   Stack,
   Chip,
   Button,
@@ -14,45 +13,46 @@ import {
   DialogContent,
   DialogActions,
   TextField,
-  Slider,
   Alert,
   IconButton,
-  Tooltip as MuiTooltip,
-  CircularProgress,
 } from '@mui/material';
 import {
-  TrendingUp,
-  TrendingDown,
-  TrendingFlat,
-  Warning,
-  Error,
-  CheckCircle,
-  Info,
-  Add,
-  Remove,
-  Delete,
   Edit,
-  SwapHoriz,
-  AutoAwesome,
   TrendingUpOutlined,
   TrendingDownOutlined,
   TrendingFlatOutlined,
-  WarningOutlined,
-  ErrorOutlined,
-  CheckCircleOutlined,
-  InfoOutlined,
 } from '@mui/icons-material';
-import { useInterval } from 'usehooks-ts';
+import { useQuoteFormatter } from '../app/hooks';
+import { PositionLimits, RiskLevel } from '../features/risk/riskSlice';
+
+// A held position as the risk manager sees it; prices in US dollars
+export interface RiskPortfolioAsset {
+  id: string;
+  name: string;
+  symbol: string;
+  quantity: number; // negative when short
+  currentPrice: number;
+  averagePrice: number;
+}
 
 interface RiskManagerProps {
-  portfolio: any[];
-  onSetStopLoss: (asset: any, price: number) => void;
-  onSetTakeProfit: (asset: any, price: number) => void;
-  onSetPositionSize: (asset: any, size: number) => void;
-  onSetRiskLevel: (level: string) => void;
+  portfolio: RiskPortfolioAsset[];
+  riskLevel: RiskLevel;
+  limits: Record<string, PositionLimits>; // by asset id
+  onSetStopLoss: (asset: RiskPortfolioAsset, price: number) => void;
+  onSetTakeProfit: (asset: RiskPortfolioAsset, price: number) => void;
+  onSetPositionSize: (asset: RiskPortfolioAsset, size: number) => void;
+  onSetRiskLevel: (level: RiskLevel) => void;
 }
 
-const RISK_LEVELS = {
+export const RISK_LEVELS: Record<RiskLevel, {
+  color: string;
+  icon: React.ReactElement;
+  description: string;
+  positionSize: number;
+  stopLoss: number;
+  takeProfit: number;
+}> = {
   'AGGRESSIVE': {
     color: '#f44336',
     icon: <TrendingUpOutlined sx={{ mr: 1 }} />,
@@ -80,67 +80,61 @@ const RISK_LEVELS = {
 };
 
 interface PositionRisk {
-  asset: any;
-  positionSize: number;
+  asset: RiskPortfolioAsset;
+  positionValue: number;
+  maxPositionSize: number; // units
   stopLoss: number;
   takeProfit: number;
   riskRewardRatio: number;
   maxLoss: number;
   maxGain: number;
-  riskLevel: string;
+  customized: boolean; // has limits set by hand
 }
 
 const RiskManager: React.FC<RiskManagerProps> = ({
   portfolio,
+  riskLevel,
+  limits,
   onSetStopLoss,
   onSetTakeProfit,
   onSetPositionSize,
   onSetRiskLevel,
 }) => {
-  const [positions, setPositions] = useState<PositionRisk[]>([]);
-  const [loading, setLoading] = useState(true);
   const [showRiskDialog, setShowRiskDialog] = useState(false);
-  const [selectedPosition, setSelectedPosition] = useState<any>(null);
-  const [riskLevel, setRiskLevel] = useState<string>('MODERATE');
-  const [positionSize, setPositionSize] = useState(0);
-  const [stopLoss, setStopLoss] = useState(0);
-  const [takeProfit, setTakeProfit] = useState(0);
+  const [selectedPosition, setSelectedPosition] = useState<PositionRisk | null>(null);
+  const [positionSize, setPositionSize] = useState('');
+  const [stopLoss, setStopLoss] = useState('');
+  const [takeProfit, setTakeProfit] = useState('');
+  const { priceFromUsd, moneyFromUsd } = useQuoteFormatter();
 
-  // Calculate position risks
-  useEffect(() => {
-    const calculatePositionRisks = () => {
-      return portfolio.map(asset => {
-        const positionSize = asset.quantity * asset.currentPrice;
-        const stopLoss = asset.averagePrice * (1 - RISK_LEVELS[riskLevel].stopLoss);
-        const takeProfit = asset.averagePrice * (1 + RISK_LEVELS[riskLevel].takeProfit);
-        const riskRewardRatio = (takeProfit - asset.averagePrice) / (asset.averagePrice - stopLoss);
-        const maxLoss = (asset.averagePrice - stopLoss) * asset.quantity;
-        const maxGain = (takeProfit - asset.averagePrice) * asset.quantity;
+  // Calculate position risks: limits set by hand win, the risk level fills in the rest
+  const positions = useMemo<PositionRisk[]>(() => {
+    const level = RISK_LEVELS[riskLevel];
+    const portfolioValue = portfolio.reduce((sum, asset) => sum + Math.abs(asset.quantity * asset.currentPrice), 0);
 
-        return {
-          asset,
-          positionSize,
-          stopLoss,
-          takeProfit,
-          riskRewardRatio,
-          maxLoss,
-          maxGain,
-          riskLevel,
-        };
-      });
-    };
+    return portfolio.map(asset => {
+      const assetLimits = limits[asset.id];
+      // Shorts lose when the price rises, so their stop sits above entry
+      const direction = asset.quantity < 0 ? -1 : 1;
+      const quantity = Math.abs(asset.quantity);
+      const stopLoss = assetLimits?.stopLoss ?? asset.averagePrice * (1 - direction * level.stopLoss);
+      const takeProfit = assetLimits?.takeProfit ?? asset.averagePrice * (1 + direction * level.takeProfit);
+      const maxLoss = Math.abs(asset.averagePrice - stopLoss) * quantity;
+      const maxGain = Math.abs(takeProfit - asset.averagePrice) * quantity;
 
-    setPositions(calculatePositionRisks());
-    setLoading(false);
-  }, [portfolio, riskLevel]);
-
-  // Format number with commas
-  const formatNumber = (num: number) => {
-    return new Intl.NumberFormat('en-US', {
-      notation: 'compact',
-      maximumFractionDigits: 2,
-    }).format(num);
-  };
+      return {
+        asset,
+        positionValue: quantity * asset.currentPrice,
+        maxPositionSize: assetLimits?.positionSize ?? (portfolioValue * level.positionSize) / asset.currentPrice,
+        stopLoss,
+        takeProfit,
+        riskRewardRatio: maxLoss > 0 ? maxGain / maxLoss : Infinity,
+        maxLoss,
+        maxGain,
+        customized: assetLimits !== undefined,
+      };
+    });
+  }, [portfolio, riskLevel, limits]);
 
   // Format percentage
   const formatPercentage = (num: number) => {
@@ -151,50 +145,29 @@ const RiskManager: React.FC<RiskManagerProps> = ({
     }).format(num);
   };
 
-  // Handle risk level change
-  const handleRiskLevelChange = (newLevel: string) => {
-    setRiskLevel(newLevel);
-    onSetRiskLevel(newLevel);
+  const openRiskDialog = (position: PositionRisk) => {
+    setSelectedPosition(position);
+    setPositionSize(String(position.maxPositionSize));
+    setStopLoss(String(position.stopLoss));
+    setTakeProfit(String(position.takeProfit));
+    setShowRiskDialog(true);
   };
 
-  // Handle position size change
-  const handlePositionSizeChange = (asset: any, newSize: number) => {
-    onSetPositionSize(asset, newSize);
-    setPositions(prev => prev.map(p =>
-      p.asset.id === asset.id ? {
-        ...p,
-        positionSize: newSize * asset.currentPrice,
-        maxLoss: (asset.averagePrice - p.stopLoss) * newSize,
-        maxGain: (p.takeProfit - asset.averagePrice) * newSize,
-      } : p
-    ));
+  // Only report the limits that were actually changed
+  const handleSave = () => {
+    if (selectedPosition) {
+      const { asset } = selectedPosition;
+      const newSize = parseFloat(positionSize);
+      const newStopLoss = parseFloat(stopLoss);
+      const newTakeProfit = parseFloat(takeProfit);
+      if (newSize > 0 && newSize !== selectedPosition.maxPositionSize) onSetPositionSize(asset, newSize);
+      if (newStopLoss > 0 && newStopLoss !== selectedPosition.stopLoss) onSetStopLoss(asset, newStopLoss);
+      if (newTakeProfit > 0 && newTakeProfit !== selectedPosition.takeProfit) onSetTakeProfit(asset, newTakeProfit);
+    }
+    setShowRiskDialog(false);
   };
 
-  // Handle stop loss change
-  const handleStopLossChange = (asset: any, newStopLoss: number) => {
-    onSetStopLoss(asset, newStopLoss);
-    setPositions(prev => prev.map(p =>
-      p.asset.id === asset.id ? {
-        ...p,
-        stopLoss: newStopLoss,
-        maxLoss: (asset.averagePrice - newStopLoss) * asset.quantity,
-        riskRewardRatio: (p.takeProfit - asset.averagePrice) / (asset.averagePrice - newStopLoss),
-      } : p
-    ));
-  };
-
-  // Handle take profit change
-  const handleTakeProfitChange = (asset: any, newTakeProfit: number) => {
-    onSetTakeProfit(asset, newTakeProfit);
-    setPositions(prev => prev.map(p =>
-      p.asset.id === asset.id ? {
-        ...p,
-        takeProfit: newTakeProfit,
-        maxGain: (newTakeProfit - asset.averagePrice) * asset.quantity,
-        riskRewardRatio: (newTakeProfit - asset.averagePrice) / (asset.averagePrice - p.stopLoss),
-      } : p
-    ));
-  };
+  const isShort = (selectedPosition?.asset.quantity ?? 0) < 0;
 
   return (
     <Box sx={{ p: 2 }}>
@@ -206,22 +179,22 @@ const RiskManager: React.FC<RiskManagerProps> = ({
         />
         <CardContent>
           <Stack spacing={2}>
-            {Object.entries(RISK_LEVELS).map(([level, config]) => (
+            {(Object.keys(RISK_LEVELS) as RiskLevel[]).map((level) => (
               <Button
                 key={level}
                 fullWidth
                 variant={riskLevel === level ? 'contained' : 'outlined'}
-                color={riskLevel === level ? 'primary' : 'default'}
-                startIcon={config.icon}
-                onClick={() => handleRiskLevelChange(level)}
+                color="primary"
+                startIcon={RISK_LEVELS[level].icon}
+                onClick={() => onSetRiskLevel(level)}
               >
                 <Stack direction="row" spacing={1} alignItems="center">
                   <Typography variant="body2">
                     {level.replace('_', ' ')}
                   </Typography>
                   <Chip
-                    label={formatPercentage(config.positionSize)}
-                    color={config.color}
+                    label={formatPercentage(RISK_LEVELS[level].positionSize)}
+                    sx={{ bgcolor: RISK_LEVELS[level].color, color: 'black' }}
                     size="small"
                   />
                 </Stack>
@@ -241,41 +214,33 @@ const RiskManager: React.FC<RiskManagerProps> = ({
           subheader="Real-time risk assessment of your positions"
         />
         <CardContent>
-          {loading ? (
-            <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: 200 }}>
-              <CircularProgress />
-            </Box>
-          ) : positions.length === 0 ? (
+          {positions.length === 0 ? (
             <Typography variant="body2" color="text.secondary">
               No positions in portfolio
             </Typography>
           ) : (
             <Stack spacing={2}>
-              {positions.map((position, index) => (
-                <Card key={index} sx={{ mb: 2 }}>
+              {positions.map((position) => (
+                <Card key={position.asset.id} sx={{ mb: 2 }}>
                   <CardHeader
                     title={
                       <Stack direction="row" spacing={1} alignItems="center">
                         <Typography variant="body2">
-                          {position.asset.name} ({position.asset.symbol})
+                          {position.asset.name} ({position.asset.symbol.toUpperCase()})
                         </Typography>
                         <Chip
-                          label={formatNumber(position.positionSize)}
-                          color={RISK_LEVELS[riskLevel].color}
+                          label={moneyFromUsd(position.positionValue, true)}
+                          sx={{ bgcolor: RISK_LEVELS[riskLevel].color, color: 'black' }}
                           size="small"
                         />
+                        {position.customized && <Chip label="Custom limits" size="small" variant="outlined" />}
+                        {Math.abs(position.asset.quantity) > position.maxPositionSize && (
+                          <Chip label="Over size limit" color="warning" size="small" />
+                        )}
                       </Stack>
                     }
                     action={
-                      <IconButton
-                        onClick={() => {
-                          setSelectedPosition(position);
-                          setPositionSize(position.positionSize);
-                          setStopLoss(position.stopLoss);
-                          setTakeProfit(position.takeProfit);
-                          setShowRiskDialog(true);
-                        }}
-                      >
+                      <IconButton onClick={() => openRiskDialog(position)}>
                         <Edit />
                       </IconButton>
                     }
@@ -284,7 +249,7 @@ const RiskManager: React.FC<RiskManagerProps> = ({
                     <Stack spacing={1}>
                       <Stack direction="row" justifyContent="space-between" alignItems="center">
                         <Typography variant="body2">
-                          Current Price: ${position.asset.currentPrice.toFixed(2)}
+                          Current Price: {priceFromUsd(position.asset.currentPrice)}
                         </Typography>
                         <Chip
                           label={`RR: ${position.riskRewardRatio.toFixed(1)}`}
@@ -294,24 +259,27 @@ const RiskManager: React.FC<RiskManagerProps> = ({
                       </Stack>
                       <Stack direction="row" justifyContent="space-between" alignItems="center">
                         <Typography variant="body2">
-                          Stop Loss: ${position.stopLoss.toFixed(2)}
+                          Stop Loss: {priceFromUsd(position.stopLoss)}
                         </Typography>
                         <Chip
-                          label={`Max Loss: $${formatNumber(position.maxLoss)}`}
+                          label={`Max Loss: ${moneyFromUsd(position.maxLoss, true)}`}
                           color="error"
                           size="small"
                         />
                       </Stack>
                       <Stack direction="row" justifyContent="space-between" alignItems="center">
                         <Typography variant="body2">
-                          Take Profit: ${position.takeProfit.toFixed(2)}
+                          Take Profit: {priceFromUsd(position.takeProfit)}
                         </Typography>
                         <Chip
-                          label={`Max Gain: $${formatNumber(position.maxGain)}`}
+                          label={`Max Gain: ${moneyFromUsd(position.maxGain, true)}`}
                           color="success"
                           size="small"
                         />
                       </Stack>
+                      <Typography variant="body2">
+                        Size: {Math.abs(position.asset.quantity)} of max {position.maxPositionSize.toPrecision(4)}
+                      </Typography>
                     </Stack>
                   </CardContent>
                 </Card>
@@ -333,15 +301,14 @@ const RiskManager: React.FC<RiskManagerProps> = ({
             </Typography>
             <Stack spacing={2}>
               <TextField
-                label="Current Position Size"
+                label={`Maximum Position Size (${selectedPosition?.asset.symbol.toUpperCase()})`}
                 value={positionSize}
-                onChange={(e) => setPositionSize(parseFloat(e.target.value) || 0)}
+                onChange={(e) => setPositionSize(e.target.value)}
                 type="number"
                 fullWidth
-                disabled
               />
               <Alert severity="info">
-                Position size is automatically calculated based on your risk level and portfolio value.
+                Defaults to {formatPercentage(RISK_LEVELS[riskLevel].positionSize)} of your portfolio. Once saved, orders that would take the position past this size are rejected.
               </Alert>
             </Stack>
 
@@ -350,14 +317,14 @@ const RiskManager: React.FC<RiskManagerProps> = ({
             </Typography>
             <Stack spacing={2}>
               <TextField
-                label="Stop Loss Price"
+                label="Stop Loss Price (USD)"
                 value={stopLoss}
-                onChange={(e) => handleStopLossChange(selectedPosition?.asset, parseFloat(e.target.value) || 0)}
+                onChange={(e) => setStopLoss(e.target.value)}
                 type="number"
                 fullWidth
               />
               <Alert severity="warning">
-                Stop loss will be triggered when price falls below this level.
+                Stop loss will be triggered when price {isShort ? 'rises above' : 'falls below'} this level.
               </Alert>
             </Stack>
 
@@ -366,9 +333,9 @@ const RiskManager: React.FC<RiskManagerProps> = ({
             </Typography>
             <Stack spacing={2}>
               <TextField
-                label="Take Profit Price"
+                label="Take Profit Price (USD)"
                 value={takeProfit}
-                onChange={(e) => handleTakeProfitChange(selectedPosition?.asset, parseFloat(e.target.value) || 0)}
+                onChange={(e) => setTakeProfit(e.target.value)}
                 type="number"
                 fullWidth
               />
@@ -377,31 +344,35 @@ const RiskManager: React.FC<RiskManagerProps> = ({
               </Alert>
             </Stack>
 
-            <Typography variant="h6">
-              Risk Assessment
-            </Typography>
-            <Stack spacing={1}>
-              <Chip
-                label={`Risk/Reward Ratio: ${selectedPosition?.riskRewardRatio?.toFixed(1)}`}
-                color={selectedPosition?.riskRewardRatio >= 2 ? 'success' : selectedPosition?.riskRewardRatio >= 1 ? 'warning' : 'error'}
-                size="small"
-              />
-              <Chip
-                label={`Max Loss: $${formatNumber(selectedPosition?.maxLoss)}`}
-                color="error"
-                size="small"
-              />
-              <Chip
-                label={`Max Gain: $${formatNumber(selectedPosition?.maxGain)}`}
-                color="success"
-                size="small"
-              />
-            </Stack>
+            {selectedPosition && (
+              <>
+                <Typography variant="h6">
+                  Risk Assessment
+                </Typography>
+                <Stack spacing={1}>
+                  <Chip
+                    label={`Risk/Reward Ratio: ${selectedPosition.riskRewardRatio.toFixed(1)}`}
+                    color={selectedPosition.riskRewardRatio >= 2 ? 'success' : selectedPosition.riskRewardRatio >= 1 ? 'warning' : 'error'}
+                    size="small"
+                  />
+                  <Chip
+                    label={`Max Loss: ${moneyFromUsd(selectedPosition.maxLoss, true)}`}
+                    color="error"
+                    size="small"
+                  />
+                  <Chip
+                    label={`Max Gain: ${moneyFromUsd(selectedPosition.maxGain, true)}`}
+                    color="success"
+                    size="small"
+                  />
+                </Stack>
+              </>
+            )}
           </Stack>
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setShowRiskDialog(false)}>Cancel</Button>
-          <Button onClick={() => setShowRiskDialog(false)} color="primary" variant="contained">
+          <Button onClick={handleSave} color="primary" variant="contained">
             Save Changes
           </Button>
         </DialogActions>
@@ -410,4 +381,4 @@ const RiskManager: React.FC<RiskManagerProps> = ({
   );
 };
 
-export default RiskManager;
\ No newline at end of file
+export default RiskManager;
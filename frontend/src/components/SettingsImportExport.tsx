@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Stack,
+} from '@mui/material';
+import { useAppDispatch, useAppSelector } from '../app/hooks';
+import {
+  parseSettings,
+  selectSettings,
+  settingsImported,
+  settingsReset,
+  toSettingsFile,
+} from '../features/settings/settingsSlice';
+
+// Save settings to a JSON file, load them back (migrating older files), or
+// start over from the defaults
+export const SettingsImportExport: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const settings = useAppSelector(selectSettings);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(toSettingsFile(settings), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `trading-bot-settings-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const { settings: imported, invalid } = parseSettings(JSON.parse(await file.text()));
+      dispatch(settingsImported(imported));
+      if (invalid.length > 0) {
+        setMessage({
+          severity: 'error',
+          text: `Imported ${file.name}, but reset invalid values to their defaults: ${invalid.join(', ')}`,
+        });
+      } else {
+        setMessage({ severity: 'success', text: `Imported settings from ${file.name}` });
+      }
+    } catch (error) {
+      console.error('Error importing settings:', error);
+      setMessage({ severity: 'error', text: `Couldn't import ${file.name}: ${(error as Error).message}` });
+    }
+  };
+
+  const handleReset = () => {
+    dispatch(settingsReset());
+    setConfirmReset(false);
+    setMessage({ severity: 'success', text: 'Settings reset to defaults' });
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardHeader title="Import and export" subheader="Some settings take effect the next time the app starts" />
+      <CardContent>
+        <Stack spacing={2}>
+          <Stack direction="row" spacing={1}>
+            <Button variant="contained" onClick={handleExport}>
+              Export
+            </Button>
+            <Button variant="outlined" onClick={() => fileInput.current?.click()}>
+              Import
+            </Button>
+            <Button color="error" onClick={() => setConfirmReset(true)}>
+              Reset to defaults
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </Stack>
+          {message && <Alert severity={message.severity}>{message.text}</Alert>}
+        </Stack>
+      </CardContent>
+
+      <Dialog open={confirmReset} onClose={() => setConfirmReset(false)}>
+        <DialogTitle>Reset settings?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Every setting on this page goes back to its default. Export first to keep a copy.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmReset(false)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleReset}>
+            Reset
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default SettingsImportExport;
@@ -0,0 +1,450 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Tab,
+  Tabs,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add, Delete } from '@mui/icons-material';
+import { IndicatorParams, IndicatorType } from '../types/chart';
+import { RiskRules, TradeSide } from '../types/backtest';
+import {
+  PriceField,
+  RuleComparison,
+  RuleCondition,
+  RuleOperand,
+  StrategyRules,
+} from '../types/strategyRules';
+import { INDICATOR_LABELS, INDICATOR_TYPES } from '../utils/indicatorInstances';
+import { DEFAULT_INDICATOR_PARAMS } from '../utils/technicalIndicators';
+import { PRICE_FIELDS, RULE_COMPARISONS, indicatorOutputs, validateStrategyRules } from '../utils/strategyRules';
+import { IndicatorParamsFields } from './IndicatorParamsFields';
+
+type Comparison = Extract<RuleCondition, { op: RuleComparison }>;
+type Combinator = 'all' | 'any';
+type RiskMode = 'none' | 'percent' | 'atr';
+
+// A condition the visual editor can show: comparisons joined by one `all` or
+// `any`. Anything nested deeper is left to the JSON tab.
+const toRows = (condition: RuleCondition | undefined): { mode: Combinator; rows: Comparison[] } | undefined => {
+  if (!condition) return { mode: 'all', rows: [] };
+  if ('op' in condition) return { mode: 'all', rows: [condition] };
+  if ('not' in condition) return undefined;
+  const [mode, children] = 'all' in condition ? ['all' as const, condition.all] : ['any' as const, condition.any];
+  return children.every((child) => 'op' in child) ? { mode, rows: children as Comparison[] } : undefined;
+};
+
+const fromRows = (mode: Combinator, rows: Comparison[]) =>
+  (mode === 'all' ? { all: rows } : { any: rows });
+
+// Operands as select values: "value", "price:close" or "indicator:bands:lower"
+const operandKey = (operand: RuleOperand) => {
+  if ('value' in operand) return 'value';
+  if ('price' in operand) return `price:${operand.price}`;
+  return `indicator:${operand.indicator}:${operand.output ?? 'value'}`;
+};
+
+const operandFromKey = (key: string, current: RuleOperand): RuleOperand => {
+  const [kind, name, output] = key.split(':');
+  if (kind === 'price') return { price: name as PriceField };
+  if (kind === 'indicator') return output === 'value' ? { indicator: name } : { indicator: name, output };
+  return { value: 'value' in current ? current.value : 0 };
+};
+
+// A number field that keeps what's typed until it parses
+const NumberField: React.FC<{
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+  width?: number;
+}> = ({ label, value, onChange, step = 1, width = 100 }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft((current) => (parseFloat(current) === value ? current : String(value)));
+  }, [value]);
+
+  return (
+    <TextField
+      label={label}
+      type="number"
+      size="small"
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const parsed = parseFloat(e.target.value);
+        if (Number.isFinite(parsed)) {
+          onChange(parsed);
+        }
+      }}
+      inputProps={{ step }}
+      error={!Number.isFinite(parseFloat(draft))}
+      sx={{ width }}
+    />
+  );
+};
+
+const OperandPicker: React.FC<{
+  label: string;
+  operand: RuleOperand;
+  indicators: StrategyRules['indicators'];
+  onChange: (operand: RuleOperand) => void;
+}> = ({ label, operand, indicators, onChange }) => {
+  const options = [
+    { key: 'value', label: 'Number' },
+    ...PRICE_FIELDS.map((field) => ({ key: `price:${field}`, label: field })),
+    ...Object.entries(indicators).flatMap(([name, { type }]) =>
+      indicatorOutputs(type).map((output) => ({
+        key: `indicator:${name}:${output}`,
+        label: output === 'value' ? name : `${name}.${output}`,
+      }))
+    ),
+  ];
+  const key = operandKey(operand);
+  // A reference to an indicator that was removed or renamed stays selectable
+  // until it's changed, so the error under the editor makes sense
+  const known = options.some((option) => option.key === key);
+
+  return (
+    <Stack direction="row" spacing={1}>
+      <FormControl size="small" sx={{ minWidth: 140 }}>
+        <InputLabel>{label}</InputLabel>
+        <Select value={key} label={label} onChange={(e) => onChange(operandFromKey(e.target.value, operand))}>
+          {!known && <MenuItem value={key}>{key.split(':').slice(1).join('.')}</MenuItem>}
+          {options.map((option) => (
+            <MenuItem key={option.key} value={option.key}>{option.label}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      {'value' in operand && (
+        <NumberField label="Value" value={operand.value} step={0.1} onChange={(value) => onChange({ value })} />
+      )}
+    </Stack>
+  );
+};
+
+const ConditionEditor: React.FC<{
+  label: string;
+  condition: RuleCondition | undefined;
+  indicators: StrategyRules['indicators'];
+  onChange: (condition: RuleCondition | undefined) => void;
+  optional?: boolean; // no rows leaves the condition out
+}> = ({ label, condition, indicators, onChange, optional = false }) => {
+  const editable = toRows(condition);
+  if (!editable) {
+    return (
+      <Box>
+        <Typography variant="subtitle2">{label}</Typography>
+        <Alert severity="info">This condition is nested too deeply to edit here. Edit it in the JSON tab.</Alert>
+      </Box>
+    );
+  }
+
+  const { mode, rows } = editable;
+  const update = (nextMode: Combinator, nextRows: Comparison[]) =>
+    onChange(optional && nextRows.length === 0 ? undefined : fromRows(nextMode, nextRows));
+  const updateRow = (index: number, row: Comparison) =>
+    update(mode, rows.map((current, i) => (i === index ? row : current)));
+
+  return (
+    <Stack spacing={1}>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <Typography variant="subtitle2">{label} when</Typography>
+        <Select size="small" value={mode} onChange={(e) => update(e.target.value as Combinator, rows)}>
+          <MenuItem value="all">all of</MenuItem>
+          <MenuItem value="any">any of</MenuItem>
+        </Select>
+        <Typography variant="subtitle2">these are true</Typography>
+      </Stack>
+      {rows.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          {optional ? 'None: only the stop or target closes a trade.' : 'No conditions yet.'}
+        </Typography>
+      )}
+      {rows.map((row, index) => (
+        <Stack key={index} direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+          <OperandPicker
+            label="Left"
+            operand={row.left}
+            indicators={indicators}
+            onChange={(left) => updateRow(index, { ...row, left })}
+          />
+          <Select size="small" value={row.op} onChange={(e) => updateRow(index, { ...row, op: e.target.value as RuleComparison })}>
+            {Object.entries(RULE_COMPARISONS).map(([op, text]) => (
+              <MenuItem key={op} value={op}>{text}</MenuItem>
+            ))}
+          </Select>
+          <OperandPicker
+            label="Right"
+            operand={row.right}
+            indicators={indicators}
+            onChange={(right) => updateRow(index, { ...row, right })}
+          />
+          <Tooltip title="Remove">
+            <IconButton size="small" onClick={() => update(mode, rows.filter((_, i) => i !== index))}>
+              <Delete fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Stack>
+      ))}
+      <Box>
+        <Button
+          size="small"
+          startIcon={<Add />}
+          onClick={() => update(mode, [...rows, { left: { price: 'close' }, op: '>', right: { value: 0 } }])}
+        >
+          Add condition
+        </Button>
+      </Box>
+    </Stack>
+  );
+};
+
+// A stop or target as a percentage of the entry price or a multiple of the ATR
+const RiskLevelField: React.FC<{
+  label: string;
+  fraction: number | undefined;
+  atr: number | undefined;
+  onChange: (fraction: number | undefined, atr: number | undefined) => void;
+}> = ({ label, fraction, atr, onChange }) => {
+  const mode: RiskMode = atr !== undefined ? 'atr' : fraction !== undefined ? 'percent' : 'none';
+  return (
+    <Stack direction="row" spacing={1}>
+      <FormControl size="small" sx={{ minWidth: 140 }}>
+        <InputLabel>{label}</InputLabel>
+        <Select
+          value={mode}
+          label={label}
+          onChange={(e) => {
+            const next = e.target.value as RiskMode;
+            onChange(next === 'percent' ? 0.02 : undefined, next === 'atr' ? 2 : undefined);
+          }}
+        >
+          <MenuItem value="none">None</MenuItem>
+          <MenuItem value="percent">% of entry</MenuItem>
+          <MenuItem value="atr">× ATR</MenuItem>
+        </Select>
+      </FormControl>
+      {mode === 'percent' && (
+        <NumberField label="%" value={(fraction ?? 0) * 100} step={0.5} onChange={(value) => onChange(value / 100, undefined)} />
+      )}
+      {mode === 'atr' && (
+        <NumberField label="ATRs" value={atr ?? 0} step={0.5} onChange={(value) => onChange(undefined, value)} />
+      )}
+    </Stack>
+  );
+};
+
+// Build a custom strategy from indicators, entry and exit conditions and risk
+// rules, visually or as JSON. Save is enabled once the rules validate.
+export const StrategyRulesEditor: React.FC<{
+  initialRules: StrategyRules;
+  onSave: (rules: StrategyRules) => void;
+  onCancel: () => void;
+}> = ({ initialRules, onSave, onCancel }) => {
+  const [rules, setRules] = useState(initialRules);
+  // The JSON as typed while the JSON tab is open, null on the visual tab
+  const [json, setJson] = useState<string | null>(null);
+
+  const errors = useMemo(() => {
+    if (json === null) return validateStrategyRules(rules).errors;
+    try {
+      return validateStrategyRules(JSON.parse(json)).errors;
+    } catch (error) {
+      return [`Not valid JSON: ${(error as Error).message}`];
+    }
+  }, [rules, json]);
+
+  const handleJsonChange = (text: string) => {
+    setJson(text);
+    try {
+      const valid = validateStrategyRules(JSON.parse(text)).rules;
+      if (valid) {
+        setRules(valid);
+      }
+    } catch {
+      // shown in the errors below
+    }
+  };
+
+  const update = (changes: Partial<StrategyRules>) => setRules((current) => ({ ...current, ...changes }));
+  // Risk levels set to none are left out, not kept as undefined in the JSON
+  const updateRisk = (changes: Partial<RiskRules>) => {
+    const risk: RiskRules = { ...rules.risk, ...changes };
+    (Object.keys(risk) as (keyof RiskRules)[]).forEach((key) => risk[key] === undefined && delete risk[key]);
+    update({ risk });
+  };
+
+  const renameIndicator = (from: string, to: string) =>
+    update({ indicators: Object.fromEntries(
+      Object.entries(rules.indicators).map(([name, indicator]) => [name === from ? to : name, indicator])
+    ) });
+
+  const addIndicator = () => {
+    let n = Object.keys(rules.indicators).length + 1;
+    while (`indicator${n}` in rules.indicators) n += 1;
+    update({ indicators: { ...rules.indicators, [`indicator${n}`]: { type: 'ema' } } });
+  };
+
+  return (
+    <Stack spacing={2}>
+      <Tabs
+        value={json === null ? 'visual' : 'json'}
+        onChange={(_, tab) => setJson(tab === 'json' ? JSON.stringify(rules, null, 2) : null)}
+      >
+        <Tab label="Visual" value="visual" disabled={json !== null && errors.length > 0} />
+        <Tab label="JSON" value="json" />
+      </Tabs>
+
+      {json !== null ? (
+        <TextField
+          multiline
+          minRows={16}
+          value={json}
+          onChange={(e) => handleJsonChange(e.target.value)}
+          inputProps={{ spellCheck: false, style: { fontFamily: 'monospace', fontSize: 13 } }}
+          fullWidth
+        />
+      ) : (
+        <Stack spacing={3}>
+          <Stack direction="row" spacing={2}>
+            <TextField
+              label="Name"
+              size="small"
+              value={rules.name}
+              onChange={(e) => update({ name: e.target.value })}
+              sx={{ flexGrow: 1 }}
+            />
+            <FormControl size="small" sx={{ minWidth: 140 }}>
+              <InputLabel>Side</InputLabel>
+              <Select
+                value={rules.side ?? 'BUY'}
+                label="Side"
+                onChange={(e) => update({ side: e.target.value as TradeSide })}
+              >
+                <MenuItem value="BUY">Long</MenuItem>
+                <MenuItem value="SELL">Short</MenuItem>
+              </Select>
+            </FormControl>
+          </Stack>
+
+          <Stack spacing={1}>
+            <Typography variant="subtitle2">Indicators</Typography>
+            {Object.entries(rules.indicators).map(([name, { type, params }], index) => (
+              <Stack key={index} direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+                <TextField
+                  label="Name"
+                  size="small"
+                  value={name}
+                  onChange={(e) => renameIndicator(name, e.target.value)}
+                  sx={{ width: 120 }}
+                />
+                <FormControl size="small" sx={{ minWidth: 160 }}>
+                  <InputLabel>Type</InputLabel>
+                  <Select
+                    value={type}
+                    label="Type"
+                    onChange={(e) => update({
+                      indicators: { ...rules.indicators, [name]: { type: e.target.value as IndicatorType } },
+                    })}
+                  >
+                    {INDICATOR_TYPES.map((option) => (
+                      <MenuItem key={option} value={option}>{INDICATOR_LABELS[option]}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <IndicatorParamsFields
+                  type={type}
+                  params={{ ...DEFAULT_INDICATOR_PARAMS[type], ...params } as IndicatorParams[IndicatorType]}
+                  onChange={(next) => update({
+                    indicators: { ...rules.indicators, [name]: { type, params: next as Record<string, number> } },
+                  })}
+                />
+                <Tooltip title="Remove">
+                  <IconButton
+                    size="small"
+                    onClick={() => update({
+                      indicators: Object.fromEntries(Object.entries(rules.indicators).filter(([other]) => other !== name)),
+                    })}
+                  >
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Stack>
+            ))}
+            <Box>
+              <Button size="small" startIcon={<Add />} onClick={addIndicator}>
+                Add indicator
+              </Button>
+            </Box>
+          </Stack>
+
+          <ConditionEditor
+            label="Enter"
+            condition={rules.entry}
+            indicators={rules.indicators}
+            onChange={(entry) => update({ entry: entry ?? { all: [] } })}
+          />
+          <ConditionEditor
+            label="Exit"
+            condition={rules.exit}
+            indicators={rules.indicators}
+            onChange={(exit) => update({ exit })}
+            optional
+          />
+
+          <Stack spacing={1}>
+            <Typography variant="subtitle2">Risk</Typography>
+            <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap>
+              <NumberField
+                label="Size, % of equity"
+                value={rules.risk.positionSize * 100}
+                step={0.5}
+                width={140}
+                onChange={(value) => updateRisk({ positionSize: value / 100 })}
+              />
+              <RiskLevelField
+                label="Stop loss"
+                fraction={rules.risk.stopLoss}
+                atr={rules.risk.stopLossAtr}
+                onChange={(stopLoss, stopLossAtr) => updateRisk({ stopLoss, stopLossAtr })}
+              />
+              <RiskLevelField
+                label="Take profit"
+                fraction={rules.risk.takeProfit}
+                atr={rules.risk.takeProfitAtr}
+                onChange={(takeProfit, takeProfitAtr) => updateRisk({ takeProfit, takeProfitAtr })}
+              />
+            </Stack>
+          </Stack>
+        </Stack>
+      )}
+
+      {errors.length > 0 && (
+        <Alert severity="error">
+          {errors.map((error) => <div key={error}>{error}</div>)}
+        </Alert>
+      )}
+
+      <Stack direction="row" spacing={1} justifyContent="flex-end">
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button variant="contained" disabled={errors.length > 0} onClick={() => onSave(rules)}>
+          Save
+        </Button>
+      </Stack>
+    </Stack>
+  );
+};
+
+export default StrategyRulesEditor;
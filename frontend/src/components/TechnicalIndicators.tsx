@@ -60,17 +60,16 @@ import {
 import { useInterval } from 'usehooks-ts';
 import { ApexOptions } from 'apexcharts';
 import Chart from 'react-apexcharts';
+import { IndicatorParams, IndicatorType } from '../types/chart';
+import { DEFAULT_INDICATOR_PARAMS } from '../utils/technicalIndicators';
+import { useIndicatorSeries } from '../app/hooks';
+import { IndicatorParamsFields } from './IndicatorParamsFields';
 
 interface TechnicalIndicator {
   name: string;
   description: string;
   category: string;
-  parameters: {
-    period: number;
-    multiplier?: number;
-    source?: string;
-  };
-  calculate: (data: any[], params: any) => any;
+  type: IndicatorType; // calculated by the shared indicator library
 }
 
 const TECHNICAL_INDICATORS: Record<string, TechnicalIndicator> = {
@@ -78,262 +77,109 @@ const TECHNICAL_INDICATORS: Record<string, TechnicalIndicator> = {
     name: 'Simple Moving Average',
     description: 'Calculates the average price over a specified period.',
     category: 'Trend',
-    parameters: { period: 20 },
-    calculate: (data: any[], params: any) => {
-      const period = params.period;
-      return data.map((_, i) => {
-        if (i < period - 1) return null;
-        return data.slice(i - period + 1, i + 1)
-          .reduce((a, b) => a + b.close, 0) / period;
-      });
-    },
+    type: 'sma',
   },
   'EMA': {
     name: 'Exponential Moving Average',
     description: 'Gives more weight to recent prices.',
     category: 'Trend',
-    parameters: { period: 20 },
-    calculate: (data: any[], params: any) => {
-      const period = params.period;
-      const alpha = 2 / (period + 1);
-      const sma = data.slice(0, period)
-        .reduce((a, b) => a + b.close, 0) / period;
-      
-      return data.map((_, i) => {
-        if (i < period - 1) return null;
-        if (i === period - 1) return sma;
-        return data[i].close * alpha + data[i - 1].close * (1 - alpha);
-      });
-    },
+    type: 'ema',
   },
   'RSI': {
     name: 'Relative Strength Index',
     description: 'Measures the strength of price action.',
     category: 'Momentum',
-    parameters: { period: 14 },
-    calculate: (data: any[], params: any) => {
-      const period = params.period;
-      const gains = [];
-      const losses = [];
-      
-      for (let i = 1; i < data.length; i++) {
-        const change = data[i].close - data[i - 1].close;
-        if (change > 0) gains.push(change);
-        else losses.push(Math.abs(change));
-      }
-      
-      const avgGain = gains.slice(-period).reduce((a, b) => a + b, 0) / period;
-      const avgLoss = losses.slice(-period).reduce((a, b) => a + b, 0) / period;
-      
-      const rs = avgGain / avgLoss;
-      return 100 - (100 / (1 + rs));
-    },
+    type: 'rsi',
   },
   'MACD': {
     name: 'Moving Average Convergence Divergence',
     description: 'Shows the relationship between two moving averages.',
     category: 'Momentum',
-    parameters: { 
-      fastPeriod: 12,
-      slowPeriod: 26,
-      signalPeriod: 9 
-    },
-    calculate: (data: any[], params: any) => {
-      const fastEMA = calculateEMA(data, params.fastPeriod);
-      const slowEMA = calculateEMA(data, params.slowPeriod);
-      const macdLine = fastEMA.map((val, i) => val - slowEMA[i]);
-      const signalLine = calculateEMA(macdLine, params.signalPeriod);
-      return {
-        macd: macdLine,
-        signal: signalLine,
-        histogram: macdLine.map((val, i) => val - signalLine[i])
-      };
-    },
+    type: 'macd',
   },
   'BB': {
     name: 'Bollinger Bands',
     description: 'Shows volatility and potential overbought/oversold conditions.',
     category: 'Volatility',
-    parameters: { 
-      period: 20,
-      multiplier: 2 
-    },
-    calculate: (data: any[], params: any) => {
-      const period = params.period;
-      const multiplier = params.multiplier;
-      const sma = calculateSMA(data, period);
-      
-      const stdDevs = data.map((_, i) => {
-        if (i < period - 1) return null;
-        const prices = data.slice(i - period + 1, i + 1).map(d => d.close);
-        const mean = sma[i];
-        const variance = prices.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / period;
-        return Math.sqrt(variance);
-      });
-      
-      return {
-        upper: sma.map((val, i) => val + stdDevs[i] * multiplier),
-        middle: sma,
-        lower: sma.map((val, i) => val - stdDevs[i] * multiplier)
-      };
-    },
+    type: 'bollingerBands',
   },
   'ADX': {
     name: 'Average Directional Index',
     description: 'Measures trend strength.',
     category: 'Trend',
-    parameters: { period: 14 },
-    calculate: (data: any[], params: any) => {
-      const period = params.period;
-      const calculateDM = (data: any[]) => {
-        const plusDM = [];
-        const minusDM = [];
-        
-        for (let i = 1; i < data.length; i++) {
-          const upMove = data[i].high - data[i - 1].high;
-          const downMove = data[i - 1].low - data[i].low;
-          
-          if (upMove > downMove && upMove > 0) plusDM.push(upMove);
-          if (downMove > upMove && downMove > 0) minusDM.push(downMove);
-        }
-        
-        return {
-          plusDM: plusDM.reduce((a, b) => a + b, 0) / period,
-          minusDM: minusDM.reduce((a, b) => a + b, 0) / period
-        };
-      };
-      
-      const { plusDM, minusDM } = calculateDM(data);
-      const tr = data.reduce((a, b) => a + Math.max(
-        b.high - b.low,
-        Math.abs(b.high - data[i - 1].close),
-        Math.abs(b.low - data[i - 1].close)
-      ), 0) / period;
-      
-      const plusDI = plusDM / tr * 100;
-      const minusDI = minusDM / tr * 100;
-      const dx = Math.abs(plusDI - minusDI) / (plusDI + minusDI) * 100;
-      return dx.reduce((a, b) => a + b, 0) / period;
-    },
+    type: 'adx',
   },
   'OBV': {
     name: 'On-Balance Volume',
     description: 'Uses volume to predict price changes.',
     category: 'Volume',
-    parameters: {},
-    calculate: (data: any[]) => {
-      let obv = 0;
-      return data.map((d, i) => {
-        if (i === 0) return d.volume;
-        if (d.close > data[i - 1].close) obv += d.volume;
-        else if (d.close < data[i - 1].close) obv -= d.volume;
-        return obv;
-      });
-    },
+    type: 'obv',
   },
   'VWAP': {
     name: 'Volume Weighted Average Price',
     description: 'Calculates the average price weighted by volume.',
     category: 'Volume',
-    parameters: {},
-    calculate: (data: any[]) => {
-      const totalVolume = data.reduce((a, b) => a + b.volume, 0);
-      const totalPriceVolume = data.reduce((a, b) => a + (b.close * b.volume), 0);
-      return totalPriceVolume / totalVolume;
-    },
+    type: 'vwap',
   },
   'ATR': {
     name: 'Average True Range',
     description: 'Measures market volatility.',
     category: 'Volatility',
-    parameters: { period: 14 },
-    calculate: (data: any[], params: any) => {
-      const period = params.period;
-      const tr = data.map(d => Math.max(
-        d.high - d.low,
-        Math.abs(d.high - d.close),
-        Math.abs(d.low - d.close)
-      ));
-      return tr.reduce((a, b) => a + b, 0) / period;
-    },
+    type: 'atr',
   },
   'CCI': {
     name: 'Commodity Channel Index',
     description: 'Identifies cyclical trends.',
     category: 'Momentum',
-    parameters: { period: 20 },
-    calculate: (data: any[], params: any) => {
-      const period = params.period;
-      const typicalPrice = data.map(d => (d.high + d.low + d.close) / 3);
-      const sma = calculateSMA(typicalPrice, period);
-      const meanDeviation = typicalPrice.map((tp, i) => {
-        if (i < period - 1) return null;
-        return Math.abs(tp - sma[i]);
-      });
-      const avgDeviation = meanDeviation.reduce((a, b) => a + b, 0) / period;
-      return (typicalPrice[typicalPrice.length - 1] - sma[sma.length - 1]) / (0.015 * avgDeviation);
-    },
+    type: 'cci',
   },
   'STOCH': {
     name: 'Stochastic Oscillator',
     description: 'Compares closing price to price range over time.',
     category: 'Momentum',
-    parameters: { 
-      period: 14,
-      kPeriod: 3,
-      dPeriod: 3 
-    },
-    calculate: (data: any[], params: any) => {
-      const period = params.period;
-      const kPeriod = params.kPeriod;
-      const dPeriod = params.dPeriod;
-      
-      const k = data.map((_, i) => {
-        if (i < period - 1) return null;
-        const high = Math.max(...data.slice(i - period + 1, i + 1).map(d => d.high));
-        const low = Math.min(...data.slice(i - period + 1, i + 1).map(d => d.low));
-        return ((data[i].close - low) / (high - low)) * 100;
-      });
-      
-      const d = calculateSMA(k, dPeriod);
-      return { k, d };
-    },
+    type: 'stoch',
   },
   'ROC': {
     name: 'Rate of Change',
     description: 'Measures speed of price change.',
     category: 'Momentum',
-    parameters: { period: 12 },
-    calculate: (data: any[], params: any) => {
-      const period = params.period;
-      return data.map((d, i) => {
-        if (i < period) return null;
-        return ((d.close - data[i - period].close) / data[i - period].close) * 100;
-      });
-    },
+    type: 'roc',
   },
   'MFI': {
     name: 'Money Flow Index',
     description: 'Combines price and volume.',
     category: 'Volume',
-    parameters: { period: 14 },
-    calculate: (data: any[], params: any) => {
-      const period = params.period;
-      const typicalPrice = data.map(d => (d.high + d.low + d.close) / 3);
-      const moneyFlow = typicalPrice.map((tp, i) => tp * data[i].volume);
-      
-      const positiveMF = [];
-      const negativeMF = [];
-      
-      for (let i = 1; i < data.length; i++) {
-        if (typicalPrice[i] > typicalPrice[i - 1]) positiveMF.push(moneyFlow[i]);
-        else negativeMF.push(moneyFlow[i]);
-      }
-      
-      const moneyRatio = positiveMF.reduce((a, b) => a + b, 0) / 
-                        negativeMF.reduce((a, b) => a + b, 0);
-      return 100 - (100 / (1 + moneyRatio));
-    },
+    type: 'mfi',
+  },
+  'WILLR': {
+    name: 'Williams %R',
+    description: 'Shows where the close sits in the recent high-low range.',
+    category: 'Momentum',
+    type: 'williamsR',
+  },
+  'ICHIMOKU': {
+    name: 'Ichimoku Cloud',
+    description: 'Shows trend, momentum and support/resistance at a glance.',
+    category: 'Trend',
+    type: 'ichimoku',
+  },
+  'KELTNER': {
+    name: 'Keltner Channels',
+    description: 'Places ATR bands around an exponential moving average.',
+    category: 'Volatility',
+    type: 'keltnerChannels',
+  },
+  'PSAR': {
+    name: 'Parabolic SAR',
+    description: 'Trails a stop that speeds up as the trend extends.',
+    category: 'Trend',
+    type: 'parabolicSar',
+  },
+  'SUPERTREND': {
+    name: 'Supertrend',
+    description: 'Follows the trend with an ATR band that flips on reversals.',
+    category: 'Trend',
+    type: 'supertrend',
   },
 };
 
@@ -345,33 +191,13 @@ interface TechnicalIndicatorsProps {
 const TechnicalIndicators: React.FC<TechnicalIndicatorsProps> = ({ asset, onIndicatorChange }) => {
   const [activeTab, setActiveTab] = useState(0);
   const [selectedIndicator, setSelectedIndicator] = useState('SMA');
-  const [indicatorParams, setIndicatorParams] = useState({ period: 20 });
+  const [indicatorParams, setIndicatorParams] = useState<IndicatorParams[IndicatorType]>(
+    DEFAULT_INDICATOR_PARAMS.sma
+  );
   const [loading, setLoading] = useState(true);
   const [showExplanation, setShowExplanation] = useState(false);
   const [showChart, setShowChart] = useState(false);
 
-  // Calculate simple moving average
-  const calculateSMA = (data: any[], period: number) => {
-    return data.map((_, i) => {
-      if (i < period - 1) return null;
-      return data.slice(i - period + 1, i + 1)
-        .reduce((a, b) => a + b.close, 0) / period;
-    });
-  };
-
-  // Calculate exponential moving average
-  const calculateEMA = (data: any[], period: number) => {
-    const alpha = 2 / (period + 1);
-    const sma = data.slice(0, period)
-      .reduce((a, b) => a + b.close, 0) / period;
-    
-    return data.map((_, i) => {
-      if (i < period - 1) return null;
-      if (i === period - 1) return sma;
-      return data[i].close * alpha + data[i - 1].close * (1 - alpha);
-    });
-  };
-
   // Format number with commas
   const formatNumber = (num: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -392,8 +218,9 @@ const TechnicalIndicators: React.FC<TechnicalIndicatorsProps> = ({ asset, onIndi
   // Handle indicator change
   const handleIndicatorChange = (indicator: string) => {
     setSelectedIndicator(indicator);
-    setIndicatorParams(TECHNICAL_INDICATORS[indicator].parameters);
-    onIndicatorChange(indicator, TECHNICAL_INDICATORS[indicator].parameters);
+    const params = DEFAULT_INDICATOR_PARAMS[TECHNICAL_INDICATORS[indicator].type];
+    setIndicatorParams(params);
+    onIndicatorChange(indicator, params);
   };
 
   // Chart configuration
@@ -429,15 +256,16 @@ const TechnicalIndicators: React.FC<TechnicalIndicatorsProps> = ({ asset, onIndi
     },
   };
 
-  // Calculate indicator data
-  const calculateIndicatorData = () => {
-    if (!asset.priceData) return null;
-    
-    const indicator = TECHNICAL_INDICATORS[selectedIndicator];
-    const result = indicator.calculate(asset.priceData, indicatorParams);
-    
-    return result;
-  };
+  // Each output of the selected indicator, a value per candle
+  const indicatorSeries = useIndicatorSeries(
+    asset.priceData ?? [],
+    TECHNICAL_INDICATORS[selectedIndicator].type,
+    indicatorParams
+  );
+
+  // The first output (the line itself, the MACD line, the upper band) drives
+  // the signal analysis
+  const calculateIndicatorData = () => (indicatorSeries ? Object.values(indicatorSeries)[0] : null);
 
   // Get indicator category
   const getIndicatorCategory = (indicator: string) => {
@@ -518,31 +346,14 @@ const TechnicalIndicators: React.FC<TechnicalIndicatorsProps> = ({ asset, onIndi
                 <Typography variant="h6" sx={{ mb: 2 }}>
                   Configuration
                 </Typography>
-                <Stack direction="column" spacing={2}>
-                  {Object.entries(TECHNICAL_INDICATORS[selectedIndicator].parameters).map(([param, value]) => (
-                    <Stack key={param} direction="row" spacing={2} alignItems="center">
-                      <Typography variant="body2">
-                        {param.charAt(0).toUpperCase() + param.slice(1)}:
-                      </Typography>
-                      <TextField
-                        type="number"
-                        value={indicatorParams[param as keyof typeof indicatorParams]}
-                        onChange={(e) => {
-                          setIndicatorParams(prev => ({
-                            ...prev,
-                            [param]: parseFloat(e.target.value) || value,
-                          }));
-                          onIndicatorChange(selectedIndicator, {
-                            ...indicatorParams,
-                            [param]: parseFloat(e.target.value) || value,
-                          });
-                        }}
-                        size="small"
-                        sx={{ width: 120 }}
-                      />
-                    </Stack>
-                  ))}
-                </Stack>
+                <IndicatorParamsFields
+                  type={TECHNICAL_INDICATORS[selectedIndicator].type}
+                  params={indicatorParams}
+                  onChange={(params) => {
+                    setIndicatorParams(params);
+                    onIndicatorChange(selectedIndicator, params);
+                  }}
+                />
               </Box>
 
               {/* Indicator Chart */}
@@ -557,15 +368,15 @@ const TechnicalIndicators: React.FC<TechnicalIndicatorsProps> = ({ asset, onIndi
                       name: 'Price',
                       data: asset.priceData.map(d => ({ x: d.timestamp, y: d.close }))
                     },
-                    ...(calculateIndicatorData() ? [
-                      {
-                        name: TECHNICAL_INDICATORS[selectedIndicator].name,
-                        data: asset.priceData.map((d, i) => ({
-                          x: d.timestamp,
-                          y: calculateIndicatorData()[i]
-                        }))
-                      }
-                    ] : [])
+                    ...Object.entries(indicatorSeries ?? {}).map(([output, values]) => ({
+                      name: output === 'value'
+                        ? TECHNICAL_INDICATORS[selectedIndicator].name
+                        : `${TECHNICAL_INDICATORS[selectedIndicator].name} (${output})`,
+                      data: asset.priceData.map((d: any, i: number) => ({
+                        x: d.timestamp,
+                        y: values[i] ?? null,
+                      })),
+                    })),
                   ]}
                   type="line"
                   height={350}
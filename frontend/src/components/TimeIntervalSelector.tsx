@@ -16,7 +16,7 @@ import {
 import { TimeInterval } from '../features/timeInterval/timeIntervalSlice';
 
 // Define time intervals with their display names and API values
-const timeIntervals: { [key: string]: { label: string; value: TimeInterval } } = {
+export const timeIntervals: { [key: string]: { label: string; value: TimeInterval } } = {
   '1m': { label: '1m', value: '1m' },
   '5m': { label: '5m', value: '5m' },
   '30m': { label: '30m', value: '30m' },
@@ -36,6 +36,13 @@ import {
   ErrorOutlined,
 } from '@mui/icons-material';
 import { useInterval } from 'usehooks-ts';
+import { useAppSelector, useOrderBooks } from '../app/hooks';
+import { selectCandles, selectOrderBooks } from '../features/marketData/marketDataSlice';
+import { OrderBook } from '../types/marketData';
+import { getOrderBookMetrics } from '../utils/orderBook';
+import * as indicators from '../utils/indicators';
+import { latest, toPriceSeries } from '../utils/indicators';
+import { DEFAULT_INDICATOR_PARAMS } from '../utils/technicalIndicators';
 
 // Trading signals with explanations
 const SIGNALS = {
@@ -188,10 +195,23 @@ const RISK_ANALYSIS = {
 interface TradingAnalysisProps {
   asset: any;
   priceData: any[];
-  orderBook: any;
 }
 
-export const TradingAnalysis: React.FC<TradingAnalysisProps> = ({ asset, priceData, orderBook }) => {
+export const TradingAnalysis: React.FC<TradingAnalysisProps> = ({ asset, priceData: priceDataProp }) => {
+  // Without price history of its own, analyse the candles loaded for the chart
+  const candles = useAppSelector(selectCandles);
+  const priceData = priceDataProp?.length
+    ? priceDataProp
+    : candles && candles.assetId === asset?.id ? candles.data : [];
+
+  const orderBookAssets = useMemo(
+    () => (asset?.id ? [{ id: asset.id, symbol: asset.symbol, name: asset.name }] : []),
+    [asset?.id, asset?.symbol, asset?.name]
+  );
+  useOrderBooks(orderBookAssets);
+  const orderBooks = useAppSelector(selectOrderBooks);
+  const orderBook: OrderBook | undefined = asset?.id ? orderBooks[asset.id] : undefined;
+
   const [analysis, setAnalysis] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [signal, setSignal] = useState<string>('NEUTRAL');
@@ -200,6 +220,7 @@ export const TradingAnalysis: React.FC<TradingAnalysisProps> = ({ asset, priceDa
 
   // Calculate analysis every 5 seconds
   useInterval(() => {
+    if (priceData.length === 0) return;
     const newAnalysis = calculateTradingAnalysis(asset, priceData, orderBook);
     setAnalysis(newAnalysis);
     setSignal(newAnalysis.signal);
@@ -209,7 +230,7 @@ export const TradingAnalysis: React.FC<TradingAnalysisProps> = ({ asset, priceDa
   }, 5000);
 
   // Calculate trading analysis
-  const calculateTradingAnalysis = (asset: any, priceData: any[], orderBook: any) => {
+  const calculateTradingAnalysis = (asset: any, priceData: any[], orderBook?: OrderBook) => {
     // Calculate technical indicators
     const rsi = calculateRSI(priceData);
     const macd = calculateMACD(priceData);
@@ -249,53 +270,45 @@ export const TradingAnalysis: React.FC<TradingAnalysisProps> = ({ asset, priceDa
     };
   };
 
-  // Helper functions for calculations
-  const calculateRSI = (data: any[]) => {
-    // Calculate RSI
-    const gains = data.map((d, i) => i > 0 ? (d.price - data[i-1].price) : 0);
-    const avgGain = gains.filter(g => g > 0).reduce((a, b) => a + b, 0) / gains.length;
-    const avgLoss = Math.abs(gains.filter(g => g < 0).reduce((a, b) => a + b, 0) / gains.length);
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
-  };
+  // Latest values from the shared indicator library, so the signal here
+  // agrees with the chart's
+  const calculateRSI = (data: any[]) =>
+    latest(indicators.rsi(toPriceSeries(data).close, DEFAULT_INDICATOR_PARAMS.rsi.period)) ?? 50;
 
   const calculateMACD = (data: any[]) => {
-    // Calculate MACD
-    const shortEMA = calculateEMA(data, 12);
-    const longEMA = calculateEMA(data, 26);
-    const macdLine = shortEMA - longEMA;
-    const signalLine = calculateEMA(data.map(d => macdLine), 9);
+    const { fastPeriod, slowPeriod, signalPeriod } = DEFAULT_INDICATOR_PARAMS.macd;
+    const result = indicators.macd(toPriceSeries(data).close, fastPeriod, slowPeriod, signalPeriod);
     return {
-      line: macdLine,
-      signal: signalLine,
-      histogram: macdLine - signalLine,
+      line: latest(result.macd) ?? 0,
+      signal: latest(result.signal) ?? 0,
+      histogram: latest(result.histogram) ?? 0,
     };
   };
 
   const calculateBollingerBands = (data: any[]) => {
-    // Calculate Bollinger Bands
-    const prices = data.map(d => d.price);
-    const avg = prices.reduce((a, b) => a + b, 0) / prices.length;
-    const stdDev = Math.sqrt(
-      prices.reduce((a, b) => a + Math.pow(b - avg, 2), 0) / prices.length
-    );
+    const { period, multiplier } = DEFAULT_INDICATOR_PARAMS.bollingerBands;
+    const { close } = toPriceSeries(data);
+    const current = close[close.length - 1];
+    const bands = indicators.bollingerBands(close, period, multiplier);
     return {
-      upper: avg + (2 * stdDev),
-      lower: avg - (2 * stdDev),
-      current: data[data.length - 1].price,
+      upper: latest(bands.upper) ?? current,
+      lower: latest(bands.lower) ?? current,
+      current,
     };
   };
 
-  const calculateSentiment = (orderBook: any) => {
-    // Calculate order book sentiment
-    const buyDepth = orderBook.buy.reduce((sum, order) => sum + order.amount, 0);
-    const sellDepth = orderBook.sell.reduce((sum, order) => sum + order.amount, 0);
-    const spread = orderBook.sell[0].price - orderBook.buy[0].price;
+  const calculateSentiment = (orderBook?: OrderBook) => {
+    // Calculate order book sentiment; without a book it stays neutral
+    if (!orderBook) {
+      return { buyDepth: 0, sellDepth: 0, spread: 0, imbalance: 0, sentimentScore: 0 };
+    }
+    const metrics = getOrderBookMetrics(orderBook);
     return {
-      buyDepth,
-      sellDepth,
-      spread,
-      sentimentScore: buyDepth > sellDepth ? 1 : -1,
+      buyDepth: metrics.bidDepthWithin,
+      sellDepth: metrics.askDepthWithin,
+      spread: metrics.spread ?? 0,
+      imbalance: metrics.imbalance,
+      sentimentScore: Math.sign(metrics.imbalance),
     };
   };
 
@@ -312,10 +325,11 @@ export const TradingAnalysis: React.FC<TradingAnalysisProps> = ({ asset, priceDa
   };
 
   // Signal determination
+  const { overbought, oversold } = DEFAULT_INDICATOR_PARAMS.rsi;
   const determineSignal = (rsi: number, macd: any, bollinger: any, sentiment: any) => {
-    if (rsi < 30 && macd.histogram > 0 && bollinger.current <= bollinger.lower) {
+    if (rsi < oversold && macd.histogram > 0 && bollinger.current <= bollinger.lower) {
       return 'STRONG_BUY';
-    } else if (rsi > 70 && macd.histogram < 0 && bollinger.current >= bollinger.upper) {
+    } else if (rsi > overbought && macd.histogram < 0 && bollinger.current >= bollinger.upper) {
       return 'STRONG_SELL';
     } else if (rsi < 50 && macd.histogram > 0 && sentiment.sentimentScore > 0) {
       return 'BUY';
@@ -333,9 +347,9 @@ export const TradingAnalysis: React.FC<TradingAnalysisProps> = ({ asset, priceDa
     bollinger: any,
     volume: number
   ) => {
-    if (rsi > 70 && macd.histogram < 0 && volume > 1.5 * calculateAverageVolume(priceData)) {
+    if (rsi > overbought && macd.histogram < 0 && volume > 1.5 * calculateAverageVolume(priceData)) {
       return 'BEARISH';
-    } else if (rsi < 30 && macd.histogram > 0 && volume > 1.5 * calculateAverageVolume(priceData)) {
+    } else if (rsi < oversold && macd.histogram > 0 && volume > 1.5 * calculateAverageVolume(priceData)) {
       return 'BULLISH';
     } else if (rsi > 50 && macd.histogram < 0 && volume < 0.5 * calculateAverageVolume(priceData)) {
       return 'BEARISH_PULLBACK';
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Box,
   Typography,
@@ -28,6 +28,8 @@ import {
   TableHead,
   TableRow,
   Paper,
+  Select,
+  MenuItem,
 } from '@mui/material';
 import {
   TrendingUp,
@@ -55,9 +57,36 @@ import {
   TrendingFlat as TrendingFlatIcon,
 } from '@mui/icons-material';
 import { useInterval } from 'usehooks-ts';
+import { useAppDispatch, useAppSelector, useStrategyBacktests } from '../app/hooks';
+import { BacktestResult, RiskRules, StrategySignals } from '../types/backtest';
+import { StrategyRules } from '../types/strategyRules';
+import {
+  customStrategyDeleted,
+  customStrategySaved,
+  selectCustomStrategies,
+} from '../features/strategies/strategiesSlice';
+import { tradeReturn } from '../utils/backtest';
+import { createStrategy, evaluateStrategy, resolveStrategy } from '../utils/strategies';
+import { EXAMPLE_STRATEGY_RULES, describeCondition } from '../utils/strategyRules';
+import { INDICATOR_LABELS } from '../utils/indicatorInstances';
+import StrategyRulesEditor from './StrategyRulesEditor';
+
+interface TradingStrategyInfo {
+  name: string;
+  description: string;
+  indicators: string[];
+  // The strategy in STRATEGIES, or the custom strategy, that runs it: its
+  // checks, risk rules and backtest are what the panel shows. Arbitrage has
+  // none, since candles only have one exchange's price, so its signals are
+  // only described.
+  strategy?: string;
+  entrySignals?: string[];
+  exitSignals?: string[];
+  rules?: StrategyRules; // custom strategies only, for editing
+}
 
 // Trading Strategies with explanations
-const TRADING_STRATEGIES = {
+const TRADING_STRATEGIES: Record<string, TradingStrategyInfo> = {
   'TREND_FOLLOWING': {
     name: 'Trend Following',
     description: 'This strategy identifies and follows established trends in the market.',
@@ -67,28 +96,7 @@ const TRADING_STRATEGIES = {
       'RSI',
       'ADX',
     ],
-    entrySignals: [
-      'Price crossing above 200-day MA',
-      'MACD bullish crossover',
-      'RSI above 50',
-      'ADX above 25',
-    ],
-    exitSignals: [
-      'Price crossing below 200-day MA',
-      'MACD bearish crossover',
-      'RSI below 50',
-      'ADX below 25',
-    ],
-    riskManagement: {
-      stopLoss: '2% below entry',
-      takeProfit: '10% above entry',
-      positionSize: '3% of portfolio',
-    },
-    performance: {
-      averageWin: '15%',
-      averageLoss: '2%',
-      winRate: '70%',
-    },
+    strategy: 'TREND_FOLLOWING',
   },
   'MEAN_REVERSION': {
     name: 'Mean Reversion',
@@ -99,60 +107,18 @@ const TRADING_STRATEGIES = {
       'Stochastic Oscillator',
       'Williams %R',
     ],
-    entrySignals: [
-      'Price below lower Bollinger Band',
-      'RSI below 30',
-      'Stochastic below 20',
-      'Williams %R below -80',
-    ],
-    exitSignals: [
-      'Price above middle Bollinger Band',
-      'RSI above 70',
-      'Stochastic above 80',
-      'Williams %R above -20',
-    ],
-    riskManagement: {
-      stopLoss: '1% below entry',
-      takeProfit: '5% above entry',
-      positionSize: '2% of portfolio',
-    },
-    performance: {
-      averageWin: '4%',
-      averageLoss: '1%',
-      winRate: '65%',
-    },
+    strategy: 'MEAN_REVERSION',
   },
   'VOLUME_PROFILE': {
     name: 'Volume Profile',
     description: 'This strategy uses volume analysis to identify key price levels and market sentiment.',
     indicators: [
-      'Volume Profile',
-      'Price Volume Trend',
-      'On-Balance Volume',
       'Volume Weighted Average Price',
+      'Chaikin Money Flow',
+      'VWAP Momentum',
+      'On-Balance Volume',
     ],
-    entrySignals: [
-      'Price near Value Area High',
-      'Positive PVT divergence',
-      'OBV confirming price trend',
-      'Price above VWAP',
-    ],
-    exitSignals: [
-      'Price near Value Area Low',
-      'Negative PVT divergence',
-      'OBV diverging from price',
-      'Price below VWAP',
-    ],
-    riskManagement: {
-      stopLoss: '1.5% below entry',
-      takeProfit: '7% above entry',
-      positionSize: '2.5% of portfolio',
-    },
-    performance: {
-      averageWin: '6%',
-      averageLoss: '1.5%',
-      winRate: '60%',
-    },
+    strategy: 'VOLUME_PROFILE',
   },
   'MOMENTUM_TRADING': {
     name: 'Momentum Trading',
@@ -163,28 +129,7 @@ const TRADING_STRATEGIES = {
       'ADX',
       'ROC',
     ],
-    entrySignals: [
-      'RSI above 70',
-      'MACD bullish crossover',
-      'ADX above 40',
-      'ROC above 10',
-    ],
-    exitSignals: [
-      'RSI below 70',
-      'MACD bearish crossover',
-      'ADX below 40',
-      'ROC below 10',
-    ],
-    riskManagement: {
-      stopLoss: '3% below entry',
-      takeProfit: '15% above entry',
-      positionSize: '4% of portfolio',
-    },
-    performance: {
-      averageWin: '12%',
-      averageLoss: '3%',
-      winRate: '68%',
-    },
+    strategy: 'MOMENTUM_TRADING',
   },
   'ARBITRAGE': {
     name: 'Arbitrage Trading',
@@ -207,19 +152,25 @@ const TRADING_STRATEGIES = {
       'Negative market impact',
       'High slippage potential',
     ],
-    riskManagement: {
-      stopLoss: '0.5% below entry',
-      takeProfit: '1% above entry',
-      positionSize: '1% of portfolio',
-    },
-    performance: {
-      averageWin: '0.8%',
-      averageLoss: '0.2%',
-      winRate: '95%',
-    },
   },
 };
 
+// A custom strategy as the panel lists it
+const customStrategyInfo = (id: string, rules: StrategyRules): TradingStrategyInfo => ({
+  name: rules.name,
+  description: `Custom ${rules.side === 'SELL' ? 'short' : 'long'} strategy: enter when ${describeCondition(rules.entry)}.`,
+  indicators: Object.entries(rules.indicators).map(([name, { type }]) => `${name} (${INDICATOR_LABELS[type]})`),
+  strategy: id,
+  rules,
+});
+
+// A stop or target, e.g. "2.0%" or "1.5 × ATR(14)"
+const describeRiskLevel = (risk: RiskRules, fraction: number | undefined, atr: number | undefined) =>
+  atr !== undefined ? `${atr} × ATR(${risk.atrPeriod ?? 14})` : `${((fraction ?? 0) * 100).toFixed(1)}%`;
+
+// A backtest with the average return of its winning and losing trades
+type StrategyPerformance = BacktestResult & { averageWinReturn: number; averageLossReturn: number };
+
 interface TradingStrategiesProps {
   assets: any[];
   onStrategyChange: (strategy: string) => void;
@@ -235,122 +186,62 @@ const TradingStrategies: React.FC<TradingStrategiesProps> = ({ assets, onStrateg
   const [isBuy, setIsBuy] = useState(true);
   const [loading, setLoading] = useState(true);
 
-  // Calculate strategy signals
-  const calculateStrategySignals = (asset: any, strategy: string) => {
-    const signals = TRADING_STRATEGIES[strategy];
-    const priceData = asset.priceData;
-    
-    // Calculate technical indicators
-    const rsi = calculateRSI(priceData);
-    const macd = calculateMACD(priceData);
-    const bollinger = calculateBollingerBands(priceData);
-    const adx = calculateADX(priceData);
-    
-    // Determine signal strength
-    let signalStrength = 0;
-    let signalType = 'NEUTRAL';
-    
-    // Check entry signals
-    if (signals.entrySignals.some(signal => {
-      switch (signal) {
-        case 'Price crossing above 200-day MA':
-          return priceData[priceData.length - 1].price > calculateSMA(priceData, 200);
-        case 'MACD bullish crossover':
-          return macd.histogram > 0;
-        case 'RSI above 50':
-          return rsi > 50;
-        case 'ADX above 25':
-          return adx > 25;
-        default:
-          return false;
-      }
-    })) {
-      signalStrength++;
-      signalType = 'BUY';
-    }
-
-    // Check exit signals
-    if (signals.exitSignals.some(signal => {
-      switch (signal) {
-        case 'Price crossing below 200-day MA':
-          return priceData[priceData.length - 1].price < calculateSMA(priceData, 200);
-        case 'MACD bearish crossover':
-          return macd.histogram < 0;
-        case 'RSI below 50':
-          return rsi < 50;
-        case 'ADX below 25':
-          return adx < 25;
-        default:
-          return false;
-      }
-    })) {
-      signalStrength++;
-      signalType = 'SELL';
-    }
+  const [backtestAssetIndex, setBacktestAssetIndex] = useState(0);
+  // The custom strategy in the rule editor: an id when editing, none when new
+  const [editing, setEditing] = useState<{ id?: string; rules: StrategyRules } | null>(null);
 
-    return {
-      signalType,
-      signalStrength,
-      indicators: {
-        rsi,
-        macd,
-        bollinger,
-        adx,
-      },
-    };
-  };
+  const dispatch = useAppDispatch();
+  const customStrategies = useAppSelector(selectCustomStrategies);
+  const strategies = useMemo(() => ({
+    ...TRADING_STRATEGIES,
+    ...Object.fromEntries(customStrategies.map(({ id, rules }) => [id, customStrategyInfo(id, rules)])),
+  }), [customStrategies]);
+  const active = strategies[activeStrategy] ?? TRADING_STRATEGIES.TREND_FOLLOWING;
 
-  // Calculate simple moving average
-  const calculateSMA = (data: any[], period: number) => {
-    const prices = data.map(d => d.price);
-    const sum = prices.slice(-period).reduce((a, b) => a + b, 0);
-    return sum / period;
-  };
+  // Every runnable strategy, backtested on the chosen asset's candles
+  const backtestAsset = assets[backtestAssetIndex] ?? assets[0];
+  const strategyIds = useMemo(
+    () => Object.values(strategies).flatMap(({ strategy }) => (strategy ? [strategy] : [])),
+    [strategies]
+  );
+  const backtests = useStrategyBacktests(strategyIds, backtestAsset?.symbol ?? '', backtestAsset?.priceData ?? []);
 
-  // Calculate RSI
-  const calculateRSI = (data: any[]) => {
-    const gains = data.map((d, i) => i > 0 ? (d.price - data[i-1].price) : 0);
-    const avgGain = gains.filter(g => g > 0).reduce((a, b) => a + b, 0) / gains.length;
-    const avgLoss = Math.abs(gains.filter(g => g < 0).reduce((a, b) => a + b, 0) / gains.length);
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
-  };
+  const activeSpec = useMemo(
+    () => (active.strategy ? resolveStrategy(active.strategy, customStrategies).spec : undefined),
+    [active.strategy, customStrategies]
+  );
 
-  // Calculate MACD
-  const calculateMACD = (data: any[]) => {
-    const shortEMA = calculateEMA(data, 12);
-    const longEMA = calculateEMA(data, 26);
-    const macdLine = shortEMA - longEMA;
-    const signalLine = calculateEMA(data.map(d => macdLine), 9);
-    return {
-      line: macdLine,
-      signal: signalLine,
-      histogram: macdLine - signalLine,
-    };
-  };
+  // The active strategy's checks as of each asset's last candle
+  const currentSignals = useMemo(() => new Map<any, StrategySignals>(
+    activeSpec
+      ? assets
+        .filter((asset) => asset.priceData?.length)
+        .map((asset) => [asset, evaluateStrategy(createStrategy(activeSpec), asset.priceData)])
+      : []
+  ), [assets, activeSpec]);
+
+  // The checks and risk rules, before any candle is seen
+  const activeRules = useMemo(() => (activeSpec ? createStrategy(activeSpec) : undefined), [activeSpec]);
+  const entrySignals = activeRules?.signals().entry.map(({ label }) => label) ?? active.entrySignals ?? [];
+  const exitSignals = activeRules?.signals().exit.map(({ label }) => label) ?? active.exitSignals ?? [];
 
-  // Calculate Bollinger Bands
-  const calculateBollingerBands = (data: any[]) => {
-    const prices = data.map(d => d.price);
-    const avg = prices.reduce((a, b) => a + b, 0) / prices.length;
-    const stdDev = Math.sqrt(
-      prices.reduce((a, b) => a + Math.pow(b - avg, 2), 0) / prices.length
-    );
+  const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+  // How a strategy did in its backtest, per trade
+  const performanceOf = (info: TradingStrategyInfo): StrategyPerformance | undefined => {
+    const result = info.strategy ? backtests[info.strategy] : undefined;
+    if (!result) return undefined;
+    const returns = result.trades.map(tradeReturn);
     return {
-      upper: avg + (2 * stdDev),
-      lower: avg - (2 * stdDev),
-      current: data[data.length - 1].price,
+      ...result,
+      averageWinReturn: average(returns.filter((r) => r > 0)),
+      averageLossReturn: average(returns.filter((r) => r <= 0)),
     };
   };
+  const activePerformance = performanceOf(active);
 
-  // Calculate ADX
-  const calculateADX = (data: any[]) => {
-    // Simplified ADX calculation
-    const period = 14;
-    const prices = data.map(d => d.price);
-    const range = prices.slice(-period).reduce((a, b) => Math.abs(a - b), 0);
-    return (range / period) * 100;
-  };
+  const strengthOf = (signals?: StrategySignals) =>
+    signals ? `${signals.entry.filter((check) => check.met).length}/${signals.entry.length}` : '-';
 
   // Format number with commas
   const formatNumber = (num: number) => {
@@ -375,6 +266,18 @@ const TradingStrategies: React.FC<TradingStrategiesProps> = ({ assets, onStrateg
     onStrategyChange(newStrategy);
   };
 
+  const handleSaveStrategy = (rules: StrategyRules) => {
+    const action = customStrategySaved(rules, editing?.id);
+    dispatch(action);
+    handleStrategyChange(action.payload.id);
+    setEditing(null);
+  };
+
+  const handleDeleteStrategy = () => {
+    dispatch(customStrategyDeleted(activeStrategy));
+    handleStrategyChange('TREND_FOLLOWING');
+  };
+
   // Handle trade
   const handleTrade = () => {
     if (!selectedAsset || tradeQuantity <= 0) return;
@@ -389,38 +292,71 @@ const TradingStrategies: React.FC<TradingStrategiesProps> = ({ assets, onStrateg
         <CardHeader
           title="Trading Strategies"
           subheader="Select your trading strategy"
+          action={
+            <Button startIcon={<Add />} onClick={() => setEditing({ rules: EXAMPLE_STRATEGY_RULES })}>
+              New Strategy
+            </Button>
+          }
         />
         <CardContent>
           <Stack spacing={2}>
-            {Object.entries(TRADING_STRATEGIES).map(([strategy, config]) => (
-              <Button
-                key={strategy}
-                fullWidth
-                variant={activeStrategy === strategy ? 'contained' : 'outlined'}
-                color={activeStrategy === strategy ? 'primary' : 'default'}
-                onClick={() => handleStrategyChange(strategy)}
-              >
-                <Stack direction="row" spacing={2} alignItems="center">
-                  <Typography variant="body2">
-                    {config.name}
-                  </Typography>
-                  <Chip
-                    label={`Win Rate: ${formatPercentage(config.performance.winRate)}`}
-                    color={config.performance.winRate >= 0.7 ? 'success' :
-                           config.performance.winRate >= 0.6 ? 'warning' :
-                           'error'}
-                    size="small"
-                  />
-                  <Chip
-                    label={`Avg Return: ${formatPercentage(config.performance.averageWin)}`}
-                    color={config.performance.averageWin >= 0.1 ? 'success' :
-                           config.performance.averageWin >= 0.05 ? 'warning' :
-                           'error'}
-                    size="small"
-                  />
-                </Stack>
-              </Button>
-            ))}
+            {assets.length > 0 && (
+              <Stack direction="row" spacing={2} alignItems="center">
+                <Typography variant="body2">
+                  Backtest on:
+                </Typography>
+                <Select
+                  value={Math.min(backtestAssetIndex, assets.length - 1)}
+                  onChange={(e) => setBacktestAssetIndex(Number(e.target.value))}
+                  size="small"
+                >
+                  {assets.map((asset, index) => (
+                    <MenuItem key={index} value={index}>
+                      {asset.name} ({asset.symbol})
+                    </MenuItem>
+                  ))}
+                </Select>
+              </Stack>
+            )}
+            {Object.entries(strategies).map(([strategy, config]) => {
+              const performance = performanceOf(config);
+              return (
+                <Button
+                  key={strategy}
+                  fullWidth
+                  variant={activeStrategy === strategy ? 'contained' : 'outlined'}
+                  color={activeStrategy === strategy ? 'primary' : 'default'}
+                  onClick={() => handleStrategyChange(strategy)}
+                >
+                  <Stack direction="row" spacing={2} alignItems="center">
+                    <Typography variant="body2">
+                      {config.name}
+                    </Typography>
+                    {performance ? (
+                      <>
+                        <Chip
+                          label={`Win Rate: ${formatPercentage(performance.winRate)}`}
+                          color={performance.winRate >= 0.6 ? 'success' :
+                                 performance.winRate >= 0.4 ? 'warning' :
+                                 'error'}
+                          size="small"
+                        />
+                        <Chip
+                          label={`Return: ${formatPercentage(performance.totalReturn)}`}
+                          color={performance.totalReturn > 0 ? 'success' : 'error'}
+                          size="small"
+                        />
+                      </>
+                    ) : (
+                      <Chip
+                        label={config.strategy ? 'Backtesting…' : 'Not backtestable'}
+                        size="small"
+                      />
+                    )}
+                  </Stack>
+                </Button>
+              );
+            })}
           </Stack>
         </CardContent>
       </Card>
@@ -428,8 +364,22 @@ const TradingStrategies: React.FC<TradingStrategiesProps> = ({ assets, onStrateg
       {/* Strategy Details */}
       <Card>
         <CardHeader
-          title={TRADING_STRATEGIES[activeStrategy].name}
-          subheader={TRADING_STRATEGIES[activeStrategy].description}
+          title={active.name}
+          subheader={active.description}
+          action={active.rules && (
+            <Stack direction="row">
+              <MuiTooltip title="Edit">
+                <IconButton onClick={() => setEditing({ id: activeStrategy, rules: active.rules as StrategyRules })}>
+                  <Edit />
+                </IconButton>
+              </MuiTooltip>
+              <MuiTooltip title="Delete">
+                <IconButton onClick={handleDeleteStrategy}>
+                  <Delete />
+                </IconButton>
+              </MuiTooltip>
+            </Stack>
+          )}
         />
         <CardContent>
           <Stack spacing={3}>
@@ -439,7 +389,7 @@ const TradingStrategies: React.FC<TradingStrategiesProps> = ({ assets, onStrateg
                 Key Indicators
               </Typography>
               <Stack direction="row" spacing={2}>
-                {TRADING_STRATEGIES[activeStrategy].indicators.map((indicator: string, index: number) => (
+                {active.indicators.map((indicator: string, index: number) => (
                   <Chip
                     key={index}
                     label={indicator}
@@ -456,7 +406,7 @@ const TradingStrategies: React.FC<TradingStrategiesProps> = ({ assets, onStrateg
                 Entry Signals
               </Typography>
               <Stack direction="column" spacing={1}>
-                {TRADING_STRATEGIES[activeStrategy].entrySignals.map((signal: string, index: number) => (
+                {entrySignals.map((signal: string, index: number) => (
                   <Typography key={index} variant="body2" color="success.main">
                     • {signal}
                   </Typography>
@@ -470,7 +420,7 @@ const TradingStrategies: React.FC<TradingStrategiesProps> = ({ assets, onStrateg
                 Exit Signals
               </Typography>
               <Stack direction="column" spacing={1}>
-                {TRADING_STRATEGIES[activeStrategy].exitSignals.map((signal: string, index: number) => (
+                {exitSignals.map((signal: string, index: number) => (
                   <Typography key={index} variant="body2" color="error.main">
                     • {signal}
                   </Typography>
@@ -484,15 +434,27 @@ const TradingStrategies: React.FC<TradingStrategiesProps> = ({ assets, onStrateg
                 Risk Management
               </Typography>
               <Stack direction="column" spacing={1}>
-                <Typography variant="body2">
-                  Position Size: {formatPercentage(TRADING_STRATEGIES[activeStrategy].riskManagement.positionSize)}
-                </Typography>
-                <Typography variant="body2">
-                  Stop Loss: {formatPercentage(TRADING_STRATEGIES[activeStrategy].riskManagement.stopLoss)}
-                </Typography>
-                <Typography variant="body2">
-                  Take Profit: {formatPercentage(TRADING_STRATEGIES[activeStrategy].riskManagement.takeProfit)}
-                </Typography>
+                {activeRules ? (
+                  <>
+                    <Typography variant="body2">
+                      Position Size: {formatPercentage(activeRules.risk.positionSize)} of equity
+                    </Typography>
+                    {(activeRules.risk.stopLoss ?? activeRules.risk.stopLossAtr) !== undefined && (
+                      <Typography variant="body2">
+                        Stop Loss: {describeRiskLevel(activeRules.risk, activeRules.risk.stopLoss, activeRules.risk.stopLossAtr)} from entry
+                      </Typography>
+                    )}
+                    {(activeRules.risk.takeProfit ?? activeRules.risk.takeProfitAtr) !== undefined && (
+                      <Typography variant="body2">
+                        Take Profit: {describeRiskLevel(activeRules.risk, activeRules.risk.takeProfit, activeRules.risk.takeProfitAtr)} from entry
+                      </Typography>
+                    )}
+                  </>
+                ) : (
+                  <Typography variant="body2" color="text.secondary">
+                    Set per trade, from the spread and the depth on both exchanges
+                  </Typography>
+                )}
               </Stack>
             </Box>
 
@@ -502,15 +464,38 @@ const TradingStrategies: React.FC<TradingStrategiesProps> = ({ assets, onStrateg
                 Performance Metrics
               </Typography>
               <Stack direction="column" spacing={1}>
-                <Typography variant="body2">
-                  Average Win: {formatPercentage(TRADING_STRATEGIES[activeStrategy].performance.averageWin)}
-                </Typography>
-                <Typography variant="body2">
-                  Average Loss: {formatPercentage(TRADING_STRATEGIES[activeStrategy].performance.averageLoss)}
-                </Typography>
-                <Typography variant="body2">
-                  Win Rate: {formatPercentage(TRADING_STRATEGIES[activeStrategy].performance.winRate)}
-                </Typography>
+                {activePerformance ? (
+                  <>
+                    <Typography variant="body2" color="text.secondary">
+                      Backtest on {backtestAsset?.name}, {activePerformance.startDate.split('T')[0]} to{' '}
+                      {activePerformance.endDate.split('T')[0]}: {activePerformance.trades.length} trades
+                    </Typography>
+                    <Typography variant="body2">
+                      Total Return: {formatPercentage(activePerformance.totalReturn)}
+                    </Typography>
+                    <Typography variant="body2">
+                      Average Win: {formatPercentage(activePerformance.averageWinReturn)}
+                    </Typography>
+                    <Typography variant="body2">
+                      Average Loss: {formatPercentage(activePerformance.averageLossReturn)}
+                    </Typography>
+                    <Typography variant="body2">
+                      Win Rate: {formatPercentage(activePerformance.winRate)}
+                    </Typography>
+                    <Typography variant="body2">
+                      Max Drawdown: {formatPercentage(activePerformance.maxDrawdown)}
+                    </Typography>
+                    <Typography variant="body2">
+                      Sharpe Ratio: {activePerformance.sharpeRatio.toFixed(2)}
+                    </Typography>
+                  </>
+                ) : (
+                  <Typography variant="body2" color="text.secondary">
+                    {active.strategy
+                      ? 'Backtesting on the selected asset…'
+                      : 'Needs prices from more than one exchange, so it can\'t be backtested on candles'}
+                  </Typography>
+                )}
               </Stack>
             </Box>
 
@@ -526,18 +511,19 @@ const TradingStrategies: React.FC<TradingStrategiesProps> = ({ assets, onStrateg
                       <TableCell>Asset</TableCell>
                       <TableCell align="right">Signal</TableCell>
                       <TableCell align="right">Strength</TableCell>
-                      <TableCell align="right">Indicators</TableCell>
+                      <TableCell align="right">Checks Met</TableCell>
                       <TableCell align="right">Actions</TableCell>
                     </TableRow>
                   </TableHead>
                   <TableBody>
                     {assets.map((asset, index) => {
-                      const signals = calculateStrategySignals(asset, activeStrategy);
-                      const signalColor = signals.signalType === 'BUY' ? 'success' :
-                                         signals.signalType === 'SELL' ? 'error' :
+                      const signals = currentSignals.get(asset);
+                      const signalType = signals?.signal ?? 'NEUTRAL';
+                      const signalColor = signalType === 'BUY' ? 'success' :
+                                         signalType === 'SELL' ? 'error' :
                                          'warning';
-                      const signalIcon = signals.signalType === 'BUY' ? <TrendingUpIcon /> :
-                                        signals.signalType === 'SELL' ? <TrendingDownIcon /> :
+                      const signalIcon = signalType === 'BUY' ? <TrendingUpIcon /> :
+                                        signalType === 'SELL' ? <TrendingDownIcon /> :
                                         <TrendingFlatIcon />;
 
                       return (
@@ -547,22 +533,24 @@ const TradingStrategies: React.FC<TradingStrategiesProps> = ({ assets, onStrateg
                           </TableCell>
                           <TableCell align="right">
                             <Chip
-                              label={signals.signalType}
+                              label={signalType}
                               color={signalColor}
                               size="small"
                             />
                             {signalIcon}
                           </TableCell>
                           <TableCell align="right">
-                            {signals.signalStrength}/5
+                            {strengthOf(signals)}
                           </TableCell>
                           <TableCell align="right">
                             <Stack direction="column" spacing={0.5}>
-                              {Object.entries(signals.indicators).map(([indicator, value]) => (
-                                <Typography key={indicator} variant="caption" color="text.secondary">
-                                  {indicator}: {value.toFixed(2)}
-                                </Typography>
-                              ))}
+                              {[...(signals?.entry ?? []), ...(signals?.exit ?? [])]
+                                .filter((check) => check.met)
+                                .map((check) => (
+                                  <Typography key={check.label} variant="caption" color="text.secondary">
+                                    {check.label}
+                                  </Typography>
+                                ))}
                             </Stack>
                           </TableCell>
                           <TableCell align="right">
@@ -661,18 +649,18 @@ const TradingStrategies: React.FC<TradingStrategiesProps> = ({ assets, onStrateg
             </Typography>
             <Stack spacing={2}>
               <Typography variant="body2">
-                Signal Type: {calculateStrategySignals(selectedAsset, activeStrategy).signalType}
+                Signal Type: {currentSignals.get(selectedAsset)?.signal ?? 'NEUTRAL'}
               </Typography>
               <Typography variant="body2">
-                Signal Strength: {calculateStrategySignals(selectedAsset, activeStrategy).signalStrength}/5
+                Signal Strength: {strengthOf(currentSignals.get(selectedAsset))}
               </Typography>
-              <Typography variant="body2">
-                Technical Indicators:
+              <Typography variant="body2" component="div">
+                Checks:
                 <ul>
-                  {Object.entries(calculateStrategySignals(selectedAsset, activeStrategy).indicators)
-                    .map(([indicator, value]) => (
-                      <li key={indicator}>
-                        {indicator}: {value.toFixed(2)}
+                  {[...(currentSignals.get(selectedAsset)?.entry ?? []), ...(currentSignals.get(selectedAsset)?.exit ?? [])]
+                    .map((check) => (
+                      <li key={check.label}>
+                        {check.label}: {check.met ? 'met' : 'not met'}
                       </li>
                     ))}
                 </ul>
@@ -682,27 +670,27 @@ const TradingStrategies: React.FC<TradingStrategiesProps> = ({ assets, onStrateg
               Risk Assessment
             </Typography>
             <Stack spacing={1}>
-              <Chip
-                label={`Position Size: ${formatPercentage(
-                  TRADING_STRATEGIES[activeStrategy].riskManagement.positionSize
-                )}`}
-                color="primary"
-                size="small"
-              />
-              <Chip
-                label={`Stop Loss: ${formatPercentage(
-                  TRADING_STRATEGIES[activeStrategy].riskManagement.stopLoss
-                )}`}
-                color="error"
-                size="small"
-              />
-              <Chip
-                label={`Take Profit: ${formatPercentage(
-                  TRADING_STRATEGIES[activeStrategy].riskManagement.takeProfit
-                )}`}
-                color="success"
-                size="small"
-              />
+              {activeRules && (
+                <Chip
+                  label={`Position Size: ${formatPercentage(activeRules.risk.positionSize)}`}
+                  color="primary"
+                  size="small"
+                />
+              )}
+              {activeRules && (activeRules.risk.stopLoss ?? activeRules.risk.stopLossAtr) !== undefined && (
+                <Chip
+                  label={`Stop Loss: ${describeRiskLevel(activeRules.risk, activeRules.risk.stopLoss, activeRules.risk.stopLossAtr)}`}
+                  color="error"
+                  size="small"
+                />
+              )}
+              {activeRules && (activeRules.risk.takeProfit ?? activeRules.risk.takeProfitAtr) !== undefined && (
+                <Chip
+                  label={`Take Profit: ${describeRiskLevel(activeRules.risk, activeRules.risk.takeProfit, activeRules.risk.takeProfitAtr)}`}
+                  color="success"
+                  size="small"
+                />
+              )}
             </Stack>
           </Stack>
         </DialogContent>
@@ -710,6 +698,22 @@ const TradingStrategies: React.FC<TradingStrategiesProps> = ({ assets, onStrateg
           <Button onClick={() => setShowStrategyDialog(false)}>Close</Button>
         </DialogActions>
       </Dialog>
+
+      {/* Custom Strategy Dialog */}
+      <Dialog open={editing !== null} onClose={() => setEditing(null)} maxWidth="lg" fullWidth>
+        <DialogTitle>
+          {editing?.id ? `Edit ${editing.rules.name}` : 'New Strategy'}
+        </DialogTitle>
+        <DialogContent>
+          {editing && (
+            <StrategyRulesEditor
+              initialRules={editing.rules}
+              onSave={handleSaveStrategy}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </Box>
   );
 };
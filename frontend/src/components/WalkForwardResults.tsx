@@ -0,0 +1,128 @@
+import React from 'react';
+import {
+  Chip,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { ApexOptions } from 'apexcharts';
+import Chart from 'react-apexcharts';
+import { useQuoteFormatter } from '../app/hooks';
+import { WalkForwardResult } from '../types/backtest';
+
+const formatPercentage = (num: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'percent',
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+  }).format(num);
+
+const formatDate = (date: string) => date.split('T')[0];
+
+const formatParams = (params: Record<string, number>) =>
+  Object.entries(params).map(([param, value]) => `${param} ${Number(value.toFixed(4))}`).join(', ') || 'Fixed rules';
+
+// The stitched out-of-sample equity curve, how well in-sample results carried
+// over, and the best params of each window
+export const WalkForwardResults: React.FC<{ result: WalkForwardResult }> = ({ result }) => {
+  const { money } = useQuoteFormatter();
+  const { outOfSample, efficiency, stability, paramVariation, windows } = result;
+
+  const chartOptions: ApexOptions = {
+    chart: { type: 'line', height: 300, toolbar: { show: false } },
+    stroke: { width: 2 },
+    xaxis: { type: 'datetime' },
+    yaxis: { labels: { formatter: (value) => money(value, true) } },
+    tooltip: { y: { formatter: (value) => money(value, true) } },
+    // Where each out-of-sample window starts
+    annotations: {
+      xaxis: windows.map((window) => ({
+        x: Date.parse(window.outOfSample.startDate),
+        borderColor: '#999',
+        strokeDashArray: 3,
+      })),
+    },
+  };
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+        <Chip
+          size="small"
+          label={`Out-of-sample Return: ${formatPercentage(outOfSample.totalReturn)}`}
+          color={outOfSample.totalReturn >= 0 ? 'success' : 'error'}
+        />
+        <Chip
+          size="small"
+          label={`Walk-forward Efficiency: ${efficiency === null ? 'n/a' : formatPercentage(efficiency)}`}
+          color={efficiency !== null && efficiency >= 0.5 ? 'success' : 'warning'}
+        />
+        <Chip
+          size="small"
+          label={`Parameter Stability: ${formatPercentage(stability)}`}
+          color={stability >= 0.5 ? 'success' : 'warning'}
+        />
+        <Chip size="small" label={`Max Drawdown: ${formatPercentage(outOfSample.maxDrawdown)}`} color="error" />
+        <Chip size="small" label={`Sharpe Ratio: ${outOfSample.sharpeRatio.toFixed(2)}`} />
+        <Chip size="small" label={`Trades: ${outOfSample.trades.length}`} />
+      </Stack>
+      {Object.keys(paramVariation).length > 0 && (
+        <Typography variant="body2" color="text.secondary">
+          Variation of the best params across windows:{' '}
+          {Object.entries(paramVariation).map(([param, value]) => `${param} ${formatPercentage(value)}`).join(', ')}
+        </Typography>
+      )}
+      {efficiency === null && (
+        <Typography variant="body2" color="text.secondary">
+          The best in-sample params lost money on average, so there's no efficiency to report.
+        </Typography>
+      )}
+
+      <Chart
+        options={chartOptions}
+        series={[{ name: 'Out-of-sample Equity', data: outOfSample.equityCurve }]}
+        type="line"
+        height={300}
+      />
+
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>In Sample</TableCell>
+              <TableCell>Out of Sample</TableCell>
+              <TableCell>Best Params</TableCell>
+              <TableCell align="right">In-sample Return</TableCell>
+              <TableCell align="right">Out-of-sample Return</TableCell>
+              <TableCell align="right">Out-of-sample Win Rate</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {windows.map((window) => (
+              <TableRow key={window.outOfSample.startDate}>
+                <TableCell>
+                  {formatDate(window.inSample.startDate)} to {formatDate(window.inSample.endDate)}
+                </TableCell>
+                <TableCell>
+                  {formatDate(window.outOfSample.startDate)} to {formatDate(window.outOfSample.endDate)}
+                </TableCell>
+                <TableCell>{formatParams(window.params)}</TableCell>
+                <TableCell align="right">{formatPercentage(window.inSample.totalReturn)}</TableCell>
+                <TableCell align="right">{formatPercentage(window.outOfSample.totalReturn)}</TableCell>
+                <TableCell align="right">{formatPercentage(window.outOfSample.winRate)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Stack>
+  );
+};
+
+export default WalkForwardResults;
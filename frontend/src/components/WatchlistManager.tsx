@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Stack,
+  Tab,
+  Tabs,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add, Delete, Edit } from '@mui/icons-material';
+import { useAppDispatch, useAppSelector } from '../app/hooks';
+import {
+  activeWatchlistChanged,
+  assetAdded,
+  assetRemoved,
+  selectActiveWatchlist,
+  selectWatchlists,
+  watchlistCreated,
+  watchlistDeleted,
+  watchlistRenamed,
+} from '../features/watchlists/watchlistsSlice';
+import { MarketAsset } from '../types/marketData';
+import AssetPicker from './AssetPicker';
+
+interface WatchlistManagerProps {
+  onAssetClick?: (asset: MarketAsset) => void;
+  editable?: boolean; // show the controls for changing watchlists, not just switching
+}
+
+type NameDialog = { mode: 'create' } | { mode: 'rename'; id: string };
+
+export const WatchlistManager: React.FC<WatchlistManagerProps> = ({ onAssetClick, editable = true }) => {
+  const dispatch = useAppDispatch();
+  const watchlists = useAppSelector(selectWatchlists);
+  const active = useAppSelector(selectActiveWatchlist);
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [name, setName] = useState('');
+
+  const openNameDialog = (dialog: NameDialog) => {
+    setName(dialog.mode === 'rename' ? active.name : '');
+    setNameDialog(dialog);
+  };
+
+  const handleSaveName = () => {
+    const trimmed = name.trim();
+    if (!nameDialog || !trimmed) return;
+    if (nameDialog.mode === 'create') {
+      dispatch(watchlistCreated(trimmed));
+    } else {
+      dispatch(watchlistRenamed({ id: nameDialog.id, name: trimmed }));
+    }
+    setNameDialog(null);
+  };
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Stack direction="row" alignItems="center" spacing={1}>
+        <Typography variant="h6">Watchlists</Typography>
+        {editable && (
+          <>
+            <Tooltip title="New watchlist">
+              <IconButton size="small" onClick={() => openNameDialog({ mode: 'create' })}>
+                <Add />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title="Rename watchlist">
+              <IconButton size="small" onClick={() => openNameDialog({ mode: 'rename', id: active.id })}>
+                <Edit />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title="Delete watchlist">
+              <span>
+                <IconButton
+                  size="small"
+                  disabled={watchlists.length <= 1}
+                  onClick={() => dispatch(watchlistDeleted(active.id))}
+                >
+                  <Delete />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </>
+        )}
+      </Stack>
+
+      <Tabs
+        value={active.id}
+        onChange={(_, id: string) => dispatch(activeWatchlistChanged(id))}
+        variant="scrollable"
+        scrollButtons="auto"
+        sx={{ mb: 2 }}
+      >
+        {watchlists.map((list) => (
+          <Tab key={list.id} value={list.id} label={`${list.name} (${list.assets.length})`} />
+        ))}
+      </Tabs>
+
+      <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" alignItems="center">
+        {active.assets.map((asset) => (
+          <Chip
+            key={asset.id}
+            label={`${asset.symbol.toUpperCase()} · ${asset.name}`}
+            onClick={onAssetClick ? () => onAssetClick(asset) : undefined}
+            onDelete={editable
+              ? () => dispatch(assetRemoved({ watchlistId: active.id, assetId: asset.id }))
+              : undefined}
+          />
+        ))}
+        {active.assets.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            No assets yet
+          </Typography>
+        )}
+        {editable && (
+          <AssetPicker
+            label="Add asset"
+            exclude={active.assets.map((asset) => asset.id)}
+            onSelect={(asset) => dispatch(assetAdded({ watchlistId: active.id, asset }))}
+          />
+        )}
+      </Stack>
+
+      <Dialog open={nameDialog !== null} onClose={() => setNameDialog(null)}>
+        <DialogTitle>{nameDialog?.mode === 'rename' ? 'Rename watchlist' : 'New watchlist'}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSaveName();
+            }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setNameDialog(null)}>Cancel</Button>
+          <Button onClick={handleSaveName} disabled={!name.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default WatchlistManager;
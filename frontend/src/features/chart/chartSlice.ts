@@ -1,7 +1,10 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { CryptoAsset, ChartConfig } from '../../types/chart';
+import { ChartConfig, CryptoAsset, IndicatorInstance } from '../../types/chart';
+import { indicatorsFromRecord, normalizeIndicators } from '../../utils/indicatorInstances';
+import { loadSettings } from '../settings/settingsSlice';
+import { Migration } from '../../app/persistence';
 
-const initialState = {
+const initialState = () => ({
   selectedAsset: {
     id: 'bitcoin',
     symbol: 'BTC',
@@ -9,68 +12,44 @@ const initialState = {
     balance: 0,
     price: 0,
   } as CryptoAsset,
-  config: {
-    rsi: {
-      enabled: true,
-      color: '#f44336',
-      lineWidth: 1,
-    },
-    macd: {
-      enabled: true,
-      color: '#ff9800', // changed to orange
-      lineWidth: 1,
-    },
-    bollingerBands: {
-      enabled: true,
-      color: '#ff9800',
-      lineWidth: 1,
-    },
-    adx: {
-      enabled: false,
-      color: '#9c27b0',
-      lineWidth: 1,
-    },
-    obv: {
-      enabled: false,
-      color: '#3f51b5',
-      lineWidth: 1,
-    },
-    vwap: {
-      enabled: true,
-      color: '#00bcd4',
-      lineWidth: 1,
-    },
-    atr: {
-      enabled: false,
-      color: '#ff5722',
-      lineWidth: 1,
-    },
-    cci: {
-      enabled: false,
-      color: '#795548',
-      lineWidth: 1,
-    },
-    stoch: {
-      enabled: false,
-      color: '#607d8b',
-      lineWidth: 1,
-    },
-    roc: {
-      enabled: false,
-      color: '#009688',
-      lineWidth: 1,
-    },
-    mfi: {
-      enabled: false,
-      color: '#8bc34a',
-      lineWidth: 1,
-    },
-    candlestick: {
-      enabled: false,
-      color: '#000000',
-      lineWidth: 1,
-    },
-  } as ChartConfig,
+  config: loadSettings().indicators, // defaults from Settings
+});
+
+type ChartState = ReturnType<typeof initialState>;
+
+const isAsset = (value: unknown): value is CryptoAsset => {
+  const asset = value as CryptoAsset | null;
+  return typeof asset === 'object' && asset !== null &&
+    typeof asset.symbol === 'string' && typeof asset.name === 'string' &&
+    Number.isFinite(asset.price) && Number.isFinite(asset.balance);
+};
+
+// A stored chart state, with its indicators held to the types and param
+// ranges we know; a field that can't be used keeps its default
+export const parseChart = (value: unknown): Partial<ChartState> | undefined => {
+  const stored = value as { selectedAsset?: unknown; config?: Partial<ChartConfig> } | null;
+  if (typeof stored !== 'object' || stored === null) {
+    return undefined;
+  }
+  return {
+    ...(isAsset(stored.selectedAsset) && { selectedAsset: stored.selectedAsset }),
+    ...(typeof stored.config === 'object' && stored.config !== null && {
+      config: {
+        candlestick: stored.config.candlestick === true,
+        indicators: normalizeIndicators(stored.config.indicators),
+      },
+    }),
+  };
+};
+
+// Persisted chart state migrations; see app/persistence
+export const chartMigrations: Record<number, Migration> = {
+  // Indicators gained calculation params; the next migration fills them in
+  1: (state) => state,
+  // Indicators became a list of instances, so there can be several of a type
+  2: (state) => (typeof state === 'object' && state !== null
+    ? { ...state, config: indicatorsFromRecord((state as { config?: unknown }).config) }
+    : state),
 };
 
 export const chartSlice = createSlice({
@@ -80,12 +59,30 @@ export const chartSlice = createSlice({
     setSelectedAsset: (state, action: PayloadAction<CryptoAsset>) => {
       state.selectedAsset = action.payload;
     },
-    toggleIndicator: (state, action: PayloadAction<keyof ChartConfig>) => {
-      state.config[action.payload].enabled = !state.config[action.payload].enabled;
+    toggleIndicator: (state, action: PayloadAction<string>) => {
+      const instance = state.config.indicators.find(({ id }) => id === action.payload);
+      if (instance) {
+        instance.enabled = !instance.enabled;
+      }
+    },
+    toggleCandlestick: (state) => {
+      state.config.candlestick = !state.config.candlestick;
+    },
+    setIndicators: (state, action: PayloadAction<IndicatorInstance[]>) => {
+      state.config.indicators = action.payload;
+    },
+    setChartConfig: (state, action: PayloadAction<ChartConfig>) => {
+      state.config = action.payload;
     },
   },
 });
 
-export const { setSelectedAsset, toggleIndicator } = chartSlice.actions;
+export const {
+  setSelectedAsset,
+  toggleIndicator,
+  toggleCandlestick,
+  setIndicators,
+  setChartConfig,
+} = chartSlice.actions;
 
-export default chartSlice.reducer;
\ No newline at end of file
+export default chartSlice.reducer;
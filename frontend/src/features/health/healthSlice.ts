@@ -0,0 +1,79 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { ServiceName } from '../../api/schemas';
+
+export type ServiceHealth = 'up' | 'degraded' | 'down';
+
+export interface HealthCheck {
+  timestamp: number;
+  state: ServiceHealth;
+  latencyMs?: number;
+  reason?: string; // why the service isn't up
+}
+
+// A stretch of time a service spent degraded or down; open while endedAt is unset
+export interface Incident {
+  id: string;
+  service: ServiceName;
+  state: Exclude<ServiceHealth, 'up'>;
+  reason: string;
+  startedAt: number;
+  endedAt?: number;
+}
+
+interface HealthState {
+  sessionStartedAt: number;
+  checks: Partial<Record<ServiceName, HealthCheck[]>>;
+  incidents: Incident[];
+}
+
+// Checks kept per service for the timeline, about an hour at the default poll rate
+export const MAX_HEALTH_CHECKS = 240;
+export const MAX_INCIDENTS = 100;
+
+const initialState: HealthState = {
+  sessionStartedAt: Date.now(),
+  checks: {},
+  incidents: [],
+};
+
+export const healthSlice = createSlice({
+  name: 'health',
+  initialState,
+  reducers: {
+    healthCheckRecorded: (state, action: PayloadAction<{ service: ServiceName; check: HealthCheck }>) => {
+      const { service, check } = action.payload;
+      const checks = state.checks[service] || [];
+      checks.push(check);
+      state.checks[service] = checks.slice(-MAX_HEALTH_CHECKS);
+
+      const open = state.incidents.find((incident) => incident.service === service && !incident.endedAt);
+      if (open && open.state === check.state) return;
+      if (open) {
+        open.endedAt = check.timestamp;
+      }
+      if (check.state !== 'up') {
+        state.incidents.push({
+          id: `${service}-${check.timestamp}`,
+          service,
+          state: check.state,
+          reason: check.reason || check.state,
+          startedAt: check.timestamp,
+        });
+        state.incidents = state.incidents.slice(-MAX_INCIDENTS);
+      }
+    },
+  },
+});
+
+export const { healthCheckRecorded } = healthSlice.actions;
+
+export const selectSessionStartedAt = (state: { health: HealthState }) =>
+  state.health.sessionStartedAt;
+
+export const selectHealthChecks = (state: { health: HealthState }) =>
+  state.health.checks;
+
+export const selectIncidents = (state: { health: HealthState }) =>
+  state.health.incidents;
+
+export default healthSlice.reducer;
@@ -0,0 +1,151 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { ChartData } from '../../types/chart';
+import {
+  ExchangeRates,
+  MarketDataProviderId,
+  OrderBook,
+  OrderBookDiff,
+  QuoteCurrency,
+  StreamStatus,
+  StreamTick,
+} from '../../types/marketData';
+import { TimeInterval } from '../timeInterval/timeIntervalSlice';
+import { loadSettings } from '../settings/settingsSlice';
+import { CANDLE_WIDTH_MS, applyTickToSeries, candleWidth } from '../../utils/candles';
+import { applyOrderBookDiff } from '../../utils/orderBook';
+import { getUsdRate } from '../../utils/formatters';
+
+interface CandleSeries {
+  assetId: string;
+  interval: TimeInterval;
+  quote: QuoteCurrency;
+  data: ChartData[];
+  // The width the candles really have, which live ticks build on; wider than
+  // the interval's when the provider's history is coarser
+  widthMs: number;
+}
+
+interface MarketDataState {
+  providerId: MarketDataProviderId;
+  quoteCurrency: QuoteCurrency;
+  exchangeRates: ExchangeRates | null; // units per US dollar, from the provider
+  streamStatus: StreamStatus;
+  tickers: Record<string, StreamTick>; // latest live tick per asset, in US dollars
+  candles: CandleSeries | null; // the series PriceChart is showing
+  orderBooks: Record<string, OrderBook>;
+  orderBookGaps: Record<string, boolean>; // books that missed a diff and need a new snapshot
+}
+
+const initialState = (): MarketDataState => ({
+  providerId: loadSettings().dataProvider,
+  quoteCurrency: 'usd',
+  exchangeRates: null,
+  streamStatus: 'idle',
+  tickers: {},
+  candles: null,
+  orderBooks: {},
+  orderBookGaps: {},
+});
+
+export const marketDataSlice = createSlice({
+  name: 'marketData',
+  initialState,
+  reducers: {
+    setMarketDataProvider: (state, action: PayloadAction<MarketDataProviderId>) => {
+      state.providerId = action.payload;
+      state.exchangeRates = null;
+      state.streamStatus = 'idle';
+      state.tickers = {};
+      state.orderBooks = {};
+      state.orderBookGaps = {};
+    },
+    // Candles are fetched in the quote currency, so the current series is stale
+    setQuoteCurrency: (state, action: PayloadAction<QuoteCurrency>) => {
+      state.quoteCurrency = action.payload;
+      state.candles = null;
+    },
+    exchangeRatesLoaded: (state, action: PayloadAction<ExchangeRates>) => {
+      state.exchangeRates = action.payload;
+    },
+    streamStatusChanged: (state, action: PayloadAction<StreamStatus>) => {
+      state.streamStatus = action.payload;
+    },
+    tickReceived: (state, action: PayloadAction<StreamTick>) => {
+      const tick = action.payload;
+      const previous = state.tickers[tick.assetId];
+      if (previous && previous.timestamp > tick.timestamp) return;
+      state.tickers[tick.assetId] = tick;
+
+      // Streams quote in US dollars; without a rate the tick can't go on the chart
+      const rate = state.candles && getUsdRate(state.candles.quote, state.exchangeRates);
+      if (state.candles && state.candles.assetId === tick.assetId && rate) {
+        state.candles.data = applyTickToSeries(
+          state.candles.data,
+          tick.timestamp,
+          tick.price * rate,
+          tick.volume24h !== undefined ? tick.volume24h * rate : undefined,
+          state.candles.widthMs
+        );
+      }
+    },
+    candlesLoaded: (state, action: PayloadAction<Omit<CandleSeries, 'widthMs'>>) => {
+      const { data, interval } = action.payload;
+      state.candles = { ...action.payload, widthMs: candleWidth(data, CANDLE_WIDTH_MS[interval]) };
+    },
+    orderBookLoaded: (state, action: PayloadAction<OrderBook>) => {
+      state.orderBooks[action.payload.assetId] = action.payload;
+      delete state.orderBookGaps[action.payload.assetId];
+    },
+    // Diffs that arrive before the snapshot are dropped; if that loses updates
+    // the first diff after it reports a gap and the book is resynced
+    orderBookDiffReceived: (state, action: PayloadAction<OrderBookDiff>) => {
+      const diff = action.payload;
+      const book = state.orderBooks[diff.assetId];
+      if (!book || state.orderBookGaps[diff.assetId]) return;
+
+      const result = applyOrderBookDiff(book, diff);
+      if (result.status === 'gap') {
+        state.orderBookGaps[diff.assetId] = true;
+      } else if (result.status === 'applied') {
+        state.orderBooks[diff.assetId] = result.book;
+      }
+    },
+  },
+});
+
+export const {
+  setMarketDataProvider,
+  setQuoteCurrency,
+  exchangeRatesLoaded,
+  streamStatusChanged,
+  tickReceived,
+  candlesLoaded,
+  orderBookLoaded,
+  orderBookDiffReceived,
+} = marketDataSlice.actions;
+
+export const selectMarketDataProviderId = (state: { marketData: MarketDataState }) =>
+  state.marketData.providerId;
+
+export const selectQuoteCurrency = (state: { marketData: MarketDataState }) =>
+  state.marketData.quoteCurrency;
+
+export const selectExchangeRates = (state: { marketData: MarketDataState }) =>
+  state.marketData.exchangeRates;
+
+export const selectStreamStatus = (state: { marketData: MarketDataState }) =>
+  state.marketData.streamStatus;
+
+export const selectTickers = (state: { marketData: MarketDataState }) =>
+  state.marketData.tickers;
+
+export const selectCandles = (state: { marketData: MarketDataState }) =>
+  state.marketData.candles;
+
+export const selectOrderBooks = (state: { marketData: MarketDataState }) =>
+  state.marketData.orderBooks;
+
+export const selectOrderBookGaps = (state: { marketData: MarketDataState }) =>
+  state.marketData.orderBookGaps;
+
+export default marketDataSlice.reducer;
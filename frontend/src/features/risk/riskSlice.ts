@@ -0,0 +1,99 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+export type RiskLevel = 'AGGRESSIVE' | 'MODERATE' | 'CONSERVATIVE';
+
+export const RISK_LEVEL_NAMES: RiskLevel[] = ['AGGRESSIVE', 'MODERATE', 'CONSERVATIVE'];
+
+// Limits set by hand for one position. Anything left unset falls back to the
+// risk level's defaults.
+export interface PositionLimits {
+  symbol: string; // exchange symbol, as the backend keys positions
+  stopLoss?: number; // US dollars
+  takeProfit?: number; // US dollars
+  positionSize?: number; // most units of the asset to hold
+}
+
+interface RiskState {
+  riskLevel: RiskLevel;
+  limits: Record<string, PositionLimits>; // by asset id
+}
+
+interface LimitPayload {
+  assetId: string;
+  symbol: string;
+  value: number;
+}
+
+// Where the risk profile was kept before app/persistence
+const STORAGE_KEY = 'risk';
+
+const defaultState: RiskState = {
+  riskLevel: 'MODERATE',
+  limits: {},
+};
+
+// A stored risk profile, or undefined when its risk level isn't one we know
+export const parseRisk = (value: unknown): RiskState | undefined => {
+  const stored = value as RiskState | null;
+  if (!stored || !RISK_LEVEL_NAMES.includes(stored.riskLevel)) {
+    return undefined;
+  }
+  return { riskLevel: stored.riskLevel, limits: stored.limits || {} };
+};
+
+// The risk profile saved before app/persistence took over, under its own key;
+// anything unreadable falls back to a moderate profile with no limits
+const loadRisk = (): RiskState => {
+  try {
+    return parseRisk(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null')) ?? defaultState;
+  } catch (error) {
+    console.error('Error loading risk profile:', error);
+    return defaultState;
+  }
+};
+
+const getLimits = (state: RiskState, { assetId, symbol }: LimitPayload) => {
+  state.limits[assetId] = { ...state.limits[assetId], symbol };
+  return state.limits[assetId];
+};
+
+export const riskSlice = createSlice({
+  name: 'risk',
+  initialState: loadRisk,
+  reducers: {
+    riskLevelChanged: (state, action: PayloadAction<RiskLevel>) => {
+      state.riskLevel = action.payload;
+    },
+    stopLossSet: (state, action: PayloadAction<LimitPayload>) => {
+      getLimits(state, action.payload).stopLoss = action.payload.value;
+    },
+    takeProfitSet: (state, action: PayloadAction<LimitPayload>) => {
+      getLimits(state, action.payload).takeProfit = action.payload.value;
+    },
+    positionSizeSet: (state, action: PayloadAction<LimitPayload>) => {
+      getLimits(state, action.payload).positionSize = action.payload.value;
+    },
+    positionLimitsCleared: (state, action: PayloadAction<string>) => {
+      delete state.limits[action.payload];
+    },
+  },
+});
+
+export const {
+  riskLevelChanged,
+  stopLossSet,
+  takeProfitSet,
+  positionSizeSet,
+  positionLimitsCleared,
+} = riskSlice.actions;
+
+export const selectRiskLevel = (state: { risk: RiskState }) =>
+  state.risk.riskLevel;
+
+export const selectPositionLimits = (state: { risk: RiskState }) =>
+  state.risk.limits;
+
+export const selectRisk = (state: { risk: RiskState }) =>
+  state.risk;
+
+export default riskSlice.reducer;
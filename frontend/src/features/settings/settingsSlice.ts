@@ -0,0 +1,290 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { ChartConfig } from '../../types/chart';
+import { MarketDataProviderId } from '../../types/marketData';
+import { DEFAULT_MARKET_DATA_PROVIDER, MARKET_DATA_PROVIDERS } from '../../services/marketData';
+import { CANDLE_WIDTH_MS } from '../../utils/candles';
+import { createIndicatorInstance, indicatorsFromRecord, normalizeIndicators } from '../../utils/indicatorInstances';
+import type { TimeInterval } from '../timeInterval/timeIntervalSlice';
+import { loadPersisted, Migration, PersistedSlice } from '../../app/persistence';
+
+export type ThemeMode = 'light' | 'dark';
+
+export interface ThemeSettings {
+  mode: ThemeMode;
+  primaryColor: string;
+  secondaryColor: string;
+}
+
+// Milliseconds between polls
+export interface RefreshIntervals {
+  trading: number; // positions, orders and fills
+  health: number; // backend status endpoints
+  marketData: number; // tickers, while there is no live stream
+}
+
+export interface NotificationSettings {
+  enabled: boolean; // desktop notifications at all
+  orderFills: boolean;
+  healthIncidents: boolean;
+}
+
+export interface Settings {
+  dataProvider: MarketDataProviderId; // provider to start with
+  apiBaseUrl: string; // empty for the build's default
+  theme: ThemeSettings;
+  defaultInterval: TimeInterval;
+  refreshIntervals: RefreshIntervals;
+  indicators: ChartConfig; // how indicators start out on a fresh chart
+  notifications: NotificationSettings;
+}
+
+// Bump when the shape of Settings changes, and add a migration from the
+// previous version below
+export const SETTINGS_VERSION = 3;
+
+// What goes to localStorage and export files
+export interface SettingsFile {
+  version: number;
+  settings: Settings;
+}
+
+// What parseSettings made of a file: the settings, and the values it reset to
+// their defaults because they were unusable
+export interface ParsedSettings {
+  settings: Settings;
+  invalid: string[];
+}
+
+// Where settings were kept before app/persistence
+const STORAGE_KEY = 'settings';
+
+// Shortest poll allowed, so a typo can't hammer the APIs
+export const MIN_REFRESH_MS = 1000;
+
+const THEME_MODES: ThemeMode[] = ['light', 'dark'];
+
+export const defaultSettings: Settings = {
+  dataProvider: DEFAULT_MARKET_DATA_PROVIDER,
+  apiBaseUrl: '',
+  theme: {
+    mode: 'dark',
+    primaryColor: '#2196f3',
+    secondaryColor: '#f50057',
+  },
+  defaultInterval: '1m',
+  refreshIntervals: {
+    trading: 10 * 1000,
+    health: 15 * 1000,
+    marketData: 5 * 1000,
+  },
+  indicators: {
+    candlestick: false,
+    indicators: [
+      createIndicatorInstance('rsi', { id: 'rsi' }),
+      createIndicatorInstance('macd', { id: 'macd' }),
+      createIndicatorInstance('bollingerBands', { id: 'bollingerBands' }),
+      createIndicatorInstance('vwap', { id: 'vwap' }),
+    ],
+  },
+  notifications: {
+    enabled: false,
+    orderFills: true,
+    healthIncidents: true,
+  },
+};
+
+// migrations[n] turns version n settings into version n + 1
+const migrations: Record<number, Migration> = {
+  // Before versioning the only stored preference was the API base URL, under its own key
+  0: (settings) => (isObject(settings)
+    ? { ...settings, apiBaseUrl: settings.apiBaseUrl ?? localStorage.getItem('apiBaseUrl') ?? '' }
+    : settings),
+  // Indicators gained calculation params, which mergeWithDefaults fills in
+  1: (settings) => settings,
+  // Indicators became a list of instances, so there can be several of a type
+  2: (settings) => (isObject(settings) && settings.indicators
+    ? { ...settings, indicators: indicatorsFromRecord(settings.indicators) }
+    : settings),
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Take each stored value that has the same type as its default, so a file from
+// an older or hand-edited version can't leave holes or wrong types behind
+const mergeWithDefaults = <T>(defaults: T, stored: unknown): T => {
+  if (Array.isArray(defaults)) {
+    return Array.isArray(stored) ? stored as T : defaults;
+  }
+  if (!isObject(defaults) || !isObject(stored)) {
+    return typeof stored === typeof defaults ? stored as T : defaults;
+  }
+  const merged: Record<string, unknown> = { ...defaults };
+  Object.keys(defaults).forEach((key) => {
+    merged[key] = mergeWithDefaults((defaults as Record<string, unknown>)[key], stored[key]);
+  });
+  return merged as T;
+};
+
+// Put defaults in place of values that have the right type but can't be used:
+// unknown ids and polls faster than MIN_REFRESH_MS
+const resetInvalid = (settings: Settings): ParsedSettings => {
+  const invalid: string[] = [];
+  const check = <T>(name: string, value: T, isValid: boolean, fallback: T): T => {
+    if (isValid) return value;
+    invalid.push(name);
+    return fallback;
+  };
+
+  const refresh = (key: keyof RefreshIntervals) => {
+    const ms = settings.refreshIntervals[key];
+    return check(
+      `${key} refresh interval`,
+      ms,
+      Number.isFinite(ms) && ms >= MIN_REFRESH_MS,
+      defaultSettings.refreshIntervals[key]
+    );
+  };
+
+  return {
+    settings: {
+      ...settings,
+      dataProvider: check(
+        'data provider',
+        settings.dataProvider,
+        MARKET_DATA_PROVIDERS.some(({ id }) => id === settings.dataProvider),
+        defaultSettings.dataProvider
+      ),
+      defaultInterval: check(
+        'default interval',
+        settings.defaultInterval,
+        Object.keys(CANDLE_WIDTH_MS).includes(settings.defaultInterval),
+        defaultSettings.defaultInterval
+      ),
+      theme: {
+        ...settings.theme,
+        mode: check('theme mode', settings.theme.mode, THEME_MODES.includes(settings.theme.mode), defaultSettings.theme.mode),
+      },
+      refreshIntervals: {
+        trading: refresh('trading'),
+        health: refresh('health'),
+        marketData: refresh('marketData'),
+      },
+    },
+    invalid,
+  };
+};
+
+// Bring a stored or imported settings file up to the current version. Throws
+// on anything that isn't a settings file this version can read; values that
+// are there but unusable are reset to their defaults and listed in `invalid`.
+export const parseSettings = (file: unknown): ParsedSettings => {
+  if (!isObject(file) || !isObject(file.settings) || typeof file.version !== 'number') {
+    throw new Error('Not a settings file');
+  }
+  if (file.version > SETTINGS_VERSION) {
+    throw new Error(`Settings are from a newer version (${file.version}) of the app`);
+  }
+  let settings: unknown = file.settings;
+  for (let version = file.version; version < SETTINGS_VERSION; version++) {
+    settings = migrations[version](settings);
+  }
+  const merged = mergeWithDefaults(defaultSettings, settings);
+  return resetInvalid({
+    ...merged,
+    indicators: { ...merged.indicators, indicators: normalizeIndicators(merged.indicators.indicators) },
+  });
+};
+
+const parseStoredSettings = (file: unknown): Settings => {
+  const { settings, invalid } = parseSettings(file);
+  if (invalid.length > 0) {
+    console.warn(`Reset invalid stored settings to their defaults: ${invalid.join(', ')}`);
+  }
+  return settings;
+};
+
+// app/persistence keeps the settings themselves under their version, with the
+// same migrations as settings files
+export const persistedSettings: PersistedSlice = {
+  key: 'settings',
+  version: SETTINGS_VERSION,
+  migrations,
+  parse: (state) => (isObject(state) ? parseStoredSettings({ version: SETTINGS_VERSION, settings: state }) : undefined),
+};
+
+// Other slices start from the settings too, before persistence hydrates the
+// store. Settings saved before app/persistence took over are a settings file
+// under their own key.
+export const loadSettings = (): Settings => {
+  const persisted = loadPersisted(persistedSettings) as Settings | undefined;
+  if (persisted) return persisted;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return parseStoredSettings(stored ?? { version: 0, settings: {} });
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    return defaultSettings;
+  }
+};
+
+export const toSettingsFile = (settings: Settings): SettingsFile => ({
+  version: SETTINGS_VERSION,
+  settings,
+});
+
+export const settingsSlice = createSlice({
+  name: 'settings',
+  initialState: loadSettings,
+  reducers: {
+    dataProviderChanged: (state, action: PayloadAction<MarketDataProviderId>) => {
+      state.dataProvider = action.payload;
+    },
+    apiBaseUrlChanged: (state, action: PayloadAction<string>) => {
+      state.apiBaseUrl = action.payload.trim();
+    },
+    themeChanged: (state, action: PayloadAction<Partial<ThemeSettings>>) => {
+      state.theme = { ...state.theme, ...action.payload };
+    },
+    defaultIntervalChanged: (state, action: PayloadAction<TimeInterval>) => {
+      state.defaultInterval = action.payload;
+    },
+    refreshIntervalChanged: (state, action: PayloadAction<{ key: keyof RefreshIntervals; ms: number }>) => {
+      state.refreshIntervals[action.payload.key] = action.payload.ms;
+    },
+    indicatorDefaultsChanged: (state, action: PayloadAction<ChartConfig>) => {
+      state.indicators = action.payload;
+    },
+    notificationSettingsChanged: (state, action: PayloadAction<Partial<NotificationSettings>>) => {
+      state.notifications = { ...state.notifications, ...action.payload };
+    },
+    settingsImported: (_, action: PayloadAction<Settings>) => action.payload,
+    settingsReset: () => defaultSettings,
+  },
+});
+
+export const {
+  dataProviderChanged,
+  apiBaseUrlChanged,
+  themeChanged,
+  defaultIntervalChanged,
+  refreshIntervalChanged,
+  indicatorDefaultsChanged,
+  notificationSettingsChanged,
+  settingsImported,
+  settingsReset,
+} = settingsSlice.actions;
+
+export const selectSettings = (state: { settings: Settings }) =>
+  state.settings;
+
+export const selectThemeSettings = (state: { settings: Settings }) =>
+  state.settings.theme;
+
+export const selectRefreshIntervals = (state: { settings: Settings }) =>
+  state.settings.refreshIntervals;
+
+export const selectNotificationSettings = (state: { settings: Settings }) =>
+  state.settings.notifications;
+
+export default settingsSlice.reducer;
@@ -0,0 +1,40 @@
+import { createSlice, nanoid, PayloadAction } from '@reduxjs/toolkit';
+import { CustomStrategy, StrategyRules } from '../../types/strategyRules';
+
+interface StrategiesState {
+  custom: CustomStrategy[];
+}
+
+const initialState: StrategiesState = {
+  custom: [],
+};
+
+// Strategies built in the rule editor. Rules are validated before they get
+// here; app/store persists them.
+export const strategiesSlice = createSlice({
+  name: 'strategies',
+  initialState,
+  reducers: {
+    customStrategySaved: {
+      reducer: (state, action: PayloadAction<CustomStrategy>) => {
+        const index = state.custom.findIndex((strategy) => strategy.id === action.payload.id);
+        if (index === -1) {
+          state.custom.push(action.payload);
+        } else {
+          state.custom[index] = action.payload;
+        }
+      },
+      // A new strategy without an id, or a new version of an existing one
+      prepare: (rules: StrategyRules, id: string = nanoid()) => ({ payload: { id, rules } }),
+    },
+    customStrategyDeleted: (state, action: PayloadAction<string>) => {
+      state.custom = state.custom.filter((strategy) => strategy.id !== action.payload);
+    },
+  },
+});
+
+export const { customStrategySaved, customStrategyDeleted } = strategiesSlice.actions;
+
+export const selectCustomStrategies = (state: { strategies: StrategiesState }) => state.strategies.custom;
+
+export default strategiesSlice.reducer;
@@ -1,4 +1,6 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { loadSettings } from '../settings/settingsSlice';
+import { CANDLE_WIDTH_MS } from '../../utils/candles';
 
 export type TimeInterval = '1m' | '5m' | '10m' | '30m' | '1h' | '1d' | '1w' | '1M' | '3M' | '6M' | '1y';
 
@@ -6,8 +8,18 @@ interface TimeIntervalState {
   interval: TimeInterval;
 }
 
-const initialState: TimeIntervalState = {
-  interval: '1m', // Default interval
+// Charts open on the interval picked in Settings
+const initialState = (): TimeIntervalState => ({
+  interval: loadSettings().defaultInterval,
+});
+
+// A stored interval, or undefined when it isn't one we know
+export const parseTimeInterval = (value: unknown): TimeIntervalState | undefined => {
+  const stored = value as TimeIntervalState | null;
+  if (!stored || !Object.keys(CANDLE_WIDTH_MS).includes(stored.interval)) {
+    return undefined;
+  }
+  return { interval: stored.interval };
 };
 
 export const timeIntervalSlice = createSlice({
@@ -17,6 +17,23 @@ const initialState: WalletState = {
   assets: [],
 };
 
+const isAsset = (value: unknown): value is CryptoAsset => {
+  const asset = value as CryptoAsset | null;
+  return typeof asset === 'object' && asset !== null &&
+    typeof asset.id === 'string' && typeof asset.symbol === 'string' && typeof asset.name === 'string' &&
+    Number.isFinite(asset.price) && Number.isFinite(asset.balance);
+};
+
+// A stored wallet, keeping the assets that are complete; undefined when it
+// has no asset list
+export const parseWallet = (value: unknown): WalletState | undefined => {
+  const stored = value as WalletState | null;
+  if (!stored || !Array.isArray(stored.assets)) {
+    return undefined;
+  }
+  return { assets: stored.assets.filter(isAsset) };
+};
+
 const walletSlice = createSlice({
   name: 'wallet',
   initialState,
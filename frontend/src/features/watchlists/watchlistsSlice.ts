@@ -0,0 +1,125 @@
+import { createSlice, nanoid, PayloadAction } from '@reduxjs/toolkit';
+import { MarketAsset } from '../../types/marketData';
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  assets: MarketAsset[];
+}
+
+interface WatchlistsState {
+  watchlists: Watchlist[];
+  activeId: string;
+}
+
+// Where watchlists were kept before app/persistence
+const STORAGE_KEY = 'watchlists';
+
+const defaultWatchlist: Watchlist = {
+  id: 'majors',
+  name: 'Majors',
+  assets: [
+    { id: 'bitcoin', symbol: 'BTC', name: 'Bitcoin' },
+    { id: 'ethereum', symbol: 'ETH', name: 'Ethereum' },
+    { id: 'ripple', symbol: 'XRP', name: 'Ripple' },
+    { id: 'litecoin', symbol: 'LTC', name: 'Litecoin' },
+    { id: 'cardano', symbol: 'ADA', name: 'Cardano' },
+  ],
+};
+
+const defaultState: WatchlistsState = {
+  watchlists: [defaultWatchlist],
+  activeId: defaultWatchlist.id,
+};
+
+// Stored watchlists, with the first active if the active one is gone;
+// undefined when there are none
+export const parseWatchlists = (value: unknown): WatchlistsState | undefined => {
+  const stored = value as WatchlistsState | null;
+  if (!stored || !Array.isArray(stored.watchlists) || stored.watchlists.length === 0) {
+    return undefined;
+  }
+  const activeId = stored.watchlists.some((list) => list.id === stored.activeId)
+    ? stored.activeId
+    : stored.watchlists[0].id;
+  return { watchlists: stored.watchlists, activeId };
+};
+
+// Watchlists saved before app/persistence took over, under their own key;
+// anything unreadable falls back to the default list
+const loadWatchlists = (): WatchlistsState => {
+  try {
+    return parseWatchlists(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null')) ?? defaultState;
+  } catch (error) {
+    console.error('Error loading watchlists:', error);
+    return defaultState;
+  }
+};
+
+const findWatchlist = (state: WatchlistsState, id: string) =>
+  state.watchlists.find((list) => list.id === id);
+
+export const watchlistsSlice = createSlice({
+  name: 'watchlists',
+  initialState: loadWatchlists,
+  reducers: {
+    watchlistCreated: {
+      reducer: (state, action: PayloadAction<Watchlist>) => {
+        state.watchlists.push(action.payload);
+        state.activeId = action.payload.id;
+      },
+      prepare: (name: string, assets: MarketAsset[] = []) => ({
+        payload: { id: nanoid(), name, assets },
+      }),
+    },
+    watchlistRenamed: (state, action: PayloadAction<{ id: string; name: string }>) => {
+      const list = findWatchlist(state, action.payload.id);
+      if (list) {
+        list.name = action.payload.name;
+      }
+    },
+    // The last watchlist can't be deleted, so there is always one to show
+    watchlistDeleted: (state, action: PayloadAction<string>) => {
+      if (state.watchlists.length <= 1) return;
+      state.watchlists = state.watchlists.filter((list) => list.id !== action.payload);
+      if (state.activeId === action.payload) {
+        state.activeId = state.watchlists[0].id;
+      }
+    },
+    activeWatchlistChanged: (state, action: PayloadAction<string>) => {
+      if (findWatchlist(state, action.payload)) {
+        state.activeId = action.payload;
+      }
+    },
+    assetAdded: (state, action: PayloadAction<{ watchlistId: string; asset: MarketAsset }>) => {
+      const { watchlistId, asset } = action.payload;
+      const list = findWatchlist(state, watchlistId);
+      if (list && !list.assets.some((a) => a.id === asset.id)) {
+        list.assets.push({ id: asset.id, symbol: asset.symbol.toUpperCase(), name: asset.name });
+      }
+    },
+    assetRemoved: (state, action: PayloadAction<{ watchlistId: string; assetId: string }>) => {
+      const list = findWatchlist(state, action.payload.watchlistId);
+      if (list) {
+        list.assets = list.assets.filter((asset) => asset.id !== action.payload.assetId);
+      }
+    },
+  },
+});
+
+export const {
+  watchlistCreated,
+  watchlistRenamed,
+  watchlistDeleted,
+  activeWatchlistChanged,
+  assetAdded,
+  assetRemoved,
+} = watchlistsSlice.actions;
+
+export const selectWatchlists = (state: { watchlists: WatchlistsState }) =>
+  state.watchlists.watchlists;
+
+export const selectActiveWatchlist = (state: { watchlists: WatchlistsState }) =>
+  findWatchlist(state.watchlists, state.watchlists.activeId) || state.watchlists.watchlists[0];
+
+export default watchlistsSlice.reducer;
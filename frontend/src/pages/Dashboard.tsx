@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import {
   Grid,
   Paper,
@@ -8,40 +8,30 @@ import {
   Card,
   CardContent,
 } from '@mui/material';
-import { useQuery } from '@tanstack/react-query';
-import { fetchStatus } from '../api/status';
+import { useTradingStatus } from '../api/hooks';
 import TimeIntervalSelector from '../components/TimeIntervalSelector';
+import DataProviderSelector from '../components/DataProviderSelector';
+import QuoteCurrencySelector from '../components/QuoteCurrencySelector';
 import PriceChart from '../components/PriceChart';
+import HealthPanel from '../components/HealthPanel';
+import WatchlistManager from '../components/WatchlistManager';
 import { useAppDispatch, useAppSelector } from '../app/hooks';
 import { setSelectedAsset } from '../features/chart/chartSlice';
+import { selectActiveWatchlist } from '../features/watchlists/watchlistsSlice';
 import { CryptoAsset } from '../types/chart';
-
-interface StatusResponse {
-  status: string;
-}
-
-const safeWalletAssetsSelector = (state: any) => {
-  try {
-    return state.wallet.assets;
-  } catch {
-    return [];
-  }
-};
+import { MarketAsset } from '../types/marketData';
 
 const Dashboard: React.FC = () => {
   const dispatch = useAppDispatch();
   const selectedInterval = useAppSelector((state) => state.timeInterval.interval);
-  const assets = useAppSelector(safeWalletAssetsSelector);
-
-  const { data: backendStatus, isLoading: isBackendLoading } = useQuery<StatusResponse>({
-    queryKey: ['backendStatus'],
-    queryFn: () => fetchStatus('/api/v1/status/backend'),
-  });
+  const watchlist = useAppSelector(selectActiveWatchlist);
+  const assets = useMemo<CryptoAsset[]>(
+    () => watchlist.assets.map((asset) => ({ ...asset, balance: 0, price: 0 })),
+    [watchlist]
+  );
 
-  const { data: tradingStatus, isLoading: isTradingLoading } = useQuery<StatusResponse>({
-    queryKey: ['tradingStatus'],
-    queryFn: () => fetchStatus('/api/v1/trading/status'),
-  });
+  const { data: tradingStatus, isLoading: isTradingLoading } = useTradingStatus();
+  const tradingState = tradingStatus && (tradingStatus.is_trading ? 'active' : 'inactive');
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -60,6 +50,10 @@ const Dashboard: React.FC = () => {
     dispatch(setSelectedAsset(asset));
   };
 
+  const handleWatchlistAssetClick = (asset: MarketAsset) => {
+    handleAssetChange({ ...asset, balance: 0, price: 0 });
+  };
+
   return (
     <Grid container spacing={3}>
       <Grid item xs={12}>
@@ -67,30 +61,9 @@ const Dashboard: React.FC = () => {
           Trading Bot Dashboard
         </Typography>
         <TimeIntervalSelector />
-      </Grid>
-
-      <Grid item xs={12} md={4}>
-        <Card>
-          <CardContent>
-            <Typography variant="h6" gutterBottom>
-              Backend Status
-            </Typography>
-            <Box sx={{ display: 'flex', alignItems: 'center' }}>
-              {isBackendLoading ? (
-                <CircularProgress size={24} />
-              ) : (
-                <Typography
-                  variant="h5"
-                  sx={{
-                    color: getStatusColor(backendStatus?.status || 'unknown'),
-                  }}
-                >
-                  {backendStatus?.status || 'Unknown'}
-                </Typography>
-              )}
-            </Box>
-          </CardContent>
-        </Card>
+        <DataProviderSelector />
+        <QuoteCurrencySelector />
+        <WatchlistManager onAssetClick={handleWatchlistAssetClick} />
       </Grid>
 
       <Grid item xs={12} md={4}>
@@ -106,10 +79,10 @@ const Dashboard: React.FC = () => {
                 <Typography
                   variant="h5"
                   sx={{
-                    color: getStatusColor(tradingStatus?.status || 'unknown'),
+                    color: getStatusColor(tradingState || 'unknown'),
                   }}
                 >
-                  {tradingStatus?.status || 'Unknown'}
+                  {tradingState || 'Unknown'}
                 </Typography>
               )}
             </Box>
@@ -117,6 +90,10 @@ const Dashboard: React.FC = () => {
         </Card>
       </Grid>
 
+      <Grid item xs={12} md={8}>
+        <HealthPanel />
+      </Grid>
+
       <Grid item xs={12}>
         <Paper sx={{ p: 2 }}>
           <Typography variant="h6" gutterBottom>
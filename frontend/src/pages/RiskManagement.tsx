@@ -1,15 +1,105 @@
+import React, { useMemo } from 'react';
+import { Alert, Box, Typography } from '@mui/material';
+import { useMutationState } from '@tanstack/react-query';
+import { useAppDispatch, useAppSelector, useMarketStream } from '../app/hooks';
+import { getApiErrorMessage } from '../api/client';
+import { apiQueryKeys, usePositions } from '../api/hooks';
+import RiskManager, { RiskPortfolioAsset } from '../components/RiskManager';
+import { selectTickers } from '../features/marketData/marketDataSlice';
+import {
+  positionSizeSet,
+  riskLevelChanged,
+  RiskLevel,
+  selectPositionLimits,
+  selectRiskLevel,
+  stopLossSet,
+  takeProfitSet,
+} from '../features/risk/riskSlice';
+import { selectRefreshIntervals } from '../features/settings/settingsSlice';
+import { selectActiveWatchlist } from '../features/watchlists/watchlistsSlice';
+import { getPositionAsset } from '../utils/positions';
 
-import { Box, Typography } from '@mui/material';
+const RiskManagement: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const riskLevel = useAppSelector(selectRiskLevel);
+  const limits = useAppSelector(selectPositionLimits);
+  const tickers = useAppSelector(selectTickers);
+  const watchlist = useAppSelector(selectActiveWatchlist);
+  const { trading: refetchInterval } = useAppSelector(selectRefreshIntervals);
+  const { data: positionsData, error: positionsError } = usePositions({ refetchInterval });
+
+  // The sync in Layout pushes every change; show whether the last push landed
+  const [lastSync] = useMutationState({
+    filters: { mutationKey: apiQueryKeys.riskProfile() },
+    select: (mutation) => mutation.state,
+  }).slice(-1);
+
+  const openPositions = useMemo(
+    () => (positionsData?.positions ?? []).filter((position) => position.quantity !== 0),
+    [positionsData]
+  );
+
+  const assets = useMemo(
+    () => openPositions.map((position) => getPositionAsset(position.asset_id, position.symbol, watchlist.assets)),
+    [openPositions, watchlist]
+  );
+  useMarketStream(assets);
+
+  // Live ticks are fresher than the backend's last reported price
+  const portfolio = useMemo<RiskPortfolioAsset[]>(
+    () => openPositions.map((position, index) => ({
+      ...assets[index],
+      quantity: position.quantity,
+      currentPrice: tickers[position.asset_id]?.price ?? position.current_price,
+      averagePrice: position.entry_price,
+    })),
+    [openPositions, assets, tickers]
+  );
+
+  // The backend knows positions by exchange symbol
+  const getSymbol = (asset: RiskPortfolioAsset) =>
+    openPositions.find((position) => position.asset_id === asset.id)?.symbol ?? asset.symbol;
+
+  const handleSetStopLoss = (asset: RiskPortfolioAsset, price: number) => {
+    dispatch(stopLossSet({ assetId: asset.id, symbol: getSymbol(asset), value: price }));
+  };
+
+  const handleSetTakeProfit = (asset: RiskPortfolioAsset, price: number) => {
+    dispatch(takeProfitSet({ assetId: asset.id, symbol: getSymbol(asset), value: price }));
+  };
+
+  const handleSetPositionSize = (asset: RiskPortfolioAsset, size: number) => {
+    dispatch(positionSizeSet({ assetId: asset.id, symbol: getSymbol(asset), value: size }));
+  };
+
+  const handleSetRiskLevel = (level: RiskLevel) => {
+    dispatch(riskLevelChanged(level));
+  };
 
-const RiskManagement = () => {
   return (
     <Box sx={{ p: 3 }}>
       <Typography variant="h4" component="h1" gutterBottom>
         Risk Management
       </Typography>
-      <Typography variant="body1">
-        Risk management page content will go here
-      </Typography>
+      {positionsError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Couldn't load positions: {getApiErrorMessage(positionsError)}
+        </Alert>
+      )}
+      {lastSync?.status === 'error' && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Limits are saved in this browser but the backend didn't accept them: {getApiErrorMessage(lastSync.error)}
+        </Alert>
+      )}
+      <RiskManager
+        portfolio={portfolio}
+        riskLevel={riskLevel}
+        limits={limits}
+        onSetStopLoss={handleSetStopLoss}
+        onSetTakeProfit={handleSetTakeProfit}
+        onSetPositionSize={handleSetPositionSize}
+        onSetRiskLevel={handleSetRiskLevel}
+      />
     </Box>
   );
 };
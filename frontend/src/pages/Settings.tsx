@@ -1,5 +1,11 @@
-
 import { Box, Typography } from '@mui/material';
+import ApiEndpointSettings from '../components/ApiEndpointSettings';
+import CacheStatsPanel from '../components/CacheStatsPanel';
+import GeneralSettings from '../components/GeneralSettings';
+import IndicatorDefaultsSettings from '../components/IndicatorDefaultsSettings';
+import NotificationPreferences from '../components/NotificationPreferences';
+import SettingsImportExport from '../components/SettingsImportExport';
+import { coingeckoRequests } from '../services/coingecko';
 
 const Settings = () => {
   return (
@@ -7,9 +13,12 @@ const Settings = () => {
       <Typography variant="h4" component="h1" gutterBottom>
         Settings
       </Typography>
-      <Typography variant="body1">
-        Settings page content will go here
-      </Typography>
+      <GeneralSettings />
+      <ApiEndpointSettings />
+      <IndicatorDefaultsSettings />
+      <NotificationPreferences />
+      <SettingsImportExport />
+      <CacheStatsPanel requestLayer={coingeckoRequests} title="CoinGecko request cache" />
     </Box>
   );
 };
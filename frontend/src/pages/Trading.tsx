@@ -1,15 +1,202 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, Box, Card, CardContent, Chip, Grid, Stack, Tab, Tabs, Typography } from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import { useInterval } from 'usehooks-ts';
+import {
+  useAppSelector,
+  useMarketDataProvider,
+  useMarketStream,
+  useNotify,
+  useOrderBooks,
+  usePaperFill,
+} from '../app/hooks';
+import { getApiErrorMessage } from '../api/client';
+import {
+  useAmendOrder,
+  useCancelOrder,
+  useFills,
+  useOrders,
+  usePlaceOrder,
+  usePositions,
+  useReportPrices,
+} from '../api/hooks';
+import { MarketPrice, OrderAmendment, OrderRequest, Position } from '../api/schemas';
+import AssetPicker from '../components/AssetPicker';
+import FillsBlotter from '../components/FillsBlotter';
+import OpenOrdersTable from '../components/OpenOrdersTable';
+import OrderTicket from '../components/OrderTicket';
+import PaperStrategyRunner from '../components/PaperStrategyRunner';
+import PositionsTable from '../components/PositionsTable';
+import { selectTickers } from '../features/marketData/marketDataSlice';
+import { selectRefreshIntervals } from '../features/settings/settingsSlice';
+import { selectActiveWatchlist } from '../features/watchlists/watchlistsSlice';
+import { toBinanceSymbol } from '../services/binance';
+import { MarketAsset } from '../types/marketData';
+import { getPositionAsset } from '../utils/positions';
 
-import { Box, Typography } from '@mui/material';
+// How often live prices are pushed to the paper broker so resting orders can fill
+const PRICE_REPORT_INTERVAL_MS = 5000;
+
+const DEFAULT_ASSET: MarketAsset = { id: 'bitcoin', symbol: 'btc', name: 'Bitcoin' };
+
+const Trading: React.FC = () => {
+  const watchlist = useAppSelector(selectActiveWatchlist);
+  const tickers = useAppSelector(selectTickers);
+  const provider = useMarketDataProvider();
+  const { trading: refetchInterval } = useAppSelector(selectRefreshIntervals);
+  const [asset, setAsset] = useState<MarketAsset>(watchlist.assets[0] ?? DEFAULT_ASSET);
+  const [blotterTab, setBlotterTab] = useState<'orders' | 'fills'>('orders');
+
+  const { data: positionsData } = usePositions({ refetchInterval });
+  const { data: ordersData } = useOrders({ refetchInterval });
+  const { data: fillsData } = useFills({ refetchInterval });
+  const placeOrder = usePlaceOrder();
+  const amendOrder = useAmendOrder();
+  const cancelOrder = useCancelOrder();
+  const reportPrices = useReportPrices();
+  const paperFill = usePaperFill();
+  const notify = useNotify();
+
+  const positions = useMemo(() => positionsData?.positions ?? [], [positionsData]);
+  const openOrders = useMemo(
+    () => (ordersData?.orders ?? []).filter((order) => order.status === 'open'),
+    [ordersData]
+  );
+
+  // Notify about fills that arrive while the page is open, not the history
+  const seenFills = useRef<Set<string> | null>(null);
+  useEffect(() => {
+    if (!fillsData) return;
+    if (seenFills.current) {
+      fillsData.fills
+        .filter((fill) => !seenFills.current?.has(fill.id))
+        .forEach((fill) => notify(
+          'orderFills',
+          `${fill.side === 'buy' ? 'Bought' : 'Sold'} ${fill.quantity} ${fill.symbol}`,
+          `Filled at ${fill.price} USD (order ${fill.order_id})`
+        ));
+    }
+    seenFills.current = new Set(fillsData.fills.map((fill) => fill.id));
+  }, [fillsData, notify]);
+
+  const getAsset = useCallback(
+    (assetId: string, symbol: string) => getPositionAsset(assetId, symbol, watchlist.assets),
+    [watchlist.assets]
+  );
+
+  // Everything the page needs a live price for
+  const streamAssets = useMemo(() => {
+    const byId = new Map<string, MarketAsset>([[asset.id, asset]]);
+    [...positions, ...openOrders].forEach(({ asset_id, symbol }) => {
+      if (!byId.has(asset_id)) byId.set(asset_id, getAsset(asset_id, symbol));
+    });
+    return Array.from(byId.values());
+  }, [asset, positions, openOrders, getAsset]);
+  useMarketStream(streamAssets);
+
+  // Market orders for the asset on the ticket fill against its order book
+  const bookAssets = useMemo(() => [asset], [asset]);
+  useOrderBooks(bookAssets);
+
+  // Providers without a stream (or before the first tick) still need a price
+  const { data: polledTicker } = useQuery({
+    queryKey: ['ticker', provider.id, asset.id],
+    queryFn: () => provider.getTicker(asset.id, 'usd'),
+    refetchInterval: 30000,
+  });
+  const lastPrice = tickers[asset.id]?.price ?? polledTicker?.price;
+
+  useInterval(() => {
+    const prices: MarketPrice[] = streamAssets
+      .filter((streamAsset) => tickers[streamAsset.id])
+      .map((streamAsset) => ({ symbol: toBinanceSymbol(streamAsset), price: tickers[streamAsset.id].price }));
+    if (prices.length > 0 && !reportPrices.isPending) {
+      reportPrices.mutate(prices);
+    }
+  }, PRICE_REPORT_INTERVAL_MS);
+
+  // Same shape as PortfolioManager's onTrade: a market order at the last price
+  const handleTrade = (tradeAsset: MarketAsset, quantity: number, isBuy: boolean) => {
+    placeOrder.mutate(paperFill({
+      asset_id: tradeAsset.id,
+      symbol: toBinanceSymbol(tradeAsset),
+      side: isBuy ? 'buy' : 'sell',
+      type: 'market',
+      quantity,
+      reference_price: tickers[tradeAsset.id]?.price ?? positions.find((p) => p.asset_id === tradeAsset.id)?.current_price,
+    }));
+  };
+
+  const handleSubmit = (order: OrderRequest) => placeOrder.mutateAsync(paperFill(order));
+  const handleAmend = (orderId: string, amendment: OrderAmendment) => amendOrder.mutateAsync({ orderId, amendment });
+  const handleCancel = (orderId: string) => cancelOrder.mutate(orderId);
+
+  const blotterError = amendOrder.error ?? cancelOrder.error;
 
-const Trading = () => {
   return (
     <Box sx={{ p: 3 }}>
       <Typography variant="h4" component="h1" gutterBottom>
         Trading
       </Typography>
-      <Typography variant="body1">
-        Trading page content will go here
-      </Typography>
+
+      <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap sx={{ mb: 3 }}>
+        {watchlist.assets.map((watched) => (
+          <Chip
+            key={watched.id}
+            label={watched.symbol.toUpperCase()}
+            color={watched.id === asset.id ? 'primary' : 'default'}
+            onClick={() => setAsset(watched)}
+          />
+        ))}
+        <AssetPicker label="Trade another asset" onSelect={setAsset} />
+      </Stack>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={4}>
+          <OrderTicket
+            asset={asset}
+            lastPrice={lastPrice}
+            onSubmit={handleSubmit}
+            submitting={placeOrder.isPending}
+            error={placeOrder.error ? getApiErrorMessage(placeOrder.error) : null}
+          />
+          <PaperStrategyRunner asset={asset} />
+        </Grid>
+
+        <Grid item xs={12} md={8}>
+          <Card sx={{ mb: 3 }}>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                Positions
+              </Typography>
+              <PositionsTable
+                positions={positions}
+                getAsset={(position: Position) => getAsset(position.asset_id, position.symbol)}
+                onTrade={handleTrade}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent>
+              <Tabs value={blotterTab} onChange={(_, value) => setBlotterTab(value)} sx={{ mb: 2 }}>
+                <Tab value="orders" label={`Open orders (${openOrders.length})`} />
+                <Tab value="fills" label="Fills" />
+              </Tabs>
+              {blotterError && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  {getApiErrorMessage(blotterError)}
+                </Alert>
+              )}
+              {blotterTab === 'orders' ? (
+                <OpenOrdersTable orders={openOrders} onCancel={handleCancel} onAmend={handleAmend} />
+              ) : (
+                <FillsBlotter fills={fillsData?.fills ?? []} />
+              )}
+            </CardContent>
+          </Card>
+        </Grid>
+      </Grid>
     </Box>
   );
 };
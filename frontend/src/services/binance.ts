@@ -0,0 +1,40 @@
+import axios from 'axios';
+import { MarketAsset, OrderBook, OrderBookLevel } from '../types/marketData';
+
+interface BinanceDepth {
+  lastUpdateId: number;
+  bids: [string, string][]; // [price, quantity]
+  asks: [string, string][];
+}
+
+// The REST depth endpoint only accepts these limits
+const DEPTH_LIMITS = [5, 10, 20, 50, 100, 500, 1000, 5000];
+
+// Assets are quoted against USDT, which we treat as USD
+export const toBinanceSymbol = (asset: MarketAsset) => `${asset.symbol.toUpperCase()}USDT`;
+
+export const parseBinanceLevels = (levels: [string, string][]): OrderBookLevel[] =>
+  levels.map(([price, amount]) => ({ price: parseFloat(price), amount: parseFloat(amount) }));
+
+export const binanceApi = {
+  baseUrl: 'https://api.binance.com/api/v3',
+
+  async getOrderBook(asset: MarketAsset, depth: number = 100): Promise<OrderBook> {
+    try {
+      const limit = DEPTH_LIMITS.find((l) => l >= depth) ?? 5000;
+      const response = await axios.get<BinanceDepth>(`${this.baseUrl}/depth`, {
+        params: { symbol: toBinanceSymbol(asset), limit },
+      });
+      return {
+        assetId: asset.id,
+        bids: parseBinanceLevels(response.data.bids).slice(0, depth),
+        asks: parseBinanceLevels(response.data.asks).slice(0, depth),
+        sequence: response.data.lastUpdateId,
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      console.error('Error fetching order book:', error);
+      throw error;
+    }
+  },
+};
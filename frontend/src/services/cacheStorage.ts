@@ -0,0 +1,89 @@
+export interface CacheEntry<T = unknown> {
+  key: string;
+  data: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface PersistentCache {
+  get: <T>(key: string) => Promise<CacheEntry<T> | undefined>;
+  set: (entry: CacheEntry) => Promise<void>;
+  clear: () => Promise<void>;
+  count: () => Promise<number>;
+  prune: (olderThanMs: number) => Promise<void>;
+}
+
+const STORE_NAME = 'responses';
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (name: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// IndexedDB-backed response cache. Storage is best effort: when IndexedDB is
+// missing or fails (private browsing, quota) every call resolves as a miss.
+export const createPersistentCache = (databaseName: string): PersistentCache => {
+  let database: Promise<IDBDatabase | null> | null = null;
+
+  const getDatabase = () => {
+    if (!database) {
+      database =
+        typeof indexedDB === 'undefined'
+          ? Promise.resolve(null)
+          : openDatabase(databaseName).catch((error) => {
+              console.error('Error opening response cache:', error);
+              return null;
+            });
+    }
+    return database;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T | undefined> => {
+    const db = await getDatabase();
+    if (!db) return undefined;
+    try {
+      return await requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+    } catch (error) {
+      console.error('Error accessing response cache:', error);
+      return undefined;
+    }
+  };
+
+  return {
+    get: <T>(key: string) =>
+      withStore('readonly', (store) => store.get(key) as IDBRequest<CacheEntry<T> | undefined>),
+
+    async set(entry) {
+      await withStore('readwrite', (store) => store.put(entry));
+    },
+
+    async clear() {
+      await withStore('readwrite', (store) => store.clear());
+    },
+
+    async count() {
+      return (await withStore('readonly', (store) => store.count())) ?? 0;
+    },
+
+    async prune(olderThanMs) {
+      const cutoff = Date.now() - olderThanMs;
+      const entries = await withStore('readonly', (store) => store.getAll() as IDBRequest<CacheEntry[]>);
+      const stale = (entries || []).filter((entry) => entry.storedAt < cutoff);
+      await Promise.all(stale.map(({ key }) => withStore('readwrite', (store) => store.delete(key))));
+    },
+  };
+};
@@ -1,6 +1,16 @@
-import axios from 'axios';
 import { ChartData } from '../types/chart';
+import { ExchangeRates, MarketDataProvider, QuoteCurrency, Ticker } from '../types/marketData';
 import { TimeInterval } from '../features/timeInterval/timeIntervalSlice';
+import {
+  CANDLE_WIDTH_MS,
+  MIN_TICKS_PER_CANDLE,
+  getMedianSpacing,
+  resampleCandles,
+  sampleAt,
+  ticksToCandles,
+  volumeForWidth,
+} from '../utils/candles';
+import { createRequestLayer } from './requestLayer';
 
 interface CoinGeckoPriceData {
   prices: [number, number][]; // [timestamp, price]
@@ -8,6 +18,42 @@ interface CoinGeckoPriceData {
   total_volumes: [number, number][];
 }
 
+// Keyed by the quote currency, e.g. `eur`, `eur_24h_change`, `eur_market_cap`
+type CoinGeckoSimplePrice = Record<string, Record<string, number | undefined>>;
+
+// Every rate is quoted against one bitcoin
+interface CoinGeckoExchangeRates {
+  rates: Record<string, { name: string; unit: string; value: number; type: 'crypto' | 'fiat' }>;
+}
+
+type CoinGeckoOHLC = [number, number, number, number, number]; // [timestamp, open, high, low, close]
+
+// The OHLC endpoint only accepts these lookback values
+const OHLC_DAYS = [1, 7, 14, 30, 90, 180, 365];
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// The public API only serves the past year of history
+const HISTORY_DAYS = 365;
+
+// How long each endpoint's responses stay fresh. Intraday charts move quickly,
+// the asset list hardly ever changes.
+const CACHE_TTL_MS = {
+  coinsList: 24 * 60 * MINUTE,
+  coinDetails: 60 * MINUTE,
+  intradayChart: MINUTE,
+  historicalChart: 15 * MINUTE,
+  simplePrice: 30 * 1000,
+  exchangeRates: 10 * MINUTE,
+};
+
+// The free tier allows a handful of calls per minute; stay under it
+export const coingeckoRequests = createRequestLayer({
+  name: 'coingecko',
+  rateLimit: { capacity: 10, refillPerSecond: 10 / 60 },
+});
+
 export interface CoinGeckoAsset {
   id: string;
   symbol: string;
@@ -19,22 +65,24 @@ export const coingeckoApi = {
 
   async getSupportedAssets(): Promise<CoinGeckoAsset[]> {
     try {
-      const response = await axios.get(`${this.baseUrl}/coins/list`);
-      return response.data;
+      return await coingeckoRequests.get<CoinGeckoAsset[]>(`${this.baseUrl}/coins/list`, {
+        ttlMs: CACHE_TTL_MS.coinsList,
+      });
     } catch (error) {
       console.error('Error fetching assets:', error);
       throw error;
     }
   },
 
-  async getHistoricalData(
+  async getMarketChart(
     assetId: string,
     days: number,
-    interval: TimeInterval
-  ): Promise<ChartData[]> {
+    interval: TimeInterval,
+    quote: QuoteCurrency = 'usd'
+  ): Promise<CoinGeckoPriceData> {
     try {
       const params: any = {
-        vs_currency: 'usd',
+        vs_currency: quote,
         days: days,
       };
       if (interval === '1y') {
@@ -42,42 +90,168 @@ export const coingeckoApi = {
       }
       // For other intervals, do not add the interval parameter to avoid 401 error
 
-      const response = await axios.get<CoinGeckoPriceData>(
+      return await coingeckoRequests.get<CoinGeckoPriceData>(
         `${this.baseUrl}/coins/${assetId}/market_chart`,
         {
           params,
+          ttlMs: days <= 1 ? CACHE_TTL_MS.intradayChart : CACHE_TTL_MS.historicalChart,
         }
       );
+    } catch (error) {
+      console.error('Error fetching market chart:', error);
+      throw error;
+    }
+  },
+
+  async getOHLC(assetId: string, days: number, quote: QuoteCurrency = 'usd'): Promise<CoinGeckoOHLC[]> {
+    try {
+      const ohlcDays = OHLC_DAYS.find((d) => d >= days) ?? 'max';
+      return await coingeckoRequests.get<CoinGeckoOHLC[]>(
+        `${this.baseUrl}/coins/${assetId}/ohlc`,
+        {
+          params: {
+            vs_currency: quote,
+            days: ohlcDays,
+          },
+          ttlMs: ohlcDays === 1 ? CACHE_TTL_MS.intradayChart : CACHE_TTL_MS.historicalChart,
+        }
+      );
+    } catch (error) {
+      console.error('Error fetching OHLC data:', error);
+      throw error;
+    }
+  },
+
+  async getHistoricalData(
+    assetId: string,
+    days: number,
+    interval: TimeInterval,
+    quote: QuoteCurrency = 'usd'
+  ): Promise<ChartData[]> {
+    try {
+      const width = CANDLE_WIDTH_MS[interval];
+      const chart = await this.getMarketChart(assetId, days, interval, quote);
+      const tickSpacing = getMedianSpacing(chart.prices.map(([timestamp]) => timestamp));
+
+      // Enough ticks per candle: build the candles ourselves at the requested width
+      if (tickSpacing > 0 && width >= tickSpacing * MIN_TICKS_PER_CANDLE) {
+        return ticksToCandles(chart.prices, chart.total_volumes, width);
+      }
+
+      // Ticks are too sparse for a real range, use CoinGecko's own candles
+      // instead. Those can be wider than asked for; see candleWidth.
+      const since = Date.now() - days * DAY;
+      const ohlc = await this.getOHLC(assetId, days, quote);
+      const ohlcWidth = getMedianSpacing(ohlc.map(([timestamp]) => timestamp));
+      // OHLC timestamps mark each candle's close; ours mark its start
+      const candles: ChartData[] = ohlc
+        .filter(([timestamp]) => timestamp - ohlcWidth >= since)
+        .map(([timestamp, open, high, low, close]) => ({
+          timestamp: timestamp - ohlcWidth,
+          price: close,
+          open,
+          high,
+          low,
+          close,
+          volume: volumeForWidth(sampleAt(chart.total_volumes, timestamp), ohlcWidth),
+        }));
 
-      // Convert CoinGecko data to our ChartData format
-      const data: ChartData[] = response.data.prices.map(([timestamp, price]: [number, number], index: number) => ({
-        timestamp,
-        price,
-        volume: response.data.total_volumes[index] ? response.data.total_volumes[index][1] : 0,
-        high: price, // fallback since high not provided
-        low: price,  // fallback since low not provided
-        // We'll calculate these indicators later
-        rsi: undefined,
-        macd: undefined,
-        macdSignal: undefined,
-        upperBand: undefined,
-        lowerBand: undefined,
-      }));
-
-      return data;
+      return resampleCandles(candles, width);
     } catch (error) {
       console.error('Error fetching historical data:', error);
       throw error;
     }
   },
 
+  async getTickers(assetIds: string[], quote: QuoteCurrency = 'usd'): Promise<Ticker[]> {
+    try {
+      // Sorted so the same set of assets always shares one cache entry
+      const quotes = await coingeckoRequests.get<CoinGeckoSimplePrice>(`${this.baseUrl}/simple/price`, {
+        ttlMs: CACHE_TTL_MS.simplePrice,
+        params: {
+          ids: [...assetIds].sort().join(','),
+          vs_currencies: quote,
+          include_24hr_change: true,
+          include_24hr_vol: true,
+          include_market_cap: true,
+          include_last_updated_at: true,
+        },
+      });
+
+      return assetIds
+        .filter((assetId) => quotes[assetId])
+        .map((assetId) => {
+          const values = quotes[assetId];
+          const lastUpdatedAt = values.last_updated_at;
+          return {
+            assetId,
+            price: values[quote] ?? 0,
+            change24h: values[`${quote}_24h_change`] ?? 0,
+            volume24h: values[`${quote}_24h_vol`] ?? 0,
+            marketCap: values[`${quote}_market_cap`],
+            timestamp: lastUpdatedAt ? lastUpdatedAt * 1000 : Date.now(),
+          };
+        });
+    } catch (error) {
+      console.error('Error fetching tickers:', error);
+      throw error;
+    }
+  },
+
+  // Rebased from CoinGecko's per-bitcoin rates to units per US dollar
+  async getExchangeRates(): Promise<ExchangeRates> {
+    try {
+      const { rates } = await coingeckoRequests.get<CoinGeckoExchangeRates>(`${this.baseUrl}/exchange_rates`, {
+        ttlMs: CACHE_TTL_MS.exchangeRates,
+      });
+      const usd = rates.usd?.value;
+      if (!usd) {
+        throw new Error('CoinGecko exchange rates have no USD rate');
+      }
+      const perUsd: ExchangeRates = {};
+      Object.entries(rates).forEach(([currency, rate]) => {
+        perUsd[currency as QuoteCurrency] = rate.value / usd;
+      });
+      return perUsd;
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error);
+      throw error;
+    }
+  },
+
   async getAssetDetails(assetId: string): Promise<any> {
     try {
-      const response = await axios.get(`${this.baseUrl}/coins/${assetId}`);
-      return response.data;
+      return await coingeckoRequests.get<any>(`${this.baseUrl}/coins/${assetId}`, {
+        ttlMs: CACHE_TTL_MS.coinDetails,
+      });
     } catch (error) {
       console.error('Error fetching asset details:', error);
       throw error;
     }
   },
 };
+
+export const coingeckoProvider: MarketDataProvider = {
+  id: 'coingecko',
+  name: 'CoinGecko',
+  getAssets: () => coingeckoApi.getSupportedAssets(),
+  getHistoricalCandles: (assetId, days, interval, quote) =>
+    coingeckoApi.getHistoricalData(assetId, days, interval, quote),
+  async getHistoryRange() {
+    const end = Date.now();
+    return { start: end - HISTORY_DAYS * DAY, end };
+  },
+  getTickers: (assetIds, quote) => coingeckoApi.getTickers(assetIds, quote),
+  getExchangeRates: () => coingeckoApi.getExchangeRates(),
+  async getTicker(assetId, quote) {
+    const [ticker] = await coingeckoApi.getTickers([assetId], quote);
+    if (!ticker) {
+      throw new Error(`No CoinGecko price for ${assetId}`);
+    }
+    return ticker;
+  },
+  async getOrderBook(asset) {
+    // CoinGecko only publishes aggregated prices, there is no depth endpoint
+    throw new Error(`Order book for ${asset.id} is not available from CoinGecko`);
+  },
+};
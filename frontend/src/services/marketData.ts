@@ -0,0 +1,23 @@
+import { MarketDataProvider, MarketDataProviderId } from '../types/marketData';
+import { coingeckoProvider } from './coingecko';
+import { createReplayProvider, loadReplayFixtures } from './replay';
+import { marketStream } from './streaming';
+
+const providers: Record<MarketDataProviderId, MarketDataProvider> = {
+  // CoinGecko has no streaming API or order books; both come from the exchange stream
+  coingecko: {
+    ...coingeckoProvider,
+    stream: marketStream,
+    getOrderBook: (asset, depth) => marketStream.getOrderBook(asset, depth),
+  },
+  replay: createReplayProvider(() => loadReplayFixtures()),
+};
+
+export const MARKET_DATA_PROVIDERS: MarketDataProvider[] = Object.values(providers);
+
+// Set REACT_APP_MARKET_DATA_PROVIDER=replay to start the dashboard offline
+export const DEFAULT_MARKET_DATA_PROVIDER: MarketDataProviderId =
+  process.env.REACT_APP_MARKET_DATA_PROVIDER === 'replay' ? 'replay' : 'coingecko';
+
+export const getMarketDataProvider = (id: MarketDataProviderId): MarketDataProvider =>
+  providers[id] || providers[DEFAULT_MARKET_DATA_PROVIDER];
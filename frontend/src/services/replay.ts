@@ -0,0 +1,220 @@
+import axios from 'axios';
+import { ChartData } from '../types/chart';
+import {
+  ExchangeRates,
+  MarketAsset,
+  MarketDataProvider,
+  OrderBook,
+  QuoteCurrency,
+  Ticker,
+} from '../types/marketData';
+import { CANDLE_WIDTH_MS, resampleCandles } from '../utils/candles';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const REPLAY_FIXTURES_URL =
+  process.env.REACT_APP_REPLAY_FIXTURES_URL || `${process.env.PUBLIC_URL || ''}/fixtures/market-data`;
+
+export interface ReplayFixtures {
+  assets: MarketAsset[];
+  candles: Record<string, ChartData[]>;
+  orderBooks: Record<string, OrderBook>;
+  exchangeRates: ExchangeRates; // units per US dollar
+}
+
+// manifest.json lists every recorded asset and the files holding its data.
+// Candle files can be CSV (timestamp,open,high,low,close,volume) or a JSON array
+// of the same rows, with the volume traded within each candle. Prices and
+// volumes are recorded in US dollars; `exchangeRates` lists the other quote
+// currencies the replay can convert them to.
+interface ReplayManifest {
+  description?: string;
+  exchangeRates?: ExchangeRates;
+  assets: (MarketAsset & {
+    candles: string;
+    orderBook?: string;
+  })[];
+}
+
+type CandleRow = [number, number, number, number, number, number];
+
+const rowToCandle = ([timestamp, open, high, low, close, volume]: CandleRow): ChartData => ({
+  timestamp,
+  price: close,
+  open,
+  high,
+  low,
+  close,
+  volume,
+});
+
+export const parseCandlesCSV = (text: string): ChartData[] => {
+  const lines = text.trim().split(/\r?\n/);
+  const header = lines[0].split(',').map((column) => column.trim().toLowerCase());
+  const columns = ['timestamp', 'open', 'high', 'low', 'close', 'volume'].map((name) => {
+    const index = header.indexOf(name);
+    if (index === -1) {
+      throw new Error(`Candle CSV is missing the "${name}" column`);
+    }
+    return index;
+  });
+
+  return lines
+    .slice(1)
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      const cells = line.split(',');
+      return rowToCandle(columns.map((index) => parseFloat(cells[index])) as CandleRow);
+    });
+};
+
+const loadCandles = async (url: string): Promise<ChartData[]> => {
+  if (url.endsWith('.csv')) {
+    const response = await axios.get<string>(url, { responseType: 'text' });
+    return parseCandlesCSV(response.data);
+  }
+  const response = await axios.get<CandleRow[]>(url);
+  return response.data.map(rowToCandle);
+};
+
+export const loadReplayFixtures = async (baseUrl: string = REPLAY_FIXTURES_URL): Promise<ReplayFixtures> => {
+  try {
+    const { data: manifest } = await axios.get<ReplayManifest>(`${baseUrl}/manifest.json`);
+    const fixtures: ReplayFixtures = {
+      assets: [],
+      candles: {},
+      orderBooks: {},
+      exchangeRates: { ...manifest.exchangeRates, usd: 1 },
+    };
+
+    await Promise.all(
+      manifest.assets.map(async ({ candles, orderBook, ...asset }) => {
+        fixtures.candles[asset.id] = (await loadCandles(`${baseUrl}/${candles}`))
+          .sort((a, b) => a.timestamp - b.timestamp);
+        if (orderBook) {
+          const { data } = await axios.get<Omit<OrderBook, 'assetId'>>(`${baseUrl}/${orderBook}`);
+          fixtures.orderBooks[asset.id] = { ...data, assetId: asset.id };
+        }
+      })
+    );
+    fixtures.assets = manifest.assets.map(({ id, symbol, name }) => ({ id, symbol, name }));
+
+    return fixtures;
+  } catch (error) {
+    console.error('Error loading replay fixtures:', error);
+    throw error;
+  }
+};
+
+const convertCandle = (candle: ChartData, rate: number): ChartData => ({
+  ...candle,
+  price: candle.price * rate,
+  open: candle.open * rate,
+  high: candle.high * rate,
+  low: candle.low * rate,
+  close: candle.close * rate,
+  volume: candle.volume !== undefined ? candle.volume * rate : undefined,
+});
+
+// Serves recorded fixtures instead of live data. Everything is relative to the
+// last recorded candle rather than the wall clock, so the same fixtures always
+// produce the same charts, tickers and order books.
+export const createReplayProvider = (
+  source: ReplayFixtures | (() => Promise<ReplayFixtures>)
+): MarketDataProvider => {
+  let fixtures: Promise<ReplayFixtures> | null = null;
+
+  const getFixtures = () => {
+    if (!fixtures) {
+      fixtures = typeof source === 'function' ? source() : Promise.resolve(source);
+      // Allow a retry after a failed load instead of caching the rejection
+      fixtures.catch(() => {
+        fixtures = null;
+      });
+    }
+    return fixtures;
+  };
+
+  const getRecordedCandles = async (assetId: string) => {
+    const candles = (await getFixtures()).candles[assetId];
+    if (!candles || candles.length === 0) {
+      throw new Error(`No recorded candles for ${assetId}`);
+    }
+    return candles;
+  };
+
+  const getRate = async (quote: QuoteCurrency) => {
+    const rate = (await getFixtures()).exchangeRates[quote];
+    if (!rate) {
+      throw new Error(`No recorded exchange rate for ${quote.toUpperCase()}`);
+    }
+    return rate;
+  };
+
+  const getTicker = async (assetId: string, quote: QuoteCurrency = 'usd'): Promise<Ticker> => {
+    const candles = await getRecordedCandles(assetId);
+    const rate = await getRate(quote);
+    const last = candles[candles.length - 1];
+    const dayAgo = candles.find((c) => c.timestamp >= last.timestamp - DAY) || candles[0];
+    const volume24h = candles
+      .filter((c) => c.timestamp > last.timestamp - DAY)
+      .reduce((sum, c) => sum + (c.volume || 0), 0);
+
+    return {
+      assetId,
+      price: last.close * rate,
+      change24h: ((last.close - dayAgo.close) / dayAgo.close) * 100,
+      volume24h: volume24h * rate,
+      timestamp: last.timestamp,
+    };
+  };
+
+  return {
+    id: 'replay',
+    name: 'Local replay',
+
+    async getAssets() {
+      return (await getFixtures()).assets;
+    },
+
+    async getHistoricalCandles(assetId, days, interval, quote = 'usd') {
+      const candles = await getRecordedCandles(assetId);
+      const rate = await getRate(quote);
+      const since = candles[candles.length - 1].timestamp - days * DAY;
+      return resampleCandles(
+        candles.filter((c) => c.timestamp >= since).map((c) => convertCandle(c, rate)),
+        CANDLE_WIDTH_MS[interval]
+      );
+    },
+
+    async getHistoryRange(assetId) {
+      const candles = await getRecordedCandles(assetId);
+      return { start: candles[0].timestamp, end: candles[candles.length - 1].timestamp };
+    },
+
+    getTicker,
+
+    async getTickers(assetIds, quote) {
+      const { candles } = await getFixtures();
+      return Promise.all(
+        assetIds.filter((assetId) => candles[assetId]).map((assetId) => getTicker(assetId, quote))
+      );
+    },
+
+    async getExchangeRates() {
+      return (await getFixtures()).exchangeRates;
+    },
+
+    async getOrderBook({ id: assetId }, depth = 50) {
+      const snapshot = (await getFixtures()).orderBooks[assetId];
+      if (!snapshot) {
+        throw new Error(`No recorded order book for ${assetId}`);
+      }
+      return {
+        ...snapshot,
+        bids: snapshot.bids.slice(0, depth),
+        asks: snapshot.asks.slice(0, depth),
+      };
+    },
+  };
+};
@@ -0,0 +1,226 @@
+import axios from 'axios';
+import { CacheEntry, createPersistentCache } from './cacheStorage';
+import {
+  TokenBucketOptions,
+  createTokenBucket,
+  getBackoffDelay,
+  parseRetryAfter,
+  sleep,
+} from '../utils/rateLimiter';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Persisted responses older than this are dropped, even as a stale fallback
+const PERSISTED_MAX_AGE_MS = 7 * DAY;
+
+export interface RequestLayerOptions {
+  name: string;
+  rateLimit: TokenBucketOptions;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxMemoryEntries?: number;
+  persist?: boolean; // keep responses in IndexedDB across reloads
+}
+
+export type RequestParams = Record<string, string | number | boolean | undefined>;
+
+export interface CachedGetOptions {
+  ttlMs: number;
+  params?: RequestParams;
+}
+
+export interface RequestLayerStats {
+  name: string;
+  requests: number;
+  memoryHits: number;
+  persistentHits: number;
+  deduplicated: number;
+  networkRequests: number;
+  retries: number;
+  rateLimited: number;
+  staleServed: number;
+  errors: number;
+  memoryEntries: number;
+  persistedEntries: number;
+  tokens: number;
+  pausedUntil: number;
+}
+
+export interface RequestLayer {
+  get: <T>(url: string, options: CachedGetOptions) => Promise<T>;
+  getStats: () => RequestLayerStats;
+  clear: () => Promise<void>;
+}
+
+const buildKey = (url: string, params: RequestParams = {}) => {
+  const query = Object.keys(params)
+    .filter((name) => params[name] !== undefined)
+    .sort()
+    .map((name) => `${name}=${params[name]}`)
+    .join('&');
+  return query ? `${url}?${query}` : url;
+};
+
+// Shared GET layer for third-party APIs: TTL cache in memory (and optionally
+// IndexedDB), one in-flight request per key, a token bucket in front of the
+// network, and retries with backoff. When every retry fails, an expired cached
+// response is served rather than an error.
+export const createRequestLayer = ({
+  name,
+  rateLimit,
+  maxRetries = 3,
+  baseDelayMs = 1000,
+  maxDelayMs = 60 * 1000,
+  maxMemoryEntries = 200,
+  persist = true,
+}: RequestLayerOptions): RequestLayer => {
+  const bucket = createTokenBucket(rateLimit);
+  const persistent = persist ? createPersistentCache(`${name}-responses`) : null;
+  const memory = new Map<string, CacheEntry>();
+  const inflight = new Map<string, Promise<unknown>>();
+  let pruned = false;
+
+  const stats = {
+    requests: 0,
+    memoryHits: 0,
+    persistentHits: 0,
+    deduplicated: 0,
+    networkRequests: 0,
+    retries: 0,
+    rateLimited: 0,
+    staleServed: 0,
+    errors: 0,
+    persistedEntries: 0,
+  };
+
+  // Map keeps insertion order, so re-inserting on use makes the first key the
+  // least recently used one
+  const remember = (entry: CacheEntry) => {
+    memory.delete(entry.key);
+    memory.set(entry.key, entry);
+    if (memory.size > maxMemoryEntries) {
+      memory.delete(memory.keys().next().value as string);
+    }
+  };
+
+  const getPersistent = async () => {
+    if (persistent && !pruned) {
+      pruned = true;
+      await persistent.prune(PERSISTED_MAX_AGE_MS);
+      stats.persistedEntries = await persistent.count();
+    }
+    return persistent;
+  };
+
+  const fetchWithRetry = async <T>(url: string, params?: RequestParams): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await bucket.take();
+      stats.networkRequests++;
+      try {
+        const response = await axios.get<T>(url, { params });
+        return response.data;
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        // No response at all usually means a network error, or a 429 the browser
+        // hid from us because it came back without CORS headers
+        const retryable =
+          axios.isAxiosError(error) && (status === undefined || status === 429 || status >= 500);
+        if (!retryable || attempt >= maxRetries) {
+          throw error;
+        }
+
+        let delay = getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+        if (status === 429) {
+          stats.rateLimited++;
+          const retryAfter = axios.isAxiosError(error)
+            ? parseRetryAfter(error.response?.headers?.['retry-after'])
+            : undefined;
+          delay = retryAfter ?? delay;
+        }
+        // Hold back every caller, not just this one, until the API recovers
+        bucket.pause(delay);
+        stats.retries++;
+        await sleep(delay);
+      }
+    }
+  };
+
+  const load = async <T>(key: string, url: string, { ttlMs, params }: CachedGetOptions): Promise<T> => {
+    let cached = memory.get(key) as CacheEntry<T> | undefined;
+
+    const store = await getPersistent();
+    if (!cached && store) {
+      cached = await store.get<T>(key);
+      if (cached) {
+        remember(cached);
+        if (cached.expiresAt > Date.now()) {
+          stats.persistentHits++;
+          return cached.data;
+        }
+      }
+    }
+
+    try {
+      const data = await fetchWithRetry<T>(url, params);
+      const storedAt = Date.now();
+      const entry: CacheEntry<T> = { key, data, storedAt, expiresAt: storedAt + ttlMs };
+      remember(entry);
+      if (store) {
+        await store.set(entry);
+        stats.persistedEntries = await store.count();
+      }
+      return data;
+    } catch (error) {
+      if (cached) {
+        stats.staleServed++;
+        console.warn(`Serving expired response for ${key}:`, error);
+        return cached.data;
+      }
+      stats.errors++;
+      throw error;
+    }
+  };
+
+  return {
+    get<T>(url: string, options: CachedGetOptions): Promise<T> {
+      stats.requests++;
+      const key = buildKey(url, options.params);
+
+      const cached = memory.get(key);
+      if (cached && cached.expiresAt > Date.now()) {
+        stats.memoryHits++;
+        remember(cached);
+        return Promise.resolve(cached.data as T);
+      }
+
+      const pending = inflight.get(key);
+      if (pending) {
+        stats.deduplicated++;
+        return pending as Promise<T>;
+      }
+
+      const request = load<T>(key, url, options).finally(() => inflight.delete(key));
+      inflight.set(key, request);
+      return request;
+    },
+
+    getStats() {
+      return {
+        name,
+        ...stats,
+        memoryEntries: memory.size,
+        tokens: bucket.getTokens(),
+        pausedUntil: bucket.getPausedUntil(),
+      };
+    },
+
+    async clear() {
+      memory.clear();
+      if (persistent) {
+        await persistent.clear();
+        stats.persistedEntries = 0;
+      }
+    },
+  };
+};
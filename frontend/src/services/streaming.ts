@@ -0,0 +1,378 @@
+import axios from 'axios';
+import {
+  MarketAsset,
+  MarketStream,
+  OrderBook,
+  OrderBookDiff,
+  StreamAdapter,
+  StreamChannel,
+  StreamMessage,
+  StreamStatus,
+  StreamTick,
+} from '../types/marketData';
+import { getBackoffDelay } from '../utils/rateLimiter';
+import { binanceApi, parseBinanceLevels, toBinanceSymbol } from './binance';
+
+export type StreamProtocol = 'binance' | 'json';
+
+// Defaults to Binance's public stream. Point REACT_APP_MARKET_STREAM_URL at
+// `npm run mock:stream` (ws://localhost:8765, protocol "json") to work offline.
+export const MARKET_STREAM_URL =
+  process.env.REACT_APP_MARKET_STREAM_URL || 'wss://stream.binance.com:9443/ws';
+export const MARKET_STREAM_PROTOCOL: StreamProtocol =
+  process.env.REACT_APP_MARKET_STREAM_PROTOCOL === 'json' ? 'json' : 'binance';
+
+interface JsonTickMessage {
+  type: 'tick';
+  assetId: string;
+  price: number;
+  volume24h?: number;
+  timestamp: number;
+}
+
+interface JsonOrderBookDiffMessage extends OrderBookDiff {
+  type: 'orderBookDiff';
+}
+
+// Minimal protocol spoken by the mock server in scripts/mockMarketStream.js:
+// {type: 'subscribe' | 'unsubscribe', channel, assets: [ids]}, {type: 'ping'} -> {type: 'pong'},
+// and {type: 'tick', ...StreamTick} / {type: 'orderBookDiff', ...OrderBookDiff}
+// pushed by the server. Order book snapshots are served over HTTP from the
+// same host at /orderbook/:assetId.
+export const createJsonStreamAdapter = (url: string): StreamAdapter => {
+  const httpUrl = url.replace(/^ws/, 'http').replace(/\/$/, '');
+
+  return {
+    subscribe: (assets, channel) =>
+      JSON.stringify({ type: 'subscribe', channel, assets: assets.map((asset) => asset.id) }),
+    unsubscribe: (assets, channel) =>
+      JSON.stringify({ type: 'unsubscribe', channel, assets: assets.map((asset) => asset.id) }),
+    ping: () => JSON.stringify({ type: 'ping' }),
+    decode(data) {
+      const message = JSON.parse(data);
+      if (message.type === 'tick') {
+        const { assetId, price, volume24h, timestamp } = message as JsonTickMessage;
+        return [{ type: 'tick', tick: { assetId, price, volume24h, timestamp } }];
+      }
+      if (message.type === 'orderBookDiff') {
+        const { type, ...diff } = message as JsonOrderBookDiffMessage;
+        return [{ type: 'orderBookDiff', diff }];
+      }
+      return [];
+    },
+    async getOrderBook(asset, depth) {
+      try {
+        const response = await axios.get<OrderBook>(`${httpUrl}/orderbook/${asset.id}`, {
+          params: { depth },
+        });
+        return response.data;
+      } catch (error) {
+        console.error('Error fetching order book:', error);
+        throw error;
+      }
+    },
+  };
+};
+
+interface BinanceMiniTicker {
+  e: '24hrMiniTicker';
+  E: number; // event time
+  s: string; // symbol, e.g. BTCUSDT
+  c: string; // last price
+}
+
+interface BinanceDepthUpdate {
+  e: 'depthUpdate';
+  E: number;
+  s: string;
+  U: number; // first update id in this event
+  u: number; // last update id in this event
+  b: [string, string][]; // [price, quantity]
+  a: [string, string][];
+}
+
+const BINANCE_STREAMS: Record<StreamChannel, string> = {
+  ticker: 'miniTicker',
+  orderBook: 'depth', // diffs once a second
+};
+
+// Binance 24h mini tickers and depth diffs, roughly one of each per second per
+// symbol. Volume is left out of ticks: it only covers Binance's own books, not
+// the aggregated volume the charts are built from. Binance pings at the
+// protocol level, so there is no application ping to send.
+export const createBinanceStreamAdapter = (): StreamAdapter => {
+  let requestId = 0;
+  const request = (method: string, assets: MarketAsset[], channel: StreamChannel) =>
+    JSON.stringify({
+      method,
+      params: assets.map((asset) => `${toBinanceSymbol(asset).toLowerCase()}@${BINANCE_STREAMS[channel]}`),
+      id: ++requestId,
+    });
+
+  return {
+    subscribe: (assets, channel) => request('SUBSCRIBE', assets, channel),
+    unsubscribe: (assets, channel) => request('UNSUBSCRIBE', assets, channel),
+    ping: () => null,
+    decode(data, assets) {
+      const message = JSON.parse(data);
+      const asset = assets.find((a) => toBinanceSymbol(a) === message.s);
+      if (!asset) return [];
+
+      if (message.e === '24hrMiniTicker') {
+        const ticker = message as BinanceMiniTicker;
+        return [{
+          type: 'tick',
+          tick: { assetId: asset.id, price: parseFloat(ticker.c), timestamp: ticker.E },
+        }];
+      }
+      if (message.e === 'depthUpdate') {
+        const update = message as BinanceDepthUpdate;
+        return [{
+          type: 'orderBookDiff',
+          diff: {
+            assetId: asset.id,
+            firstSequence: update.U,
+            sequence: update.u,
+            bids: parseBinanceLevels(update.b),
+            asks: parseBinanceLevels(update.a),
+            timestamp: update.E,
+          },
+        }];
+      }
+      return [];
+    },
+    getOrderBook: (asset, depth) => binanceApi.getOrderBook(asset, depth),
+  };
+};
+
+export interface MarketStreamOptions {
+  url: string;
+  adapter: StreamAdapter;
+  heartbeatIntervalMs?: number;
+  heartbeatTimeoutMs?: number; // reconnect when nothing arrived for this long
+  reconnectBaseDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  WebSocketImpl?: typeof WebSocket; // e.g. the `ws` package outside the browser
+}
+
+interface Subscription {
+  asset: MarketAsset;
+  channel: StreamChannel;
+  count: number;
+}
+
+const STREAM_CHANNELS: StreamChannel[] = ['ticker', 'orderBook'];
+
+// WebSocket client shared by every component that wants live prices. It
+// connects on the first subscription and disconnects after the last one,
+// reconnects with backoff, and re-sends all subscriptions after reconnecting.
+export const createMarketStream = ({
+  url,
+  adapter,
+  heartbeatIntervalMs = 15 * 1000,
+  heartbeatTimeoutMs = 45 * 1000,
+  reconnectBaseDelayMs = 1000,
+  reconnectMaxDelayMs = 30 * 1000,
+  WebSocketImpl,
+}: MarketStreamOptions): MarketStream => {
+  const subscriptions = new Map<string, Subscription>(); // keyed by `${channel}:${assetId}`
+  const tickListeners = new Set<(tick: StreamTick) => void>();
+  const orderBookListeners = new Set<(diff: OrderBookDiff) => void>();
+  const statusListeners = new Set<(status: StreamStatus) => void>();
+
+  let socket: WebSocket | null = null;
+  let status: StreamStatus = 'idle';
+  let attempts = 0;
+  let lastMessageAt = 0;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const subscribedAssets = (channel?: StreamChannel) => {
+    const assets = new Map<string, MarketAsset>();
+    subscriptions.forEach((subscription) => {
+      if (!channel || subscription.channel === channel) {
+        assets.set(subscription.asset.id, subscription.asset);
+      }
+    });
+    return Array.from(assets.values());
+  };
+
+  const setStatus = (next: StreamStatus) => {
+    if (next === status) return;
+    status = next;
+    statusListeners.forEach((listener) => listener(next));
+  };
+
+  const send = (message: string | null) => {
+    if (message && socket && socket.readyState === socket.OPEN) {
+      socket.send(message);
+    }
+  };
+
+  const emit = (message: StreamMessage) => {
+    if (message.type === 'tick') {
+      tickListeners.forEach((listener) => listener(message.tick));
+    } else {
+      orderBookListeners.forEach((listener) => listener(message.diff));
+    }
+  };
+
+  const stopHeartbeat = () => {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = undefined;
+  };
+
+  const startHeartbeat = () => {
+    stopHeartbeat();
+    heartbeatTimer = setInterval(() => {
+      if (Date.now() - lastMessageAt > heartbeatTimeoutMs) {
+        // Half-open connection: close it and let onclose reconnect
+        socket?.close();
+        return;
+      }
+      send(adapter.ping());
+    }, heartbeatIntervalMs);
+  };
+
+  const connect = () => {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = undefined;
+    setStatus(attempts > 0 ? 'reconnecting' : 'connecting');
+
+    const Impl = WebSocketImpl || WebSocket;
+    const ws = new Impl(url);
+    socket = ws;
+
+    ws.onopen = () => {
+      attempts = 0;
+      lastMessageAt = Date.now();
+      setStatus('open');
+      STREAM_CHANNELS.forEach((channel) => {
+        const assets = subscribedAssets(channel);
+        if (assets.length > 0) {
+          send(adapter.subscribe(assets, channel));
+        }
+      });
+      startHeartbeat();
+    };
+
+    ws.onmessage = (event: MessageEvent) => {
+      lastMessageAt = Date.now();
+      try {
+        adapter.decode(String(event.data), subscribedAssets()).forEach(emit);
+      } catch (error) {
+        console.error('Error decoding market stream message:', error);
+      }
+    };
+
+    ws.onerror = (event: Event) => {
+      console.error('Market stream error:', event);
+    };
+
+    ws.onclose = () => {
+      // A newer socket may already have replaced this one
+      if (socket !== ws) return;
+      socket = null;
+      stopHeartbeat();
+
+      if (subscriptions.size === 0) {
+        setStatus('closed');
+        return;
+      }
+      setStatus('reconnecting');
+      reconnectTimer = setTimeout(
+        connect,
+        getBackoffDelay(attempts++, reconnectBaseDelayMs, reconnectMaxDelayMs)
+      );
+    };
+  };
+
+  const disconnect = () => {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = undefined;
+    stopHeartbeat();
+    const ws = socket;
+    socket = null;
+    ws?.close();
+    attempts = 0;
+    setStatus('closed');
+  };
+
+  const listen = <T>(listeners: Set<T>, listener: T) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    subscribe(assets, channel = 'ticker') {
+      const added = assets.filter((asset) => {
+        const key = `${channel}:${asset.id}`;
+        const existing = subscriptions.get(key);
+        if (existing) {
+          existing.count++;
+          return false;
+        }
+        subscriptions.set(key, { asset, channel, count: 1 });
+        return true;
+      });
+
+      if (added.length > 0) {
+        if (socket) {
+          send(adapter.subscribe(added, channel));
+        } else if (!reconnectTimer) {
+          connect();
+        }
+      }
+
+      let active = true;
+      return () => {
+        if (!active) return;
+        active = false;
+
+        const removed = assets.filter((asset) => {
+          const key = `${channel}:${asset.id}`;
+          const existing = subscriptions.get(key);
+          if (!existing || --existing.count > 0) return false;
+          subscriptions.delete(key);
+          return true;
+        });
+
+        if (subscriptions.size === 0) {
+          disconnect();
+        } else if (removed.length > 0) {
+          send(adapter.unsubscribe(removed, channel));
+        }
+      };
+    },
+
+    onTick: (listener) => listen(tickListeners, listener),
+
+    onOrderBookDiff: (listener) => listen(orderBookListeners, listener),
+
+    onStatus: (listener) => listen(statusListeners, listener),
+
+    getStatus: () => status,
+
+    async getOrderBook(asset, depth = 100) {
+      if (!adapter.getOrderBook) {
+        throw new Error(`Order book for ${asset.id} is not available from this stream`);
+      }
+      return adapter.getOrderBook(asset, depth);
+    },
+
+    reconnect() {
+      if (subscriptions.size === 0) return;
+      disconnect();
+      connect();
+    },
+  };
+};
+
+export const marketStream = createMarketStream({
+  url: MARKET_STREAM_URL,
+  adapter: MARKET_STREAM_PROTOCOL === 'json'
+    ? createJsonStreamAdapter(MARKET_STREAM_URL)
+    : createBinanceStreamAdapter(),
+});
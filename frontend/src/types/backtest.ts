@@ -0,0 +1,206 @@
+import { OrderBook, QuoteCurrency } from './marketData';
+import { ChartData } from './chart';
+import { StrategyRules } from './strategyRules';
+
+export type TradeSide = 'BUY' | 'SELL';
+
+// Why a position was closed: the strategy asked, its stop or target was hit,
+// or the data ran out
+export type ExitReason = 'signal' | 'stop' | 'target' | 'end';
+
+// What trading cost, in the quote currency. Spread and slippage are already
+// in the fill prices; fees and funding are paid on top.
+export interface ExecutionCosts {
+  fees: number;
+  spread: number;
+  slippage: number;
+  funding: number; // negative when received
+}
+
+// Fees as fractions of the traded value: maker for orders resting in the
+// book (take-profit targets), taker for everything that crosses the spread
+export interface FeeSchedule {
+  maker: number;
+  taker: number;
+}
+
+// How far past the quote a market order fills, as a fraction of the price: a
+// fixed rate, or one that grows with the order's share of the volume traded
+// within the candle
+export type SlippageModel =
+  | { type: 'fixed'; rate: number }
+  | { type: 'volume'; rate: number; impact: number }; // rate + impact × share
+
+// How the backtest fills orders. Candle prices are taken as mid prices.
+export interface ExecutionSettings {
+  exchange?: string; // the fee schedule's exchange, in EXCHANGE_FEES
+  fees: FeeSchedule;
+  slippage: SlippageModel;
+  spread: number; // bid/ask spread as a fraction of the mid price
+  latencyMs: number; // from a signal at a close to its order reaching the exchange
+  // The share of the volume traded within a candle that an order can fill
+  // against; the rest keeps working at the next candles. No limit when left out.
+  participation?: number;
+  // A book for market orders to walk instead, e.g. the live one. Its levels
+  // are taken relative to its mid and moved to the price at each fill; its
+  // spread and depth stand in for the spread, slippage and volume share.
+  book?: OrderBook;
+  fundingRate: number; // per funding interval: longs pay it and shorts receive it
+  fundingIntervalMs: number;
+}
+
+export interface BacktestTrade {
+  entryTime: string;
+  exitTime: string;
+  entryPrice: number; // average fill, after spread and slippage
+  exitPrice: number;
+  quantity: number;
+  profit: number; // after every cost
+  type: TradeSide;
+  exitReason?: ExitReason;
+  costs: ExecutionCosts;
+}
+
+export interface BacktestResult {
+  strategy: string;
+  asset: string;
+  startDate: string;
+  endDate: string;
+  initialCapital: number;
+  finalCapital: number;
+  totalReturn: number; // fraction of initial capital
+  maxDrawdown: number; // fraction of the peak, positive
+  sharpeRatio: number; // annualized
+  winRate: number; // fraction of trades
+  averageWin: number;
+  averageLoss: number;
+  trades: BacktestTrade[];
+  equityCurve: [number, number][]; // [timestamp, equity] at each candle's close
+  candleMs: number; // width of the candles it ran on, from their spacing
+  execution: ExecutionSettings;
+  costs: ExecutionCosts; // of every trade
+}
+
+export type BacktestDetails = Pick<BacktestResult, 'strategy' | 'asset' | 'initialCapital' | 'execution'>;
+
+export interface BacktestConfig {
+  strategy: string;
+  asset: string;
+  startDate: string;
+  endDate: string;
+  // Candle width asked for. History that is coarser than this is used as it
+  // is, so the result's candleMs can be wider.
+  candleMs: number;
+  initialCapital: number;
+  quote: QuoteCurrency;
+  execution: ExecutionSettings;
+}
+
+export type OptimizationMetric = 'sharpeRatio' | 'totalReturn';
+
+// Walk-forward windows, in candles. Each out-of-sample window follows its
+// in-sample window, and the next pair starts one out-of-sample window later,
+// so the out-of-sample windows follow on from each other. Anchored in-sample
+// windows all start at the first candle; rolling ones keep their length.
+export interface WalkForwardSettings {
+  mode: 'anchored' | 'rolling';
+  inSample: number;
+  outOfSample: number;
+  metric: OptimizationMetric; // what the in-sample optimization maximizes
+}
+
+export type BacktestSummary = Omit<BacktestResult, 'trades' | 'equityCurve'>;
+
+export interface WalkForwardWindow {
+  params: Record<string, number>; // the best in sample
+  inSample: BacktestSummary;
+  outOfSample: BacktestSummary;
+}
+
+export interface WalkForwardResult {
+  windows: WalkForwardWindow[];
+  // Every out-of-sample window in turn, each starting with the capital the
+  // one before ended with
+  outOfSample: BacktestResult;
+  // Out-of-sample return per candle over in-sample return per candle; null
+  // when the in-sample windows lost money, so there's nothing to compare to
+  efficiency: number | null;
+  // How much the best params moved from window to window: the share of
+  // windows that kept the previous window's params, and each param's spread
+  // (standard deviation over mean)
+  stability: number;
+  paramVariation: Record<string, number>;
+}
+
+// A strategy in a form that can be sent to a worker: an id in STRATEGIES,
+// whose params left out take the strategy's defaults, or custom rules
+export type StrategySpec =
+  | { id: string; params?: Record<string, number> }
+  | { rules: StrategyRules };
+
+export interface OpenPosition {
+  side: TradeSide;
+  quantity: number; // always positive
+  entryPrice: number;
+  entryTime: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  costs: ExecutionCosts; // so far, for the quantity still open
+}
+
+// What a strategy can ask for at a candle's close. Orders fill at the next
+// candle's open, or later when latency or the candle's volume holds them up;
+// an entry against an open position closes it first.
+export type StrategyOrder =
+  | {
+    type: 'enter';
+    side: TradeSide;
+    size?: number; // fraction of equity, all of it by default
+    stopLoss?: number;
+    takeProfit?: number;
+  }
+  | { type: 'exit' };
+
+export interface StrategyContext {
+  candle: ChartData;
+  index: number;
+  history: ChartData[]; // every candle so far, this one last
+  position: OpenPosition | null;
+  cash: number;
+  equity: number;
+}
+
+// How much a strategy risks on each trade, as fractions: of equity for the
+// size, of the entry price for the stop and target. A stop or target can be a
+// multiple of the ATR instead, over atrPeriod candles (14 by default).
+export interface RiskRules {
+  positionSize: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  stopLossAtr?: number;
+  takeProfitAtr?: number;
+  atrPeriod?: number;
+}
+
+export interface SignalCheck {
+  label: string;
+  met: boolean;
+}
+
+// A strategy's conditions at the last candle it saw: `signal` is the side it
+// trades to open a position when enough entry checks are met, and the other
+// side when enough exit checks are
+export interface StrategySignals {
+  signal: TradeSide | 'NEUTRAL';
+  entry: SignalCheck[];
+  exit: SignalCheck[];
+}
+
+// A strategy sees one candle at a time, at its close, and never anything
+// later. init() resets it, so one instance can be run again from the start.
+export interface Strategy {
+  risk: RiskRules;
+  init: () => void;
+  onCandle: (context: StrategyContext) => StrategyOrder[];
+  signals: () => StrategySignals;
+}
@@ -8,15 +8,22 @@ export interface CryptoAsset {
 
 export interface ChartData {
   timestamp: number;
-  price: number;
-  volume?: number;
-  high?: number;
-  low?: number;
+  price: number; // same as close, kept for the components that plot `price`
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number; // traded within the candle, in the quote currency
   rsi?: number;
   macd?: number;
   macdSignal?: number;
+  macdHistogram?: number;
   upperBand?: number;
+  middleBand?: number;
   lowerBand?: number;
+  shortMA?: number;
+  longMA?: number;
+  volumeMA?: number;
   adx?: number;
   obv?: number;
   vwap?: number;
@@ -25,32 +32,86 @@ export interface ChartData {
   stoch?: number;
   roc?: number;
   mfi?: number;
+  williamsR?: number;
+  ichimokuConversion?: number;
+  ichimokuBase?: number;
+  ichimokuSpanA?: number;
+  ichimokuSpanB?: number;
+  keltnerUpper?: number;
+  keltnerMiddle?: number;
+  keltnerLower?: number;
+  parabolicSar?: number;
+  supertrend?: number;
+  indicators?: Record<string, number | undefined>; // per instance, keyed by indicatorSeriesKey
 }
 
-export interface IndicatorConfig {
-  enabled: boolean;
-  color: string;
-  lineWidth: number;
+type NoParams = Record<string, never>;
+
+// What each type of indicator is calculated with
+export interface IndicatorParams {
+  rsi: { period: number; overbought: number; oversold: number };
+  macd: { fastPeriod: number; slowPeriod: number; signalPeriod: number };
+  bollingerBands: { period: number; multiplier: number };
+  movingAverages: { shortPeriod: number; longPeriod: number };
+  sma: { period: number };
+  ema: { period: number };
+  adx: { period: number };
+  obv: NoParams;
+  vwap: NoParams;
+  atr: { period: number };
+  cci: { period: number };
+  stoch: { period: number; signalPeriod: number };
+  roc: { period: number };
+  mfi: { period: number };
+  williamsR: { period: number };
+  ichimoku: { conversionPeriod: number; basePeriod: number; spanBPeriod: number; displacement: number };
+  keltnerChannels: { period: number; atrPeriod: number; multiplier: number };
+  parabolicSar: { step: number; maxStep: number };
+  supertrend: { period: number; multiplier: number };
+  donchianChannels: { period: number };
+  kst: {
+    roc1: number;
+    roc2: number;
+    roc3: number;
+    roc4: number;
+    sma1: number;
+    sma2: number;
+    sma3: number;
+    sma4: number;
+    signalPeriod: number;
+  };
+  chaikinMoneyFlow: { period: number };
+  vwapMomentum: { period: number };
+  hma: { period: number };
 }
 
+export type IndicatorType = keyof IndicatorParams;
+
+// Overlaid on the price, or in the pane below it on its own scale
+export type IndicatorPane = 'price' | 'lower';
+
+// One indicator on the chart. There can be several of a type, e.g. EMA 9,
+// EMA 21 and EMA 200, told apart by id.
+export type IndicatorInstance = {
+  [K in IndicatorType]: {
+    id: string;
+    type: K;
+    params: IndicatorParams[K];
+    enabled: boolean;
+    color: string;
+    lineWidth: number;
+    pane: IndicatorPane;
+  };
+}[IndicatorType];
+
 export interface ChartConfig {
-  rsi: IndicatorConfig;
-  macd: IndicatorConfig;
-  bollingerBands: IndicatorConfig;
-  adx: IndicatorConfig;
-  obv: IndicatorConfig;
-  vwap: IndicatorConfig;
-  atr: IndicatorConfig;
-  cci: IndicatorConfig;
-  stoch: IndicatorConfig;
-  roc: IndicatorConfig;
-  mfi: IndicatorConfig;
-  candlestick: IndicatorConfig;
+  candlestick: boolean; // candles instead of a price line
+  indicators: IndicatorInstance[];
 }
 
 export interface ChartProps {
   selectedAsset: CryptoAsset;
   timeInterval: string;
   onAssetChange: (asset: CryptoAsset) => void;
-  onIndicatorToggle: (indicator: keyof ChartConfig) => void;
+  onIndicatorToggle: (id: string) => void;
 }
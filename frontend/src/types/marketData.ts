@@ -0,0 +1,126 @@
+import { ChartData } from './chart';
+import { TimeInterval } from '../features/timeInterval/timeIntervalSlice';
+
+export type MarketDataProviderId = 'coingecko' | 'replay';
+
+export type QuoteCurrency = 'usd' | 'eur' | 'gbp' | 'jpy' | 'btc' | 'eth';
+
+// Units of each currency that one US dollar buys
+export type ExchangeRates = Partial<Record<QuoteCurrency, number>>;
+
+export interface MarketAsset {
+  id: string;
+  symbol: string;
+  name: string;
+}
+
+export interface Ticker {
+  assetId: string;
+  price: number;
+  change24h: number; // percent
+  volume24h: number;
+  marketCap?: number;
+  timestamp: number;
+}
+
+// Times of the first and last candles a provider has for an asset
+export interface HistoryRange {
+  start: number;
+  end: number;
+}
+
+export interface OrderBookLevel {
+  price: number;
+  amount: number;
+}
+
+export interface OrderBook {
+  assetId: string;
+  bids: OrderBookLevel[]; // best (highest) first
+  asks: OrderBookLevel[]; // best (lowest) first
+  sequence: number; // id of the last update applied
+  timestamp: number;
+}
+
+// Incremental update covering sequence numbers firstSequence..sequence.
+// Levels carry the new total amount at that price; 0 removes the level.
+export interface OrderBookDiff {
+  assetId: string;
+  firstSequence: number;
+  sequence: number;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  timestamp: number;
+}
+
+export interface OrderBookMetrics {
+  bestBid?: number;
+  bestAsk?: number;
+  mid?: number;
+  spread?: number;
+  spreadPercent?: number;
+  bidLevels: number;
+  askLevels: number;
+  bidDepth: number; // total amount on the side, in the base asset
+  askDepth: number;
+  depthPercent: number;
+  bidDepthWithin: number; // amount within depthPercent of the mid price
+  askDepthWithin: number;
+  imbalance: number; // -1 (all asks) to 1 (all bids), within depthPercent
+}
+
+export interface StreamTick {
+  assetId: string;
+  price: number;
+  volume24h?: number;
+  timestamp: number;
+}
+
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export type StreamChannel = 'ticker' | 'orderBook';
+
+export type StreamMessage =
+  | { type: 'tick'; tick: StreamTick }
+  | { type: 'orderBookDiff'; diff: OrderBookDiff };
+
+// Translates between the stream client and one exchange's wire protocol.
+// Encoders return null for messages the protocol has no equivalent of.
+// Order book diffs only make sense on top of a snapshot from the same
+// exchange, so the adapter also knows where to fetch that snapshot.
+export interface StreamAdapter {
+  subscribe: (assets: MarketAsset[], channel: StreamChannel) => string | null;
+  unsubscribe: (assets: MarketAsset[], channel: StreamChannel) => string | null;
+  ping: () => string | null;
+  decode: (data: string, assets: MarketAsset[]) => StreamMessage[];
+  getOrderBook?: (asset: MarketAsset, depth: number) => Promise<OrderBook>;
+}
+
+export interface MarketStream {
+  subscribe: (assets: MarketAsset[], channel?: StreamChannel) => () => void;
+  onTick: (listener: (tick: StreamTick) => void) => () => void;
+  onOrderBookDiff: (listener: (diff: OrderBookDiff) => void) => () => void;
+  onStatus: (listener: (status: StreamStatus) => void) => () => void;
+  getOrderBook: (asset: MarketAsset, depth?: number) => Promise<OrderBook>;
+  getStatus: () => StreamStatus;
+  reconnect: () => void;
+}
+
+export interface MarketDataProvider {
+  id: MarketDataProviderId;
+  name: string;
+  stream?: MarketStream; // live ticks, when the provider has a streaming source
+  getAssets: () => Promise<MarketAsset[]>;
+  // Prices and volumes are in `quote`, US dollars when it is left out
+  getHistoricalCandles: (
+    assetId: string,
+    days: number,
+    interval: TimeInterval,
+    quote?: QuoteCurrency
+  ) => Promise<ChartData[]>;
+  getHistoryRange: (assetId: string) => Promise<HistoryRange>;
+  getTicker: (assetId: string, quote?: QuoteCurrency) => Promise<Ticker>;
+  getTickers: (assetIds: string[], quote?: QuoteCurrency) => Promise<Ticker[]>;
+  getExchangeRates: () => Promise<ExchangeRates>;
+  getOrderBook: (asset: MarketAsset, depth?: number) => Promise<OrderBook>;
+}
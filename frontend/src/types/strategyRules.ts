@@ -0,0 +1,41 @@
+import { IndicatorType } from './chart';
+import { RiskRules, TradeSide } from './backtest';
+
+// Custom strategies as plain JSON, so they can be saved, shared and sent to
+// the compute workers. utils/strategyRules validates and compiles them.
+
+export type PriceField = 'open' | 'high' | 'low' | 'close' | 'volume';
+
+// A number a condition compares: a constant, a field of the candle, or an
+// output of one of the strategy's indicators ('value' when left out)
+export type RuleOperand =
+  | { value: number }
+  | { price: PriceField }
+  | { indicator: string; output?: string };
+
+export type RuleComparison = '>' | '<' | '>=' | '<=' | 'crossesAbove' | 'crossesBelow';
+
+export type RuleCondition =
+  | { left: RuleOperand; op: RuleComparison; right: RuleOperand }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+export interface RuleIndicator {
+  type: IndicatorType;
+  params?: Record<string, number>; // the type's defaults fill in the rest
+}
+
+export interface StrategyRules {
+  name: string;
+  indicators: Record<string, RuleIndicator>; // by the name conditions use
+  entry: RuleCondition;
+  exit?: RuleCondition; // without one, only the stop or target closes a trade
+  side?: TradeSide; // BUY goes long (the default), SELL goes short
+  risk: RiskRules;
+}
+
+export interface CustomStrategy {
+  id: string;
+  rules: StrategyRules;
+}
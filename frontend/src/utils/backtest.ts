@@ -0,0 +1,260 @@
+import { ChartData } from '../types/chart';
+import {
+  BacktestDetails,
+  BacktestResult,
+  BacktestTrade,
+  ExecutionCosts,
+  ExitReason,
+  OpenPosition,
+  Strategy,
+  StrategyOrder,
+  TradeSide,
+} from '../types/backtest';
+import { getMedianSpacing } from './candles';
+import {
+  NO_COSTS,
+  addCosts,
+  arrivalPrice,
+  candleLiquidity,
+  fundingPeriods,
+  limitFill,
+  marketFill,
+  scaleCosts,
+} from './execution';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+const toDate = (timestamp: number) => new Date(timestamp).toISOString();
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+
+// Sharpe ratio of per-candle returns, scaled to a year of candles
+const annualizedSharpe = (equity: number[], candleMs: number) => {
+  const returns = equity.slice(1).map((e, i) => (equity[i] === 0 ? 0 : e / equity[i] - 1));
+  const average = mean(returns);
+  const stdDev = Math.sqrt(mean(returns.map((r) => (r - average) ** 2)));
+  if (stdDev === 0 || candleMs === 0) return 0;
+  return (average / stdDev) * Math.sqrt(YEAR_MS / candleMs);
+};
+
+const maxDrawdown = (equity: number[]) => {
+  let peak = equity[0] ?? 0;
+  let worst = 0;
+  equity.forEach((e) => {
+    peak = Math.max(peak, e);
+    if (peak > 0) worst = Math.max(worst, (peak - e) / peak);
+  });
+  return worst;
+};
+
+// A trade's return on the money it put in, after costs
+export const tradeReturn = ({ entryPrice, quantity, profit }: BacktestTrade) =>
+  entryPrice && quantity ? profit / (entryPrice * quantity) : 0;
+
+// Statistics shared by every backtest, from its trades and equity curve
+export const summarizeBacktest = (
+  trades: BacktestTrade[],
+  equity: number[],
+  candles: ChartData[],
+  details: BacktestDetails
+): BacktestResult => {
+  const wins = trades.filter((t) => t.profit > 0);
+  const losses = trades.filter((t) => t.profit <= 0);
+  const finalCapital = equity[equity.length - 1] ?? details.initialCapital;
+  const candleMs = getMedianSpacing(candles.map((c) => c.timestamp));
+  return {
+    ...details,
+    startDate: candles.length ? toDate(candles[0].timestamp) : '',
+    endDate: candles.length ? toDate(candles[candles.length - 1].timestamp) : '',
+    finalCapital,
+    totalReturn: details.initialCapital ? finalCapital / details.initialCapital - 1 : 0,
+    maxDrawdown: maxDrawdown(equity),
+    sharpeRatio: annualizedSharpe(equity, candleMs),
+    winRate: trades.length ? wins.length / trades.length : 0,
+    averageWin: wins.length ? mean(wins.map((t) => t.profit)) : 0,
+    averageLoss: losses.length ? mean(losses.map((t) => t.profit)) : 0,
+    trades,
+    equityCurve: candles.map((c, i) => [c.timestamp, equity[i]]),
+    candleMs,
+    costs: trades.reduce((total, t) => addCosts(total, t.costs), NO_COSTS),
+  };
+};
+
+// An order still working, with the quantity an entry has left to fill once
+// it has started
+type WorkingOrder = StrategyOrder & { remaining?: number };
+
+type Liquidity = ReturnType<typeof candleLiquidity>;
+
+// Replay `candles` through `strategy`, one candle at a time. Each candle is
+// three events, in order:
+//   open   orders placed at the previous close reach the exchange, after the
+//          latency, and fill as market orders against the spread, slippage
+//          and as much of the candle's volume as they may take, or walk the
+//          order book when the execution settings have one
+//   range  an open position's stop or target fills if the candle reaches it;
+//          when it reaches both, the stop is assumed to come first
+//   close  funding is paid, equity is marked at the close, then the strategy
+//          places its orders
+// Stops are market orders and targets are limit orders resting in the book,
+// so neither waits on latency. A stop or target the open has already gapped
+// past fills at the open. Orders the volume or the book didn't cover keep
+// working until they fill or the strategy places new ones. A position still
+// open after the last candle is closed at its close. Nothing is random, so the same candles,
+// strategy and execution settings always give the same result.
+export const runBacktest = (
+  candles: ChartData[],
+  strategy: Strategy,
+  details: BacktestDetails,
+  onProgress?: (progress: number) => void
+): BacktestResult => {
+  const { execution } = details;
+  const trades: BacktestTrade[] = [];
+  const equity: number[] = [];
+  const history: ChartData[] = [];
+  let cash = details.initialCapital;
+  let position: OpenPosition | null = null;
+  let pending: WorkingOrder[] = [];
+  const candleMs = getMedianSpacing(candles.map((c) => c.timestamp));
+  const progressStep = Math.max(1, Math.ceil(candles.length / 100));
+
+  const directionOf = (side: TradeSide) => (side === 'BUY' ? 1 : -1);
+
+  // A short position is held as a negative quantity against the cash it raised
+  const marketValue = (price: number) =>
+    position ? directionOf(position.side) * position.quantity * price : 0;
+
+  // Close `quantity` of the position at a fill, with what the fill cost
+  const close = (
+    quantity: number,
+    { price, costs }: { price: number; costs: ExecutionCosts },
+    timestamp: number,
+    exitReason: ExitReason
+  ) => {
+    if (!position) return;
+    const direction = directionOf(position.side);
+    const share = Math.min(1, quantity / position.quantity);
+    const entryCosts = scaleCosts(position.costs, share);
+    cash += direction * quantity * price - costs.fees;
+    trades.push({
+      entryTime: toDate(position.entryTime),
+      exitTime: toDate(timestamp),
+      entryPrice: position.entryPrice,
+      exitPrice: price,
+      quantity,
+      profit: direction * quantity * (price - position.entryPrice) - entryCosts.fees - costs.fees - entryCosts.funding,
+      type: position.side,
+      exitReason,
+      costs: addCosts(entryCosts, costs),
+    });
+    position = share < 1 - 1e-9
+      ? { ...position, quantity: position.quantity - quantity, costs: scaleCosts(position.costs, 1 - share) }
+      : null;
+  };
+
+  // Close what the candle's remaining liquidity allows at `mid`. True once
+  // the position is gone.
+  const closeAtMarket = (mid: number, candle: ChartData, liquidity: Liquidity) => {
+    if (!position) return true;
+    const closingSide = position.side === 'BUY' ? 'SELL' : 'BUY';
+    const { quantity, ...filled } = liquidity.take(closingSide, position.quantity, mid);
+    if (quantity <= 0) return false;
+    close(quantity, filled, candle.timestamp, 'signal');
+    return !position;
+  };
+
+  // Fill what the candle allows of `order`, and return what's left of it, if
+  // anything
+  const fill = (order: WorkingOrder, candle: ChartData, liquidity: Liquidity): WorkingOrder | null => {
+    const mid = arrivalPrice(execution, candle, candleMs);
+    if (order.type === 'exit') {
+      return closeAtMarket(mid, candle, liquidity) ? null : order;
+    }
+    if (position?.side === order.side && order.remaining === undefined) return null;
+    if (position && position.side !== order.side && !closeAtMarket(mid, candle, liquidity)) return order;
+
+    // Sized on the first fill, so the fees still fit in the cash it may use
+    const target = order.remaining ??
+      (mid > 0 ? (cash * Math.min(1, order.size ?? 1)) / (mid * (1 + execution.fees.taker)) : 0);
+    const { quantity, price, costs } = liquidity.take(order.side, target, mid);
+    if (quantity <= 0) return target > 0 ? { ...order, remaining: target } : null;
+
+    const held = position?.quantity ?? 0;
+    position = {
+      side: order.side,
+      quantity: held + quantity,
+      entryPrice: ((position?.entryPrice ?? 0) * held + price * quantity) / (held + quantity),
+      entryTime: position?.entryTime ?? candle.timestamp,
+      stopLoss: order.stopLoss,
+      takeProfit: order.takeProfit,
+      costs: addCosts(position?.costs ?? NO_COSTS, costs),
+    };
+    cash -= directionOf(order.side) * quantity * price + costs.fees;
+    const remaining = target - quantity;
+    return remaining > target * 1e-9 ? { ...order, remaining } : null;
+  };
+
+  const onOpen = (candle: ChartData) => {
+    const liquidity = candleLiquidity(execution, candle);
+    const orders = pending;
+    pending = [];
+    orders.forEach((order) => {
+      const left = fill(order, candle, liquidity);
+      if (left) pending.push(left);
+    });
+  };
+
+  const onRange = (candle: ChartData) => {
+    if (!position) return;
+    const { side, stopLoss, takeProfit, quantity } = position;
+    const long = side === 'BUY';
+    const closingSide = long ? 'SELL' : 'BUY';
+    if (stopLoss !== undefined && (long ? candle.low <= stopLoss : candle.high >= stopLoss)) {
+      const trigger = long ? Math.min(candle.open, stopLoss) : Math.max(candle.open, stopLoss);
+      close(quantity, marketFill(execution, closingSide, quantity, trigger, candle), candle.timestamp, 'stop');
+    } else if (takeProfit !== undefined && (long ? candle.high >= takeProfit : candle.low <= takeProfit)) {
+      const limit = long ? Math.max(candle.open, takeProfit) : Math.min(candle.open, takeProfit);
+      close(quantity, limitFill(execution, quantity, limit), candle.timestamp, 'target');
+    }
+  };
+
+  const onClose = (candle: ChartData, index: number) => {
+    const periods = fundingPeriods(execution, candle.timestamp, candleMs);
+    if (position && periods > 0 && execution.fundingRate !== 0) {
+      const funding = directionOf(position.side) * position.quantity * candle.close * execution.fundingRate * periods;
+      cash -= funding;
+      position.costs = { ...position.costs, funding: position.costs.funding + funding };
+    }
+
+    const value = cash + marketValue(candle.close);
+    equity.push(value);
+    const orders = strategy.onCandle({
+      candle,
+      index,
+      history,
+      position: position && { ...position },
+      cash,
+      equity: value,
+    });
+    if (orders.length > 0) pending = orders;
+  };
+
+  strategy.init();
+  candles.forEach((candle, index) => {
+    history.push(candle);
+    onOpen(candle);
+    onRange(candle);
+    onClose(candle, index);
+    if ((index + 1) % progressStep === 0) onProgress?.((index + 1) / candles.length);
+  });
+
+  const last = candles[candles.length - 1];
+  if (last && position) {
+    const { side, quantity } = position as OpenPosition;
+    close(quantity, marketFill(execution, side === 'BUY' ? 'SELL' : 'BUY', quantity, last.close, last), last.timestamp, 'end');
+    equity[equity.length - 1] = cash;
+  }
+  onProgress?.(1);
+
+  return summarizeBacktest(trades, equity, candles, details);
+};
@@ -0,0 +1,185 @@
+import { ChartData } from '../types/chart';
+import { TimeInterval } from '../features/timeInterval/timeIntervalSlice';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Candle width for each selectable interval. The short intervals are the candle
+// width itself; the long ones pick a lookback range, so they get a width that
+// still leaves a readable number of candles on screen.
+export const CANDLE_WIDTH_MS: Record<TimeInterval, number> = {
+  '1m': MINUTE,
+  '5m': 5 * MINUTE,
+  '10m': 10 * MINUTE,
+  '30m': 30 * MINUTE,
+  '1h': HOUR,
+  '1d': HOUR,
+  '1w': 4 * HOUR,
+  '1M': DAY,
+  '3M': DAY,
+  '6M': 7 * DAY,
+  '1y': 7 * DAY,
+};
+
+// A candle built from fewer ticks than this has no meaningful high/low range
+export const MIN_TICKS_PER_CANDLE = 2;
+
+// Median spacing between consecutive timestamps, used to detect the resolution
+// of the data a provider actually returned
+export const getMedianSpacing = (timestamps: number[]): number => {
+  if (timestamps.length < 2) return 0;
+  const diffs = timestamps
+    .slice(1)
+    .map((t, i) => t - timestamps[i])
+    .sort((a, b) => a - b);
+  return diffs[Math.floor(diffs.length / 2)];
+};
+
+// The width `candles` really have: the spacing between them, when the data was
+// too coarse for the `requestedMs` they were asked for
+export const candleWidth = (candles: ChartData[], requestedMs: number) =>
+  Math.max(requestedMs, getMedianSpacing(candles.map((candle) => candle.timestamp)));
+
+const bucketStart = (timestamp: number, widthMs: number) =>
+  Math.floor(timestamp / widthMs) * widthMs;
+
+// Find the latest sample at or before `timestamp` (samples sorted ascending)
+export const sampleAt = (samples: [number, number][], timestamp: number): number | undefined => {
+  let lo = 0;
+  let hi = samples.length - 1;
+  let found: number | undefined;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid][0] <= timestamp) {
+      found = samples[mid][1];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+export const createCandle = (timestamp: number, price: number, volume?: number): ChartData => ({
+  timestamp,
+  price,
+  open: price,
+  high: price,
+  low: price,
+  close: price,
+  volume,
+});
+
+// Fold a new trade/tick price into an existing candle, with the candle's
+// volume so far when the tick brings one
+export const applyTickToCandle = (candle: ChartData, price: number, volume?: number): ChartData => ({
+  ...candle,
+  high: Math.max(candle.high, price),
+  low: Math.min(candle.low, price),
+  close: price,
+  price,
+  volume: volume ?? candle.volume,
+});
+
+// CoinGecko only reports a rolling 24h volume; a candle's share of it at the
+// same pace is the closest estimate of what traded within the candle
+export const volumeForWidth = (volume24h: number | undefined, widthMs: number) =>
+  volume24h === undefined ? undefined : (volume24h * widthMs) / DAY;
+
+// Aggregate raw [timestamp, price] ticks into OHLC candles of the given width.
+// Volumes are CoinGecko's rolling 24h volume, so each candle gets the average
+// reading inside its bucket scaled down to the candle's width.
+export const ticksToCandles = (
+  prices: [number, number][],
+  volumes: [number, number][],
+  widthMs: number
+): ChartData[] => {
+  const candles: ChartData[] = [];
+  let readings: number[] = [];
+
+  prices.forEach(([timestamp, price]) => {
+    const start = bucketStart(timestamp, widthMs);
+    const volume = sampleAt(volumes, timestamp);
+    const last = candles[candles.length - 1];
+
+    if (!last || last.timestamp !== start) {
+      readings = [];
+    }
+    if (volume !== undefined) {
+      readings.push(volume);
+    }
+    const candleVolume = readings.length > 0
+      ? volumeForWidth(readings.reduce((sum, v) => sum + v, 0) / readings.length, widthMs)
+      : undefined;
+
+    if (last && last.timestamp === start) {
+      candles[candles.length - 1] = { ...applyTickToCandle(last, price), volume: candleVolume };
+    } else {
+      candles.push(createCandle(start, price, candleVolume));
+    }
+  });
+
+  return candles;
+};
+
+// Merge finer candles into coarser ones, adding up their volumes. Candles that
+// are already at least `widthMs` wide are returned unchanged.
+export const resampleCandles = (candles: ChartData[], widthMs: number): ChartData[] => {
+  const nativeWidth = getMedianSpacing(candles.map(c => c.timestamp));
+  if (candles.length === 0 || widthMs <= nativeWidth) return candles;
+
+  const resampled: ChartData[] = [];
+
+  candles.forEach(candle => {
+    const start = bucketStart(candle.timestamp, widthMs);
+    const last = resampled[resampled.length - 1];
+
+    if (last && last.timestamp === start) {
+      resampled[resampled.length - 1] = {
+        ...last,
+        high: Math.max(last.high, candle.high),
+        low: Math.min(last.low, candle.low),
+        close: candle.close,
+        price: candle.close,
+        volume: candle.volume === undefined ? last.volume : (last.volume ?? 0) + candle.volume,
+      };
+    } else {
+      resampled.push({
+        timestamp: start,
+        price: candle.close,
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume,
+      });
+    }
+  });
+
+  return resampled;
+};
+
+// Apply a live tick to the end of a candle series: update the last candle while
+// the tick falls inside it, otherwise open a new one on the same grid. The
+// oldest candle is dropped so the window keeps its length. Ticks carry a
+// rolling 24h volume, which is scaled to the candle width like
+// ticksToCandles does.
+export const applyTickToSeries = (
+  candles: ChartData[],
+  timestamp: number,
+  price: number,
+  volume24h: number | undefined,
+  widthMs: number
+): ChartData[] => {
+  const last = candles[candles.length - 1];
+  if (!last || timestamp < last.timestamp) return candles;
+  const volume = volumeForWidth(volume24h, widthMs);
+
+  if (timestamp < last.timestamp + widthMs) {
+    return [...candles.slice(0, -1), applyTickToCandle(last, price, volume)];
+  }
+
+  const start = last.timestamp + Math.floor((timestamp - last.timestamp) / widthMs) * widthMs;
+  return [...candles.slice(1), createCandle(start, price, volume ?? last.volume)];
+};
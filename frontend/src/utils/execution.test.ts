@@ -0,0 +1,43 @@
+import { OrderBook } from '../types/marketData';
+import { candleLiquidity, FRICTIONLESS_EXECUTION, marketFill } from './execution';
+
+// Mid 100, a unit apart on each side
+const book: OrderBook = {
+  assetId: 'bitcoin',
+  bids: [{ price: 99.5, amount: 1 }, { price: 98.5, amount: 2 }],
+  asks: [{ price: 100.5, amount: 1 }, { price: 101.5, amount: 2 }],
+  sequence: 1,
+  timestamp: 0,
+};
+
+const candle = { timestamp: 0, price: 100, open: 100, high: 100, low: 100, close: 100, volume: 1000 };
+
+describe('marketFill', () => {
+  it('walks the book, moved to the price it fills at', () => {
+    const { price, costs } = marketFill({ ...FRICTIONLESS_EXECUTION, book }, 'BUY', 2, 200);
+    // 1 at 201 and 1 at 203
+    expect(price).toBeCloseTo(202);
+    expect(costs.spread).toBeCloseTo(2);
+    expect(costs.slippage).toBeCloseTo(2);
+  });
+
+  it('fills what the book does not cover at its last level', () => {
+    expect(marketFill({ ...FRICTIONLESS_EXECUTION, book }, 'SELL', 5, 100).price).toBeCloseTo((99.5 + 98.5 * 4) / 5);
+  });
+});
+
+describe('candleLiquidity', () => {
+  it('lets each order take what the ones before it left in the book', () => {
+    const liquidity = candleLiquidity({ ...FRICTIONLESS_EXECUTION, book, participation: 0.01 }, candle);
+    expect(liquidity.take('BUY', 2, 100)).toMatchObject({ quantity: 2, price: 101 });
+    expect(liquidity.take('BUY', 2, 100)).toMatchObject({ quantity: 1, price: 101.5 });
+    expect(liquidity.take('BUY', 1, 100).quantity).toBe(0);
+    expect(liquidity.take('SELL', 1, 100)).toMatchObject({ quantity: 1, price: 99.5 });
+  });
+
+  it('falls back to a share of the candle volume without a book', () => {
+    const liquidity = candleLiquidity({ ...FRICTIONLESS_EXECUTION, participation: 0.1 }, candle);
+    expect(liquidity.take('BUY', 0.6, 100)).toMatchObject({ quantity: 0.6, price: 100 });
+    expect(liquidity.take('SELL', 1, 100).quantity).toBeCloseTo(0.4);
+  });
+});
@@ -0,0 +1,180 @@
+import { ChartData } from '../types/chart';
+import { ExecutionCosts, ExecutionSettings, FeeSchedule, TradeSide } from '../types/backtest';
+import { OrderBook } from '../types/marketData';
+import { walkOrderBook } from './orderBook';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Base-tier spot fees, before volume discounts, by exchange id
+export const EXCHANGE_FEES: Record<string, FeeSchedule & { name: string }> = {
+  binance: { name: 'Binance', maker: 0.001, taker: 0.001 },
+  bitvavo: { name: 'Bitvavo', maker: 0.0015, taker: 0.0025 },
+  coinbase: { name: 'Coinbase', maker: 0.004, taker: 0.006 },
+  kraken: { name: 'Kraken', maker: 0.0025, taker: 0.004 },
+  gateio: { name: 'Gate.io', maker: 0.002, taker: 0.002 },
+  kucoin: { name: 'KuCoin', maker: 0.001, taker: 0.001 },
+  huobi: { name: 'Huobi', maker: 0.002, taker: 0.002 },
+  okx: { name: 'OKX', maker: 0.0008, taker: 0.001 },
+  mexc: { name: 'MEXC', maker: 0, taker: 0.0005 },
+};
+
+export const DEFAULT_EXECUTION: ExecutionSettings = {
+  exchange: 'binance',
+  fees: { maker: EXCHANGE_FEES.binance.maker, taker: EXCHANGE_FEES.binance.taker },
+  slippage: { type: 'fixed', rate: 0.0005 },
+  spread: 0.0002,
+  latencyMs: 250,
+  participation: 0.1,
+  fundingRate: 0,
+  fundingIntervalMs: 8 * HOUR_MS,
+};
+
+// Fills exactly at the candle prices, for comparing against the costs
+export const FRICTIONLESS_EXECUTION: ExecutionSettings = {
+  fees: { maker: 0, taker: 0 },
+  slippage: { type: 'fixed', rate: 0 },
+  spread: 0,
+  latencyMs: 0,
+  fundingRate: 0,
+  fundingIntervalMs: 8 * HOUR_MS,
+};
+
+export const NO_COSTS: ExecutionCosts = { fees: 0, spread: 0, slippage: 0, funding: 0 };
+
+export const addCosts = (a: ExecutionCosts, b: ExecutionCosts): ExecutionCosts => ({
+  fees: a.fees + b.fees,
+  spread: a.spread + b.spread,
+  slippage: a.slippage + b.slippage,
+  funding: a.funding + b.funding,
+});
+
+export const scaleCosts = (costs: ExecutionCosts, factor: number): ExecutionCosts => ({
+  fees: costs.fees * factor,
+  spread: costs.spread * factor,
+  slippage: costs.slippage * factor,
+  funding: costs.funding * factor,
+});
+
+export const totalCost = ({ fees, spread, slippage, funding }: ExecutionCosts) => fees + spread + slippage + funding;
+
+// Without an order book (see candleLiquidity), fills are limited by the volume
+// traded within the candle, in the quote currency. The local replay records
+// each candle's volume; CoinGecko's is its 24h volume spread over the day's
+// candles (see volumeForWidth). Without volume there's nothing to measure an
+// order against, so no limit applies.
+export const fillableValue = ({ participation }: ExecutionSettings, candle: ChartData) =>
+  participation !== undefined && candle.volume ? participation * candle.volume : Infinity;
+
+// Where the price is when an order placed at the previous close reaches the
+// exchange: the open, moved towards the close by the share of the candle the
+// latency takes up
+export const arrivalPrice = ({ latencyMs }: ExecutionSettings, candle: ChartData, candleMs: number) =>
+  candleMs > 0 ? candle.open + (candle.close - candle.open) * Math.min(1, latencyMs / candleMs) : candle.open;
+
+// The side of `book` an order on `side` takes from, best first, moved from the
+// book's mid to `mid`; undefined when the book is missing a side
+const bookLevels = (book: OrderBook | undefined, side: TradeSide, mid: number) => {
+  const bestBid = book?.bids[0]?.price;
+  const bestAsk = book?.asks[0]?.price;
+  if (!book || bestBid === undefined || bestAsk === undefined) return undefined;
+  const scale = mid / ((bestBid + bestAsk) / 2);
+  return (side === 'BUY' ? book.asks : book.bids).map(({ price, amount }) => ({ price: price * scale, amount }));
+};
+
+type Fill = { price: number; costs: ExecutionCosts };
+
+// `quantity` filled for `value` against levels whose best price is `best`:
+// the way to the best level is spread and the rest of the way to the average
+// price is slippage
+const bookFill = ({ fees }: ExecutionSettings, quantity: number, value: number, best: number, mid: number): Fill => {
+  const price = quantity > 0 ? value / quantity : best;
+  return {
+    price,
+    costs: {
+      fees: quantity * price * fees.taker,
+      spread: quantity * Math.abs(best - mid),
+      slippage: quantity * Math.abs(price - best),
+      funding: 0,
+    },
+  };
+};
+
+// A market order for `quantity` at `mid`: it crosses half the spread and
+// slips on top, against the side it trades. Volume-based slippage grows with
+// the order's share of the volume traded within the candle, when there is
+// one. With an order book in the settings, it walks the book from the top
+// instead, and what the book doesn't cover fills at its last level.
+export const marketFill = (
+  settings: ExecutionSettings,
+  side: TradeSide,
+  quantity: number,
+  mid: number,
+  candle?: ChartData
+): Fill => {
+  const levels = bookLevels(settings.book, side, mid);
+  if (levels) {
+    const { filled, value } = walkOrderBook(levels, quantity);
+    const rest = levels[levels.length - 1].price * (quantity - filled);
+    return bookFill(settings, quantity, value + rest, levels[0].price, mid);
+  }
+
+  const { spread, slippage, fees } = settings;
+  const direction = side === 'BUY' ? 1 : -1;
+  const share = candle?.volume ? (quantity * mid) / candle.volume : 0;
+  const slippageRate = slippage.type === 'fixed' ? slippage.rate : slippage.rate + slippage.impact * share;
+  const halfSpread = (mid * spread) / 2;
+  const slip = mid * slippageRate;
+  const price = mid + direction * (halfSpread + slip);
+  return {
+    price,
+    costs: {
+      fees: quantity * price * fees.taker,
+      spread: quantity * halfSpread,
+      slippage: quantity * slip,
+      funding: 0,
+    },
+  };
+};
+
+// What market orders can take within one candle. With an order book they walk
+// its levels, and each one starts where the orders before it on the same side
+// left off; without one, they share what fillableValue allows of the candle's
+// volume. What doesn't fill keeps working at the next candle.
+export const candleLiquidity = (settings: ExecutionSettings, candle: ChartData) => {
+  let valueLeft = fillableValue(settings, candle);
+  const taken: Record<TradeSide, number> = { BUY: 0, SELL: 0 };
+  return {
+    // Up to `quantity` of a market order at `mid`: how much fills, at what
+    // price and cost
+    take: (side: TradeSide, quantity: number, mid: number): Fill & { quantity: number } => {
+      const levels = bookLevels(settings.book, side, mid);
+      if (levels) {
+        const { filled, value } = walkOrderBook(levels, quantity, taken[side]);
+        taken[side] += filled;
+        return { quantity: filled, ...bookFill(settings, filled, value, levels[0].price, mid) };
+      }
+      const filled = Math.min(quantity, valueLeft / mid);
+      valueLeft -= filled * mid;
+      return { quantity: filled, ...marketFill(settings, side, filled, mid, candle) };
+    },
+  };
+};
+
+// The price a paper market order for `quantity` at `mid` should fill at, since
+// the paper broker fills market orders at their reference price: walked
+// through the live order book when there is one, otherwise with the default
+// spread and slippage
+export const paperFillPrice = (side: TradeSide, quantity: number, mid: number, book?: OrderBook) =>
+  marketFill({ ...DEFAULT_EXECUTION, book }, side, quantity, mid).price;
+
+// A limit order resting in the book fills at its price and pays the maker fee
+export const limitFill = ({ fees }: ExecutionSettings, quantity: number, price: number) => ({
+  price,
+  costs: { ...NO_COSTS, fees: quantity * price * fees.maker },
+});
+
+// Funding intervals that end within the candle starting at `timestamp`
+export const fundingPeriods = ({ fundingIntervalMs }: ExecutionSettings, timestamp: number, candleMs: number) =>
+  fundingIntervalMs > 0
+    ? Math.floor((timestamp + candleMs) / fundingIntervalMs) - Math.floor(timestamp / fundingIntervalMs)
+    : 0;
@@ -0,0 +1,58 @@
+import { ExchangeRates, QuoteCurrency } from '../types/marketData';
+
+interface QuoteCurrencyInfo {
+  label: string;
+  symbol: string; // used for crypto quotes, Intl has no currency codes for them
+  fiat: boolean;
+}
+
+export const QUOTE_CURRENCIES: Record<QuoteCurrency, QuoteCurrencyInfo> = {
+  usd: { label: 'USD', symbol: '$', fiat: true },
+  eur: { label: 'EUR', symbol: '€', fiat: true },
+  gbp: { label: 'GBP', symbol: '£', fiat: true },
+  jpy: { label: 'JPY', symbol: '¥', fiat: true },
+  btc: { label: 'BTC', symbol: '₿', fiat: false },
+  eth: { label: 'ETH', symbol: 'Ξ', fiat: false },
+};
+
+// Rate to convert a US dollar amount into `quote`, or undefined while unknown
+export const getUsdRate = (quote: QuoteCurrency, rates: ExchangeRates | null) =>
+  quote === 'usd' ? 1 : rates?.[quote];
+
+export const convertFromUsd = (value: number, quote: QuoteCurrency, rates: ExchangeRates | null) => {
+  const rate = getUsdRate(quote, rates);
+  return rate === undefined ? undefined : value * rate;
+};
+
+const format = (value: number, quote: QuoteCurrency, options: Intl.NumberFormatOptions) => {
+  const { fiat, symbol } = QUOTE_CURRENCIES[quote];
+  if (fiat) {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: quote.toUpperCase(), ...options })
+      .format(value);
+  }
+  const formatted = new Intl.NumberFormat('en-US', options).format(Math.abs(value));
+  return `${value < 0 ? '-' : ''}${symbol}${formatted}`;
+};
+
+// A unit price: small prices (and anything quoted in crypto) keep more digits
+export const formatPrice = (value: number, quote: QuoteCurrency = 'usd') => {
+  if (!QUOTE_CURRENCIES[quote].fiat || Math.abs(value) < 1) {
+    return format(value, quote, { maximumSignificantDigits: 6 });
+  }
+  return format(value, quote, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+};
+
+// An amount of money such as a position value, optionally shortened to 1.2M
+export const formatMoney = (
+  value: number,
+  quote: QuoteCurrency = 'usd',
+  { compact = false }: { compact?: boolean } = {}
+) => {
+  if (compact) {
+    return format(value, quote, { notation: 'compact', maximumFractionDigits: 2 });
+  }
+  if (QUOTE_CURRENCIES[quote].fiat) {
+    return format(value, quote, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+  return format(value, quote, { maximumFractionDigits: 6 });
+};
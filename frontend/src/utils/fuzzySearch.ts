@@ -0,0 +1,50 @@
+import { MarketAsset } from '../types/marketData';
+
+// Score how well `query` matches `text`, 0 for no match. Exact and prefix
+// matches beat matches inside a word, which beat scattered characters.
+export const scoreMatch = (query: string, text: string): number => {
+  const q = query.trim().toLowerCase();
+  const t = text.toLowerCase();
+  if (!q || !t) return 0;
+
+  if (t === q) return 100;
+  if (t.startsWith(q)) return 80 - Math.min(t.length - q.length, 20) / 2;
+
+  const index = t.indexOf(q);
+  if (index > 0) {
+    const atWordStart = /[\s\-_.]/.test(t[index - 1]);
+    return (atWordStart ? 60 : 40) - Math.min(index, 20) / 2;
+  }
+
+  // Characters in order with gaps, e.g. "btc" in "bitcoin cash"
+  let position = -1;
+  let gaps = 0;
+  for (const char of q) {
+    const next = t.indexOf(char, position + 1);
+    if (next === -1) return 0;
+    gaps += next - position - 1;
+    position = next;
+  }
+  return Math.max(1, 20 - gaps);
+};
+
+// Symbols are what people type most, so they weigh a little more than names
+const FIELD_WEIGHTS: [keyof MarketAsset, number][] = [
+  ['symbol', 1.2],
+  ['name', 1],
+  ['id', 0.9],
+];
+
+export const searchAssets = <T extends MarketAsset>(assets: T[], query: string, limit: number = 50): T[] => {
+  if (!query.trim()) return assets.slice(0, limit);
+
+  return assets
+    .map((asset) => ({
+      asset,
+      score: Math.max(...FIELD_WEIGHTS.map(([field, weight]) => scoreMatch(query, asset[field]) * weight)),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.asset.name.length - b.asset.name.length)
+    .slice(0, limit)
+    .map(({ asset }) => asset);
+};
@@ -0,0 +1,44 @@
+import { StatusResponse } from '../api/schemas';
+import { ServiceHealth } from '../features/health/healthSlice';
+
+// A service whose last_updated is older than this is treated as stuck
+export const STALE_AFTER_MS = 5 * 60 * 1000;
+
+export const getLastUpdatedAge = (status: StatusResponse, now: number) => {
+  const updatedAt = Date.parse(status.last_updated);
+  return Number.isNaN(updatedAt) ? undefined : Math.max(0, now - updatedAt);
+};
+
+// Down when the service says it isn't running or reports an error, degraded
+// when it answers but stopped updating
+export const getServiceHealth = (
+  status: StatusResponse,
+  now: number,
+  staleAfterMs: number = STALE_AFTER_MS
+): { state: ServiceHealth; reason?: string } => {
+  if (!status.is_running) {
+    return { state: 'down', reason: 'Not running' };
+  }
+  if (status.status === 'error') {
+    return { state: 'down', reason: 'Reports an error' };
+  }
+  const age = getLastUpdatedAge(status, now);
+  if (age === undefined) {
+    return { state: 'degraded', reason: `Unreadable last_updated "${status.last_updated}"` };
+  }
+  if (age > staleAfterMs) {
+    return { state: 'degraded', reason: `No update for ${formatDuration(age)}` };
+  }
+  return { state: 'up' };
+};
+
+// 45s, 12m, 3h 5m, 2d 4h
+export const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
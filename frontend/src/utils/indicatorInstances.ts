@@ -0,0 +1,264 @@
+import { nanoid } from '@reduxjs/toolkit';
+import { IndicatorInstance, IndicatorPane, IndicatorType } from '../types/chart';
+import { DEFAULT_INDICATOR_PARAMS } from './technicalIndicators';
+
+export const INDICATOR_LABELS: Record<IndicatorType, string> = {
+  rsi: 'RSI',
+  macd: 'MACD',
+  bollingerBands: 'Bollinger Bands',
+  movingAverages: 'Moving Averages',
+  sma: 'SMA',
+  ema: 'EMA',
+  adx: 'ADX',
+  obv: 'OBV',
+  vwap: 'VWAP',
+  atr: 'ATR',
+  cci: 'CCI',
+  stoch: 'Stochastic',
+  roc: 'Rate of Change',
+  mfi: 'Money Flow Index',
+  williamsR: 'Williams %R',
+  ichimoku: 'Ichimoku',
+  keltnerChannels: 'Keltner Channels',
+  parabolicSar: 'Parabolic SAR',
+  supertrend: 'Supertrend',
+  donchianChannels: 'Donchian Channels',
+  kst: 'Know Sure Thing',
+  chaikinMoneyFlow: 'Chaikin Money Flow',
+  vwapMomentum: 'VWAP Momentum',
+  hma: 'HMA',
+};
+
+export const INDICATOR_TYPES = Object.keys(INDICATOR_LABELS) as IndicatorType[];
+
+// Where a new instance goes: overlays share the price scale, oscillators don't
+export const DEFAULT_INDICATOR_PANES: Record<IndicatorType, IndicatorPane> = {
+  rsi: 'lower',
+  macd: 'lower',
+  bollingerBands: 'price',
+  movingAverages: 'price',
+  sma: 'price',
+  ema: 'price',
+  adx: 'lower',
+  obv: 'lower',
+  vwap: 'price',
+  atr: 'lower',
+  cci: 'lower',
+  stoch: 'lower',
+  roc: 'lower',
+  mfi: 'lower',
+  williamsR: 'lower',
+  ichimoku: 'price',
+  keltnerChannels: 'price',
+  parabolicSar: 'price',
+  supertrend: 'price',
+  donchianChannels: 'price',
+  kst: 'lower',
+  chaikinMoneyFlow: 'lower',
+  vwapMomentum: 'lower',
+  hma: 'price',
+};
+
+const DEFAULT_INDICATOR_COLORS: Record<IndicatorType, string> = {
+  rsi: '#f44336',
+  macd: '#ff9800',
+  bollingerBands: '#ff9800',
+  movingAverages: '#4caf50',
+  sma: '#2196f3',
+  ema: '#e91e63',
+  adx: '#9c27b0',
+  obv: '#3f51b5',
+  vwap: '#00bcd4',
+  atr: '#ff5722',
+  cci: '#795548',
+  stoch: '#607d8b',
+  roc: '#009688',
+  mfi: '#8bc34a',
+  williamsR: '#673ab7',
+  ichimoku: '#26a69a',
+  keltnerChannels: '#ffc107',
+  parabolicSar: '#cddc39',
+  supertrend: '#ef6c00',
+  donchianChannels: '#5c6bc0',
+  kst: '#ad1457',
+  chaikinMoneyFlow: '#00897b',
+  vwapMomentum: '#6d4c41',
+  hma: '#7cb342',
+};
+
+// How each param is entered and the range it's allowed, as the params fields
+// enforce it and stored params are held to
+export interface IndicatorParamField {
+  key: string;
+  label: string;
+  min: number;
+  max?: number;
+  step?: number; // whole numbers unless given
+}
+
+const period = (label = 'Period'): IndicatorParamField => ({ key: 'period', label, min: 2, max: 500 });
+
+export const INDICATOR_PARAM_FIELDS: Record<IndicatorType, IndicatorParamField[]> = {
+  rsi: [
+    period(),
+    { key: 'overbought', label: 'Overbought', min: 1, max: 99 },
+    { key: 'oversold', label: 'Oversold', min: 1, max: 99 },
+  ],
+  macd: [
+    { key: 'fastPeriod', label: 'Fast', min: 2, max: 500 },
+    { key: 'slowPeriod', label: 'Slow', min: 2, max: 500 },
+    { key: 'signalPeriod', label: 'Signal', min: 2, max: 500 },
+  ],
+  bollingerBands: [period(), { key: 'multiplier', label: 'Std devs', min: 0.1, max: 10, step: 0.1 }],
+  movingAverages: [
+    { key: 'shortPeriod', label: 'Short', min: 2, max: 500 },
+    { key: 'longPeriod', label: 'Long', min: 2, max: 1000 },
+  ],
+  sma: [period()],
+  ema: [period()],
+  adx: [period()],
+  obv: [],
+  vwap: [],
+  atr: [period()],
+  cci: [period()],
+  stoch: [period('%K period'), { key: 'signalPeriod', label: '%D period', min: 1, max: 100 }],
+  roc: [period()],
+  mfi: [period()],
+  williamsR: [period()],
+  ichimoku: [
+    { key: 'conversionPeriod', label: 'Conversion', min: 2, max: 500 },
+    { key: 'basePeriod', label: 'Base', min: 2, max: 500 },
+    { key: 'spanBPeriod', label: 'Span B', min: 2, max: 500 },
+    { key: 'displacement', label: 'Displacement', min: 1, max: 500 },
+  ],
+  keltnerChannels: [
+    period('EMA period'),
+    { key: 'atrPeriod', label: 'ATR period', min: 1, max: 500 },
+    { key: 'multiplier', label: 'ATRs', min: 0.1, max: 10, step: 0.1 },
+  ],
+  parabolicSar: [
+    { key: 'step', label: 'Step', min: 0.001, max: 1, step: 0.01 },
+    { key: 'maxStep', label: 'Max step', min: 0.001, max: 1, step: 0.01 },
+  ],
+  supertrend: [period('ATR period'), { key: 'multiplier', label: 'ATRs', min: 0.1, max: 10, step: 0.1 }],
+  donchianChannels: [period()],
+  kst: [
+    ...[1, 2, 3, 4].map((n) => ({ key: `roc${n}`, label: `ROC ${n}`, min: 1, max: 500 })),
+    ...[1, 2, 3, 4].map((n) => ({ key: `sma${n}`, label: `SMA ${n}`, min: 1, max: 500 })),
+    { key: 'signalPeriod', label: 'Signal', min: 1, max: 500 },
+  ],
+  chaikinMoneyFlow: [period()],
+  vwapMomentum: [period()],
+  hma: [period()],
+};
+
+// Params that must stay below another one of the same indicator
+export const PARAM_ORDER: Partial<Record<IndicatorType, [string, string]>> = {
+  rsi: ['oversold', 'overbought'],
+  macd: ['fastPeriod', 'slowPeriod'],
+  movingAverages: ['shortPeriod', 'longPeriod'],
+  ichimoku: ['conversionPeriod', 'basePeriod'],
+  parabolicSar: ['step', 'maxStep'],
+};
+
+export const hasIndicatorParams = (type: IndicatorType) => INDICATOR_PARAM_FIELDS[type].length > 0;
+
+export const isValidParamValue = ({ min, max, step }: IndicatorParamField, value: number) =>
+  Number.isFinite(value) &&
+  value >= min &&
+  (max === undefined || value <= max) &&
+  (step !== undefined || Number.isInteger(value));
+
+export const isValidParamOrder = (type: IndicatorType, params: Record<string, number>) => {
+  const order = PARAM_ORDER[type];
+  return !order || params[order[0]] < params[order[1]];
+};
+
+export const createIndicatorInstance = (
+  type: IndicatorType,
+  overrides: Partial<Omit<IndicatorInstance, 'type' | 'params'>> = {}
+): IndicatorInstance => ({
+  id: nanoid(),
+  type,
+  params: { ...DEFAULT_INDICATOR_PARAMS[type] },
+  enabled: true,
+  color: DEFAULT_INDICATOR_COLORS[type],
+  lineWidth: 1,
+  pane: DEFAULT_INDICATOR_PANES[type],
+  ...overrides,
+} as IndicatorInstance);
+
+// A copy with its own id, so it can be changed on its own
+export const duplicateIndicatorInstance = (instance: IndicatorInstance): IndicatorInstance => ({
+  ...instance,
+  id: nanoid(),
+  params: { ...instance.params },
+} as IndicatorInstance);
+
+// How many params go in an instance's name, when it isn't all of them
+const PARAMS_IN_NAME: Partial<Record<IndicatorType, number>> = { rsi: 1, bollingerBands: 1, kst: 4 };
+
+// "EMA 21", "MACD 12/26/9", "VWAP"
+export const describeIndicator = ({ type, params }: IndicatorInstance) => {
+  const values = Object.values(params as Record<string, number>);
+  const periods = values.slice(0, PARAMS_IN_NAME[type]);
+  return periods.length > 0 ? `${INDICATOR_LABELS[type]} ${periods.join('/')}` : INDICATOR_LABELS[type];
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIndicatorType = (value: unknown): value is IndicatorType =>
+  INDICATOR_TYPES.includes(value as IndicatorType);
+
+// A stored param brought into its field's range, and rounded unless the field
+// takes fractions; the default when it isn't a number
+const normalizeParam = (field: IndicatorParamField | undefined, value: unknown, fallback: number) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  if (!field) return value;
+  const clamped = Math.min(Math.max(value, field.min), field.max ?? Infinity);
+  return field.step === undefined ? Math.round(clamped) : clamped;
+};
+
+// Instances from storage or an imported file: unknown types are dropped,
+// missing or mistyped fields fall back to the type's defaults, and params are
+// held to the same ranges as the params fields
+export const normalizeIndicators = (stored: unknown): IndicatorInstance[] => {
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap((item: unknown) => {
+    if (!isObject(item) || !isIndicatorType(item.type)) return [];
+    const defaults = createIndicatorInstance(item.type);
+    const defaultParams = defaults.params as Record<string, number>;
+    const storedParams = isObject(item.params) ? item.params : {};
+    const fields = INDICATOR_PARAM_FIELDS[item.type];
+    const params = Object.fromEntries(Object.entries(defaultParams).map(([key, fallback]) => [
+      key,
+      normalizeParam(fields.find((field) => field.key === key), storedParams[key], fallback),
+    ]));
+    return [{
+      id: typeof item.id === 'string' ? item.id : defaults.id,
+      type: defaults.type,
+      // Params in the wrong order, like a fast MACD slower than the slow one,
+      // go back to the defaults together
+      params: isValidParamOrder(item.type, params) ? params : defaultParams,
+      enabled: typeof item.enabled === 'boolean' ? item.enabled : defaults.enabled,
+      color: typeof item.color === 'string' ? item.color : defaults.color,
+      lineWidth: typeof item.lineWidth === 'number' ? item.lineWidth : defaults.lineWidth,
+      pane: item.pane === 'price' || item.pane === 'lower' ? item.pane : defaults.pane,
+    } as IndicatorInstance];
+  });
+};
+
+// Indicators used to be a record with one of each type, keyed by type; turn
+// that into instances, with the candlestick toggle split out
+export const indicatorsFromRecord = (record: unknown) => {
+  const stored = isObject(record) ? record : {};
+  return {
+    candlestick: isObject(stored.candlestick) && Boolean(stored.candlestick.enabled),
+    indicators: normalizeIndicators(
+      Object.entries(stored)
+        .filter(([type]) => type !== 'candlestick')
+        .map(([type, config]) => ({ ...(isObject(config) ? config : {}), id: type, type }))
+    ),
+  };
+};
@@ -0,0 +1,381 @@
+import {
+  ADX,
+  ATR,
+  BollingerBands,
+  CCI,
+  EMA,
+  Highest,
+  IchimokuCloud,
+  KST,
+  KeltnerChannels,
+  Lowest,
+  MACD,
+  MFI,
+  OBV,
+  PSAR,
+  ROC,
+  RSI,
+  SMA,
+  Stochastic,
+  VWAP,
+  WMA,
+  WilliamsR,
+} from 'technicalindicators';
+import {
+  IndicatorSeries,
+  PriceSeries,
+  adx,
+  atr,
+  bollingerBands,
+  cci,
+  chaikinMoneyFlow,
+  donchianChannels,
+  ema,
+  hma,
+  ichimoku,
+  keltnerChannels,
+  kst,
+  macd,
+  mfi,
+  obv,
+  parabolicSar,
+  roc,
+  rsi,
+  sma,
+  stochastic,
+  supertrend,
+  toPriceSeries,
+  vwap,
+  vwapMomentum,
+  williamsR,
+  wma,
+} from './indicators';
+
+// StockCharts' worked examples: the 10-day SMA and EMA from "Moving Averages -
+// Simple and Exponential" and the 14-day RSI from "Relative Strength Index"
+const STOCKCHARTS_MA_CLOSES = [
+  22.2734, 22.194, 22.0847, 22.1741, 22.184, 22.1344, 22.2337, 22.4323, 22.2436, 22.2933,
+  22.1542, 22.3926, 22.3816, 22.6109, 23.3558, 24.0519, 23.753, 23.8324, 23.9516, 23.6338,
+  23.8225, 23.8722, 23.6537, 23.187, 23.0976, 23.3261, 22.6805, 23.0976, 22.4025, 22.1725,
+];
+const STOCKCHARTS_SMA_10 = [
+  22.22, 22.21, 22.23, 22.26, 22.31, 22.42, 22.61, 22.77, 22.91, 23.08, 23.21,
+  23.38, 23.53, 23.65, 23.71, 23.69, 23.61, 23.51, 23.43, 23.28, 23.13,
+];
+const STOCKCHARTS_EMA_10 = [
+  22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.80, 22.97, 23.13, 23.28, 23.34,
+  23.43, 23.51, 23.54, 23.47, 23.40, 23.39, 23.26, 23.23, 23.08, 22.92,
+];
+const STOCKCHARTS_RSI_CLOSES = [
+  44.3389, 44.0902, 44.1497, 43.6124, 44.3278, 44.8264, 45.0955, 45.4245, 45.8433, 46.0826,
+  45.8931, 46.0328, 45.614, 46.282, 46.282, 46.0028, 46.0328, 46.4116, 46.2222, 45.6439,
+  46.2122, 46.2521, 45.7137, 46.4515, 45.7835, 45.3548, 44.0288, 44.1783, 44.2181, 44.5672,
+  43.4205, 42.6628, 43.1314,
+];
+const STOCKCHARTS_RSI_14 = [
+  70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38,
+  54.71, 50.42, 39.99, 41.46, 41.87, 45.46, 37.30, 33.08, 37.77,
+];
+
+// A seeded random walk, so every run checks the same candles
+const randomCandles = (count: number, seed: number): PriceSeries => {
+  let state = seed;
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const prices: PriceSeries = { open: [], high: [], low: [], close: [], volume: [] };
+  let last = 100;
+  for (let i = 0; i < count; i++) {
+    const close = last * (1 + (random() - 0.5) * 0.04);
+    prices.open.push(last);
+    prices.close.push(close);
+    prices.high.push(Math.max(last, close) * (1 + random() * 0.01));
+    prices.low.push(Math.min(last, close) * (1 - random() * 0.01));
+    prices.volume.push(1000 + random() * 1000);
+    last = close;
+  }
+  return prices;
+};
+
+const prices = randomCandles(150, 42);
+const { high, low, close, volume } = prices;
+
+const defined = (series: IndicatorSeries) => series.filter((value): value is number => value !== undefined);
+
+const firstDefined = (series: IndicatorSeries) => series.findIndex((value) => value !== undefined);
+
+// technicalindicators leaves out the candles before an indicator has a value,
+// so its output lines up with the end of ours
+const expectToMatch = (series: IndicatorSeries, reference: number[], precision = 8) => {
+  const values = defined(series);
+  expect(values).toHaveLength(reference.length);
+  values.forEach((value, i) => expect(value).toBeCloseTo(reference[i], precision));
+};
+
+const expectRounded = (series: IndicatorSeries, expected: number[]) => {
+  expect(defined(series).map((value) => Number(value.toFixed(2)))).toEqual(expected);
+};
+
+describe('published values', () => {
+  it('matches the StockCharts SMA example', () => {
+    const series = sma(STOCKCHARTS_MA_CLOSES, 10);
+    expect(firstDefined(series)).toBe(9);
+    expectRounded(series, STOCKCHARTS_SMA_10);
+  });
+
+  it('matches the StockCharts EMA example', () => {
+    const series = ema(STOCKCHARTS_MA_CLOSES, 10);
+    expect(firstDefined(series)).toBe(9);
+    expectRounded(series, STOCKCHARTS_EMA_10);
+  });
+
+  it('matches the StockCharts RSI example', () => {
+    const series = rsi(STOCKCHARTS_RSI_CLOSES, 14);
+    expect(firstDefined(series)).toBe(14);
+    expectRounded(series, STOCKCHARTS_RSI_14);
+  });
+});
+
+describe('against technicalindicators', () => {
+  it('SMA, EMA and WMA', () => {
+    expectToMatch(sma(close, 10), SMA.calculate({ period: 10, values: close }));
+    expectToMatch(ema(close, 10), EMA.calculate({ period: 10, values: close }));
+    expectToMatch(wma(close, 10), WMA.calculate({ period: 10, values: close }));
+  });
+
+  it('RSI', () => {
+    // technicalindicators rounds to two decimals
+    expectToMatch(rsi(close, 14), RSI.calculate({ period: 14, values: close }), 2);
+  });
+
+  it('MACD', () => {
+    const result = macd(close, 12, 26, 9);
+    const reference = MACD.calculate({
+      values: close,
+      fastPeriod: 12,
+      slowPeriod: 26,
+      signalPeriod: 9,
+      SimpleMAOscillator: false,
+      SimpleMASignal: false,
+    });
+    expectToMatch(result.macd, reference.map(({ MACD: line }) => line as number));
+    const withSignal = reference.filter(({ signal }) => signal !== undefined);
+    expectToMatch(result.signal, withSignal.map(({ signal }) => signal as number));
+    expectToMatch(result.histogram, withSignal.map(({ histogram }) => histogram as number));
+  });
+
+  it('Bollinger Bands', () => {
+    const result = bollingerBands(close, 20, 2);
+    const reference = BollingerBands.calculate({ period: 20, stdDev: 2, values: close });
+    expectToMatch(result.upper, reference.map(({ upper }) => upper));
+    expectToMatch(result.middle, reference.map(({ middle }) => middle));
+    expectToMatch(result.lower, reference.map(({ lower }) => lower));
+  });
+
+  it('ATR', () => {
+    expectToMatch(atr(prices, 14), ATR.calculate({ high, low, close, period: 14 }));
+  });
+
+  it('ADX', () => {
+    const result = adx(prices, 14);
+    const reference = ADX.calculate({ high, low, close, period: 14 });
+    expectToMatch(result.adx, reference.map(({ adx: value }) => value));
+    // technicalindicators only gives the DIs once ADX has a value
+    expect(defined(result.plusDI).slice(-reference.length).map((v) => v.toFixed(8)))
+      .toEqual(reference.map(({ pdi }) => pdi.toFixed(8)));
+    expect(defined(result.minusDI).slice(-reference.length).map((v) => v.toFixed(8)))
+      .toEqual(reference.map(({ mdi }) => mdi.toFixed(8)));
+  });
+
+  it('OBV', () => {
+    // technicalindicators starts from the second candle
+    expectToMatch(obv(prices).slice(1), OBV.calculate({ close, volume }));
+    expect(obv(prices)[0]).toBe(0);
+  });
+
+  it('VWAP', () => {
+    expectToMatch(vwap(prices), VWAP.calculate({ high, low, close, volume }));
+  });
+
+  it('CCI', () => {
+    expectToMatch(cci(prices, 20), CCI.calculate({ high, low, close, period: 20 }));
+  });
+
+  it('Stochastic', () => {
+    const result = stochastic(prices, 14, 3);
+    const reference = Stochastic.calculate({ high, low, close, period: 14, signalPeriod: 3 });
+    expectToMatch(result.k, reference.map(({ k }) => k));
+    expectToMatch(result.d, reference.filter(({ d }) => d !== undefined).map(({ d }) => d));
+  });
+
+  it('Rate of Change', () => {
+    expectToMatch(roc(close, 12), ROC.calculate({ values: close, period: 12 }));
+  });
+
+  it('Money Flow Index', () => {
+    // technicalindicators rounds to two decimals, and only starts a candle later
+    const reference = MFI.calculate({ high, low, close, volume, period: 14 });
+    expectToMatch(mfi(prices, 14).slice(-reference.length), reference, 2);
+  });
+
+  it('Williams %R', () => {
+    expectToMatch(williamsR(prices, 14), WilliamsR.calculate({ high, low, close, period: 14 }));
+  });
+
+  it('Ichimoku', () => {
+    const result = ichimoku(prices, 9, 26, 52, 26);
+    const reference = IchimokuCloud.calculate({
+      high,
+      low,
+      conversionPeriod: 9,
+      basePeriod: 26,
+      spanPeriod: 52,
+      displacement: 26,
+    });
+    // technicalindicators starts every line once span B has a value, and
+    // leaves the spans where they are calculated instead of ahead
+    const start = close.length - reference.length;
+    expectToMatch(result.conversion.slice(start), reference.map(({ conversion }) => conversion));
+    expectToMatch(result.base.slice(start), reference.map(({ base }) => base));
+    const shift = 25;
+    const shown = reference.slice(0, reference.length - shift);
+    expectToMatch(result.spanA.slice(start + shift), shown.map(({ spanA }) => spanA));
+    expectToMatch(result.spanB.slice(start + shift), shown.map(({ spanB }) => spanB));
+    expect(result.lagging.slice(0, close.length - shift)).toEqual(close.slice(shift));
+  });
+
+  it('Keltner Channels', () => {
+    const result = keltnerChannels(prices, 20, 10, 2);
+    const reference = KeltnerChannels.calculate({
+      high,
+      low,
+      close,
+      maPeriod: 20,
+      atrPeriod: 10,
+      useSMA: false,
+      multiplier: 2,
+    });
+    expectToMatch(result.upper, reference.map(({ upper }) => upper));
+    expectToMatch(result.middle, reference.map(({ middle }) => middle));
+    expectToMatch(result.lower, reference.map(({ lower }) => lower));
+  });
+
+  it('Parabolic SAR', () => {
+    // technicalindicators also gives the first candle's starting stop, which
+    // isn't in force during any candle
+    const reference = PSAR.calculate({ high, low, step: 0.02, max: 0.2 });
+    expectToMatch(parabolicSar(prices, 0.02, 0.2), reference.slice(1));
+  });
+
+  it('Donchian Channels', () => {
+    const result = donchianChannels(prices, 20);
+    const highest = Highest.calculate({ values: high, period: 20 });
+    const lowest = Lowest.calculate({ values: low, period: 20 });
+    expectToMatch(result.upper, highest);
+    expectToMatch(result.lower, lowest);
+    expectToMatch(result.middle, highest.map((h, i) => (h + lowest[i]) / 2));
+  });
+
+  it('Know Sure Thing', () => {
+    const result = kst(close, [10, 15, 20, 30], [10, 10, 10, 15], 9);
+    const reference = KST.calculate({
+      values: close,
+      ROCPer1: 10,
+      ROCPer2: 15,
+      ROCPer3: 20,
+      ROCPer4: 30,
+      SMAROCPer1: 10,
+      SMAROCPer2: 10,
+      SMAROCPer3: 10,
+      SMAROCPer4: 15,
+      signalPeriod: 9,
+    });
+    expectToMatch(result.kst, reference.map(({ kst: value }) => value));
+    expectToMatch(result.signal, reference.filter(({ signal }) => signal !== undefined).map(({ signal }) => signal as number));
+  });
+
+  it('Hull Moving Average', () => {
+    // WMA(2 * WMA(8) - WMA(16), 4), built from technicalindicators' WMA
+    const half = WMA.calculate({ period: 8, values: close });
+    const full = WMA.calculate({ period: 16, values: close });
+    const difference = full.map((f, i) => 2 * half[i + 8] - f);
+    expectToMatch(hma(close, 16), WMA.calculate({ period: 4, values: difference }));
+  });
+});
+
+describe('by hand', () => {
+  const candles = toPriceSeries([
+    { open: 10, high: 12, low: 9, close: 11, volume: 100 },
+    { open: 11, high: 13, low: 10, close: 12, volume: 200 },
+    { open: 12, high: 12, low: 12, close: 12, volume: 300 },
+    { open: 12, high: 14, low: 11, close: 11, volume: 400 },
+  ]);
+
+  it('Chaikin Money Flow', () => {
+    // Money flow multipliers 1/3, 1/3, 0 (no range) and -1 (closed at the low)
+    const result = chaikinMoneyFlow(candles, 2);
+    expect(result[0]).toBeUndefined();
+    expect(result[1]).toBeCloseTo((100 / 3 + 200 / 3) / 300, 10);
+    expect(result[2]).toBeCloseTo(200 / 3 / 500, 10);
+    expect(result[3]).toBeCloseTo(-400 / 700, 10);
+  });
+
+  it('VWAP momentum', () => {
+    const typical = [32 / 3, 35 / 3, 12, 12];
+    const rolling = [
+      undefined,
+      (typical[0] * 100 + typical[1] * 200) / 300,
+      (typical[1] * 200 + typical[2] * 300) / 500,
+      (typical[2] * 300 + typical[3] * 400) / 700,
+    ];
+    const result = vwapMomentum(candles, 2);
+    expect(result.slice(0, 2)).toEqual([undefined, undefined]);
+    expect(result[2]).toBeCloseTo((((rolling[2] as number) - (rolling[1] as number)) / (rolling[1] as number)) * 100, 10);
+    expect(result[3]).toBeCloseTo((((rolling[3] as number) - (rolling[2] as number)) / (rolling[2] as number)) * 100, 10);
+  });
+
+  it('Supertrend follows the trend and flips on a close through the band', () => {
+    const trend = toPriceSeries([
+      ...[10, 11, 12, 13, 14, 15].map((c) => ({ open: c - 0.5, high: c + 0.5, low: c - 1, close: c })),
+      ...[9, 8, 7].map((c) => ({ open: c + 0.5, high: c + 1, low: c - 0.5, close: c })),
+    ]);
+    const { value, direction } = supertrend(trend, 2, 1);
+    const range = atr(trend, 2);
+    expect(value.slice(0, 2)).toEqual([undefined, undefined]);
+    expect(direction.slice(2, 6)).toEqual([1, 1, 1, 1]);
+    // Trending up, the band sits one ATR below the middle of the candle
+    expect(value[2]).toBeCloseTo((12.5 + 11) / 2 - (range[2] as number), 10);
+    expect(direction.slice(6)).toEqual([-1, -1, -1]);
+    // Trending down, the stop sits above the close
+    [6, 7, 8].forEach((i) => expect(value[i]).toBeGreaterThan(trend.close[i]));
+  });
+});
+
+describe('edge cases', () => {
+  const values = [1, 2, 3, 4, 5];
+
+  it('has no values for a period under 1', () => {
+    [sma(values, 0), ema(values, 0), wma(values, 0), sma(values, -1)].forEach((series) => {
+      expect(series).toEqual([undefined, undefined, undefined, undefined, undefined]);
+    });
+    expect(defined(stochastic(toPriceSeries(values.map((price) => ({ price }))), 0).k)).toEqual([]);
+    expect(defined(donchianChannels(toPriceSeries(values.map((price) => ({ price }))), 0).upper)).toEqual([]);
+  });
+
+  it('makes HMA 1 the close itself', () => {
+    expect(hma(values, 1)).toEqual(values);
+  });
+
+  it('starts moving averages after the input does', () => {
+    expect(sma([undefined, 2, 4, 6], 2)).toEqual([undefined, undefined, 3, 5]);
+    expect(ema([undefined, 2, 4, 6], 2)).toEqual([undefined, undefined, 3, 5]);
+  });
+
+  it('waits for enough history', () => {
+    expect(defined(rsi([1, 2, 3], 14))).toEqual([]);
+    expect(defined(atr(toPriceSeries([{ price: 1 }, { price: 2 }]), 14))).toEqual([]);
+  });
+});
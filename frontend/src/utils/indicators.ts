@@ -0,0 +1,464 @@
+import { ChartData } from '../types/chart';
+
+// The one implementation of each indicator. Every series has a value per
+// candle, undefined until the indicator has enough history, so series line up
+// with the candles and with each other without any offset bookkeeping. A
+// period under 1 never has enough history, so its series stays undefined.
+export type IndicatorSeries = (number | undefined)[];
+
+export interface PriceSeries {
+  open: number[];
+  high: number[];
+  low: number[];
+  close: number[];
+  volume: number[];
+}
+
+// Split candles into the OHLCV series the indicators consume. Points that only
+// carry a price (ticks, older price history) count as flat candles.
+export const toPriceSeries = (data: Partial<ChartData>[]): PriceSeries => {
+  const close = data.map((d) => d.close ?? d.price ?? 0);
+  return {
+    open: data.map((d, i) => d.open ?? close[i]),
+    high: data.map((d, i) => d.high ?? close[i]),
+    low: data.map((d, i) => d.low ?? close[i]),
+    close,
+    volume: data.map((d) => d.volume || 0),
+  };
+};
+
+// Last value of a series, if it has one yet
+export const latest = (series: IndicatorSeries): number | undefined => series[series.length - 1];
+
+const firstDefined = (values: IndicatorSeries) => {
+  const index = values.findIndex((value) => value !== undefined);
+  return index === -1 ? values.length : index;
+};
+
+const empty = (length: number): IndicatorSeries => new Array(length).fill(undefined);
+
+// Simple moving average; starts period - 1 candles after the input does
+export const sma = (values: IndicatorSeries, period: number): IndicatorSeries => {
+  const result = empty(values.length);
+  if (period < 1) return result;
+  const start = firstDefined(values);
+  let sum = 0;
+  for (let i = start; i < values.length; i++) {
+    sum += values[i] as number;
+    if (i - start >= period) sum -= values[i - period] as number;
+    if (i - start >= period - 1) result[i] = sum / period;
+  }
+  return result;
+};
+
+// Exponential moving average, seeded with the SMA of its first period values
+// and then recursive on its own previous value
+export const ema = (values: IndicatorSeries, period: number): IndicatorSeries => {
+  const result = empty(values.length);
+  const start = firstDefined(values);
+  const seedIndex = start + period - 1;
+  if (period < 1 || seedIndex >= values.length) return result;
+  const k = 2 / (period + 1);
+  let previous = 0;
+  for (let i = start; i <= seedIndex; i++) previous += (values[i] as number) / period;
+  result[seedIndex] = previous;
+  for (let i = seedIndex + 1; i < values.length; i++) {
+    previous = (values[i] as number) * k + previous * (1 - k);
+    result[i] = previous;
+  }
+  return result;
+};
+
+// Wilder's smoothing: the mean of the first period values, then
+// (previous * (period - 1) + value) / period
+const wilder = (values: IndicatorSeries, period: number): IndicatorSeries => {
+  const result = empty(values.length);
+  const start = firstDefined(values);
+  const seedIndex = start + period - 1;
+  if (period < 1 || seedIndex >= values.length) return result;
+  let previous = 0;
+  for (let i = start; i <= seedIndex; i++) previous += (values[i] as number) / period;
+  result[seedIndex] = previous;
+  for (let i = seedIndex + 1; i < values.length; i++) {
+    previous = (previous * (period - 1) + (values[i] as number)) / period;
+    result[i] = previous;
+  }
+  return result;
+};
+
+// Relative Strength Index with Wilder's smoothing; starts at candle `period`
+export const rsi = (close: number[], period = 14): IndicatorSeries => {
+  const gains: IndicatorSeries = close.map((c, i) => (i === 0 ? undefined : Math.max(c - close[i - 1], 0)));
+  const losses: IndicatorSeries = close.map((c, i) => (i === 0 ? undefined : Math.max(close[i - 1] - c, 0)));
+  const avgGain = wilder(gains, period);
+  const avgLoss = wilder(losses, period);
+  return close.map((_, i) => {
+    const gain = avgGain[i];
+    const loss = avgLoss[i];
+    if (gain === undefined || loss === undefined) return undefined;
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  });
+};
+
+// MACD line from slowPeriod - 1, signal and histogram from
+// slowPeriod + signalPeriod - 2
+export const macd = (close: number[], fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) => {
+  const fast = ema(close, fastPeriod);
+  const slow = ema(close, slowPeriod);
+  const line: IndicatorSeries = close.map((_, i) => {
+    const f = fast[i];
+    const s = slow[i];
+    return f === undefined || s === undefined ? undefined : f - s;
+  });
+  const signal = ema(line, signalPeriod);
+  const histogram: IndicatorSeries = close.map((_, i) => {
+    const m = line[i];
+    const s = signal[i];
+    return m === undefined || s === undefined ? undefined : m - s;
+  });
+  return { macd: line, signal, histogram };
+};
+
+// Bollinger Bands: SMA of the last `period` closes (this one included) plus or
+// minus `multiplier` population standard deviations
+export const bollingerBands = (close: number[], period = 20, multiplier = 2) => {
+  const middle = sma(close, period);
+  const upper = empty(close.length);
+  const lower = empty(close.length);
+  middle.forEach((mean, i) => {
+    if (mean === undefined) return;
+    const window = close.slice(i - period + 1, i + 1);
+    const stdDev = Math.sqrt(window.reduce((sum, c) => sum + (c - mean) ** 2, 0) / period);
+    upper[i] = mean + multiplier * stdDev;
+    lower[i] = mean - multiplier * stdDev;
+  });
+  return { upper, middle, lower };
+};
+
+const trueRange = ({ high, low, close }: PriceSeries): IndicatorSeries =>
+  close.map((_, i) =>
+    i === 0
+      ? undefined
+      : Math.max(high[i] - low[i], Math.abs(high[i] - close[i - 1]), Math.abs(low[i] - close[i - 1]))
+  );
+
+// Average True Range with Wilder's smoothing; starts at candle `period`
+export const atr = (prices: PriceSeries, period = 14): IndicatorSeries => wilder(trueRange(prices), period);
+
+// Average Directional Index with the directional indicators it is built from.
+// +DI and -DI start at candle `period`, ADX at 2 * period - 1.
+export const adx = (prices: PriceSeries, period = 14) => {
+  const { high, low } = prices;
+  const length = high.length;
+  const plusDM: IndicatorSeries = high.map((h, i) => {
+    if (i === 0) return undefined;
+    const up = h - high[i - 1];
+    const down = low[i - 1] - low[i];
+    return up > down && up > 0 ? up : 0;
+  });
+  const minusDM: IndicatorSeries = high.map((h, i) => {
+    if (i === 0) return undefined;
+    const up = h - high[i - 1];
+    const down = low[i - 1] - low[i];
+    return down > up && down > 0 ? down : 0;
+  });
+  // Wilder's averages have the same ratios as his running sums
+  const tr = wilder(trueRange(prices), period);
+  const plus = wilder(plusDM, period);
+  const minus = wilder(minusDM, period);
+
+  const plusDI = empty(length);
+  const minusDI = empty(length);
+  const dx = empty(length);
+  for (let i = 0; i < length; i++) {
+    const range = tr[i];
+    if (range === undefined || plus[i] === undefined || minus[i] === undefined) continue;
+    plusDI[i] = range === 0 ? 0 : (100 * (plus[i] as number)) / range;
+    minusDI[i] = range === 0 ? 0 : (100 * (minus[i] as number)) / range;
+    const total = (plusDI[i] as number) + (minusDI[i] as number);
+    dx[i] = total === 0 ? 0 : (100 * Math.abs((plusDI[i] as number) - (minusDI[i] as number))) / total;
+  }
+  return { adx: wilder(dx, period), plusDI, minusDI };
+};
+
+// On-Balance Volume, from zero at the first candle
+export const obv = ({ close, volume }: PriceSeries): IndicatorSeries => {
+  let total = 0;
+  return close.map((c, i) => {
+    if (i > 0 && c > close[i - 1]) total += volume[i];
+    else if (i > 0 && c < close[i - 1]) total -= volume[i];
+    return total;
+  });
+};
+
+// Volume Weighted Average Price of the typical price, cumulative from the
+// first candle; undefined until there has been some volume
+export const vwap = ({ high, low, close, volume }: PriceSeries): IndicatorSeries => {
+  let priceVolume = 0;
+  let totalVolume = 0;
+  return close.map((c, i) => {
+    priceVolume += ((high[i] + low[i] + c) / 3) * volume[i];
+    totalVolume += volume[i];
+    return totalVolume > 0 ? priceVolume / totalVolume : undefined;
+  });
+};
+
+// Commodity Channel Index; starts at candle period - 1
+export const cci = ({ high, low, close }: PriceSeries, period = 20): IndicatorSeries => {
+  const typical = close.map((c, i) => (high[i] + low[i] + c) / 3);
+  const mean = sma(typical, period);
+  return typical.map((tp, i) => {
+    const m = mean[i];
+    if (m === undefined) return undefined;
+    const meanDeviation = typical.slice(i - period + 1, i + 1).reduce((sum, t) => sum + Math.abs(t - m), 0) / period;
+    return meanDeviation === 0 ? 0 : (tp - m) / (0.015 * meanDeviation);
+  });
+};
+
+// Stochastic oscillator: %K from candle period - 1, %D (its SMA) after that
+export const stochastic = ({ high, low, close }: PriceSeries, period = 14, signalPeriod = 3) => {
+  const k: IndicatorSeries = close.map((c, i) => {
+    if (period < 1 || i < period - 1) return undefined;
+    const highest = Math.max(...high.slice(i - period + 1, i + 1));
+    const lowest = Math.min(...low.slice(i - period + 1, i + 1));
+    return highest === lowest ? 50 : ((c - lowest) / (highest - lowest)) * 100;
+  });
+  return { k, d: sma(k, signalPeriod) };
+};
+
+// Rate of Change in percent; starts at candle `period`
+export const roc = (close: number[], period = 12): IndicatorSeries =>
+  close.map((c, i) => (period < 1 || i < period || close[i - period] === 0 ? undefined : ((c - close[i - period]) / close[i - period]) * 100));
+
+// Money Flow Index; starts at candle `period`
+export const mfi = ({ high, low, close, volume }: PriceSeries, period = 14): IndicatorSeries => {
+  const typical = close.map((c, i) => (high[i] + low[i] + c) / 3);
+  return typical.map((_, i) => {
+    if (period < 1 || i < period) return undefined;
+    let positive = 0;
+    let negative = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      const flow = typical[j] * volume[j];
+      if (typical[j] > typical[j - 1]) positive += flow;
+      else if (typical[j] < typical[j - 1]) negative += flow;
+    }
+    if (negative === 0) return positive === 0 ? 50 : 100;
+    return 100 - 100 / (1 + positive / negative);
+  });
+};
+
+// Williams %R: where the close sits in the range of the last `period` candles,
+// from 0 at the top to -100 at the bottom; starts at candle period - 1
+export const williamsR = ({ high, low, close }: PriceSeries, period = 14): IndicatorSeries =>
+  close.map((c, i) => {
+    if (period < 1 || i < period - 1) return undefined;
+    const highest = Math.max(...high.slice(i - period + 1, i + 1));
+    const lowest = Math.min(...low.slice(i - period + 1, i + 1));
+    return highest === lowest ? -50 : ((highest - c) / (highest - lowest)) * -100;
+  });
+
+// Middle of the high-low range of the last `period` candles
+const midpoint = ({ high, low }: PriceSeries, period: number): IndicatorSeries =>
+  high.map((_, i) =>
+    period < 1 || i < period - 1
+      ? undefined
+      : (Math.max(...high.slice(i - period + 1, i + 1)) + Math.min(...low.slice(i - period + 1, i + 1))) / 2
+  );
+
+// Ichimoku Kinko Hyo. The cloud (span A and B) is drawn displacement - 1
+// candles ahead of the candles it comes from, and the lagging span is the close
+// drawn as far behind, the way TradingView plots them. So the cloud at a
+// candle only uses earlier candles, and the lagging span is undefined for the
+// latest displacement - 1 candles.
+export const ichimoku = (
+  prices: PriceSeries,
+  conversionPeriod = 9,
+  basePeriod = 26,
+  spanBPeriod = 52,
+  displacement = 26
+) => {
+  const shift = displacement - 1;
+  const conversion = midpoint(prices, conversionPeriod);
+  const base = midpoint(prices, basePeriod);
+  const leadB = midpoint(prices, spanBPeriod);
+  const spanA = conversion.map((_, i) => {
+    const c = conversion[i - shift];
+    const b = base[i - shift];
+    return c === undefined || b === undefined ? undefined : (c + b) / 2;
+  });
+  const spanB = leadB.map((_, i) => leadB[i - shift]);
+  const lagging: IndicatorSeries = prices.close.map((_, i) => prices.close[i + shift]);
+  return { conversion, base, spanA, spanB, lagging };
+};
+
+// Keltner Channels: an EMA of the close plus or minus `multiplier` ATRs
+export const keltnerChannels = (prices: PriceSeries, period = 20, atrPeriod = 10, multiplier = 2) => {
+  const middle = ema(prices.close, period);
+  const range = atr(prices, atrPeriod);
+  const band = (sign: number): IndicatorSeries => middle.map((m, i) => {
+    const r = range[i];
+    return m === undefined || r === undefined ? undefined : m + sign * multiplier * r;
+  });
+  return { upper: band(1), middle, lower: band(-1) };
+};
+
+// Wilder's Parabolic SAR, the stop in force during each candle. It starts
+// rising from the first candle's low and has a value from the second candle.
+export const parabolicSar = ({ high, low }: PriceSeries, step = 0.02, maxStep = 0.2): IndicatorSeries => {
+  const result = empty(high.length);
+  if (high.length === 0) return result;
+  let rising = true;
+  let sar = low[0];
+  let extreme = high[0];
+  let factor = step;
+  for (let i = 1; i < high.length; i++) {
+    let next = sar + factor * (extreme - sar);
+    // Never inside the last two candles' range
+    const before = Math.max(i - 2, 0);
+    next = rising ? Math.min(next, low[i - 1], low[before]) : Math.max(next, high[i - 1], high[before]);
+
+    if (rising ? low[i] < next : high[i] > next) {
+      // Reverse, with the stop at the old extreme but outside this candle
+      rising = !rising;
+      next = rising ? Math.min(extreme, low[i - 1], low[i]) : Math.max(extreme, high[i - 1], high[i]);
+      extreme = rising ? high[i] : low[i];
+      factor = step;
+    } else if (rising ? high[i] > extreme : low[i] < extreme) {
+      extreme = rising ? high[i] : low[i];
+      factor = Math.min(factor + step, maxStep);
+    }
+    sar = next;
+    result[i] = sar;
+  }
+  return result;
+};
+
+// Supertrend: an ATR band below the price while it trends up and above it
+// while it trends down, flipping when the close crosses it. Direction is 1 up
+// and -1 down. Starts with the ATR, at candle `period`, trending up.
+export const supertrend = (prices: PriceSeries, period = 10, multiplier = 3) => {
+  const { high, low, close } = prices;
+  const range = atr(prices, period);
+  const value = empty(close.length);
+  const direction = empty(close.length);
+  let upper = 0;
+  let lower = 0;
+  let up = true;
+  range.forEach((r, i) => {
+    if (r === undefined) return;
+    const middle = (high[i] + low[i]) / 2;
+    const basicUpper = middle + multiplier * r;
+    const basicLower = middle - multiplier * r;
+    if (value[i - 1] === undefined) {
+      upper = basicUpper;
+      lower = basicLower;
+    } else {
+      // Flips on a close through the band in force so far. The bands only
+      // tighten while the previous close stayed inside them.
+      up = up ? close[i] >= lower : close[i] > upper;
+      upper = basicUpper < upper || close[i - 1] > upper ? basicUpper : upper;
+      lower = basicLower > lower || close[i - 1] < lower ? basicLower : lower;
+    }
+    value[i] = up ? lower : upper;
+    direction[i] = up ? 1 : -1;
+  });
+  return { value, direction };
+};
+
+// Weighted moving average, the latest value weighted `period` and the oldest 1;
+// starts period - 1 candles after the input does
+export const wma = (values: IndicatorSeries, period: number): IndicatorSeries => {
+  const result = empty(values.length);
+  if (period < 1) return result;
+  const start = firstDefined(values);
+  const weights = (period * (period + 1)) / 2;
+  for (let i = start + period - 1; i < values.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < period; j++) sum += (values[i - period + 1 + j] as number) * (j + 1);
+    result[i] = sum / weights;
+  }
+  return result;
+};
+
+// Donchian Channels: the highest high and lowest low of the last `period`
+// candles and the middle of the two; starts at candle period - 1
+export const donchianChannels = ({ high, low }: PriceSeries, period = 20) => {
+  const upper = empty(high.length);
+  const lower = empty(high.length);
+  const middle = empty(high.length);
+  if (period < 1) return { upper, middle, lower };
+  for (let i = period - 1; i < high.length; i++) {
+    const highest = Math.max(...high.slice(i - period + 1, i + 1));
+    const lowest = Math.min(...low.slice(i - period + 1, i + 1));
+    upper[i] = highest;
+    lower[i] = lowest;
+    middle[i] = (highest + lowest) / 2;
+  }
+  return { upper, middle, lower };
+};
+
+// Pring's Know Sure Thing: four smoothed rates of change weighted 1 to 4, and
+// an SMA of that as its signal line
+export const kst = (
+  close: number[],
+  rocPeriods: [number, number, number, number] = [10, 15, 20, 30],
+  smaPeriods: [number, number, number, number] = [10, 10, 10, 15],
+  signalPeriod = 9
+) => {
+  const smoothed = rocPeriods.map((period, i) => sma(roc(close, period), smaPeriods[i]));
+  const line: IndicatorSeries = close.map((_, i) => {
+    const values = smoothed.map((series) => series[i]);
+    if (values.some((value) => value === undefined)) return undefined;
+    return values.reduce((sum: number, value, w) => sum + (value as number) * (w + 1), 0);
+  });
+  return { kst: line, signal: sma(line, signalPeriod) };
+};
+
+// Chaikin Money Flow: money flow volume over volume for the last `period`
+// candles, from -1 to 1. Candles without a range count no flow.
+export const chaikinMoneyFlow = ({ high, low, close, volume }: PriceSeries, period = 21): IndicatorSeries => {
+  const flow = close.map((c, i) => {
+    const range = high[i] - low[i];
+    return range === 0 ? 0 : (((c - low[i]) - (high[i] - c)) / range) * volume[i];
+  });
+  return close.map((_, i) => {
+    if (period < 1 || i < period - 1) return undefined;
+    const totalVolume = volume.slice(i - period + 1, i + 1).reduce((sum, v) => sum + v, 0);
+    const totalFlow = flow.slice(i - period + 1, i + 1).reduce((sum, f) => sum + f, 0);
+    return totalVolume === 0 ? 0 : totalFlow / totalVolume;
+  });
+};
+
+// VWAP momentum: percent change of the VWAP over the last `period` candles
+// from one candle to the next; starts at candle `period`
+export const vwapMomentum = ({ high, low, close, volume }: PriceSeries, period = 14): IndicatorSeries => {
+  const typical = close.map((c, i) => (high[i] + low[i] + c) / 3);
+  const rolling: IndicatorSeries = close.map((_, i) => {
+    if (period < 1 || i < period - 1) return undefined;
+    let priceVolume = 0;
+    let totalVolume = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      priceVolume += typical[j] * volume[j];
+      totalVolume += volume[j];
+    }
+    return totalVolume === 0 ? undefined : priceVolume / totalVolume;
+  });
+  return rolling.map((value, i) => {
+    const previous = rolling[i - 1];
+    return value === undefined || previous === undefined ? undefined : ((value - previous) / previous) * 100;
+  });
+};
+
+// Hull Moving Average: a WMA of 2 * WMA(period / 2) - WMA(period) over
+// sqrt(period) candles. The half period is at least 1, so HMA 1 is the close.
+export const hma = (close: number[], period = 16): IndicatorSeries => {
+  const full = wma(close, period);
+  const half = wma(close, Math.max(1, Math.floor(period / 2)));
+  const difference: IndicatorSeries = close.map((_, i) => {
+    const f = full[i];
+    const h = half[i];
+    return f === undefined || h === undefined ? undefined : 2 * h - f;
+  });
+  return wma(difference, Math.floor(Math.sqrt(period)));
+};
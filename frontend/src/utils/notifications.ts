@@ -0,0 +1,26 @@
+// Thin wrapper over the browser Notification API, which some browsers (and
+// every non-secure origin) don't provide
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+  notificationsSupported() ? Notification.permission : 'unsupported';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!notificationsSupported()) return 'unsupported';
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.error('Error requesting notification permission:', error);
+    return Notification.permission;
+  }
+};
+
+export const showNotification = (title: string, body: string) => {
+  if (getNotificationPermission() !== 'granted') return;
+  try {
+    new Notification(title, { body });
+  } catch (error) {
+    console.error('Error showing notification:', error);
+  }
+};
@@ -0,0 +1,150 @@
+import { ChartData } from '../types/chart';
+import {
+  BacktestDetails,
+  BacktestResult,
+  BacktestSummary,
+  BacktestTrade,
+  OptimizationMetric,
+  Strategy,
+  StrategySpec,
+  WalkForwardResult,
+  WalkForwardSettings,
+  WalkForwardWindow,
+} from '../types/backtest';
+import { OptimizationRun } from '../workers/protocol';
+import { runBacktest, summarizeBacktest } from './backtest';
+import { createStrategy, StrategyParams } from './strategies';
+
+type Progress = (progress: number) => void;
+
+// Every combination of the grid's values
+export const combinations = (grid: Record<string, number[]>) =>
+  Object.entries(grid).reduce<StrategyParams[]>(
+    (partials, [param, values]) => partials.flatMap((partial) => values.map((value) => ({ ...partial, [param]: value }))),
+    [{}]
+  );
+
+// Values around each default to search, from half to one and a half times it;
+// whole-number params stay whole
+export const parameterGrid = (params: StrategyParams): Record<string, number[]> =>
+  Object.fromEntries(Object.entries(params).map(([param, value]) => [
+    param,
+    Array.from(new Set([0.5, 0.75, 1, 1.25, 1.5].map((factor) =>
+      (Number.isInteger(value) ? Math.max(1, Math.round(value * factor)) : value * factor)
+    ))),
+  ]));
+
+// The strategy with `params` over its defaults; custom rules have none
+const withParams = (spec: StrategySpec, params: StrategyParams): StrategySpec =>
+  ('id' in spec ? { ...spec, params: { ...spec.params, ...params } } : spec);
+
+const summary = ({ trades, equityCurve, ...rest }: BacktestResult): BacktestSummary => rest;
+
+// Backtest every combination of the grid on `candles`, best first
+export const optimizeStrategy = (
+  candles: ChartData[],
+  strategy: StrategySpec,
+  grid: Record<string, number[]>,
+  metric: OptimizationMetric,
+  details: BacktestDetails,
+  onProgress?: Progress
+): OptimizationRun[] => {
+  const paramSets = combinations(grid);
+  const runs = paramSets.map((params, i) => {
+    const result = summary(runBacktest(candles, createStrategy(withParams(strategy, params)), details));
+    onProgress?.((i + 1) / paramSets.length);
+    return { params, result };
+  });
+  return runs.sort((a, b) => b.result[metric] - a.result[metric]);
+};
+
+// The strategy, seeing every candle so its indicators warm up, but only
+// trading from `start` on
+const tradingFrom = (strategy: Strategy, start: number): Strategy => ({
+  ...strategy,
+  onCandle: (context) => {
+    const orders = strategy.onCandle(context);
+    return context.index >= start - 1 ? orders : [];
+  },
+});
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+
+const variation = (values: number[]) => {
+  const average = mean(values);
+  const stdDev = Math.sqrt(mean(values.map((v) => (v - average) ** 2)));
+  return average !== 0 ? stdDev / Math.abs(average) : 0;
+};
+
+// Walk forward through `candles`: optimize on each in-sample window, then test
+// the best params on the out-of-sample window after it, with the in-sample
+// candles before it as warm-up only. Positions are closed at the end of each
+// out-of-sample window.
+export const runWalkForward = (
+  candles: ChartData[],
+  strategy: StrategySpec,
+  grid: Record<string, number[]>,
+  { mode, inSample, outOfSample, metric }: WalkForwardSettings,
+  details: BacktestDetails,
+  onProgress?: Progress
+): WalkForwardResult => {
+  const starts: number[] = [];
+  for (let start = inSample; start + outOfSample <= candles.length; start += outOfSample) {
+    starts.push(start);
+  }
+  if (inSample < 1 || outOfSample < 1 || starts.length === 0) {
+    throw new Error(
+      `Walk-forward needs at least ${inSample + outOfSample} candles for one in-sample and one out-of-sample ` +
+      `window; there are ${candles.length}`
+    );
+  }
+
+  const windows: WalkForwardWindow[] = [];
+  const trades: BacktestTrade[] = [];
+  const equity: number[] = [];
+  let capital = details.initialCapital;
+  starts.forEach((start, w) => {
+    const from = mode === 'anchored' ? 0 : start - inSample;
+    const report = (progress: number) => onProgress?.((w + progress) / starts.length);
+    const [best] = optimizeStrategy(candles.slice(from, start), strategy, grid, metric, details, (p) => report(p * 0.9));
+
+    // The warm-up candles keep the capital flat, so the out-of-sample window
+    // is what's left after them
+    const tested = candles.slice(from, start + outOfSample);
+    const run = runBacktest(
+      tested,
+      tradingFrom(createStrategy(withParams(strategy, best.params)), start - from),
+      { ...details, initialCapital: capital }
+    );
+    const windowCandles = tested.slice(start - from);
+    const windowEquity = run.equityCurve.slice(start - from).map(([, value]) => value);
+    const test = summarizeBacktest(run.trades, windowEquity, windowCandles, { ...details, initialCapital: capital });
+
+    windows.push({ params: best.params, inSample: best.result, outOfSample: summary(test) });
+    trades.push(...run.trades);
+    equity.push(...windowEquity);
+    capital = test.finalCapital;
+    report(1);
+  });
+
+  const outOfSampleCandles = candles.slice(starts[0], starts[starts.length - 1] + outOfSample);
+  const inSampleRate = mean(windows.map(({ inSample: result }, w) =>
+    result.totalReturn / (mode === 'anchored' ? starts[w] : inSample)
+  ));
+  const outOfSampleRate = mean(windows.map(({ outOfSample: result }) => result.totalReturn / outOfSample));
+
+  const kept = windows.slice(1).filter((window, w) =>
+    Object.entries(window.params).every(([param, value]) => windows[w].params[param] === value)
+  ).length;
+
+  return {
+    windows,
+    outOfSample: summarizeBacktest(trades, equity, outOfSampleCandles, details),
+    efficiency: inSampleRate > 0 ? outOfSampleRate / inSampleRate : null,
+    stability: windows.length > 1 ? kept / (windows.length - 1) : 1,
+    paramVariation: Object.fromEntries(Object.keys(grid).map((param) => [
+      param,
+      variation(windows.map((window) => window.params[param])),
+    ])),
+  };
+};
@@ -0,0 +1,144 @@
+import { OrderBook, OrderBookDiff, OrderBookLevel, OrderBookMetrics } from '../types/marketData';
+
+// Levels kept per side after applying diffs, so a long-running book can't grow without bound
+export const MAX_ORDER_BOOK_LEVELS = 1000;
+
+export type OrderBookUpdateStatus = 'applied' | 'stale' | 'gap';
+
+const sortLevels = (levels: OrderBookLevel[], descending: boolean) =>
+  levels.sort((a, b) => (descending ? b.price - a.price : a.price - b.price));
+
+// Merge changed levels into one side of the book; an amount of 0 removes the level
+const applyLevels = (levels: OrderBookLevel[], changes: OrderBookLevel[], descending: boolean) => {
+  const amountByPrice = new Map(levels.map(({ price, amount }) => [price, amount]));
+  changes.forEach(({ price, amount }) => {
+    if (amount > 0) {
+      amountByPrice.set(price, amount);
+    } else {
+      amountByPrice.delete(price);
+    }
+  });
+  const merged = Array.from(amountByPrice, ([price, amount]) => ({ price, amount }));
+  return sortLevels(merged, descending).slice(0, MAX_ORDER_BOOK_LEVELS);
+};
+
+// Apply an incremental diff. Diffs the book already covers are `stale`; a diff
+// that starts after the next expected sequence number means updates were lost,
+// and the book must be rebuilt from a fresh snapshot (`gap`).
+export const applyOrderBookDiff = (
+  book: OrderBook,
+  diff: OrderBookDiff
+): { book: OrderBook; status: OrderBookUpdateStatus } => {
+  if (diff.sequence <= book.sequence) {
+    return { book, status: 'stale' };
+  }
+  if (diff.firstSequence > book.sequence + 1) {
+    return { book, status: 'gap' };
+  }
+  return {
+    book: {
+      ...book,
+      bids: applyLevels(book.bids, diff.bids, true),
+      asks: applyLevels(book.asks, diff.asks, false),
+      sequence: diff.sequence,
+      timestamp: diff.timestamp,
+    },
+    status: 'applied',
+  };
+};
+
+// Take up to `quantity` from `levels`, best first, after the `skip` that
+// earlier orders already took: how much fills and what it comes to at the
+// levels' prices. Less than `quantity` fills when the levels run out.
+export const walkOrderBook = (levels: OrderBookLevel[], quantity: number, skip: number = 0) => {
+  let skipped = skip;
+  let filled = 0;
+  let value = 0;
+  for (let i = 0; i < levels.length && filled < quantity; i++) {
+    const { price, amount } = levels[i];
+    const available = Math.max(0, amount - skipped);
+    skipped = Math.max(0, skipped - amount);
+    const taken = Math.min(available, quantity - filled);
+    filled += taken;
+    value += taken * price;
+  }
+  return { filled, value };
+};
+
+const decimalsOf = (tickSize: number) => Math.max(0, -Math.floor(Math.log10(tickSize)));
+
+const toBucket = (price: number, tickSize: number, roundUp: boolean) => {
+  const ticks = price / tickSize;
+  // Nudge before rounding so prices already on the grid don't slip a tick
+  const rounded = roundUp ? Math.ceil(ticks - 1e-9) : Math.floor(ticks + 1e-9);
+  return Number((rounded * tickSize).toFixed(decimalsOf(tickSize)));
+};
+
+const aggregateLevels = (levels: OrderBookLevel[], tickSize: number, roundUp: boolean) => {
+  const aggregated: OrderBookLevel[] = [];
+  levels.forEach(({ price, amount }) => {
+    const bucket = toBucket(price, tickSize, roundUp);
+    const last = aggregated[aggregated.length - 1];
+    if (last && last.price === bucket) {
+      last.amount += amount;
+    } else {
+      aggregated.push({ price: bucket, amount });
+    }
+  });
+  return aggregated;
+};
+
+// Group levels into price buckets of `tickSize`. Bids round down and asks round
+// up, so the aggregated book never looks tighter than the real one.
+export const aggregateOrderBook = (book: OrderBook, tickSize: number): OrderBook => ({
+  ...book,
+  bids: aggregateLevels(book.bids, tickSize, false),
+  asks: aggregateLevels(book.asks, tickSize, true),
+});
+
+// A tick size giving roughly four significant digits at this price
+export const getDefaultTickSize = (price: number) =>
+  price > 0 ? 10 ** (Math.floor(Math.log10(price)) - 3) : 0.01;
+
+const sumAmounts = (levels: OrderBookLevel[]) => levels.reduce((sum, level) => sum + level.amount, 0);
+
+// Amount on each side within `percent` of the mid price
+export const getDepthWithin = (book: OrderBook, percent: number) => {
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+  if (bestBid === undefined || bestAsk === undefined) {
+    return { bid: 0, ask: 0 };
+  }
+  const mid = (bestBid + bestAsk) / 2;
+  const band = mid * (percent / 100);
+  return {
+    bid: sumAmounts(book.bids.filter((level) => level.price >= mid - band)),
+    ask: sumAmounts(book.asks.filter((level) => level.price <= mid + band)),
+  };
+};
+
+export const getOrderBookMetrics = (book: OrderBook, depthPercent: number = 1): OrderBookMetrics => {
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+  const hasBothSides = bestBid !== undefined && bestAsk !== undefined;
+  const mid = hasBothSides ? (bestBid + bestAsk) / 2 : undefined;
+  const spread = hasBothSides ? bestAsk - bestBid : undefined;
+  const within = getDepthWithin(book, depthPercent);
+  const withinTotal = within.bid + within.ask;
+
+  return {
+    bestBid,
+    bestAsk,
+    mid,
+    spread,
+    spreadPercent: mid && spread !== undefined ? (spread / mid) * 100 : undefined,
+    bidLevels: book.bids.length,
+    askLevels: book.asks.length,
+    bidDepth: sumAmounts(book.bids),
+    askDepth: sumAmounts(book.asks),
+    depthPercent,
+    bidDepthWithin: within.bid,
+    askDepthWithin: within.ask,
+    imbalance: withinTotal > 0 ? (within.bid - within.ask) / withinTotal : 0,
+  };
+};
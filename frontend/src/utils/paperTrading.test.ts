@@ -0,0 +1,46 @@
+import { NO_COSTS } from './execution';
+import { PaperAccount, toOpenPosition, toPaperOrders } from './paperTrading';
+
+const account: PaperAccount = {
+  assetId: 'bitcoin',
+  symbol: 'BTCUSDT',
+  position: null,
+  cash: 1010,
+  price: 100,
+  takerFee: 0.01,
+};
+
+const long = { side: 'BUY' as const, quantity: 2, entryPrice: 90, entryTime: 0, costs: NO_COSTS };
+
+describe('toOpenPosition', () => {
+  it('reads a negative quantity as a short', () => {
+    expect(toOpenPosition({
+      asset_id: 'bitcoin',
+      symbol: 'BTCUSDT',
+      quantity: -3,
+      entry_price: 50,
+      current_price: 55,
+      pnl: -15,
+      status: 'open',
+    })).toEqual({ side: 'SELL', quantity: 3, entryPrice: 50, entryTime: 0, costs: NO_COSTS });
+    expect(toOpenPosition(undefined)).toBeNull();
+  });
+});
+
+describe('toPaperOrders', () => {
+  it('sizes an entry to leave room for the fee, with its stop and target resting', () => {
+    expect(toPaperOrders([{ type: 'enter', side: 'BUY', size: 0.5, stopLoss: 95, takeProfit: 110 }], account)).toEqual([
+      { asset_id: 'bitcoin', symbol: 'BTCUSDT', side: 'buy', type: 'market', quantity: 5, reference_price: 100 },
+      { asset_id: 'bitcoin', symbol: 'BTCUSDT', side: 'sell', type: 'stop', quantity: 5, stop_price: 95 },
+      { asset_id: 'bitcoin', symbol: 'BTCUSDT', side: 'sell', type: 'limit', quantity: 5, price: 110 },
+    ]);
+  });
+
+  it('closes a position before entering against it, and ignores an entry on its side', () => {
+    const held = { ...account, position: long, cash: 810 };
+    expect(toPaperOrders([{ type: 'enter', side: 'BUY' }], held)).toEqual([]);
+    expect(toPaperOrders([{ type: 'enter', side: 'SELL' }], held).map(({ side, quantity }) => [side, quantity]))
+      .toEqual([['sell', 2], ['sell', 10]]);
+    expect(toPaperOrders([{ type: 'exit' }], held).map(({ side, quantity }) => [side, quantity])).toEqual([['sell', 2]]);
+  });
+});
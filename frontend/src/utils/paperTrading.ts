@@ -0,0 +1,84 @@
+import { OrderRequest, OrderSide, Position } from '../api/schemas';
+import { OpenPosition, StrategyOrder, TradeSide } from '../types/backtest';
+import { NO_COSTS } from './execution';
+
+const toOrderSide = (side: TradeSide): OrderSide => (side === 'BUY' ? 'buy' : 'sell');
+
+const closingSide = (side: TradeSide): TradeSide => (side === 'BUY' ? 'SELL' : 'BUY');
+
+// The paper broker's position in an asset, as a strategy sees it. A negative
+// quantity is a short. The broker doesn't report when it was opened or what
+// it cost, so those start at zero.
+export const toOpenPosition = (position: Position | undefined): OpenPosition | null =>
+  position && position.quantity !== 0
+    ? {
+      side: position.quantity > 0 ? 'BUY' : 'SELL',
+      quantity: Math.abs(position.quantity),
+      entryPrice: position.entry_price,
+      entryTime: 0,
+      costs: NO_COSTS,
+    }
+    : null;
+
+export interface PaperAccount {
+  assetId: string;
+  symbol: string; // the broker's, e.g. BTCUSDT
+  position: OpenPosition | null;
+  cash: number;
+  price: number; // the close the orders are placed at
+  takerFee: number;
+}
+
+// The paper orders that carry out a strategy's orders at a candle's close, the
+// way runBacktest does: market orders at the close, where an entry against an
+// open position closes it first and an entry on the side already held does
+// nothing. An entry spends its size's share of the cash, leaving room for the
+// taker fee, and its stop and target rest in the book on the closing side.
+export const toPaperOrders = (
+  orders: StrategyOrder[],
+  { assetId, symbol, position, cash, price, takerFee }: PaperAccount
+): OrderRequest[] => {
+  const requests: OrderRequest[] = [];
+  let held = position;
+  let available = cash;
+
+  const request = (side: TradeSide, quantity: number, order: Partial<OrderRequest> = {}) =>
+    requests.push({
+      asset_id: assetId,
+      symbol,
+      side: toOrderSide(side),
+      type: 'market',
+      quantity,
+      reference_price: price,
+      ...order,
+    });
+
+  const close = () => {
+    if (!held) return;
+    request(closingSide(held.side), held.quantity);
+    available += (held.side === 'BUY' ? 1 : -1) * held.quantity * price;
+    held = null;
+  };
+
+  orders.forEach((order) => {
+    if (order.type === 'exit') {
+      close();
+      return;
+    }
+    if (held?.side === order.side) return;
+    close();
+    const quantity = price > 0 ? (available * Math.min(1, order.size ?? 1)) / (price * (1 + takerFee)) : 0;
+    if (quantity <= 0) return;
+    request(order.side, quantity);
+    if (order.stopLoss !== undefined) {
+      request(closingSide(order.side), quantity, { type: 'stop', stop_price: order.stopLoss, reference_price: undefined });
+    }
+    if (order.takeProfit !== undefined) {
+      request(closingSide(order.side), quantity, { type: 'limit', price: order.takeProfit, reference_price: undefined });
+    }
+    held = { side: order.side, quantity, entryPrice: price, entryTime: 0, costs: NO_COSTS };
+    available -= (order.side === 'BUY' ? 1 : -1) * quantity * price;
+  });
+
+  return requests;
+};
@@ -0,0 +1,11 @@
+import { MarketAsset } from '../types/marketData';
+
+// Backend positions and orders only carry an asset id and an exchange symbol
+// (BTCUSDT). Prefer a known copy of the asset so names line up with the rest
+// of the app, otherwise rebuild one from the symbol.
+export const getPositionAsset = (assetId: string, symbol: string, knownAssets: MarketAsset[]): MarketAsset =>
+  knownAssets.find((asset) => asset.id === assetId) ?? {
+    id: assetId,
+    symbol: symbol.replace(/USDT$/, '').toLowerCase(),
+    name: assetId,
+  };
@@ -0,0 +1,74 @@
+export interface TokenBucketOptions {
+  capacity: number; // burst size
+  refillPerSecond: number;
+}
+
+export interface TokenBucket {
+  take: () => Promise<void>;
+  pause: (ms: number) => void;
+  getTokens: () => number;
+  getPausedUntil: () => number;
+}
+
+export const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Token bucket limiter: every request takes a token, tokens refill at a fixed
+// rate, and a pause (e.g. from a 429) blocks everyone until it expires.
+export const createTokenBucket = ({ capacity, refillPerSecond }: TokenBucketOptions): TokenBucket => {
+  let tokens = capacity;
+  let updatedAt = Date.now();
+  let pausedUntil = 0;
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - updatedAt) / 1000) * refillPerSecond);
+    updatedAt = now;
+  };
+
+  return {
+    async take() {
+      for (;;) {
+        refill();
+        const now = Date.now();
+        if (now < pausedUntil) {
+          await sleep(pausedUntil - now);
+        } else if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        } else {
+          await sleep(((1 - tokens) / refillPerSecond) * 1000);
+        }
+      }
+    },
+
+    pause(ms: number) {
+      refill();
+      tokens = 0;
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+
+    getTokens() {
+      refill();
+      return tokens;
+    },
+
+    getPausedUntil() {
+      return pausedUntil;
+    },
+  };
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// Exponential backoff with jitter, so parallel retries don't fire together
+export const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+};
@@ -0,0 +1,114 @@
+import { ChartData, IndicatorInstance } from '../types/chart';
+import {
+  RiskRules,
+  SignalCheck,
+  Strategy,
+  StrategyOrder,
+  StrategySignals,
+  TradeSide,
+} from '../types/backtest';
+import { createStreamingIndicator, StreamingIndicator } from './streamingIndicators';
+
+// Each indicator's outputs at one candle, by the name the strategy gave it
+export type IndicatorValues = Record<string, Record<string, number | undefined>>;
+
+export interface RuleCheck {
+  label: string;
+  // `before` and `previous` are the values and candle before, for crossovers;
+  // undefined at the first candle
+  test: (
+    now: IndicatorValues,
+    before: IndicatorValues | undefined,
+    candle: ChartData,
+    previous: ChartData | undefined
+  ) => boolean;
+}
+
+export interface RuleSet {
+  checks: RuleCheck[];
+  require: number; // how many checks must be met
+}
+
+export interface RuleStrategyOptions {
+  indicators: Record<string, Pick<IndicatorInstance, 'type' | 'params'>>;
+  entry: RuleSet;
+  exit: RuleSet;
+  side?: TradeSide;
+  risk: RiskRules;
+}
+
+// Comparisons that are false while either side is still warming up
+export const above = (a: number | undefined, b: number | undefined) => a !== undefined && b !== undefined && a > b;
+export const below = (a: number | undefined, b: number | undefined) => a !== undefined && b !== undefined && a < b;
+
+// A strategy from indicator checks: it opens a position on `side` (BUY,
+// long, by default) at a close where enough entry checks are met, and closes
+// it at one where enough exit checks are. The stop and target are set from
+// that close.
+export const createRuleStrategy = ({ indicators, entry, exit, side = 'BUY', risk }: RuleStrategyOptions): Strategy => {
+  const closingSide: TradeSide = side === 'BUY' ? 'SELL' : 'BUY';
+  const usesAtr = risk.stopLossAtr !== undefined || risk.takeProfitAtr !== undefined;
+  let streams: Record<string, StreamingIndicator> = {};
+  let atr: StreamingIndicator | undefined;
+  let now: IndicatorValues | undefined;
+  let before: IndicatorValues | undefined;
+  let previous: ChartData | undefined;
+  const unmet = ({ checks }: RuleSet) => checks.map(({ label }) => ({ label, met: false }));
+  const noSignals: StrategySignals = { signal: 'NEUTRAL', entry: unmet(entry), exit: unmet(exit) };
+  let signals = noSignals;
+
+  const evaluate = ({ checks }: RuleSet, candle: ChartData): SignalCheck[] =>
+    checks.map(({ label, test }) => ({ label, met: now !== undefined && test(now, before, candle, previous) }));
+  const count = (checks: SignalCheck[]) => checks.filter((check) => check.met).length;
+
+  return {
+    risk,
+    init: () => {
+      streams = Object.fromEntries(
+        Object.entries(indicators).map(([name, indicator]) => [name, createStreamingIndicator(indicator)])
+      );
+      atr = usesAtr
+        ? createStreamingIndicator({ type: 'atr', params: { period: risk.atrPeriod ?? 14 } })
+        : undefined;
+      now = undefined;
+      before = undefined;
+      previous = undefined;
+      signals = noSignals;
+    },
+    onCandle: ({ candle, position }) => {
+      before = now;
+      now = Object.fromEntries(Object.entries(streams).map(([name, stream]) => [name, stream.push(candle)]));
+      const range = atr?.push(candle).value;
+      const entryChecks = evaluate(entry, candle);
+      const exitChecks = evaluate(exit, candle);
+      previous = candle;
+      const exiting = count(exitChecks) >= exit.require;
+      const entering = !exiting && count(entryChecks) >= entry.require;
+      signals = {
+        signal: exiting ? closingSide : entering ? side : 'NEUTRAL',
+        entry: entryChecks,
+        exit: exitChecks,
+      };
+
+      if (position && exiting) return [{ type: 'exit' }];
+      if (position || !entering) return [];
+      // Distance from the close, against the position for the stop
+      const distance = (fraction?: number, atrMultiple?: number) => {
+        if (atrMultiple !== undefined) return range !== undefined ? atrMultiple * range : undefined;
+        return fraction !== undefined ? fraction * candle.close : undefined;
+      };
+      const direction = side === 'BUY' ? 1 : -1;
+      const stop = distance(risk.stopLoss, risk.stopLossAtr);
+      const target = distance(risk.takeProfit, risk.takeProfitAtr);
+      const order: StrategyOrder = {
+        type: 'enter',
+        side,
+        size: risk.positionSize,
+        stopLoss: stop !== undefined ? candle.close - direction * stop : undefined,
+        takeProfit: target !== undefined ? candle.close + direction * target : undefined,
+      };
+      return [order];
+    },
+    signals: () => signals,
+  };
+};
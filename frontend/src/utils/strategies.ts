@@ -0,0 +1,213 @@
+import { ChartData } from '../types/chart';
+import { Strategy, StrategySignals, StrategySpec } from '../types/backtest';
+import { CustomStrategy } from '../types/strategyRules';
+import { above, below, createRuleStrategy } from './ruleStrategy';
+import { compileStrategyRules, validateStrategyRules } from './strategyRules';
+
+export type StrategyParams = Record<string, number>;
+
+export interface StrategyDefinition {
+  name: string;
+  params: StrategyParams; // defaults, and the parameters an optimization can vary
+  create: (params: StrategyParams) => Strategy;
+}
+
+const trendFollowing = ({ maPeriod, adxThreshold }: StrategyParams) => createRuleStrategy({
+  indicators: {
+    ma: { type: 'sma', params: { period: maPeriod } },
+    macd: { type: 'macd', params: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 } },
+    rsi: { type: 'rsi', params: { period: 14, overbought: 70, oversold: 30 } },
+    adx: { type: 'adx', params: { period: 14 } },
+  },
+  entry: {
+    require: 4,
+    checks: [
+      { label: `Price above ${maPeriod}-candle MA`, test: (v, _, c) => above(c.close, v.ma.value) },
+      { label: 'MACD above its signal line', test: (v) => above(v.macd.macd, v.macd.signal) },
+      { label: 'RSI above 50', test: (v) => above(v.rsi.value, 50) },
+      { label: `ADX above ${adxThreshold}`, test: (v) => above(v.adx.value, adxThreshold) },
+    ],
+  },
+  exit: {
+    require: 1,
+    checks: [
+      { label: `Price below ${maPeriod}-candle MA`, test: (v, _, c) => below(c.close, v.ma.value) },
+      {
+        label: 'MACD bearish crossover',
+        test: (v, b) => below(v.macd.macd, v.macd.signal) && !below(b?.macd.macd, b?.macd.signal),
+      },
+    ],
+  },
+  risk: { positionSize: 0.03, stopLoss: 0.02, takeProfit: 0.1 },
+});
+
+const meanReversion = ({ bandPeriod, bandMultiplier }: StrategyParams) => createRuleStrategy({
+  indicators: {
+    bands: { type: 'bollingerBands', params: { period: bandPeriod, multiplier: bandMultiplier } },
+    rsi: { type: 'rsi', params: { period: 14, overbought: 70, oversold: 30 } },
+    stoch: { type: 'stoch', params: { period: 14, signalPeriod: 3 } },
+    williamsR: { type: 'williamsR', params: { period: 14 } },
+  },
+  entry: {
+    require: 2,
+    checks: [
+      { label: 'Price below lower Bollinger Band', test: (v, _, c) => below(c.close, v.bands.lower) },
+      { label: 'RSI below 30', test: (v) => below(v.rsi.value, 30) },
+      { label: 'Stochastic below 20', test: (v) => below(v.stoch.value, 20) },
+      { label: 'Williams %R below -80', test: (v) => below(v.williamsR.value, -80) },
+    ],
+  },
+  exit: {
+    require: 1,
+    checks: [
+      { label: 'Price above middle Bollinger Band', test: (v, _, c) => above(c.close, v.bands.middle) },
+      { label: 'RSI above 70', test: (v) => above(v.rsi.value, 70) },
+      { label: 'Stochastic above 80', test: (v) => above(v.stoch.value, 80) },
+      { label: 'Williams %R above -20', test: (v) => above(v.williamsR.value, -20) },
+    ],
+  },
+  risk: { positionSize: 0.02, stopLoss: 0.01, takeProfit: 0.05 },
+});
+
+// Volume confirming the price: above the VWAP, money flowing in, and the
+// volume-weighted price itself rising
+const volumeProfile = ({ flowPeriod, flowThreshold }: StrategyParams) => createRuleStrategy({
+  indicators: {
+    vwap: { type: 'vwap', params: {} },
+    flow: { type: 'chaikinMoneyFlow', params: { period: flowPeriod } },
+    momentum: { type: 'vwapMomentum', params: { period: 14 } },
+    obv: { type: 'obv', params: {} },
+  },
+  entry: {
+    require: 3,
+    checks: [
+      { label: 'Price above VWAP', test: (v, _, c) => above(c.close, v.vwap.value) },
+      { label: `Chaikin Money Flow above ${flowThreshold}`, test: (v) => above(v.flow.value, flowThreshold) },
+      { label: 'VWAP momentum positive', test: (v) => above(v.momentum.value, 0) },
+      { label: 'OBV rising', test: (v, b) => above(v.obv.value, b?.obv.value) },
+    ],
+  },
+  exit: {
+    require: 1,
+    checks: [
+      { label: 'Price below VWAP', test: (v, _, c) => below(c.close, v.vwap.value) },
+      { label: `Chaikin Money Flow below -${flowThreshold}`, test: (v) => below(v.flow.value, -flowThreshold) },
+    ],
+  },
+  risk: { positionSize: 0.025, stopLoss: 0.015, takeProfit: 0.07 },
+});
+
+const momentumTrading = ({ rsiThreshold, rocThreshold }: StrategyParams) => createRuleStrategy({
+  indicators: {
+    rsi: { type: 'rsi', params: { period: 14, overbought: 70, oversold: 30 } },
+    macd: { type: 'macd', params: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 } },
+    adx: { type: 'adx', params: { period: 14 } },
+    roc: { type: 'roc', params: { period: 12 } },
+  },
+  entry: {
+    require: 3,
+    checks: [
+      { label: `RSI above ${rsiThreshold}`, test: (v) => above(v.rsi.value, rsiThreshold) },
+      { label: 'MACD above its signal line', test: (v) => above(v.macd.macd, v.macd.signal) },
+      { label: 'ADX above 40', test: (v) => above(v.adx.value, 40) },
+      { label: `ROC above ${rocThreshold}%`, test: (v) => above(v.roc.value, rocThreshold) },
+    ],
+  },
+  exit: {
+    require: 1,
+    checks: [
+      { label: 'RSI below 50', test: (v) => below(v.rsi.value, 50) },
+      {
+        label: 'MACD bearish crossover',
+        test: (v, b) => below(v.macd.macd, v.macd.signal) && !below(b?.macd.macd, b?.macd.signal),
+      },
+      { label: 'ROC below 0%', test: (v) => below(v.roc.value, 0) },
+    ],
+  },
+  risk: { positionSize: 0.04, stopLoss: 0.03, takeProfit: 0.15 },
+});
+
+// Long-only Bollinger Band mean reversion with the whole account: buy after a
+// close below the lower band, sell after a close back at the middle band
+const bandReversion = ({ period, multiplier }: StrategyParams) => createRuleStrategy({
+  indicators: {
+    bands: { type: 'bollingerBands', params: { period, multiplier } },
+  },
+  entry: {
+    require: 1,
+    checks: [{ label: 'Price below lower Bollinger Band', test: (v, _, c) => below(c.close, v.bands.lower) }],
+  },
+  exit: {
+    require: 1,
+    checks: [{
+      label: 'Price back at middle Bollinger Band',
+      test: (v, _, c) => v.bands.middle !== undefined && c.close >= v.bands.middle,
+    }],
+  },
+  risk: { positionSize: 1 },
+});
+
+// Every strategy the backtester can run, by id. Arbitrage isn't here: it
+// trades the spread between exchanges, and candles only have one price.
+export const STRATEGIES: Record<string, StrategyDefinition> = {
+  TREND_FOLLOWING: {
+    name: 'Trend Following',
+    params: { maPeriod: 200, adxThreshold: 25 },
+    create: trendFollowing,
+  },
+  MEAN_REVERSION: {
+    name: 'Mean Reversion',
+    params: { bandPeriod: 20, bandMultiplier: 2 },
+    create: meanReversion,
+  },
+  VOLUME_PROFILE: {
+    name: 'Volume Profile',
+    params: { flowPeriod: 21, flowThreshold: 0.05 },
+    create: volumeProfile,
+  },
+  MOMENTUM_TRADING: {
+    name: 'Momentum Trading',
+    params: { rsiThreshold: 60, rocThreshold: 2 },
+    create: momentumTrading,
+  },
+  BOLLINGER_REVERSION: {
+    name: 'Bollinger Band Reversion',
+    params: { period: 20, multiplier: 2 },
+    create: bandReversion,
+  },
+};
+
+export const createStrategy = (spec: StrategySpec): Strategy => {
+  if ('rules' in spec) {
+    const { rules, errors } = validateStrategyRules(spec.rules);
+    if (!rules) {
+      throw new Error(`Invalid strategy: ${errors.join(', ')}`);
+    }
+    return compileStrategyRules(rules);
+  }
+  const { id, params } = spec;
+  const definition = STRATEGIES[id];
+  if (!definition) {
+    throw new Error(`Unknown strategy "${id}"`);
+  }
+  return definition.create({ ...definition.params, ...params });
+};
+
+// A strategy id, built in or custom, as a spec to run and a name to show
+export const resolveStrategy = (id: string, custom: CustomStrategy[]): { spec: StrategySpec; name: string } => {
+  const match = custom.find((strategy) => strategy.id === id);
+  return match
+    ? { spec: { rules: match.rules }, name: match.rules.name }
+    : { spec: { id }, name: STRATEGIES[id]?.name ?? id };
+};
+
+// Where a strategy stands at the last of `candles`, for trading on it now
+export const evaluateStrategy = (strategy: Strategy, candles: ChartData[]): StrategySignals => {
+  const history: ChartData[] = [];
+  strategy.init();
+  candles.forEach((candle, index) => {
+    history.push(candle);
+    strategy.onCandle({ candle, index, history, position: null, cash: 0, equity: 0 });
+  });
+  return strategy.signals();
+};
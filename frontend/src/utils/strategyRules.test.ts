@@ -0,0 +1,52 @@
+import { StrategyRules } from '../types/strategyRules';
+import { EXAMPLE_STRATEGY_RULES, validateStrategyRules } from './strategyRules';
+
+// The example strategy with one more indicator
+const withIndicator = (type: string, params: Record<string, unknown>) => ({
+  ...EXAMPLE_STRATEGY_RULES,
+  indicators: { ...EXAMPLE_STRATEGY_RULES.indicators, extra: { type, params } },
+});
+
+describe('validateStrategyRules', () => {
+  it('accepts the example strategy', () => {
+    expect(validateStrategyRules(EXAMPLE_STRATEGY_RULES)).toEqual({ rules: EXAMPLE_STRATEGY_RULES, errors: [] });
+  });
+
+  it('holds periods to whole numbers of at least 2', () => {
+    expect(validateStrategyRules(withIndicator('rsi', { period: 2.5 })).errors)
+      .toEqual(['/indicators/extra/params/period must be integer']);
+    expect(validateStrategyRules(withIndicator('rsi', { period: 1 })).errors)
+      .toEqual(['/indicators/extra/params/period must be >= 2']);
+  });
+
+  it('lets multipliers be fractions within their range', () => {
+    expect(validateStrategyRules(withIndicator('bollingerBands', { period: 20, multiplier: 2.5 })).errors).toEqual([]);
+    expect(validateStrategyRules(withIndicator('supertrend', { multiplier: 0 })).errors)
+      .toEqual(['/indicators/extra/params/multiplier must be >= 0.1']);
+  });
+
+  it('rejects params the type does not have', () => {
+    expect(validateStrategyRules(withIndicator('sma', { length: 3 })).errors)
+      .toEqual(['/indicators/extra/params: sma has no parameter "length"']);
+  });
+
+  it('keeps params in order with each other', () => {
+    expect(validateStrategyRules(withIndicator('macd', { fastPeriod: 40, slowPeriod: 10 })).errors)
+      .toEqual(['/indicators/extra/params: fastPeriod (40) must be below slowPeriod (10)']);
+    // Against the defaults for the params that are left out
+    expect(validateStrategyRules(withIndicator('macd', { fastPeriod: 30 })).errors)
+      .toEqual(['/indicators/extra/params: fastPeriod (30) must be below slowPeriod (26)']);
+    expect(validateStrategyRules(withIndicator('macd', { fastPeriod: 10, slowPeriod: 40 })).errors).toEqual([]);
+  });
+
+  it('checks that conditions name indicators and outputs that exist', () => {
+    const rules: StrategyRules = {
+      ...EXAMPLE_STRATEGY_RULES,
+      entry: { left: { indicator: 'bands', output: 'top' }, op: '>', right: { indicator: 'missing' } },
+    };
+    expect(validateStrategyRules(rules).errors).toEqual([
+      '/entry/left: bollingerBands has no output "top" (it has upper, middle, lower)',
+      '/entry/right: no indicator named "missing"',
+    ]);
+  });
+});
@@ -0,0 +1,274 @@
+import Ajv from 'ajv';
+import { ChartData, IndicatorInstance, IndicatorType } from '../types/chart';
+import { Strategy } from '../types/backtest';
+import {
+  PriceField,
+  RuleComparison,
+  RuleCondition,
+  RuleOperand,
+  StrategyRules,
+} from '../types/strategyRules';
+import { DEFAULT_INDICATOR_PARAMS, calculateIndicatorSeries } from './technicalIndicators';
+import { INDICATOR_PARAM_FIELDS, IndicatorParamField, isValidParamOrder, PARAM_ORDER } from './indicatorInstances';
+import { above, below, createRuleStrategy, IndicatorValues, RuleCheck, RuleSet } from './ruleStrategy';
+
+export const PRICE_FIELDS: PriceField[] = ['open', 'high', 'low', 'close', 'volume'];
+
+export const RULE_COMPARISONS: Record<RuleComparison, string> = {
+  '>': '>',
+  '<': '<',
+  '>=': '≥',
+  '<=': '≤',
+  crossesAbove: 'crosses above',
+  crossesBelow: 'crosses below',
+};
+
+type IndicatorDefinition = Pick<IndicatorInstance, 'type' | 'params'>;
+
+const INDICATOR_TYPES = Object.keys(DEFAULT_INDICATOR_PARAMS) as IndicatorType[];
+
+// The outputs a condition can name for each indicator type
+export const indicatorOutputs = (type: IndicatorType) =>
+  Object.keys(calculateIndicatorSeries([], { type, params: DEFAULT_INDICATOR_PARAMS[type] } as IndicatorDefinition));
+
+// "RSI(14) < 30 AND close < lower band, then buy 2% with a 1.5 × ATR stop"
+export const EXAMPLE_STRATEGY_RULES: StrategyRules = {
+  name: 'RSI dip below the bands',
+  indicators: {
+    rsi: { type: 'rsi', params: { period: 14 } },
+    bands: { type: 'bollingerBands' },
+  },
+  entry: {
+    all: [
+      { left: { indicator: 'rsi' }, op: '<', right: { value: 30 } },
+      { left: { price: 'close' }, op: '<', right: { indicator: 'bands', output: 'lower' } },
+    ],
+  },
+  exit: { left: { price: 'close' }, op: 'crossesAbove', right: { indicator: 'bands', output: 'middle' } },
+  side: 'BUY',
+  risk: { positionSize: 0.02, stopLossAtr: 1.5 },
+};
+
+const number = { type: 'number' } as const;
+const positive = { type: 'number', exclusiveMinimum: 0 } as const;
+const fraction = { type: 'number', exclusiveMinimum: 0, maximum: 1 } as const;
+
+const object = (properties: Record<string, object>, required: string[] = Object.keys(properties)) => ({
+  type: 'object',
+  properties,
+  required,
+  additionalProperties: false,
+});
+
+const condition = { $ref: '#/$defs/condition' };
+
+// A param in the range its params field allows: periods are whole numbers,
+// multipliers, standard deviations and steps needn't be
+const param = ({ min, max, step }: IndicatorParamField) => ({
+  type: step === undefined ? 'integer' : 'number',
+  minimum: min,
+  ...(max !== undefined && { maximum: max }),
+});
+
+// Each type's params, picked by the indicator's type
+const indicatorParams = INDICATOR_TYPES.map((type) => ({
+  if: { properties: { type: { const: type } } },
+  then: {
+    properties: {
+      params: {
+        type: 'object',
+        properties: Object.fromEntries(INDICATOR_PARAM_FIELDS[type].map((field) => [field.key, param(field)])),
+      },
+    },
+  },
+}));
+
+// Operands and conditions are told apart by their keys. Picking the schema by
+// key, rather than with oneOf, keeps the errors to the branch that was meant.
+const byKey = (branches: [string, object][], fallback: object): object =>
+  branches.reduceRight<object>((otherwise, [key, schema]) => ({
+    if: { type: 'object', required: [key] },
+    then: schema,
+    else: otherwise,
+  }), fallback);
+
+const strategyRulesSchema = {
+  $defs: {
+    operand: byKey([
+      ['value', object({ value: number })],
+      ['price', object({ price: { type: 'string', enum: PRICE_FIELDS } })],
+    ], object({ indicator: { type: 'string' }, output: { type: 'string' } }, ['indicator'])),
+    condition: byKey([
+      ['all', object({ all: { type: 'array', items: condition, minItems: 1 } })],
+      ['any', object({ any: { type: 'array', items: condition, minItems: 1 } })],
+      ['not', object({ not: condition })],
+    ], object({
+      left: { $ref: '#/$defs/operand' },
+      op: { type: 'string', enum: Object.keys(RULE_COMPARISONS) },
+      right: { $ref: '#/$defs/operand' },
+    })),
+  },
+  ...object({
+    name: { type: 'string', minLength: 1 },
+    indicators: {
+      type: 'object',
+      propertyNames: { pattern: '^[A-Za-z_][A-Za-z0-9_]*$' },
+      additionalProperties: {
+        ...object({
+          type: { type: 'string', enum: INDICATOR_TYPES },
+          params: { type: 'object', additionalProperties: number },
+        }, ['type']),
+        allOf: indicatorParams,
+      },
+    },
+    entry: condition,
+    exit: condition,
+    side: { type: 'string', enum: ['BUY', 'SELL'] },
+    risk: object({
+      positionSize: fraction,
+      stopLoss: fraction,
+      takeProfit: positive,
+      stopLossAtr: positive,
+      takeProfitAtr: positive,
+      atrPeriod: { type: 'integer', minimum: 1 },
+    }, ['positionSize']),
+  }, ['name', 'indicators', 'entry', 'risk']),
+};
+
+const ajv = new Ajv({ allErrors: true });
+const validateSchema = ajv.compile<StrategyRules>(strategyRulesSchema);
+
+// What the schema can't say: every indicator a condition names exists and has
+// that output, and params belong to the indicator's type and are in order
+// with each other (a fast period below the slow one, and so on)
+const checkReferences = (rules: StrategyRules): string[] => {
+  const errors: string[] = [];
+  Object.entries(rules.indicators).forEach(([name, { type, params = {} }]) => {
+    Object.keys(params)
+      .filter((param) => !(param in DEFAULT_INDICATOR_PARAMS[type]))
+      .forEach((param) => errors.push(`/indicators/${name}/params: ${type} has no parameter "${param}"`));
+    const merged: Record<string, number> = { ...DEFAULT_INDICATOR_PARAMS[type], ...params };
+    if (!isValidParamOrder(type, merged)) {
+      const [lower, upper] = PARAM_ORDER[type] as [string, string];
+      errors.push(`/indicators/${name}/params: ${lower} (${merged[lower]}) must be below ${upper} (${merged[upper]})`);
+    }
+  });
+
+  const checkOperand = (operand: RuleOperand, path: string) => {
+    if (!('indicator' in operand)) return;
+    const indicator = rules.indicators[operand.indicator];
+    if (!indicator) {
+      errors.push(`${path}: no indicator named "${operand.indicator}"`);
+      return;
+    }
+    const output = operand.output ?? 'value';
+    const outputs = indicatorOutputs(indicator.type);
+    if (!outputs.includes(output)) {
+      errors.push(`${path}: ${indicator.type} has no output "${output}" (it has ${outputs.join(', ')})`);
+    }
+  };
+  const checkCondition = (condition: RuleCondition, path: string) => {
+    if ('all' in condition) condition.all.forEach((c, i) => checkCondition(c, `${path}/all/${i}`));
+    else if ('any' in condition) condition.any.forEach((c, i) => checkCondition(c, `${path}/any/${i}`));
+    else if ('not' in condition) checkCondition(condition.not, `${path}/not`);
+    else {
+      checkOperand(condition.left, `${path}/left`);
+      checkOperand(condition.right, `${path}/right`);
+    }
+  };
+  checkCondition(rules.entry, '/entry');
+  if (rules.exit) checkCondition(rules.exit, '/exit');
+
+  if (rules.risk.stopLoss !== undefined && rules.risk.stopLossAtr !== undefined) {
+    errors.push('/risk: a stop loss can be a fraction or an ATR multiple, not both');
+  }
+  if (rules.risk.takeProfit !== undefined && rules.risk.takeProfitAtr !== undefined) {
+    errors.push('/risk: a take profit can be a fraction or an ATR multiple, not both');
+  }
+  return errors;
+};
+
+// Check that `value` is a strategy that compiles, with readable errors if not
+export const validateStrategyRules = (value: unknown): { rules?: StrategyRules; errors: string[] } => {
+  if (!validateSchema(value)) {
+    const errors = (validateSchema.errors ?? [])
+      .filter((error) => error.keyword !== 'if')
+      .map((error) => `${error.instancePath || '/'} ${error.message}`);
+    return { errors: Array.from(new Set(errors)) };
+  }
+  const errors = checkReferences(value);
+  return errors.length > 0 ? { errors } : { rules: value, errors: [] };
+};
+
+const describeOperand = (operand: RuleOperand) => {
+  if ('value' in operand) return String(operand.value);
+  if ('price' in operand) return operand.price;
+  return operand.output && operand.output !== 'value' ? `${operand.indicator}.${operand.output}` : operand.indicator;
+};
+
+// The condition as one line, e.g. "rsi < 30 AND close < bands.lower"
+export const describeCondition = (condition: RuleCondition): string => {
+  const nested = (c: RuleCondition) => ('all' in c || 'any' in c ? `(${describeCondition(c)})` : describeCondition(c));
+  if ('all' in condition) return condition.all.map(nested).join(' AND ');
+  if ('any' in condition) return condition.any.map(nested).join(' OR ');
+  if ('not' in condition) return `NOT ${nested(condition.not)}`;
+  const { left, op, right } = condition;
+  return `${describeOperand(left)} ${RULE_COMPARISONS[op]} ${describeOperand(right)}`;
+};
+
+const operandValue = (operand: RuleOperand, values: IndicatorValues | undefined, candle: ChartData | undefined) => {
+  if ('value' in operand) return operand.value;
+  if ('price' in operand) return candle?.[operand.price];
+  return values?.[operand.indicator]?.[operand.output ?? 'value'];
+};
+
+const atMost = (a: number | undefined, b: number | undefined) => a !== undefined && b !== undefined && a <= b;
+const atLeast = (a: number | undefined, b: number | undefined) => a !== undefined && b !== undefined && a >= b;
+
+// Comparisons against a value that is still warming up are false. A crossing
+// needs both sides at the candle before as well.
+const testCondition: (condition: RuleCondition, ...args: Parameters<RuleCheck['test']>) => boolean = (
+  condition, now, before, candle, previous
+) => {
+  if ('all' in condition) return condition.all.every((c) => testCondition(c, now, before, candle, previous));
+  if ('any' in condition) return condition.any.some((c) => testCondition(c, now, before, candle, previous));
+  if ('not' in condition) return !testCondition(condition.not, now, before, candle, previous);
+  const left = operandValue(condition.left, now, candle);
+  const right = operandValue(condition.right, now, candle);
+  const leftBefore = () => operandValue(condition.left, before, previous);
+  const rightBefore = () => operandValue(condition.right, before, previous);
+  switch (condition.op) {
+    case '>': return above(left, right);
+    case '<': return below(left, right);
+    case '>=': return atLeast(left, right);
+    case '<=': return atMost(left, right);
+    case 'crossesAbove': return above(left, right) && atMost(leftBefore(), rightBefore());
+    case 'crossesBelow': return below(left, right) && atLeast(leftBefore(), rightBefore());
+    default: return false;
+  }
+};
+
+// The top level of an `all` or `any` becomes separate checks, so the panel
+// can show which of them are met
+const toRuleSet = (condition: RuleCondition): RuleSet => {
+  const toCheck = (c: RuleCondition): RuleCheck => ({
+    label: describeCondition(c),
+    test: (...args) => testCondition(c, ...args),
+  });
+  if ('all' in condition) return { checks: condition.all.map(toCheck), require: condition.all.length };
+  if ('any' in condition) return { checks: condition.any.map(toCheck), require: 1 };
+  return { checks: [toCheck(condition)], require: 1 };
+};
+
+// The strategy the backtester runs for validated rules
+export const compileStrategyRules = ({ indicators, entry, exit, side, risk }: StrategyRules): Strategy =>
+  createRuleStrategy({
+    indicators: Object.fromEntries(Object.entries(indicators).map(([name, { type, params }]) => [
+      name,
+      { type, params: { ...DEFAULT_INDICATOR_PARAMS[type], ...params } } as IndicatorDefinition,
+    ])),
+    entry: toRuleSet(entry),
+    exit: exit ? toRuleSet(exit) : { checks: [], require: 1 },
+    side,
+    risk,
+  });
@@ -0,0 +1,159 @@
+import { ChartData, IndicatorInstance } from '../types/chart';
+import { createIndicatorInstance, INDICATOR_TYPES } from './indicatorInstances';
+import { createIndicatorInstancesStream, createStreamingIndicator } from './streamingIndicators';
+import { calculateIndicatorInstances, calculateIndicatorSeries } from './technicalIndicators';
+import { runComputeJob } from '../workers/jobs';
+import { packCandles, unpackSeries } from '../workers/protocol';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A seeded random walk of hourly candles, so every run checks the same ones
+const randomCandles = (count: number, seed: number): ChartData[] => {
+  let state = seed;
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  let last = 100;
+  return Array.from({ length: count }, (_, i) => {
+    const close = last * (1 + (random() - 0.5) * 0.04);
+    const candle = {
+      timestamp: i * HOUR_MS,
+      price: close,
+      open: last,
+      high: Math.max(last, close) * (1 + random() * 0.01),
+      low: Math.min(last, close) * (1 - random() * 0.01),
+      close,
+      volume: 1000 + random() * 1000,
+    };
+    last = close;
+    return candle;
+  });
+};
+
+// The same candle with its close moved, as a tick would
+const moved = (candle: ChartData, close: number): ChartData => ({
+  ...candle,
+  price: close,
+  close,
+  high: Math.max(candle.high, close),
+  low: Math.min(candle.low, close),
+});
+
+const candles = randomCandles(300, 7);
+
+// Each type with its default params, and again with odd periods so the
+// windows start over at different points
+const instances: IndicatorInstance[] = INDICATOR_TYPES.flatMap((type) => {
+  const instance = createIndicatorInstance(type);
+  const odd = Object.fromEntries(Object.entries(instance.params).map(([param, value]) => [
+    param,
+    Number.isInteger(value) && value > 1 ? value + 3 : value,
+  ]));
+  return [instance, { ...instance, id: `${instance.id}-odd`, params: odd } as IndicatorInstance];
+});
+
+// The batch outputs at each candle, the way the streams give them
+const batchOutputs = (data: ChartData[], instance: IndicatorInstance) => {
+  const series = Object.entries(calculateIndicatorSeries(data, instance));
+  return data.map((_, i) => Object.fromEntries(series.map(([name, values]) => [name, values[i]])));
+};
+
+describe('createStreamingIndicator', () => {
+  it.each(instances.map((instance) => [`${instance.type} ${JSON.stringify(instance.params)}`, instance]))(
+    'matches the batch values for %s',
+    (_, instance) => {
+      const stream = createStreamingIndicator(instance as IndicatorInstance);
+      expect(candles.map((candle) => stream.push(candle))).toEqual(batchOutputs(candles, instance as IndicatorInstance));
+    }
+  );
+
+  it.each(instances.map((instance) => [`${instance.type} ${JSON.stringify(instance.params)}`, instance]))(
+    'matches the batch values for %s after revising every candle',
+    (_, instance) => {
+      const stream = createStreamingIndicator(instance as IndicatorInstance);
+      const outputs = candles.map((candle) => {
+        stream.push(moved(candle, candle.close * 1.01));
+        stream.revise(moved(candle, candle.close * 0.98));
+        return stream.revise(candle);
+      });
+      expect(outputs).toEqual(batchOutputs(candles, instance as IndicatorInstance));
+    }
+  );
+});
+
+describe('createIndicatorInstancesStream', () => {
+  it('follows ticks and new candles sliding the window on', () => {
+    const stream = createIndicatorInstancesStream(instances);
+    let data = candles.slice(0, 250);
+    let previous = stream.update(data);
+    expect(previous).toEqual(calculateIndicatorInstances(data, instances));
+
+    // Each step keeps the unchanged candles, as the store does. A new candle
+    // drops the oldest one, as applyTickToSeries does.
+    const steps: ((candle: ChartData, current: ChartData[]) => ChartData[])[] = [
+      // A tick on the last candle
+      (_, current) => [...current.slice(0, -1), moved(current[current.length - 1], current[current.length - 1].close * 1.005)],
+      // A new candle, then a tick on it
+      (candle, current) => [...current.slice(1), moved(candle, candle.open)],
+      (candle, current) => [...current.slice(0, -1), candle],
+    ];
+    let history = data;
+    candles.slice(250).forEach((candle) => {
+      steps.forEach((step) => {
+        const next = step(candle, data);
+        // A slide adds a candle to the history, a tick revises its last one
+        history = [...history.slice(0, next[0] === data[0] ? -1 : undefined), next[next.length - 1]];
+        data = next;
+        const output = stream.update(data);
+        expect(output).not.toBe(previous);
+        // The values over every candle seen, since the window only drops candles
+        expect(output).toEqual(calculateIndicatorInstances(history, instances).slice(-data.length));
+        expect(stream.update(data)).toBe(output);
+        previous = output;
+      });
+    });
+  });
+
+  it('appends candles when the window grows', () => {
+    const stream = createIndicatorInstancesStream(instances);
+    stream.update(candles.slice(0, 200));
+    let data = candles.slice(0, 200);
+    candles.slice(200, 220).forEach((candle) => {
+      data = [...data, candle];
+      expect(stream.update(data)).toEqual(calculateIndicatorInstances(data, instances));
+    });
+  });
+
+  it('carries on from a batch calculated on a worker', () => {
+    const stream = createIndicatorInstancesStream(instances);
+    let data = candles.slice(0, 250);
+    const { series, states } = runComputeJob({ kind: 'indicators', candles: packCandles(data), instances }, () => undefined);
+    const columns = Object.entries(series).map(([key, values]) => [key, unpackSeries(values)] as const);
+    const output = data.map((candle, i) => ({
+      ...candle,
+      indicators: Object.fromEntries(columns.map(([key, values]) => [key, values[i]])),
+    }));
+    expect(output).toEqual(calculateIndicatorInstances(data, instances));
+
+    expect(stream.follows(data)).toBe(false);
+    stream.seed(data, output, states);
+    expect(stream.update(data)).toBe(output);
+    candles.slice(250, 260).forEach((candle) => {
+      data = [...data, moved(candle, candle.open)];
+      expect(stream.follows(data)).toBe(true);
+      stream.update(data);
+      data = [...data.slice(0, -1), candle];
+      expect(stream.update(data)).toEqual(calculateIndicatorInstances(data, instances));
+    });
+  });
+
+  it('starts over when the candles are replaced', () => {
+    const stream = createIndicatorInstancesStream(instances);
+    stream.update(candles.slice(0, 100));
+    const other = randomCandles(120, 8);
+    expect(stream.update(other)).toEqual(calculateIndicatorInstances(other, instances));
+  });
+});
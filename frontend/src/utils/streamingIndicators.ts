@@ -0,0 +1,739 @@
+import { ChartData, IndicatorInstance, IndicatorParams, IndicatorType } from '../types/chart';
+import { indicatorSeriesKey } from './technicalIndicators';
+
+// Streaming versions of the calculators in ./indicators. Each one folds a
+// candle at a time into a small state, so a new candle, or a revision of the
+// last one, costs the same however much history came before it. Fed the same
+// candles, they give exactly the values the batch versions give.
+
+type Candle = { open: number; high: number; low: number; close: number; volume: number };
+type Outputs = Record<string, number | undefined>;
+
+interface Calculator<S> {
+  initial: S;
+  next: (state: S, candle: Candle) => S;
+  read: (state: S) => Outputs;
+}
+
+// Helps TypeScript infer each calculator's state type
+const calculator = <S>(c: Calculator<S>): Calculator<S> => c;
+
+// Same fallbacks as toPriceSeries
+const toCandle = (d: Partial<ChartData>): Candle => {
+  const close = d.close ?? d.price ?? 0;
+  return {
+    open: d.open ?? close,
+    high: d.high ?? close,
+    low: d.low ?? close,
+    close,
+    volume: d.volume || 0,
+  };
+};
+
+// The last `size` values, oldest first. A window shares its buffer with the
+// state it came from, so a push appends instead of copying: only the latest
+// state and the one before it, which revise starts from, are pushed to, and a
+// push to the older one replaces what the latest added. Once a window's worth
+// of values has dropped out, the buffer starts over with just the window.
+interface Window<T = number> { buffer: T[]; start: number; end: number }
+
+const emptyWindow = <T = number>(): Window<T> => ({ buffer: [], start: 0, end: 0 });
+
+const pushWindow = <T>({ buffer, end }: Window<T>, value: T, size: number): Window<T> => {
+  buffer.length = end;
+  buffer.push(value);
+  const start = Math.max(0, end + 1 - size);
+  return start < size
+    ? { buffer, start, end: end + 1 }
+    : { buffer: buffer.slice(start), start: 0, end: end + 1 - start };
+};
+
+const windowLength = ({ start, end }: Window<unknown>) => end - start;
+
+// The i-th value, oldest first
+const windowAt = <T>({ buffer, start }: Window<T>, i: number) => buffer[start + i];
+
+const windowReduce = <T, R>({ buffer, start, end }: Window<T>, reducer: (result: R, value: T) => R, initial: R) => {
+  let result = initial;
+  for (let i = start; i < end; i++) result = reducer(result, buffer[i]);
+  return result;
+};
+
+// Highest and lowest of the last `count` values
+const highest = (window: Window, count = windowLength(window)) =>
+  windowReduce({ ...window, start: window.end - count }, (max, value) => Math.max(max, value), -Infinity);
+
+const lowest = (window: Window, count = windowLength(window)) =>
+  windowReduce({ ...window, start: window.end - count }, (min, value) => Math.min(min, value), Infinity);
+
+// Running averages. Like the batch versions they ignore undefined input, which
+// only ever comes before an indicator's first value.
+
+interface SmaState { window: Window; sum: number }
+const smaStart = (): SmaState => ({ window: emptyWindow(), sum: 0 });
+
+const smaNext = (state: SmaState, value: number | undefined, period: number): SmaState => {
+  if (value === undefined) return state;
+  let sum = state.sum + value;
+  if (windowLength(state.window) === period) sum -= windowAt(state.window, 0);
+  return { window: pushWindow(state.window, value, period), sum };
+};
+
+const smaValue = (state: SmaState, period: number) =>
+  windowLength(state.window) === period ? state.sum / period : undefined;
+
+interface AverageState { count: number; value: number }
+const AVERAGE_START: AverageState = { count: 0, value: 0 };
+
+// Seeded with the mean of the first period values, as ema() and wilder() are
+const averageNext = (recurse: (previous: number, value: number) => number) =>
+  (state: AverageState, value: number | undefined, period: number): AverageState => {
+    if (value === undefined) return state;
+    const count = state.count + 1;
+    return { count, value: count <= period ? state.value + value / period : recurse(state.value, value) };
+  };
+
+const averageValue = (state: AverageState, period: number) =>
+  state.count >= period ? state.value : undefined;
+
+const emaNext = (state: AverageState, value: number | undefined, period: number) => {
+  const k = 2 / (period + 1);
+  return averageNext((previous, v) => v * k + previous * (1 - k))(state, value, period);
+};
+
+const wilderNext = (state: AverageState, value: number | undefined, period: number) =>
+  averageNext((previous, v) => (previous * (period - 1) + v) / period)(state, value, period);
+
+const trueRange = (candle: Candle, previous: Candle | undefined) =>
+  previous === undefined
+    ? undefined
+    : Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - previous.close),
+      Math.abs(candle.low - previous.close)
+    );
+
+const typicalPrice = ({ high, low, close }: Candle) => (high + low + close) / 3;
+
+const rsi = (period: number) => calculator({
+  initial: { previous: undefined as number | undefined, gain: AVERAGE_START, loss: AVERAGE_START },
+  next: (state, { close }) => ({
+    previous: close,
+    gain: wilderNext(state.gain, state.previous === undefined ? undefined : Math.max(close - state.previous, 0), period),
+    loss: wilderNext(state.loss, state.previous === undefined ? undefined : Math.max(state.previous - close, 0), period),
+  }),
+  read: (state) => {
+    const gain = averageValue(state.gain, period);
+    const loss = averageValue(state.loss, period);
+    if (gain === undefined || loss === undefined) return { value: undefined };
+    if (loss === 0) return { value: gain === 0 ? 50 : 100 };
+    return { value: 100 - 100 / (1 + gain / loss) };
+  },
+});
+
+const macd = (fastPeriod: number, slowPeriod: number, signalPeriod: number) => {
+  const line = (fast: AverageState, slow: AverageState) => {
+    const f = averageValue(fast, fastPeriod);
+    const s = averageValue(slow, slowPeriod);
+    return f === undefined || s === undefined ? undefined : f - s;
+  };
+  return calculator({
+    initial: { fast: AVERAGE_START, slow: AVERAGE_START, signal: AVERAGE_START },
+    next: (state, { close }) => {
+      const fast = emaNext(state.fast, close, fastPeriod);
+      const slow = emaNext(state.slow, close, slowPeriod);
+      return { fast, slow, signal: emaNext(state.signal, line(fast, slow), signalPeriod) };
+    },
+    read: (state) => {
+      const m = line(state.fast, state.slow);
+      const s = averageValue(state.signal, signalPeriod);
+      return { macd: m, signal: s, histogram: m === undefined || s === undefined ? undefined : m - s };
+    },
+  });
+};
+
+const bollingerBands = (period: number, multiplier: number) => calculator({
+  initial: smaStart(),
+  next: (state, { close }) => smaNext(state, close, period),
+  read: (state) => {
+    const middle = smaValue(state, period);
+    if (middle === undefined) return { upper: undefined, middle, lower: undefined };
+    const stdDev = Math.sqrt(windowReduce(state.window, (sum, c) => sum + (c - middle) ** 2, 0) / period);
+    return { upper: middle + multiplier * stdDev, middle, lower: middle - multiplier * stdDev };
+  },
+});
+
+const movingAverages = (shortPeriod: number, longPeriod: number) => calculator({
+  initial: { short: smaStart(), long: smaStart() },
+  next: (state, { close }) => ({
+    short: smaNext(state.short, close, shortPeriod),
+    long: smaNext(state.long, close, longPeriod),
+  }),
+  read: (state) => ({ short: smaValue(state.short, shortPeriod), long: smaValue(state.long, longPeriod) }),
+});
+
+const sma = (period: number) => calculator({
+  initial: smaStart(),
+  next: (state, { close }) => smaNext(state, close, period),
+  read: (state) => ({ value: smaValue(state, period) }),
+});
+
+const ema = (period: number) => calculator({
+  initial: AVERAGE_START,
+  next: (state, { close }) => emaNext(state, close, period),
+  read: (state) => ({ value: averageValue(state, period) }),
+});
+
+const adx = (period: number) => calculator({
+  initial: {
+    previous: undefined as Candle | undefined,
+    tr: AVERAGE_START,
+    plus: AVERAGE_START,
+    minus: AVERAGE_START,
+    dx: AVERAGE_START,
+  },
+  next: (state, candle) => {
+    const { previous } = state;
+    let plusDM: number | undefined;
+    let minusDM: number | undefined;
+    if (previous !== undefined) {
+      const up = candle.high - previous.high;
+      const down = previous.low - candle.low;
+      plusDM = up > down && up > 0 ? up : 0;
+      minusDM = down > up && down > 0 ? down : 0;
+    }
+    const tr = wilderNext(state.tr, trueRange(candle, previous), period);
+    const plus = wilderNext(state.plus, plusDM, period);
+    const minus = wilderNext(state.minus, minusDM, period);
+
+    let dx: number | undefined;
+    const range = averageValue(tr, period);
+    const plusSum = averageValue(plus, period);
+    const minusSum = averageValue(minus, period);
+    if (range !== undefined && plusSum !== undefined && minusSum !== undefined) {
+      const plusDI = range === 0 ? 0 : (100 * plusSum) / range;
+      const minusDI = range === 0 ? 0 : (100 * minusSum) / range;
+      const total = plusDI + minusDI;
+      dx = total === 0 ? 0 : (100 * Math.abs(plusDI - minusDI)) / total;
+    }
+    return { previous: candle, tr, plus, minus, dx: wilderNext(state.dx, dx, period) };
+  },
+  read: (state) => ({ value: averageValue(state.dx, period) }),
+});
+
+const obv = () => calculator({
+  initial: { previous: undefined as number | undefined, total: 0 },
+  next: ({ previous, total }, { close, volume }) => {
+    if (previous !== undefined && close > previous) return { previous: close, total: total + volume };
+    if (previous !== undefined && close < previous) return { previous: close, total: total - volume };
+    return { previous: close, total };
+  },
+  read: (state) => ({ value: state.total }),
+});
+
+const vwap = () => calculator({
+  initial: { priceVolume: 0, totalVolume: 0 },
+  next: (state, candle) => ({
+    priceVolume: state.priceVolume + typicalPrice(candle) * candle.volume,
+    totalVolume: state.totalVolume + candle.volume,
+  }),
+  read: (state) => ({ value: state.totalVolume > 0 ? state.priceVolume / state.totalVolume : undefined }),
+});
+
+const atr = (period: number) => calculator({
+  initial: { previous: undefined as Candle | undefined, tr: AVERAGE_START },
+  next: (state, candle) => ({
+    previous: candle,
+    tr: wilderNext(state.tr, trueRange(candle, state.previous), period),
+  }),
+  read: (state) => ({ value: averageValue(state.tr, period) }),
+});
+
+const cci = (period: number) => calculator({
+  initial: smaStart(),
+  next: (state, candle) => smaNext(state, typicalPrice(candle), period),
+  read: (state) => {
+    const mean = smaValue(state, period);
+    if (mean === undefined) return { value: undefined };
+    const typical = windowAt(state.window, period - 1);
+    const meanDeviation = windowReduce(state.window, (sum, t) => sum + Math.abs(t - mean), 0) / period;
+    return { value: meanDeviation === 0 ? 0 : (typical - mean) / (0.015 * meanDeviation) };
+  },
+});
+
+// %K only, as the chart shows it
+const stoch = (period: number) => calculator({
+  initial: { highs: emptyWindow(), lows: emptyWindow(), close: 0 },
+  next: (state, { high, low, close }) => ({
+    highs: pushWindow(state.highs, high, period),
+    lows: pushWindow(state.lows, low, period),
+    close,
+  }),
+  read: ({ highs, lows, close }) => {
+    if (windowLength(highs) < period) return { value: undefined };
+    const high = highest(highs);
+    const low = lowest(lows);
+    return { value: high === low ? 50 : ((close - low) / (high - low)) * 100 };
+  },
+});
+
+const roc = (period: number) => calculator({
+  initial: emptyWindow(), // the last period + 1 closes
+  next: (closes, { close }) => pushWindow(closes, close, period + 1),
+  read: (closes) => {
+    const base = windowAt(closes, 0);
+    if (windowLength(closes) <= period || base === 0) return { value: undefined };
+    return { value: ((windowAt(closes, period) - base) / base) * 100 };
+  },
+});
+
+const mfi = (period: number) => calculator({
+  initial: { typical: emptyWindow(), volume: emptyWindow() }, // the last period + 1 candles
+  next: (state, candle) => ({
+    typical: pushWindow(state.typical, typicalPrice(candle), period + 1),
+    volume: pushWindow(state.volume, candle.volume, period + 1),
+  }),
+  read: ({ typical, volume }) => {
+    if (windowLength(typical) <= period) return { value: undefined };
+    let positive = 0;
+    let negative = 0;
+    for (let j = 1; j <= period; j++) {
+      const flow = windowAt(typical, j) * windowAt(volume, j);
+      if (windowAt(typical, j) > windowAt(typical, j - 1)) positive += flow;
+      else if (windowAt(typical, j) < windowAt(typical, j - 1)) negative += flow;
+    }
+    if (negative === 0) return { value: positive === 0 ? 50 : 100 };
+    return { value: 100 - 100 / (1 + positive / negative) };
+  },
+});
+
+const williamsR = (period: number) => calculator({
+  initial: { highs: emptyWindow(), lows: emptyWindow(), close: 0 },
+  next: (state, { high, low, close }) => ({
+    highs: pushWindow(state.highs, high, period),
+    lows: pushWindow(state.lows, low, period),
+    close,
+  }),
+  read: ({ highs, lows, close }) => {
+    if (windowLength(highs) < period) return { value: undefined };
+    const high = highest(highs);
+    const low = lowest(lows);
+    return { value: high === low ? -50 : ((high - close) / (high - low)) * -100 };
+  },
+});
+
+const ichimoku = (conversionPeriod: number, basePeriod: number, spanBPeriod: number, displacement: number) => {
+  const size = Math.max(conversionPeriod, basePeriod, spanBPeriod);
+  const shift = displacement - 1;
+  const midpoint = (highs: Window, lows: Window, period: number) =>
+    windowLength(highs) < period ? undefined : (highest(highs, period) + lowest(lows, period)) / 2;
+  const lines = (highs: Window, lows: Window) => ({
+    conversion: midpoint(highs, lows, conversionPeriod),
+    base: midpoint(highs, lows, basePeriod),
+  });
+  return calculator({
+    // The cloud values of the last displacement candles, oldest first
+    initial: {
+      highs: emptyWindow(),
+      lows: emptyWindow(),
+      leadA: emptyWindow<number | undefined>(),
+      leadB: emptyWindow<number | undefined>(),
+    },
+    next: (state, { high, low }) => {
+      const highs = pushWindow(state.highs, high, size);
+      const lows = pushWindow(state.lows, low, size);
+      const { conversion, base } = lines(highs, lows);
+      const a = conversion === undefined || base === undefined ? undefined : (conversion + base) / 2;
+      return {
+        highs,
+        lows,
+        leadA: pushWindow(state.leadA, a, shift + 1),
+        leadB: pushWindow(state.leadB, midpoint(highs, lows, spanBPeriod), shift + 1),
+      };
+    },
+    read: ({ highs, lows, leadA, leadB }) => {
+      const full = windowLength(leadA) === shift + 1;
+      return {
+        ...lines(highs, lows),
+        spanA: full ? windowAt(leadA, 0) : undefined,
+        spanB: full ? windowAt(leadB, 0) : undefined,
+      };
+    },
+  });
+};
+
+const keltnerChannels = (period: number, atrPeriod: number, multiplier: number) => calculator({
+  initial: { previous: undefined as Candle | undefined, middle: AVERAGE_START, tr: AVERAGE_START },
+  next: (state, candle) => ({
+    previous: candle,
+    middle: emaNext(state.middle, candle.close, period),
+    tr: wilderNext(state.tr, trueRange(candle, state.previous), atrPeriod),
+  }),
+  read: (state) => {
+    const middle = averageValue(state.middle, period);
+    const range = averageValue(state.tr, atrPeriod);
+    if (middle === undefined || range === undefined) return { upper: undefined, middle, lower: undefined };
+    return { upper: middle + multiplier * range, middle, lower: middle - multiplier * range };
+  },
+});
+
+const parabolicSar = (step: number, maxStep: number) => calculator({
+  initial: {
+    highs: emptyWindow(), // the last two candles
+    lows: emptyWindow(),
+    rising: true,
+    sar: 0,
+    extreme: 0,
+    factor: step,
+    value: undefined as number | undefined,
+  },
+  next: (state, { high, low }) => {
+    const highs = pushWindow(state.highs, high, 2);
+    const lows = pushWindow(state.lows, low, 2);
+    if (windowLength(state.highs) === 0) {
+      return { ...state, highs, lows, sar: low, extreme: high };
+    }
+    const lastHigh = windowAt(state.highs, windowLength(state.highs) - 1);
+    const lastLow = windowAt(state.lows, windowLength(state.lows) - 1);
+    let { rising, extreme, factor } = state;
+    let next = state.sar + factor * (extreme - state.sar);
+    next = rising
+      ? Math.min(next, lastLow, windowAt(state.lows, 0))
+      : Math.max(next, lastHigh, windowAt(state.highs, 0));
+
+    if (rising ? low < next : high > next) {
+      rising = !rising;
+      next = rising ? Math.min(extreme, lastLow, low) : Math.max(extreme, lastHigh, high);
+      extreme = rising ? high : low;
+      factor = step;
+    } else if (rising ? high > extreme : low < extreme) {
+      extreme = rising ? high : low;
+      factor = Math.min(factor + step, maxStep);
+    }
+    return { highs, lows, rising, sar: next, extreme, factor, value: next };
+  },
+  read: (state) => ({ value: state.value }),
+});
+
+const supertrend = (period: number, multiplier: number) => calculator({
+  initial: {
+    previous: undefined as Candle | undefined,
+    tr: AVERAGE_START,
+    upper: 0,
+    lower: 0,
+    up: true,
+    value: undefined as number | undefined,
+  },
+  next: (state, candle) => {
+    const tr = wilderNext(state.tr, trueRange(candle, state.previous), period);
+    const range = averageValue(tr, period);
+    if (range === undefined) return { ...state, previous: candle, tr };
+    const middle = (candle.high + candle.low) / 2;
+    const basicUpper = middle + multiplier * range;
+    const basicLower = middle - multiplier * range;
+    let { upper, lower, up } = state;
+    if (state.value === undefined) {
+      upper = basicUpper;
+      lower = basicLower;
+    } else {
+      const previousClose = (state.previous as Candle).close;
+      up = up ? candle.close >= lower : candle.close > upper;
+      upper = basicUpper < upper || previousClose > upper ? basicUpper : upper;
+      lower = basicLower > lower || previousClose < lower ? basicLower : lower;
+    }
+    return { previous: candle, tr, upper, lower, up, value: up ? lower : upper };
+  },
+  read: (state) => ({ value: state.value }),
+});
+
+const donchianChannels = (period: number) => calculator({
+  initial: { highs: emptyWindow(), lows: emptyWindow() },
+  next: (state, { high, low }) => ({
+    highs: pushWindow(state.highs, high, period),
+    lows: pushWindow(state.lows, low, period),
+  }),
+  read: ({ highs, lows }) => {
+    if (windowLength(highs) < period) return { upper: undefined, middle: undefined, lower: undefined };
+    const upper = highest(highs);
+    const lower = lowest(lows);
+    return { upper, middle: (upper + lower) / 2, lower };
+  },
+});
+
+const kst = (rocPeriods: number[], smaPeriods: number[], signalPeriod: number) => {
+  const size = Math.max(...rocPeriods) + 1;
+  return calculator({
+    initial: {
+      closes: emptyWindow(),
+      smoothed: rocPeriods.map(smaStart),
+      line: undefined as number | undefined,
+      signal: smaStart(),
+    },
+    next: (state, { close }) => {
+      const closes = pushWindow(state.closes, close, size);
+      const smoothed = rocPeriods.map((period, i) => {
+        const length = windowLength(closes);
+        const base = windowAt(closes, length - 1 - period);
+        const change = length <= period || base === 0 ? undefined : ((close - base) / base) * 100;
+        return smaNext(state.smoothed[i], change, smaPeriods[i]);
+      });
+      const values = smoothed.map((sma, i) => smaValue(sma, smaPeriods[i]));
+      const line = values.some((value) => value === undefined)
+        ? undefined
+        : values.reduce((sum: number, value, w) => sum + (value as number) * (w + 1), 0);
+      return { closes, smoothed, line, signal: smaNext(state.signal, line, signalPeriod) };
+    },
+    read: (state) => ({ kst: state.line, signal: smaValue(state.signal, signalPeriod) }),
+  });
+};
+
+const chaikinMoneyFlow = (period: number) => calculator({
+  initial: { flows: emptyWindow(), volumes: emptyWindow() },
+  next: (state, { high, low, close, volume }) => {
+    const range = high - low;
+    const flow = range === 0 ? 0 : (((close - low) - (high - close)) / range) * volume;
+    return { flows: pushWindow(state.flows, flow, period), volumes: pushWindow(state.volumes, volume, period) };
+  },
+  read: ({ flows, volumes }) => {
+    if (windowLength(flows) < period) return { value: undefined };
+    const totalVolume = windowReduce(volumes, (sum, v) => sum + v, 0);
+    const totalFlow = windowReduce(flows, (sum, f) => sum + f, 0);
+    return { value: totalVolume === 0 ? 0 : totalFlow / totalVolume };
+  },
+});
+
+const vwapMomentum = (period: number) => calculator({
+  initial: {
+    typical: emptyWindow(),
+    volumes: emptyWindow(),
+    previous: undefined as number | undefined,
+    current: undefined as number | undefined,
+  },
+  next: (state, candle) => {
+    const typical = pushWindow(state.typical, typicalPrice(candle), period);
+    const volumes = pushWindow(state.volumes, candle.volume, period);
+    let current: number | undefined;
+    if (windowLength(typical) === period) {
+      let priceVolume = 0;
+      let totalVolume = 0;
+      for (let j = 0; j < period; j++) {
+        priceVolume += windowAt(typical, j) * windowAt(volumes, j);
+        totalVolume += windowAt(volumes, j);
+      }
+      current = totalVolume === 0 ? undefined : priceVolume / totalVolume;
+    }
+    return { typical, volumes, previous: state.current, current };
+  },
+  read: ({ previous, current }) => ({
+    value: current === undefined || previous === undefined ? undefined : ((current - previous) / previous) * 100,
+  }),
+});
+
+const hma = (period: number) => {
+  const half = Math.max(1, Math.floor(period / 2));
+  const root = Math.floor(Math.sqrt(period));
+  // WMA of the last `size` values, summed in the same order as wma()
+  const weighted = (values: Window, size: number) => {
+    const length = windowLength(values);
+    if (length < size) return undefined;
+    let sum = 0;
+    for (let j = 0; j < size; j++) sum += windowAt(values, length - size + j) * (j + 1);
+    return sum / ((size * (size + 1)) / 2);
+  };
+  return calculator({
+    initial: { closes: emptyWindow(), differences: emptyWindow() },
+    next: (state, { close }) => {
+      const closes = pushWindow(state.closes, close, period);
+      const full = weighted(closes, period);
+      const halfValue = weighted(closes, half);
+      const differences = full === undefined || halfValue === undefined
+        ? state.differences
+        : pushWindow(state.differences, 2 * halfValue - full, root);
+      return { closes, differences };
+    },
+    read: ({ differences }) => ({ value: weighted(differences, root) }),
+  });
+};
+
+// Where a stream has got to. It's plain data, so a stream fed on a worker can
+// be carried on on the page.
+export interface StreamState {
+  beforeLast: unknown;
+  current: unknown;
+}
+
+export interface StreamingIndicator {
+  // Add a candle after the last one; returns the outputs at that candle
+  push: (candle: ChartData) => Outputs;
+  // Replace the last candle, e.g. when a tick moves its close
+  revise: (candle: ChartData) => Outputs;
+  state: () => StreamState;
+}
+
+// A calculator fed a candle at a time, from the start or from where `resume`
+// left off
+const streaming = <S>({ initial, next, read }: Calculator<S>, resume?: StreamState): StreamingIndicator => {
+  // Keeping the state from before the last candle is what makes revise cheap
+  let beforeLast = resume ? (resume.beforeLast as S) : initial;
+  let current = resume ? (resume.current as S) : initial;
+  return {
+    push: (candle) => {
+      beforeLast = current;
+      current = next(current, toCandle(candle));
+      return read(current);
+    },
+    revise: (candle) => {
+      current = next(beforeLast, toCandle(candle));
+      return read(current);
+    },
+    state: () => ({ beforeLast, current }),
+  };
+};
+
+// Same outputs, under the same names, as INDICATOR_SERIES in ./technicalIndicators
+const CALCULATORS: {
+  [K in IndicatorType]: (params: IndicatorParams[K]) => Calculator<any>;
+} = {
+  rsi: ({ period }) => rsi(period),
+  macd: ({ fastPeriod, slowPeriod, signalPeriod }) => macd(fastPeriod, slowPeriod, signalPeriod),
+  bollingerBands: ({ period, multiplier }) => bollingerBands(period, multiplier),
+  movingAverages: ({ shortPeriod, longPeriod }) => movingAverages(shortPeriod, longPeriod),
+  sma: ({ period }) => sma(period),
+  ema: ({ period }) => ema(period),
+  adx: ({ period }) => adx(period),
+  obv: () => obv(),
+  vwap: () => vwap(),
+  atr: ({ period }) => atr(period),
+  cci: ({ period }) => cci(period),
+  stoch: ({ period }) => stoch(period),
+  roc: ({ period }) => roc(period),
+  mfi: ({ period }) => mfi(period),
+  williamsR: ({ period }) => williamsR(period),
+  ichimoku: ({ conversionPeriod, basePeriod, spanBPeriod, displacement }) =>
+    ichimoku(conversionPeriod, basePeriod, spanBPeriod, displacement),
+  keltnerChannels: ({ period, atrPeriod, multiplier }) => keltnerChannels(period, atrPeriod, multiplier),
+  parabolicSar: ({ step, maxStep }) => parabolicSar(step, maxStep),
+  supertrend: ({ period, multiplier }) => supertrend(period, multiplier),
+  donchianChannels: ({ period }) => donchianChannels(period),
+  kst: ({ roc1, roc2, roc3, roc4, sma1, sma2, sma3, sma4, signalPeriod }) =>
+    kst([roc1, roc2, roc3, roc4], [sma1, sma2, sma3, sma4], signalPeriod),
+  chaikinMoneyFlow: ({ period }) => chaikinMoneyFlow(period),
+  vwapMomentum: ({ period }) => vwapMomentum(period),
+  hma: ({ period }) => hma(period),
+};
+
+// One indicator instance, fed a candle at a time, from the start or from a
+// state another stream of the same instance gave
+export const createStreamingIndicator = (
+  { type, params }: Pick<IndicatorInstance, 'type' | 'params'>,
+  resume?: StreamState
+): StreamingIndicator => streaming((CALCULATORS[type] as (params: unknown) => Calculator<any>)(params), resume);
+
+// How `data` follows on from `previous`: the same candles, the last one
+// revised, one appended, or the window slid on by one
+type Step = 'same' | 'revise' | 'append' | 'slide';
+
+export const followingStep = (previous: ChartData[], data: ChartData[]): Step | undefined => {
+  if (data === previous) return 'same';
+  const n = data.length;
+  const m = previous.length;
+  if (n < 2) return undefined;
+  if (n === m && data[0] === previous[0] && data[n - 2] === previous[m - 2]) return 'revise';
+  if (n === m + 1 && data[0] === previous[0] && data[n - 2] === previous[m - 1]) return 'append';
+  if (n === m && data[0] === previous[1] && data[n - 2] === previous[m - 1]) return 'slide';
+  return undefined;
+};
+
+// calculateIndicatorInstances for a live series. Hand it each new version of
+// the candles: when only the last candle changed, or a candle was appended,
+// just that candle is calculated, and so it is when the window slides on by
+// one as a new candle opens (see applyTickToSeries). The indicators can't
+// forget the candle the window drops, so after a slide they keep the values
+// they'd have over every candle since the last start: the ones batch gives
+// for the whole history, not for the window alone. Anything else starts over
+// from the first candle, unless the start was made elsewhere and handed over
+// with seed. The series relies on unchanged candles keeping their identity,
+// as they do in the store.
+export const createIndicatorInstancesStream = (instances: IndicatorInstance[]) => {
+  let streams: StreamingIndicator[] = [];
+  let candles: ChartData[] = [];
+  // Two copies of the output, handed out in turn and changed in place: React
+  // and Recharts only see a change in a new array, and this way neither copy
+  // is rebuilt. The one handed out next catches up on the change it missed.
+  let outputs: [ChartData[], ChartData[]] = [[], []];
+  let shown = 0;
+  let missed: ((output: ChartData[]) => void) | undefined;
+
+  const withIndicators = (candle: ChartData, step: (stream: StreamingIndicator) => Outputs): ChartData => {
+    const values: Record<string, number | undefined> = {};
+    streams.forEach((stream, i) => {
+      Object.entries(step(stream)).forEach(([name, value]) => {
+        values[indicatorSeriesKey(instances[i].id, name)] = value;
+      });
+    });
+    return { ...candle, indicators: values };
+  };
+
+  const change = (apply: (output: ChartData[]) => void) => {
+    shown = 1 - shown;
+    missed?.(outputs[shown]);
+    apply(outputs[shown]);
+    missed = apply;
+    return outputs[shown];
+  };
+
+  const start = (data: ChartData[], output: ChartData[]) => {
+    candles = data;
+    outputs = [output, [...output]];
+    shown = 0;
+    missed = undefined;
+    return output;
+  };
+
+  return {
+    // Whether update(data) carries on from the candles it last had, rather
+    // than starting over
+    follows: (data: ChartData[]) => data.length === 0 || followingStep(candles, data) !== undefined,
+
+    // Carry on from a start made elsewhere, e.g. on a worker: `output` is
+    // calculateIndicatorInstances(data, instances) and `states` are where each
+    // instance's stream got to over `data`
+    seed: (data: ChartData[], output: ChartData[], states: StreamState[]) => {
+      streams = instances.map((instance, i) => createStreamingIndicator(instance, states[i]));
+      start(data, output);
+    },
+
+    update: (data: ChartData[]): ChartData[] => {
+      const last = data[data.length - 1];
+      switch (followingStep(candles, data)) {
+        case 'same':
+          return outputs[shown];
+        case 'revise': {
+          candles = data;
+          const revised = withIndicators(last, (stream) => stream.revise(last));
+          return change((output) => {
+            output[output.length - 1] = revised;
+          });
+        }
+        case 'append': {
+          candles = data;
+          const appended = withIndicators(last, (stream) => stream.push(last));
+          return change((output) => {
+            output.push(appended);
+          });
+        }
+        case 'slide': {
+          candles = data;
+          const slid = withIndicators(last, (stream) => stream.push(last));
+          return change((output) => {
+            output.shift();
+            output.push(slid);
+          });
+        }
+        default:
+          streams = instances.map((instance) => createStreamingIndicator(instance));
+          return start(data, data.map((candle) => withIndicators(candle, (stream) => stream.push(candle))));
+      }
+    },
+  };
+};
@@ -1,362 +1,323 @@
-import { ChartData } from '../types/chart';
-import { SMA, EMA, ADX, OBV, VWAP, ATR, CCI, Stochastic, ROC, MFI } from 'technicalindicators';
+import { ChartData, IndicatorInstance, IndicatorParams, IndicatorType } from '../types/chart';
+import * as indicators from './indicators';
+import { IndicatorSeries, toPriceSeries } from './indicators';
+
+export const DEFAULT_INDICATOR_PARAMS: IndicatorParams = {
+  rsi: { period: 14, overbought: 70, oversold: 30 },
+  macd: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+  bollingerBands: { period: 20, multiplier: 2 },
+  movingAverages: { shortPeriod: 50, longPeriod: 200 },
+  sma: { period: 20 },
+  ema: { period: 21 },
+  adx: { period: 14 },
+  obv: {},
+  vwap: {},
+  atr: { period: 14 },
+  cci: { period: 20 },
+  stoch: { period: 14, signalPeriod: 3 },
+  roc: { period: 12 },
+  mfi: { period: 14 },
+  williamsR: { period: 14 },
+  ichimoku: { conversionPeriod: 9, basePeriod: 26, spanBPeriod: 52, displacement: 26 },
+  keltnerChannels: { period: 20, atrPeriod: 10, multiplier: 2 },
+  parabolicSar: { step: 0.02, maxStep: 0.2 },
+  supertrend: { period: 10, multiplier: 3 },
+  donchianChannels: { period: 20 },
+  kst: { roc1: 10, roc2: 15, roc3: 20, roc4: 30, sma1: 10, sma2: 10, sma3: 10, sma4: 15, signalPeriod: 9 },
+  chaikinMoneyFlow: { period: 21 },
+  vwapMomentum: { period: 14 },
+  hma: { period: 16 },
+};
+
+// Signals line up with the candles like the values do, and are 'neutral'
+// wherever the indicator has no value yet
+type SignalResult = { values: IndicatorSeries; signals: string[] };
+
+const levelSignals = (values: IndicatorSeries, above: number, below: number, high: string, low: string) =>
+  values.map((value) => {
+    if (value === undefined) return 'neutral';
+    if (value > above) return high;
+    if (value < below) return low;
+    return 'neutral';
+  });
+
+// 'buy' where a series crosses above zero, 'sell' where it crosses below
+const zeroCrossSignals = (values: IndicatorSeries) =>
+  values.map((value, i) => {
+    const previous = values[i - 1];
+    if (value === undefined || previous === undefined) return 'neutral';
+    if (previous < 0 && value > 0) return 'buy';
+    if (previous > 0 && value < 0) return 'sell';
+    return 'neutral';
+  });
 
 // Calculate RSI with trading signals
-export const calculateRSI = (data: ChartData[], period = 14): {
-  values: number[];
-  signals: string[];
-} => {
-  const prices = data.map(d => d.price);
-  const rsi = [];
-  const signals = [];
-  
-  for (let i = period; i < prices.length; i++) {
-    const gains = [];
-    const losses = [];
-    
-    for (let j = i - period; j < i; j++) {
-      const change = prices[j + 1] - prices[j];
-      if (change > 0) gains.push(change);
-      else losses.push(-change);
-    }
-    
-    const avgGain = gains.reduce((a, b) => a + b, 0) / period;
-    const avgLoss = losses.reduce((a, b) => a + b, 0) / period;
-    
-    const rs = avgGain / avgLoss;
-    const rsiValue = 100 - (100 / (1 + rs));
-    
-    rsi.push(rsiValue);
-    
-    // Generate signals
-    if (rsiValue > 70) {
-      signals.push('overbought');
-    } else if (rsiValue < 30) {
-      signals.push('oversold');
-    } else {
-      signals.push('neutral');
-    }
-  }
-  
-  return {
-    values: rsi,
-    signals
-  };
+export const calculateRSI = (data: ChartData[], period = 14, overbought = 70, oversold = 30): SignalResult => {
+  const values = indicators.rsi(toPriceSeries(data).close, period);
+  return { values, signals: levelSignals(values, overbought, oversold, 'overbought', 'oversold') };
 };
 
 // Calculate MACD with trading signals
-export const calculateMACD = (data: ChartData[], 
-  fastPeriod = 12, 
-  slowPeriod = 26, 
-  signalPeriod = 9
-): {
-  macd: number[];
-  signal: number[];
-  histogram: number[];
+export const calculateMACD = (data: ChartData[], fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
   signals: string[];
 } => {
-  const prices = data.map(d => d.price);
-  const fastEMA = EMA.calculate({
-    period: fastPeriod,
-    values: prices
-  });
-  
-  const slowEMA = EMA.calculate({
-    period: slowPeriod,
-    values: prices
-  });
-  
-  const macdLine = fastEMA.map((value, i) => value - slowEMA[i]);
-  const signalLine = EMA.calculate({
-    period: signalPeriod,
-    values: macdLine
-  });
-  
-  const histogram = macdLine.map((value, i) => value - signalLine[i]);
-  const signals = [];
-  
-  for (let i = 0; i < histogram.length - 1; i++) {
-    // Bullish signal when histogram crosses above zero
-    if (histogram[i] < 0 && histogram[i + 1] > 0) {
-      signals.push('buy');
-    }
-    // Bearish signal when histogram crosses below zero
-    else if (histogram[i] > 0 && histogram[i + 1] < 0) {
-      signals.push('sell');
-    }
-    else {
-      signals.push('neutral');
-    }
-  }
-  
-  return {
-    macd: macdLine,
-    signal: signalLine,
-    histogram,
-    signals
-  };
+  const result = indicators.macd(toPriceSeries(data).close, fastPeriod, slowPeriod, signalPeriod);
+  // Bullish when the histogram crosses above zero, bearish when it crosses below
+  return { ...result, signals: zeroCrossSignals(result.histogram) };
 };
 
 // Calculate Bollinger Bands with trading signals
-export const calculateBollingerBands = (data: ChartData[], 
-  period = 20, 
-  multiplier = 2
-): {
-  upperBand: number[];
-  middleBand: number[];
-  lowerBand: number[];
+export const calculateBollingerBands = (data: ChartData[], period = 20, multiplier = 2): {
+  upperBand: IndicatorSeries;
+  middleBand: IndicatorSeries;
+  lowerBand: IndicatorSeries;
   signals: string[];
 } => {
-  const prices = data.map(d => d.price);
-  const upperBand = [];
-  const middleBand = [];
-  const lowerBand = [];
-  const signals = [];
-  
-  for (let i = period; i < prices.length; i++) {
-    const slice = prices.slice(i - period, i);
-    const sma = SMA.calculate({
-      period,
-      values: slice
-    })[0];
-    
-    const stdDev = Math.sqrt(
-      slice.reduce((sum, price) => sum + Math.pow(price - sma, 2), 0) / period
-    );
-    
-    upperBand.push(sma + (stdDev * multiplier));
-    middleBand.push(sma);
-    lowerBand.push(sma - (stdDev * multiplier));
-    
-    // Generate signals
-    if (prices[i] > upperBand[i - period]) {
-      signals.push('sell');
-    } else if (prices[i] < lowerBand[i - period]) {
-      signals.push('buy');
-    } else {
-      signals.push('neutral');
-    }
-  }
-  
-  return {
-    upperBand,
-    middleBand,
-    lowerBand,
-    signals
-  };
+  const { close } = toPriceSeries(data);
+  const { upper, middle, lower } = indicators.bollingerBands(close, period, multiplier);
+  const signals = close.map((price, i) => {
+    if (upper[i] === undefined || lower[i] === undefined) return 'neutral';
+    if (price > (upper[i] as number)) return 'sell';
+    if (price < (lower[i] as number)) return 'buy';
+    return 'neutral';
+  });
+  return { upperBand: upper, middleBand: middle, lowerBand: lower, signals };
 };
 
 // Calculate Moving Averages
-export const calculateMovingAverages = (data: ChartData[], 
-  shortPeriod = 50, 
-  longPeriod = 200
-): {
-  shortMA: number[];
-  longMA: number[];
+export const calculateMovingAverages = (data: ChartData[], shortPeriod = 50, longPeriod = 200): {
+  shortMA: IndicatorSeries;
+  longMA: IndicatorSeries;
   signals: string[];
 } => {
-  const prices = data.map(d => d.price);
-  const shortMA = SMA.calculate({
-    period: shortPeriod,
-    values: prices
-  });
-  
-  const longMA = SMA.calculate({
-    period: longPeriod,
-    values: prices
-  });
-  
-  const signals = [];
-  
-  for (let i = 0; i < shortMA.length - 1; i++) {
-    // Bullish signal when short MA crosses above long MA
-    if (shortMA[i] < longMA[i] && shortMA[i + 1] > longMA[i + 1]) {
-      signals.push('buy');
-    }
-    // Bearish signal when short MA crosses below long MA
-    else if (shortMA[i] > longMA[i] && shortMA[i + 1] < longMA[i + 1]) {
-      signals.push('sell');
-    }
-    else {
-      signals.push('neutral');
-    }
-  }
-  
-  return {
-    shortMA,
-    longMA,
-    signals
-  };
+  const { close } = toPriceSeries(data);
+  const shortMA = indicators.sma(close, shortPeriod);
+  const longMA = indicators.sma(close, longPeriod);
+  // Bullish when the short MA crosses above the long one, bearish when it crosses below
+  const spread = close.map((_, i) =>
+    shortMA[i] === undefined || longMA[i] === undefined ? undefined : (shortMA[i] as number) - (longMA[i] as number)
+  );
+  return { shortMA, longMA, signals: zeroCrossSignals(spread) };
 };
 
 // Calculate Volume
 export const calculateVolume = (data: ChartData[], period = 20): {
   volume: number[];
-  volumeMA: number[];
+  volumeMA: IndicatorSeries;
   signals: string[];
 } => {
-  const volume = data.map(d => d.volume || 0);
-  const volumeMA = SMA.calculate({
-    period,
-    values: volume
+  const { volume, close } = toPriceSeries(data);
+  const volumeMA = indicators.sma(volume, period);
+  // A volume spike backs the way the price moved on it
+  const signals = volume.map((v, i) => {
+    const average = volumeMA[i];
+    if (i === 0 || average === undefined || v <= average * 1.5) return 'neutral';
+    if (close[i] > close[i - 1]) return 'buy';
+    if (close[i] < close[i - 1]) return 'sell';
+    return 'neutral';
   });
-  
-  const signals = [];
-  
-  for (let i = 0; i < volume.length - 1; i++) {
-    // Bullish signal when volume spikes and price increases
-    if (volume[i] > volumeMA[i] * 1.5 && data[i + 1].price > data[i].price) {
-      signals.push('buy');
-    }
-    // Bearish signal when volume spikes and price decreases
-    else if (volume[i] > volumeMA[i] * 1.5 && data[i + 1].price < data[i].price) {
-      signals.push('sell');
-    }
-    else {
-      signals.push('neutral');
-    }
-  }
-  
-  return {
-    volume,
-    volumeMA,
-    signals
-  };
+  return { volume, volumeMA, signals };
 };
 
 // Calculate ADX
-export const calculateADX = (data: ChartData[], period = 14): {
-  values: number[];
-  signals: string[];
-} => {
-  const highs = data.map(d => d.high || 0);
-  const lows = data.map(d => d.low || 0);
-  const closes = data.map(d => d.price);
-  const adxResults = ADX.calculate({ period, high: highs, low: lows, close: closes });
-  const adxValues = adxResults.map(result => result.adx);
-  const signals = adxValues.map(value => (value > 25 ? 'strong' : 'weak'));
-  return { values: adxValues, signals };
+export const calculateADX = (data: ChartData[], period = 14): SignalResult => {
+  const values = indicators.adx(toPriceSeries(data), period).adx;
+  const signals = values.map((value) => (value === undefined ? 'neutral' : value > 25 ? 'strong' : 'weak'));
+  return { values, signals };
 };
 
 // Calculate OBV
-export const calculateOBV = (data: ChartData[]): {
-  values: number[];
-  signals: string[];
-} => {
-  const closes = data.map(d => d.price);
-  const volumes = data.map(d => d.volume || 0);
-  const obvValues = OBV.calculate({ close: closes, volume: volumes });
-  const signals = obvValues.map((value, i) => {
-    if (i === 0) return 'neutral';
-    return value > obvValues[i - 1] ? 'buy' : 'sell';
+export const calculateOBV = (data: ChartData[]): SignalResult => {
+  const values = indicators.obv(toPriceSeries(data));
+  const signals = values.map((value, i) => {
+    if (i === 0 || value === undefined || values[i - 1] === undefined) return 'neutral';
+    return value > (values[i - 1] as number) ? 'buy' : 'sell';
   });
-  return { values: obvValues, signals };
+  return { values, signals };
 };
 
 // Calculate VWAP
-export const calculateVWAP = (data: ChartData[]): {
-  values: number[];
-  signals: string[];
-} => {
-  const highs = data.map(d => d.high || 0);
-  const lows = data.map(d => d.low || 0);
-  const closes = data.map(d => d.price);
-  const volumes = data.map(d => d.volume || 0);
-  const vwapValues = VWAP.calculate({ high: highs, low: lows, close: closes, volume: volumes });
-  const signals = vwapValues.map(() => 'neutral'); // VWAP signals can be customized
-  return { values: vwapValues, signals };
+export const calculateVWAP = (data: ChartData[]): SignalResult => {
+  const values = indicators.vwap(toPriceSeries(data));
+  return { values, signals: values.map(() => 'neutral') }; // VWAP signals can be customized
 };
 
 // Calculate ATR
-export const calculateATR = (data: ChartData[], period = 14): {
-  values: number[];
-  signals: string[];
-} => {
-  const highs = data.map(d => d.high || 0);
-  const lows = data.map(d => d.low || 0);
-  const closes = data.map(d => d.price);
-  const atrValues = ATR.calculate({ period, high: highs, low: lows, close: closes });
-  const signals = atrValues.map(() => 'neutral'); // ATR signals can be customized
-  return { values: atrValues, signals };
+export const calculateATR = (data: ChartData[], period = 14): SignalResult => {
+  const values = indicators.atr(toPriceSeries(data), period);
+  return { values, signals: values.map(() => 'neutral') }; // ATR signals can be customized
 };
 
 // Calculate CCI
-export const calculateCCI = (data: ChartData[], period = 20): {
-  values: number[];
-  signals: string[];
-} => {
-  const highs = data.map(d => d.high || 0);
-  const lows = data.map(d => d.low || 0);
-  const closes = data.map(d => d.price);
-  const cciValues = CCI.calculate({ period, high: highs, low: lows, close: closes });
-  const signals = cciValues.map(value => {
-    if (value > 100) return 'overbought';
-    if (value < -100) return 'oversold';
-    return 'neutral';
-  });
-  return { values: cciValues, signals };
+export const calculateCCI = (data: ChartData[], period = 20): SignalResult => {
+  const values = indicators.cci(toPriceSeries(data), period);
+  return { values, signals: levelSignals(values, 100, -100, 'overbought', 'oversold') };
 };
 
 // Calculate Stochastic
-export const calculateStoch = (data: ChartData[], period = 14, signalPeriod = 3): {
-  values: number[];
-  signals: string[];
-} => {
-  const highs = data.map(d => d.high || 0);
-  const lows = data.map(d => d.low || 0);
-  const closes = data.map(d => d.price);
-  const stochInput = {
-    high: highs,
-    low: lows,
-    close: closes,
-    period,
-    signalPeriod,
-  };
-  const stochValues = Stochastic.calculate(stochInput);
-  const values = stochValues.map(v => v.k);
-  const signals = values.map(value => {
-    if (value > 80) return 'overbought';
-    if (value < 20) return 'oversold';
-    return 'neutral';
-  });
-  return { values, signals };
+export const calculateStoch = (data: ChartData[], period = 14, signalPeriod = 3): SignalResult => {
+  const values = indicators.stochastic(toPriceSeries(data), period, signalPeriod).k;
+  return { values, signals: levelSignals(values, 80, 20, 'overbought', 'oversold') };
 };
 
 // Calculate ROC
-export const calculateROC = (data: ChartData[], period = 12): {
-  values: number[];
-  signals: string[];
-} => {
-  const prices = data.map(d => d.price);
-  const rocValues = ROC.calculate({ period, values: prices });
-  const signals = rocValues.map(value => {
-    if (value > 0) return 'buy';
-    if (value < 0) return 'sell';
+export const calculateROC = (data: ChartData[], period = 12): SignalResult => {
+  const values = indicators.roc(toPriceSeries(data).close, period);
+  return { values, signals: levelSignals(values, 0, 0, 'buy', 'sell') };
+};
+
+// Calculate MFI
+export const calculateMFI = (data: ChartData[], period = 14): SignalResult => {
+  const values = indicators.mfi(toPriceSeries(data), period);
+  return { values, signals: levelSignals(values, 80, 20, 'overbought', 'oversold') };
+};
+
+// Calculate Williams %R
+export const calculateWilliamsR = (data: ChartData[], period = 14): SignalResult => {
+  const values = indicators.williamsR(toPriceSeries(data), period);
+  return { values, signals: levelSignals(values, -20, -80, 'overbought', 'oversold') };
+};
+
+// Calculate Ichimoku
+export const calculateIchimoku = (
+  data: ChartData[],
+  conversionPeriod = 9,
+  basePeriod = 26,
+  spanBPeriod = 52,
+  displacement = 26
+): ReturnType<typeof indicators.ichimoku> & { signals: string[] } => {
+  const prices = toPriceSeries(data);
+  const result = indicators.ichimoku(prices, conversionPeriod, basePeriod, spanBPeriod, displacement);
+  const { conversion, base, spanA, spanB } = result;
+  // Bullish above the cloud with the conversion line over the base line,
+  // bearish below it with the conversion line under
+  const signals = prices.close.map((price, i) => {
+    const [c, b, a, bb] = [conversion[i], base[i], spanA[i], spanB[i]];
+    if (c === undefined || b === undefined || a === undefined || bb === undefined) return 'neutral';
+    if (price > Math.max(a, bb) && c > b) return 'buy';
+    if (price < Math.min(a, bb) && c < b) return 'sell';
     return 'neutral';
   });
-  return { values: rocValues, signals };
+  return { ...result, signals };
 };
 
-// Calculate MFI
-export const calculateMFI = (data: ChartData[], period = 14): {
-  values: number[];
+// Calculate Keltner Channels
+export const calculateKeltnerChannels = (data: ChartData[], period = 20, atrPeriod = 10, multiplier = 2): {
+  upper: IndicatorSeries;
+  middle: IndicatorSeries;
+  lower: IndicatorSeries;
   signals: string[];
 } => {
-  const highs = data.map(d => d.high || 0);
-  const lows = data.map(d => d.low || 0);
-  const closes = data.map(d => d.price);
-  const volumes = data.map(d => d.volume || 0);
-  const mfiValues = MFI.calculate({ high: highs, low: lows, close: closes, volume: volumes, period });
-  const signals = mfiValues.map(value => {
-    if (value > 80) return 'overbought';
-    if (value < 20) return 'oversold';
+  const prices = toPriceSeries(data);
+  const result = indicators.keltnerChannels(prices, period, atrPeriod, multiplier);
+  // A close outside the channel is a breakout in that direction
+  const signals = prices.close.map((price, i) => {
+    if (result.upper[i] === undefined || result.lower[i] === undefined) return 'neutral';
+    if (price > (result.upper[i] as number)) return 'buy';
+    if (price < (result.lower[i] as number)) return 'sell';
     return 'neutral';
   });
-  return { values: mfiValues, signals };
+  return { ...result, signals };
+};
+
+// Calculate Parabolic SAR
+export const calculateParabolicSar = (data: ChartData[], step = 0.02, maxStep = 0.2): SignalResult => {
+  const prices = toPriceSeries(data);
+  const values = indicators.parabolicSar(prices, step, maxStep);
+  // Long while the stop is below the price, short while it's above
+  const signals = values.map((value, i) => {
+    if (value === undefined) return 'neutral';
+    return prices.close[i] > value ? 'buy' : 'sell';
+  });
+  return { values, signals };
+};
+
+// Calculate Supertrend
+export const calculateSupertrend = (data: ChartData[], period = 10, multiplier = 3): SignalResult => {
+  const { value, direction } = indicators.supertrend(toPriceSeries(data), period, multiplier);
+  const signals = direction.map((d) => (d === undefined ? 'neutral' : d > 0 ? 'buy' : 'sell'));
+  return { values: value, signals };
+};
+
+// Each indicator type's output series
+const INDICATOR_SERIES: {
+  [K in IndicatorType]: (data: ChartData[], params: IndicatorParams[K]) => Record<string, IndicatorSeries>;
+} = {
+  rsi: (data, { period }) => ({ value: indicators.rsi(toPriceSeries(data).close, period) }),
+  macd: (data, { fastPeriod, slowPeriod, signalPeriod }) =>
+    indicators.macd(toPriceSeries(data).close, fastPeriod, slowPeriod, signalPeriod),
+  bollingerBands: (data, { period, multiplier }) =>
+    indicators.bollingerBands(toPriceSeries(data).close, period, multiplier),
+  movingAverages: (data, { shortPeriod, longPeriod }) => {
+    const { close } = toPriceSeries(data);
+    return { short: indicators.sma(close, shortPeriod), long: indicators.sma(close, longPeriod) };
+  },
+  sma: (data, { period }) => ({ value: indicators.sma(toPriceSeries(data).close, period) }),
+  ema: (data, { period }) => ({ value: indicators.ema(toPriceSeries(data).close, period) }),
+  adx: (data, { period }) => ({ value: indicators.adx(toPriceSeries(data), period).adx }),
+  obv: (data) => ({ value: indicators.obv(toPriceSeries(data)) }),
+  vwap: (data) => ({ value: indicators.vwap(toPriceSeries(data)) }),
+  atr: (data, { period }) => ({ value: indicators.atr(toPriceSeries(data), period) }),
+  cci: (data, { period }) => ({ value: indicators.cci(toPriceSeries(data), period) }),
+  stoch: (data, { period, signalPeriod }) => ({
+    value: indicators.stochastic(toPriceSeries(data), period, signalPeriod).k,
+  }),
+  roc: (data, { period }) => ({ value: indicators.roc(toPriceSeries(data).close, period) }),
+  mfi: (data, { period }) => ({ value: indicators.mfi(toPriceSeries(data), period) }),
+  williamsR: (data, { period }) => ({ value: indicators.williamsR(toPriceSeries(data), period) }),
+  // The lagging span is left off the chart: each new candle would move a value
+  // displacement candles back, which the live chart doesn't recalculate
+  ichimoku: (data, { conversionPeriod, basePeriod, spanBPeriod, displacement }) => {
+    const { conversion, base, spanA, spanB } = indicators.ichimoku(
+      toPriceSeries(data), conversionPeriod, basePeriod, spanBPeriod, displacement
+    );
+    return { conversion, base, spanA, spanB };
+  },
+  keltnerChannels: (data, { period, atrPeriod, multiplier }) =>
+    indicators.keltnerChannels(toPriceSeries(data), period, atrPeriod, multiplier),
+  parabolicSar: (data, { step, maxStep }) => ({ value: indicators.parabolicSar(toPriceSeries(data), step, maxStep) }),
+  supertrend: (data, { period, multiplier }) => ({
+    value: indicators.supertrend(toPriceSeries(data), period, multiplier).value,
+  }),
+  donchianChannels: (data, { period }) => indicators.donchianChannels(toPriceSeries(data), period),
+  kst: (data, { roc1, roc2, roc3, roc4, sma1, sma2, sma3, sma4, signalPeriod }) =>
+    indicators.kst(toPriceSeries(data).close, [roc1, roc2, roc3, roc4], [sma1, sma2, sma3, sma4], signalPeriod),
+  chaikinMoneyFlow: (data, { period }) => ({ value: indicators.chaikinMoneyFlow(toPriceSeries(data), period) }),
+  vwapMomentum: (data, { period }) => ({ value: indicators.vwapMomentum(toPriceSeries(data), period) }),
+  hma: (data, { period }) => ({ value: indicators.hma(toPriceSeries(data).close, period) }),
+};
+
+// One indicator instance's output series, by output name
+export const calculateIndicatorSeries = (
+  data: ChartData[],
+  { type, params }: Pick<IndicatorInstance, 'type' | 'params'>
+): Record<string, IndicatorSeries> =>
+  (INDICATOR_SERIES[type] as (data: ChartData[], params: unknown) => Record<string, IndicatorSeries>)(data, params);
+
+// Where an instance's output sits in ChartData.indicators
+export const indicatorSeriesKey = (id: string, output: string) => `${id}.${output}`;
+
+// Candles with every instance's outputs attached
+export const calculateIndicatorInstances = (data: ChartData[], instances: IndicatorInstance[]): ChartData[] => {
+  const series = instances.flatMap((instance) =>
+    Object.entries(calculateIndicatorSeries(data, instance)).map(
+      ([output, values]) => [indicatorSeriesKey(instance.id, output), values] as const
+    )
+  );
+  return data.map((d, i) => ({
+    ...d,
+    indicators: Object.fromEntries(series.map(([key, values]) => [key, values[i]])),
+  }));
 };
 
 // Calculate All Indicators with signals
-export const calculateAllIndicators = (data: ChartData[]): {
+export const calculateAllIndicators = (
+  data: ChartData[],
+  overrides: Partial<IndicatorParams> = {}
+): {
   data: ChartData[];
   signals: {
     rsi: string[];
@@ -372,60 +333,71 @@ export const calculateAllIndicators = (data: ChartData[]): {
     stoch: string[];
     roc: string[];
     mfi: string[];
+    williamsR: string[];
+    ichimoku: string[];
+    keltner: string[];
+    parabolicSar: string[];
+    supertrend: string[];
   };
 } => {
+  const params = { ...DEFAULT_INDICATOR_PARAMS, ...overrides };
+  const { rsi, macd, bollingerBands, movingAverages } = params;
+
   // Calculate indicators
-  const rsiResult = calculateRSI(data);
-  const macdResult = calculateMACD(data);
-  const bollingerResult = calculateBollingerBands(data);
-  const maResult = calculateMovingAverages(data);
+  const rsiResult = calculateRSI(data, rsi.period, rsi.overbought, rsi.oversold);
+  const macdResult = calculateMACD(data, macd.fastPeriod, macd.slowPeriod, macd.signalPeriod);
+  const bollingerResult = calculateBollingerBands(data, bollingerBands.period, bollingerBands.multiplier);
+  const maResult = calculateMovingAverages(data, movingAverages.shortPeriod, movingAverages.longPeriod);
   const volumeResult = calculateVolume(data);
-  const adxResult = calculateADX(data);
+  const adxResult = calculateADX(data, params.adx.period);
   const obvResult = calculateOBV(data);
   const vwapResult = calculateVWAP(data);
-  const atrResult = calculateATR(data);
-  const cciResult = calculateCCI(data);
-  const stochResult = calculateStoch(data);
-  const rocResult = calculateROC(data);
-  const mfiResult = calculateMFI(data);
-
-  // Helper function to pad indicator values with undefined at the start
-  const padValues = (values: number[], length: number): (number | undefined)[] => {
-    const padding = new Array(length - values.length).fill(undefined);
-    return padding.concat(values);
-  };
-
-  // Pad indicator values to align with data length
-  const paddedAdxValues = padValues(adxResult.values, data.length);
-  const paddedVwapValues = padValues(vwapResult.values, data.length);
-  const paddedMfiValues = padValues(mfiResult.values, data.length);
-  const paddedObvValues = padValues(obvResult.values, data.length);
-  const paddedCciValues = padValues(cciResult.values, data.length);
-  const paddedStochValues = padValues(stochResult.values, data.length);
-  const paddedRocValues = padValues(rocResult.values, data.length);
+  const atrResult = calculateATR(data, params.atr.period);
+  const cciResult = calculateCCI(data, params.cci.period);
+  const stochResult = calculateStoch(data, params.stoch.period, params.stoch.signalPeriod);
+  const rocResult = calculateROC(data, params.roc.period);
+  const mfiResult = calculateMFI(data, params.mfi.period);
+  const williamsRResult = calculateWilliamsR(data, params.williamsR.period);
+  const { conversionPeriod, basePeriod, spanBPeriod, displacement } = params.ichimoku;
+  const ichimokuResult = calculateIchimoku(data, conversionPeriod, basePeriod, spanBPeriod, displacement);
+  const keltnerResult = calculateKeltnerChannels(
+    data, params.keltnerChannels.period, params.keltnerChannels.atrPeriod, params.keltnerChannels.multiplier
+  );
+  const sarResult = calculateParabolicSar(data, params.parabolicSar.step, params.parabolicSar.maxStep);
+  const supertrendResult = calculateSupertrend(data, params.supertrend.period, params.supertrend.multiplier);
 
   // Create new data array with indicators
   const newData = data.map((d, i) => ({
     ...d,
-    rsi: i >= 14 ? rsiResult.values[i - 14] : undefined,
-    macd: i >= 26 ? macdResult.macd[i - 26] : undefined,
-    macdSignal: i >= 26 + 9 ? macdResult.signal[i - 26 - 9] : undefined,
-    macdHistogram: i >= 26 + 9 ? macdResult.histogram[i - 26 - 9] : undefined,
-    upperBand: i >= 20 ? bollingerResult.upperBand[i - 20] : undefined,
-    middleBand: i >= 20 ? bollingerResult.middleBand[i - 20] : undefined,
-    lowerBand: i >= 20 ? bollingerResult.lowerBand[i - 20] : undefined,
-    shortMA: i >= 50 ? maResult.shortMA[i - 50] : undefined,
-    longMA: i >= 200 ? maResult.longMA[i - 200] : undefined,
+    rsi: rsiResult.values[i],
+    macd: macdResult.macd[i],
+    macdSignal: macdResult.signal[i],
+    macdHistogram: macdResult.histogram[i],
+    upperBand: bollingerResult.upperBand[i],
+    middleBand: bollingerResult.middleBand[i],
+    lowerBand: bollingerResult.lowerBand[i],
+    shortMA: maResult.shortMA[i],
+    longMA: maResult.longMA[i],
     volume: volumeResult.volume[i],
-    volumeMA: i >= 20 ? volumeResult.volumeMA[i - 20] : undefined,
-    adx: paddedAdxValues[i],
-    obv: paddedObvValues[i],
-    vwap: paddedVwapValues[i],
-    atr: i >= 14 ? atrResult.values[i - 14] : undefined,
-    cci: paddedCciValues[i],
-    stoch: paddedStochValues[i],
-    roc: paddedRocValues[i],
-    mfi: paddedMfiValues[i],
+    volumeMA: volumeResult.volumeMA[i],
+    adx: adxResult.values[i],
+    obv: obvResult.values[i],
+    vwap: vwapResult.values[i],
+    atr: atrResult.values[i],
+    cci: cciResult.values[i],
+    stoch: stochResult.values[i],
+    roc: rocResult.values[i],
+    mfi: mfiResult.values[i],
+    williamsR: williamsRResult.values[i],
+    ichimokuConversion: ichimokuResult.conversion[i],
+    ichimokuBase: ichimokuResult.base[i],
+    ichimokuSpanA: ichimokuResult.spanA[i],
+    ichimokuSpanB: ichimokuResult.spanB[i],
+    keltnerUpper: keltnerResult.upper[i],
+    keltnerMiddle: keltnerResult.middle[i],
+    keltnerLower: keltnerResult.lower[i],
+    parabolicSar: sarResult.values[i],
+    supertrend: supertrendResult.values[i],
   }));
 
   // Combine signals from all indicators
@@ -443,6 +415,11 @@ export const calculateAllIndicators = (data: ChartData[]): {
     stoch: stochResult.signals,
     roc: rocResult.signals,
     mfi: mfiResult.signals,
+    williamsR: williamsRResult.signals,
+    ichimoku: ichimokuResult.signals,
+    keltner: keltnerResult.signals,
+    parabolicSar: sarResult.signals,
+    supertrend: supertrendResult.signals,
   };
 
   return { data: newData, signals };
@@ -0,0 +1,16 @@
+/* eslint-disable no-restricted-globals */
+import { runComputeJob } from './jobs';
+import { ComputeRequest, ComputeResponse, transferablesOf } from './protocol';
+
+// One job at a time; the pool stops a job by terminating the worker
+const post = (response: ComputeResponse) =>
+  (self as unknown as Worker).postMessage(response, transferablesOf(response));
+
+self.onmessage = ({ data: { id, job } }: MessageEvent<ComputeRequest>) => {
+  try {
+    const result = runComputeJob(job, (progress) => post({ id, type: 'progress', progress }));
+    post({ id, type: 'result', result });
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
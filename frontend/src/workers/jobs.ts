@@ -0,0 +1,68 @@
+import { indicatorSeriesKey } from '../utils/technicalIndicators';
+import { createStreamingIndicator } from '../utils/streamingIndicators';
+import { runBacktest } from '../utils/backtest';
+import { createStrategy } from '../utils/strategies';
+import { optimizeStrategy, runWalkForward } from '../utils/optimization';
+import { ComputeJob, ComputeJobOf, ComputeKind, ComputeResults, unpackCandles } from './protocol';
+
+type Progress = (progress: number) => void;
+
+// Each instance fed through its stream, which gives the batch values, so the
+// page can carry the streams on from where they got to
+const indicators = ({ candles, instances }: ComputeJobOf<'indicators'>, onProgress: Progress) => {
+  const data = unpackCandles(candles);
+  const series: ComputeResults['indicators']['series'] = {};
+  const states = instances.map((instance, i) => {
+    const stream = createStreamingIndicator(instance);
+    data.forEach((candle, j) => {
+      Object.entries(stream.push(candle)).forEach(([output, value]) => {
+        const key = indicatorSeriesKey(instance.id, output);
+        if (!series[key]) series[key] = new Float64Array(data.length);
+        series[key][j] = value ?? NaN;
+      });
+    });
+    onProgress((i + 1) / instances.length);
+    return stream.state();
+  });
+  return { series, states };
+};
+
+// Small seeded generator (mulberry32), so a bootstrap can be repeated exactly
+const random = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Resample trade returns with replacement and compound each sample
+const bootstrap = ({ returns, samples, sampleSize, seed }: ComputeJobOf<'bootstrap'>, onProgress: Progress) => {
+  const next = random(seed);
+  const size = Math.max(1, Math.round(returns.length * sampleSize));
+  const totals = new Float64Array(samples);
+  for (let s = 0; s < samples; s++) {
+    let growth = 1;
+    for (let i = 0; i < size && returns.length > 0; i++) {
+      growth *= 1 + returns[Math.floor(next() * returns.length)];
+    }
+    totals[s] = growth - 1;
+    if ((s + 1) % Math.ceil(samples / 100) === 0) onProgress((s + 1) / samples);
+  }
+  return totals.sort();
+};
+
+const JOBS: { [K in ComputeKind]: (job: ComputeJobOf<K>, onProgress: Progress) => ComputeResults[K] } = {
+  indicators,
+  backtest: ({ candles, strategy, details }, onProgress) =>
+    runBacktest(unpackCandles(candles), createStrategy(strategy), details, onProgress),
+  optimize: ({ candles, strategy, grid, metric, details }, onProgress) =>
+    optimizeStrategy(unpackCandles(candles), { id: strategy }, grid, metric, details, onProgress),
+  bootstrap,
+  walkForward: ({ candles, strategy, grid, settings, details }, onProgress) =>
+    runWalkForward(unpackCandles(candles), strategy, grid, settings, details, onProgress),
+};
+
+// Run a job to completion. The worker calls this, and so does the pool when
+// workers aren't available.
+export const runComputeJob = <K extends ComputeKind>(job: ComputeJobOf<K>, onProgress: Progress): ComputeResults[K] =>
+  (JOBS[job.kind] as (job: ComputeJob, onProgress: Progress) => ComputeResults[K])(job, onProgress);
@@ -0,0 +1,174 @@
+import { runComputeJob } from './jobs';
+import {
+  ComputeJob,
+  ComputeJobOf,
+  ComputeKind,
+  ComputeOptions,
+  ComputeRequest,
+  ComputeResponse,
+  ComputeResults,
+  transferablesOf,
+} from './protocol';
+
+// Rejects a job that was stopped through its AbortSignal
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export const isJobCancelled = (error: unknown) => error instanceof JobCancelledError;
+
+// A job waiting or running. resolve is a method, so tasks of every kind fit in
+// the one queue.
+interface Task<K extends ComputeKind = ComputeKind> {
+  id: number;
+  job: ComputeJob;
+  options: ComputeOptions;
+  resolve(result: ComputeResults[K]): void;
+  reject: (error: Error) => void;
+  worker?: Worker;
+  cleanup: () => void;
+}
+
+export interface WorkerPool {
+  run: <K extends ComputeKind>(job: ComputeJobOf<K>, options?: ComputeOptions) => Promise<ComputeResults[K]>;
+  terminate: () => void;
+}
+
+// Up to `size` workers, started as jobs arrive and reused after. Jobs beyond
+// that wait their turn. Cancelling a running job terminates its worker, since
+// a busy worker can't read a message asking it to stop.
+export const createWorkerPool = (createWorker: () => Worker, size: number): WorkerPool => {
+  const idle: Worker[] = [];
+  const queue: Task[] = [];
+  const running = new Set<Task>();
+  let workers = 0;
+  let nextId = 0;
+
+  const finish = (task: Task) => {
+    task.cleanup();
+    running.delete(task);
+    if (task.worker) {
+      task.worker.onmessage = null;
+      task.worker.onerror = null;
+    }
+  };
+
+  const discard = (worker: Worker) => {
+    worker.terminate();
+    workers -= 1;
+  };
+
+  const start = (task: Task, worker: Worker) => {
+    task.worker = worker;
+    running.add(task);
+    worker.onmessage = ({ data }: MessageEvent<ComputeResponse>) => {
+      if (data.id !== task.id) return;
+      if (data.type === 'progress') {
+        task.options.onProgress?.(data.progress);
+        return;
+      }
+      finish(task);
+      idle.push(worker);
+      if (data.type === 'result') task.resolve(data.result);
+      else task.reject(new Error(data.message));
+      schedule();
+    };
+    worker.onerror = (event) => {
+      finish(task);
+      discard(worker);
+      task.reject(new Error(event.message || 'Worker failed'));
+      schedule();
+    };
+    const request: ComputeRequest = { id: task.id, job: task.job };
+    worker.postMessage(request, transferablesOf(task.job));
+  };
+
+  const schedule = () => {
+    while (queue.length > 0 && (idle.length > 0 || workers < size)) {
+      let worker = idle.pop();
+      if (!worker) {
+        worker = createWorker();
+        workers += 1;
+      }
+      start(queue.shift() as Task, worker);
+    }
+  };
+
+  return {
+    run: <K extends ComputeKind>(job: ComputeJobOf<K>, options: ComputeOptions = {}) =>
+      new Promise<ComputeResults[K]>((resolve, reject) => {
+        const { signal } = options;
+        if (signal?.aborted) {
+          reject(new JobCancelledError());
+          return;
+        }
+        const task: Task<K> = { id: nextId++, job, options, resolve, reject, cleanup: () => undefined };
+        const cancel = () => {
+          if (running.has(task)) {
+            finish(task);
+            discard(task.worker as Worker);
+          } else {
+            queue.splice(queue.indexOf(task), 1);
+            task.cleanup();
+          }
+          reject(new JobCancelledError());
+          schedule();
+        };
+        signal?.addEventListener('abort', cancel);
+        task.cleanup = () => signal?.removeEventListener('abort', cancel);
+        queue.push(task);
+        schedule();
+      }),
+    terminate: () => {
+      queue.splice(0).forEach((task) => {
+        task.cleanup();
+        task.reject(new JobCancelledError());
+      });
+      running.forEach((task) => {
+        finish(task);
+        task.worker?.terminate();
+        task.reject(new JobCancelledError());
+      });
+      idle.splice(0).forEach((worker) => worker.terminate());
+      workers = 0;
+    },
+  };
+};
+
+// Without worker support (old browsers, tests) jobs run here, on the calling
+// thread, and can only be cancelled before they start
+const inlinePool: WorkerPool = {
+  run: (job, { onProgress, signal } = {}) => new Promise((resolve, reject) => {
+    setTimeout(() => {
+      if (signal?.aborted) {
+        reject(new JobCancelledError());
+        return;
+      }
+      try {
+        resolve(runComputeJob(job, (progress) => onProgress?.(progress)));
+      } catch (error) {
+        reject(error);
+      }
+    }, 0);
+  }),
+  terminate: () => undefined,
+};
+
+let sharedPool: WorkerPool | undefined;
+
+// The pool indicator batches, backtests and optimizations run on, one worker
+// per spare core up to four
+export const getComputePool = (): WorkerPool => {
+  if (!sharedPool) {
+    sharedPool = typeof Worker === 'undefined'
+      ? inlinePool
+      : createWorkerPool(
+        () => new Worker(new URL('./compute.worker.ts', import.meta.url)),
+        Math.min(4, Math.max(1, (navigator.hardwareConcurrency || 2) - 1))
+      );
+  }
+  return sharedPool;
+};
@@ -0,0 +1,121 @@
+import { ChartData, IndicatorInstance } from '../types/chart';
+import {
+  BacktestDetails,
+  BacktestResult,
+  BacktestSummary,
+  OptimizationMetric,
+  StrategySpec,
+  WalkForwardResult,
+  WalkForwardSettings,
+} from '../types/backtest';
+import { IndicatorSeries } from '../utils/indicators';
+import { StrategyParams } from '../utils/strategies';
+import { StreamState } from '../utils/streamingIndicators';
+
+// Messages between the page and the compute workers. Bulk numbers travel as
+// Float64Arrays so their buffers can be transferred instead of copied; a
+// missing value (an indicator still warming up) is NaN. Sending a job hands
+// its buffers over, so pack the data afresh for each job.
+
+export interface CandleColumns {
+  timestamp: Float64Array;
+  open: Float64Array;
+  high: Float64Array;
+  low: Float64Array;
+  close: Float64Array;
+  volume: Float64Array;
+}
+
+export type { OptimizationMetric } from '../types/backtest';
+
+export type ComputeJob =
+  | { kind: 'indicators'; candles: CandleColumns; instances: Pick<IndicatorInstance, 'id' | 'type' | 'params'>[] }
+  | { kind: 'backtest'; candles: CandleColumns; strategy: StrategySpec; details: BacktestDetails }
+  | {
+    kind: 'optimize';
+    candles: CandleColumns;
+    strategy: string; // id in STRATEGIES
+    grid: Record<string, number[]>; // values to try for each param; the rest keep their defaults
+    metric: OptimizationMetric;
+    details: BacktestDetails;
+  }
+  | { kind: 'bootstrap'; returns: Float64Array; samples: number; sampleSize: number; seed: number }
+  | {
+    kind: 'walkForward';
+    candles: CandleColumns;
+    strategy: StrategySpec;
+    grid: Record<string, number[]>; // as for optimize; custom rules have no params to vary
+    settings: WalkForwardSettings;
+    details: BacktestDetails;
+  };
+
+export interface OptimizationRun {
+  params: StrategyParams;
+  result: BacktestSummary;
+}
+
+export interface IndicatorBatch {
+  series: Record<string, Float64Array>; // keyed by indicatorSeriesKey
+  states: StreamState[]; // each instance's, to carry its stream on from the last candle
+}
+
+export interface ComputeResults {
+  indicators: IndicatorBatch;
+  backtest: BacktestResult;
+  optimize: OptimizationRun[]; // best first
+  bootstrap: Float64Array; // total return of each sample, ascending
+  walkForward: WalkForwardResult;
+}
+
+export type ComputeKind = ComputeJob['kind'];
+export type ComputeJobOf<K extends ComputeKind> = Extract<ComputeJob, { kind: K }>;
+
+export interface ComputeRequest {
+  id: number;
+  job: ComputeJob;
+}
+
+export type ComputeResponse =
+  | { id: number; type: 'progress'; progress: number } // 0 to 1
+  | { id: number; type: 'result'; result: ComputeResults[ComputeKind] }
+  | { id: number; type: 'error'; message: string };
+
+export interface ComputeOptions {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+export const packCandles = (candles: ChartData[]): CandleColumns => {
+  const column = (value: (d: ChartData) => number) => Float64Array.from(candles, value);
+  return {
+    timestamp: column((d) => d.timestamp),
+    open: column((d) => d.open ?? d.price),
+    high: column((d) => d.high ?? d.price),
+    low: column((d) => d.low ?? d.price),
+    close: column((d) => d.close ?? d.price),
+    volume: column((d) => d.volume || 0),
+  };
+};
+
+export const unpackCandles = (columns: CandleColumns): ChartData[] =>
+  Array.from(columns.timestamp, (timestamp, i) => ({
+    timestamp,
+    price: columns.close[i],
+    open: columns.open[i],
+    high: columns.high[i],
+    low: columns.low[i],
+    close: columns.close[i],
+    volume: columns.volume[i],
+  }));
+
+export const packSeries = (series: IndicatorSeries) => Float64Array.from(series, (v) => v ?? NaN);
+
+export const unpackSeries = (values: Float64Array): IndicatorSeries =>
+  Array.from(values, (v) => (Number.isNaN(v) ? undefined : v));
+
+// The buffers a message can hand over rather than copy
+export const transferablesOf = (message: unknown): Transferable[] => {
+  if (message instanceof Float64Array) return [message.buffer];
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) return [];
+  return Object.values(message).flatMap(transferablesOf);
+};